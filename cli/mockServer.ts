@@ -0,0 +1,83 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mockProvider } from '../services/providers/mockProvider';
+import { EMOTION_OPTIONS, LANGUAGE_OPTIONS } from '../constants';
+import { Emotion, Language } from '../types';
+import { isRecord } from '../services/jsonStorage';
+
+export interface MockTtsServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 1_000_000;
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large.'));
+        request.destroy();
+      }
+    });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+const sendJson = (response: ServerResponse, status: number, body: object) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+/**
+ * Offline stand-in for the self-hosted TTS service (see httpProvider.ts). It
+ * answers `POST /synthesize` with the deterministic tones of the mock provider,
+ * so the CLI can be exercised end to end without network access or a key.
+ */
+export function startMockTtsServer(port = 0, host = '127.0.0.1'): Promise<MockTtsServer> {
+  const server = createServer(async (request, response) => {
+    if (request.method !== 'POST' || request.url !== '/synthesize') {
+      sendJson(response, 404, { error: 'Not found. Use POST /synthesize.' });
+      return;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await readBody(request));
+    } catch {
+      sendJson(response, 400, { error: 'Body must be JSON.' });
+      return;
+    }
+    const body = isRecord(parsed) ? parsed : {};
+    const { script, voice } = body;
+    if (typeof script !== 'string' || !script.trim()) {
+      sendJson(response, 400, { error: '"script" is required.' });
+      return;
+    }
+    const emotion: Emotion = EMOTION_OPTIONS.find((option) => option.id === body.emotion)?.id ?? 'neutral';
+    const language: Language = LANGUAGE_OPTIONS.find((option) => option.id === body.language)?.id ?? 'english';
+    const voiceName = typeof voice === 'string' ? voice : 'mock-low';
+    const audio = await mockProvider.generateSpeech({
+      script,
+      voiceOption: { id: voiceName, label: voiceName, voiceName, description: '' },
+      emotion,
+      language,
+      slow: body.rate === 'slow',
+    });
+    sendJson(response, 200, { audio });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://${host}:${boundPort}`,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
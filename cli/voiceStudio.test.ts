@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFile, spawn } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { startMockTtsServer, MockTtsServer } from './mockServer';
+import { TTS_SAMPLE_RATE, VOICE_OPTIONS } from '../constants';
+
+// Runs the bundle that `npm run build:cli` ships as the voice-studio bin
+const CLI = ['dist-cli/voiceStudio.js'];
+const CLI_TIMEOUT_MS = 60_000;
+
+function runCli(args: string[]): Promise<{ code: number, stdout: string, stderr: string }> {
+  return new Promise((resolve) => {
+    execFile(process.execPath, [...CLI, ...args], { timeout: CLI_TIMEOUT_MS }, (error, stdout, stderr) => {
+      resolve({ code: error ? Number(error.code ?? 1) : 0, stdout, stderr });
+    });
+  });
+}
+
+describe('voice-studio CLI', () => {
+  let dir: string;
+  let server: MockTtsServer;
+
+  beforeAll(async () => {
+    await promisify(execFile)('npm', ['run', 'build:cli'], { timeout: CLI_TIMEOUT_MS });
+    dir = await mkdtemp(join(tmpdir(), 'voice-studio-'));
+    server = await startMockTtsServer();
+  }, CLI_TIMEOUT_MS);
+
+  afterAll(async () => {
+    await server.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('speaks a marked-up script into a WAV file through the mock server', async () => {
+    const input = join(dir, 'script.txt');
+    const output = join(dir, 'out.wav');
+    await writeFile(input, 'Hello there. [pause 200ms] <slow>Goodbye.</slow>');
+
+    const { code, stderr } = await runCli(['synth', '--provider', 'mock', '-i', input, '-o', output, '--bit-depth', '24']);
+
+    expect(code).toBe(0);
+    expect(stderr).toMatch(/^Wrote .*out\.wav \(\d+\.\d s\)$/m);
+    const wav = await readFile(output);
+    expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(wav.toString('ascii', 8, 12)).toBe('WAVE');
+    expect(wav.readUInt32LE(24)).toBe(TTS_SAMPLE_RATE);
+    expect(wav.readUInt16LE(34)).toBe(24);
+    expect(wav.length).toBeGreaterThan(44 + TTS_SAMPLE_RATE * 3 * 0.2);
+  }, CLI_TIMEOUT_MS);
+
+  it('uses a running server given by --url', async () => {
+    const input = join(dir, 'url.txt');
+    const output = join(dir, 'url.wav');
+    await writeFile(input, 'Namaste.');
+
+    const { code } = await runCli(['synth', '--provider', 'http', '--url', server.url, '-i', input, '-o', output, '--voice', VOICE_OPTIONS[1].id]);
+
+    expect(code).toBe(0);
+    expect((await readFile(output)).toString('ascii', 0, 4)).toBe('RIFF');
+  }, CLI_TIMEOUT_MS);
+
+  it('prints the usage and exits with 2 on a bad invocation', async () => {
+    const { code, stderr } = await runCli(['synth', '--provider', 'mock', '-o', join(dir, 'x.wav'), '--emotion', 'furious']);
+
+    expect(code).toBe(2);
+    expect(stderr).toContain('Unknown emotion "furious"');
+    expect(stderr).toContain('Usage:');
+  }, CLI_TIMEOUT_MS);
+
+  it('exits cleanly when the reader closes the pipe early', async () => {
+    const child = spawn(process.execPath, [...CLI, 'voices', '--provider', 'mock'], { timeout: CLI_TIMEOUT_MS });
+    child.stdout.destroy(); // Like `voices | head -0`
+    let stderr = '';
+    child.stderr.on('data', (chunk) => { stderr += chunk; });
+
+    const code = await new Promise((resolve) => child.on('close', resolve));
+
+    expect(stderr).not.toContain('EPIPE');
+    expect(code).toBe(0);
+  }, CLI_TIMEOUT_MS);
+});
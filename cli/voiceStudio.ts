@@ -0,0 +1,260 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { parseMarkup, buildSpeechPlan } from '../services/scriptMarkup';
+import { chunkSpeechPlan } from '../services/scriptChunker';
+import { pcm16ToWAV } from '../services/encoders/wav';
+import { SpeechError } from '../services/speechErrors';
+import { TtsProvider, getTtsProvider } from '../services/providers';
+import { createHttpTtsProvider } from '../services/providers/httpProvider';
+import { startMockTtsServer, MockTtsServer } from './mockServer';
+import {
+  decode,
+  concatPCM,
+  TTS_SAMPLE_RATE,
+  CHUNK_MAX_CHARS,
+  DEFAULT_CHUNK_SILENCE_MS,
+  VOICE_OPTIONS,
+  LANGUAGE_OPTIONS,
+  EMOTION_OPTIONS,
+} from '../constants';
+import { Emotion, Language, WavBitDepth } from '../types';
+
+const USAGE = `Usage:
+  voice-studio synth -o out.wav [-i script.txt] [options]
+  voice-studio voices [--provider <id>]
+  voice-studio mock-server [--port 8787]
+
+Options for synth:
+  -i, --input <file>     Script to speak; reads stdin when omitted or "-"
+  -o, --output <file>    WAV file to write
+  --provider <id>        gemini (default), http or mock
+  --voice <id>           Voice id, see "voice-studio voices"
+  --lang <id>            ${LANGUAGE_OPTIONS.map((option) => option.id).join(', ')}
+  --emotion <id>         ${EMOTION_OPTIONS.map((option) => option.id).join(', ')}
+  --bit-depth <bits>     16 (default), 24 or 32
+  --url <url>            Service URL for http and mock (mock starts its own server otherwise)
+
+Environment: GEMINI_API_KEY for gemini; TTS_HTTP_URL and TTS_HTTP_VOICES for http.`;
+
+// Thrown for bad invocations; printed with the usage text
+class UsageError extends Error {}
+
+const CLI_PROVIDERS = ['gemini', 'http', 'mock'] as const;
+type CliProviderId = typeof CLI_PROVIDERS[number];
+
+interface ResolvedProvider {
+  provider: TtsProvider;
+  server?: MockTtsServer; // Mock server started for this run, closed when it ends
+}
+
+/**
+ * The mock provider speaks to the offline stand-in server through the HTTP
+ * provider, so the whole request path is exercised.
+ */
+async function resolveProvider(id: string, url: string | undefined): Promise<ResolvedProvider> {
+  if (!CLI_PROVIDERS.includes(id as CliProviderId)) {
+    throw new UsageError(`Unknown provider "${id}". Use one of: ${CLI_PROVIDERS.join(', ')}.`);
+  }
+  if (id === 'gemini') {
+    const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new UsageError('Set GEMINI_API_KEY to use the gemini provider, or pass --provider mock.');
+    }
+    // geminiService reads the key the web build injects as API_KEY
+    process.env.API_KEY = apiKey;
+    return { provider: getTtsProvider('gemini') };
+  }
+  if (id === 'http' && !url) {
+    const configured = getTtsProvider('http');
+    if (configured.id !== 'http') {
+      throw new UsageError('Set TTS_HTTP_URL or pass --url to use the http provider.');
+    }
+    return { provider: configured };
+  }
+
+  const server = id === 'mock' && !url ? await startMockTtsServer() : undefined;
+  const provider = createHttpTtsProvider({
+    baseUrl: url ?? server!.url,
+    label: id === 'mock' ? 'Mock server' : undefined,
+    voices: VOICE_OPTIONS,
+    languages: LANGUAGE_OPTIONS,
+    emotions: EMOTION_OPTIONS.map((option) => option.id),
+  });
+  return { provider, server };
+}
+
+function pickOption<T extends string>(value: string | undefined, allowed: readonly T[], name: string): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`Unknown ${name} "${value}". Use one of: ${allowed.join(', ')}.`);
+  }
+  return value as T;
+}
+
+const silence = (ms: number) => new Uint8Array(Math.round((ms / 1000) * TTS_SAMPLE_RATE) * 2);
+
+async function readScript(input: string | undefined): Promise<string> {
+  if (input && input !== '-') {
+    return readFile(input, 'utf8');
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Speaks a marked-up script the way the editor does: pauses become silence,
+ * long passages are split into requests and joined with a short gap.
+ */
+async function synthesizeScript(
+  provider: TtsProvider,
+  script: string,
+  options: { voiceId?: string, language: Language, emotion: Emotion, signal?: AbortSignal, onProgress?: (done: number, total: number) => void },
+): Promise<Uint8Array> {
+  const markup = parseMarkup(script);
+  if (markup.errors.length > 0) {
+    throw new Error(`Script markup errors:\n${markup.errors.map((error) => `  line ${error.line}, column ${error.column}: ${error.message}`).join('\n')}`);
+  }
+  const voiceOption = options.voiceId === undefined ? provider.voices[0] : provider.voices.find((voice) => voice.id === options.voiceId);
+  if (!voiceOption) {
+    throw new UsageError(`Unknown voice "${options.voiceId}". Use one of: ${provider.voices.map((voice) => voice.id).join(', ')}.`);
+  }
+  if (!provider.emotions.includes(options.emotion)) {
+    throw new UsageError(`The ${provider.label} provider does not support the "${options.emotion}" emotion.`);
+  }
+
+  const plan = buildSpeechPlan(markup.segments);
+  if (plan.parts.length === 0) {
+    throw new Error('The script has no text to speak.');
+  }
+  const chunks = chunkSpeechPlan(plan, CHUNK_MAX_CHARS);
+
+  const pcm: Uint8Array[] = [silence(plan.leadingPauseMs)];
+  for (const [index, chunk] of chunks.entries()) {
+    const audio = await provider.generateSpeech({
+      script: chunk.text,
+      voiceOption,
+      emotion: options.emotion,
+      language: options.language,
+      slow: chunk.slow,
+      signal: options.signal,
+    });
+    pcm.push(decode(audio));
+    if (index < chunks.length - 1) {
+      pcm.push(silence(chunk.pauseAfterMs || DEFAULT_CHUNK_SILENCE_MS));
+    }
+    options.onProgress?.(index + 1, chunks.length);
+  }
+  return concatPCM(pcm);
+}
+
+async function runSynth(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      input: { type: 'string', short: 'i' },
+      output: { type: 'string', short: 'o' },
+      provider: { type: 'string', default: 'gemini' },
+      voice: { type: 'string' },
+      lang: { type: 'string', default: 'english' },
+      emotion: { type: 'string', default: 'neutral' },
+      'bit-depth': { type: 'string', default: '16' },
+      url: { type: 'string' },
+    },
+  });
+  if (!values.output) {
+    throw new UsageError('Missing --output.');
+  }
+  const language = pickOption(values.lang, LANGUAGE_OPTIONS.map((option) => option.id), 'language')!;
+  const emotion = pickOption(values.emotion, EMOTION_OPTIONS.map((option) => option.id), 'emotion')!;
+  const bitDepth = Number(pickOption(values['bit-depth'], ['16', '24', '32'], 'bit depth')) as WavBitDepth;
+  const script = await readScript(values.input);
+
+  const { provider, server } = await resolveProvider(values.provider, values.url);
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort();
+  process.once('SIGINT', onInterrupt);
+  try {
+    const pcm = await synthesizeScript(provider, script, {
+      voiceId: values.voice,
+      language,
+      emotion,
+      signal: controller.signal,
+      onProgress: (done, total) => {
+        if (total > 1) {
+          process.stderr.write(`Generated ${done} of ${total} parts\n`);
+        }
+      },
+    });
+    await writeFile(values.output, pcm16ToWAV(pcm, TTS_SAMPLE_RATE, bitDepth));
+    process.stderr.write(`Wrote ${values.output} (${(pcm.length / 2 / TTS_SAMPLE_RATE).toFixed(1)} s)\n`);
+  } finally {
+    process.off('SIGINT', onInterrupt);
+    await server?.close();
+  }
+}
+
+async function runVoices(args: string[]) {
+  const { values } = parseArgs({ args, options: { provider: { type: 'string', default: 'gemini' }, url: { type: 'string' } } });
+  // Listing voices needs no key, so the gemini list is read without resolving the provider
+  const { provider, server } = values.provider === 'gemini'
+    ? { provider: getTtsProvider('gemini'), server: undefined }
+    : await resolveProvider(values.provider, values.url);
+  await server?.close();
+  provider.voices.forEach((voice) => process.stdout.write(`${voice.id}\t${voice.label}\n`));
+}
+
+async function runMockServer(args: string[]) {
+  const { values } = parseArgs({ args, options: { port: { type: 'string', default: '8787' }, host: { type: 'string', default: '127.0.0.1' } } });
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new UsageError(`Invalid port "${values.port}".`);
+  }
+  const server = await startMockTtsServer(port, values.host);
+  process.stderr.write(`Mock TTS server listening on ${server.url} (POST /synthesize). Press Ctrl+C to stop.\n`);
+  process.once('SIGINT', () => void server.close());
+}
+
+const COMMANDS: Record<string, (args: string[]) => Promise<void>> = {
+  synth: runSynth,
+  voices: runVoices,
+  'mock-server': runMockServer,
+};
+
+async function main(argv: string[]) {
+  const [command, ...args] = argv;
+  if (!command || command === '--help' || command === '-h' || command === 'help') {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  const run = COMMANDS[command];
+  if (!run) {
+    throw new UsageError(`Unknown command "${command}".`);
+  }
+  await run(args);
+}
+
+// A reader that stops early (`voices | head`) closes the pipe; that is not a failure
+process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+  if (error.code !== 'EPIPE') {
+    throw error;
+  }
+  process.exit(process.exitCode ?? 0);
+});
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  if (error instanceof UsageError || (error as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS')) {
+    process.stderr.write(`voice-studio: ${(error as Error).message}\n\n${USAGE}\n`);
+    process.exitCode = 2;
+    return;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const kind = error instanceof SpeechError ? ` [${error.kind}]` : '';
+  process.stderr.write(`voice-studio: ${message}${kind}\n`);
+  process.exitCode = 1;
+});
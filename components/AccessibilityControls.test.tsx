@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import AccessibilityControls from './AccessibilityControls';
+import { useHighContrast } from '../hooks/useHighContrast';
+import { HIGH_CONTRAST_STORAGE_KEY } from '../constants';
+
+// jsdom does no layout, so colour contrast cannot be measured here
+const AXE_OPTIONS: axe.RunOptions = { rules: { 'color-contrast': { enabled: false } } };
+
+// The controls wired to the theme the way the studio uses them
+const Controls: React.FC = () => {
+  const [highContrast, toggle] = useHighContrast();
+  return <main><AccessibilityControls highContrast={highContrast} onHighContrastToggle={toggle} /></main>;
+};
+
+describe('AccessibilityControls', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    document.documentElement.classList.remove('high-contrast');
+  });
+
+  afterEach(cleanup);
+
+  it('switches the high-contrast theme and remembers the choice', () => {
+    render(<Controls />);
+    const button = screen.getByRole('button', { name: 'High contrast' });
+    expect(button.getAttribute('aria-pressed')).toBe('false');
+
+    fireEvent.click(button);
+    expect(button.getAttribute('aria-pressed')).toBe('true');
+    expect(document.documentElement.classList.contains('high-contrast')).toBe(true);
+    expect(localStorage.getItem(HIGH_CONTRAST_STORAGE_KEY)).toBe('true');
+
+    fireEvent.click(button);
+    expect(document.documentElement.classList.contains('high-contrast')).toBe(false);
+    expect(localStorage.getItem(HIGH_CONTRAST_STORAGE_KEY)).toBe('false');
+  });
+
+  it('starts in the saved theme', () => {
+    localStorage.setItem(HIGH_CONTRAST_STORAGE_KEY, 'true');
+    render(<Controls />);
+    expect(screen.getByRole('button', { name: 'High contrast' }).getAttribute('aria-pressed')).toBe('true');
+    expect(document.documentElement.classList.contains('high-contrast')).toBe(true);
+  });
+
+  it('lists every shortcut with its keys', () => {
+    render(<Controls />);
+    expect(screen.getByText('Generate the voice-over').previousElementSibling?.textContent).toBe('Ctrl+Enter');
+    expect(screen.getByText('Play or pause the current take').previousElementSibling?.textContent).toBe('Alt+Shift+P');
+  });
+
+  it('has no axe violations in either theme', async () => {
+    const { container } = render(<Controls />);
+    expect((await axe.run(container, AXE_OPTIONS)).violations).toEqual([]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'High contrast' }));
+    expect((await axe.run(container, AXE_OPTIONS)).violations).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import React from 'react';
+import { shortcutLabel } from '../services/shortcuts';
+import { KEYBOARD_SHORTCUTS } from '../constants';
+
+interface AccessibilityControlsProps {
+  highContrast: boolean;
+  onHighContrastToggle: () => void;
+}
+
+const kbdClassName = "font-mono border border-gray-300 rounded px-1";
+
+// Keyboard shortcut reference and the high-contrast theme switch
+const AccessibilityControls: React.FC<AccessibilityControlsProps> = ({ highContrast, onHighContrastToggle }) => (
+  <div className="flex flex-wrap items-start justify-between gap-3 text-sm text-gray-700">
+    <details>
+      <summary className="cursor-pointer font-medium">Keyboard shortcuts</summary>
+      <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+        {Object.entries(KEYBOARD_SHORTCUTS).map(([action, shortcut]) => (
+          <React.Fragment key={action}>
+            <dt><kbd className={kbdClassName}>{shortcutLabel(shortcut)}</kbd></dt>
+            <dd>{shortcut.description}</dd>
+          </React.Fragment>
+        ))}
+        <dt><kbd className={kbdClassName}>Space</kbd>, arrows, <kbd className={kbdClassName}>L</kbd></dt>
+        <dd>Play, seek, change volume and loop while the player has focus</dd>
+      </dl>
+    </details>
+    <button
+      type="button"
+      onClick={onHighContrastToggle}
+      aria-pressed={highContrast}
+      className="border border-gray-300 hover:bg-gray-100 font-semibold py-1 px-3 rounded-lg"
+    >
+      High contrast
+    </button>
+  </div>
+);
+
+export default AccessibilityControls;
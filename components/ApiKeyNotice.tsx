@@ -0,0 +1,36 @@
+import React from 'react';
+
+interface ApiKeyNoticeProps {
+  descriptionId: string; // Referenced by the controls this notice explains
+  onSelectKey: () => void;
+}
+
+// Shown while no API key is selected for a provider that needs one
+const ApiKeyNotice: React.FC<ApiKeyNoticeProps> = ({ descriptionId, onSelectKey }) => (
+  <section
+    aria-labelledby="api-key-heading"
+    className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded-lg relative text-center flex flex-col items-center space-y-3"
+  >
+    <h2 id="api-key-heading" className="font-bold text-lg">API Key Required</h2>
+    <p id={descriptionId} className="text-base">Please select your Gemini API key to use the voice generation service. The script and voice settings stay disabled until a key is selected.</p>
+    <button
+      onClick={onSelectKey}
+      className="mt-2 bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-2 px-5 rounded-lg shadow-md transition-all duration-300"
+    >
+      Select API Key
+    </button>
+    <p className="text-sm mt-2">
+      Learn more about billing for Gemini API:{" "}
+      <a
+        href="https://ai.google.dev/gemini-api/docs/billing"
+        target="_blank"
+        rel="noopener noreferrer"
+        className="underline text-yellow-800 hover:text-yellow-900"
+      >
+        Billing Documentation
+      </a>
+    </p>
+  </section>
+);
+
+export default ApiKeyNotice;
@@ -0,0 +1,426 @@
+import React, { useState, useRef, useEffect, useCallback, useMemo, useImperativeHandle } from 'react';
+import { computePeaks } from '../services/waveform';
+import { ariaKeyShortcuts } from '../services/shortcuts';
+import { KEYBOARD_SHORTCUTS } from '../constants';
+
+interface AudioPlayerProps {
+  audioBuffer: AudioBuffer;
+  getAudioContext: () => AudioContext;
+  autoPlay?: boolean;
+  onPositionChange?: (seconds: number) => void; // Called on every animation frame while playing
+  controlsRef?: React.Ref<AudioPlayerControls>;
+}
+
+// Lets the studio's global shortcuts and focus management drive the player
+export interface AudioPlayerControls {
+  togglePlay(): void;
+  focus(): void;
+}
+
+interface LoopRegion {
+  start: number; // Seconds
+  end: number;
+}
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const SEEK_STEP_SECONDS = 5;
+const VOLUME_STEP = 0.1;
+const DRAG_THRESHOLD_PX = 4;
+const CANVAS_HEIGHT = 96;
+
+function formatTime(seconds: number): string {
+  const clamped = Math.max(0, seconds);
+  const minutes = Math.floor(clamped / 60);
+  const rest = clamped - minutes * 60;
+  return `${minutes}:${rest.toFixed(1).padStart(4, '0')}`;
+}
+
+/**
+ * Transport and waveform view for a decoded take. Playback runs on the shared
+ * AudioContext through a gain node; the cursor position is derived from the
+ * context clock rather than stored on every frame.
+ */
+const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioBuffer, getAudioContext, autoPlay = false, onPositionChange, controlsRef }) => {
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [position, setPosition] = useState<number>(0);
+  const [rate, setRate] = useState<number>(1);
+  const [volume, setVolume] = useState<number>(1);
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  const [loopEnabled, setLoopEnabled] = useState<boolean>(false);
+  // Region being dragged out; only committed on release so playback is not restarted mid-drag
+  const [pendingRegion, setPendingRegion] = useState<LoopRegion | null>(null);
+  const [canvasWidth, setCanvasWidth] = useState<number>(600);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const gainRef = useRef<GainNode | null>(null);
+  // Context time, buffer offset and source settings at the moment playback (re)started
+  const clockRef = useRef<{ startedAt: number, offset: number, rate: number, loop: LoopRegion | null }>({
+    startedAt: 0,
+    offset: 0,
+    rate: 1,
+    loop: null,
+  });
+  const dragRef = useRef<{ startX: number, dragging: boolean } | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const duration = audioBuffer.duration;
+  const activeLoop = loopEnabled && loopRegion && loopRegion.end - loopRegion.start > 0.05 ? loopRegion : null;
+
+  const currentPosition = useCallback(() => {
+    if (!sourceRef.current) {
+      return position;
+    }
+    const { startedAt, offset, rate: sourceRate, loop } = clockRef.current;
+    let current = offset + (getAudioContext().currentTime - startedAt) * sourceRate;
+    if (loop && current > loop.end) {
+      current = loop.start + ((current - loop.start) % (loop.end - loop.start));
+    }
+    return Math.min(duration, current);
+  }, [position, duration, getAudioContext]);
+
+  const stopSource = useCallback(() => {
+    const source = sourceRef.current;
+    if (source) {
+      sourceRef.current = null; // Cleared first so onended knows the stop was intentional
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    }
+  }, []);
+
+  const play = useCallback((from: number) => {
+    stopSource();
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') {
+      ctx.resume();
+    }
+    if (!gainRef.current) {
+      gainRef.current = ctx.createGain();
+      gainRef.current.connect(ctx.destination);
+    }
+    gainRef.current.gain.value = volume;
+
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.playbackRate.value = rate;
+    source.connect(gainRef.current);
+
+    let offset = from >= duration ? 0 : from;
+    if (activeLoop) {
+      source.loop = true;
+      source.loopStart = activeLoop.start;
+      source.loopEnd = activeLoop.end;
+      if (offset < activeLoop.start || offset >= activeLoop.end) {
+        offset = activeLoop.start;
+      }
+    }
+
+    source.onended = () => {
+      if (sourceRef.current === source) {
+        sourceRef.current = null;
+        setIsPlaying(false);
+        setPosition(0);
+      }
+    };
+    source.start(0, offset);
+    sourceRef.current = source;
+    clockRef.current = { startedAt: ctx.currentTime, offset, rate, loop: activeLoop };
+    setPosition(offset);
+    setIsPlaying(true);
+  }, [audioBuffer, duration, rate, volume, activeLoop, getAudioContext, stopSource]);
+
+  const pause = useCallback(() => {
+    const current = currentPosition();
+    stopSource();
+    setPosition(current);
+    setIsPlaying(false);
+  }, [currentPosition, stopSource]);
+
+  const togglePlay = useCallback(() => {
+    if (isPlaying) {
+      pause();
+    } else {
+      play(position);
+    }
+  }, [isPlaying, pause, play, position]);
+
+  useImperativeHandle(controlsRef, () => ({
+    togglePlay,
+    focus: () => containerRef.current?.focus(),
+  }), [togglePlay]);
+
+  const seek = useCallback((time: number) => {
+    const target = Math.max(0, Math.min(duration, time));
+    if (isPlaying) {
+      play(target);
+    } else {
+      setPosition(target);
+    }
+  }, [duration, isPlaying, play]);
+
+  // Restart the source when rate or loop settings change mid-playback
+  const playRef = useRef(play);
+  playRef.current = play;
+  useEffect(() => {
+    if (sourceRef.current) {
+      playRef.current(currentPosition());
+    }
+  }, [rate, loopEnabled, loopRegion]);
+
+  useEffect(() => {
+    if (gainRef.current) {
+      gainRef.current.gain.value = volume;
+    }
+  }, [volume]);
+
+  // Autoplay once per mount. A replaced buffer (e.g. re-processed audio) keeps
+  // the current position and playback state instead of starting over.
+  const mountedRef = useRef(false);
+  useEffect(() => {
+    if (!mountedRef.current) {
+      mountedRef.current = true;
+      if (autoPlay) {
+        playRef.current(0);
+      }
+      return;
+    }
+    setLoopRegion((region) => (region && region.end <= duration ? region : null));
+    if (sourceRef.current) {
+      playRef.current(Math.min(currentPosition(), duration));
+    } else {
+      setPosition((current) => Math.min(current, duration));
+    }
+  }, [audioBuffer]);
+
+  useEffect(() => () => {
+    mountedRef.current = false;
+    stopSource();
+    gainRef.current?.disconnect();
+    gainRef.current = null;
+  }, [stopSource]);
+
+  // Track the container width so the waveform stays sharp when resized
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === 'undefined') {
+      return;
+    }
+    const observer = new ResizeObserver(([entry]) => setCanvasWidth(Math.max(100, Math.floor(entry.contentRect.width))));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const peaks = useMemo(
+    () => computePeaks(audioBuffer.getChannelData(0), canvasWidth),
+    [audioBuffer, canvasWidth],
+  );
+
+  const draw = useCallback((cursor: number) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) {
+      return;
+    }
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = canvasWidth * pixelRatio;
+    canvas.height = CANVAS_HEIGHT * pixelRatio;
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, canvasWidth, CANVAS_HEIGHT);
+
+    const toX = (time: number) => (time / duration) * canvasWidth;
+    const region = pendingRegion ?? loopRegion;
+    if (region) {
+      ctx.fillStyle = loopEnabled || pendingRegion ? 'rgba(59, 130, 246, 0.18)' : 'rgba(156, 163, 175, 0.18)';
+      ctx.fillRect(toX(region.start), 0, toX(region.end) - toX(region.start), CANVAS_HEIGHT);
+    }
+
+    const middle = CANVAS_HEIGHT / 2;
+    const cursorX = toX(cursor);
+    for (let x = 0; x < peaks.max.length; x++) {
+      ctx.fillStyle = x < cursorX ? '#2563eb' : '#9ca3af';
+      const top = middle - peaks.max[x] * middle;
+      const bottom = middle - peaks.min[x] * middle;
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+
+    ctx.fillStyle = '#dc2626';
+    ctx.fillRect(Math.min(canvasWidth - 2, cursorX), 0, 2, CANVAS_HEIGHT);
+  }, [canvasWidth, duration, loopEnabled, loopRegion, pendingRegion, peaks]);
+
+  // Animate the cursor while playing; otherwise draw once per state change
+  useEffect(() => {
+    if (!isPlaying) {
+      draw(position);
+      onPositionChange?.(position);
+      return;
+    }
+    const tick = () => {
+      const cursor = currentPosition();
+      draw(cursor);
+      onPositionChange?.(cursor);
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+      }
+    };
+  }, [isPlaying, position, draw, currentPosition, onPositionChange]);
+
+  const timeAtPointer = (clientX: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, dragging: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      return;
+    }
+    if (!drag.dragging && Math.abs(e.clientX - drag.startX) < DRAG_THRESHOLD_PX) {
+      return;
+    }
+    drag.dragging = true;
+    const a = timeAtPointer(drag.startX);
+    const b = timeAtPointer(e.clientX);
+    setPendingRegion({ start: Math.min(a, b), end: Math.max(a, b) });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.dragging) {
+      seek(timeAtPointer(e.clientX));
+    } else if (drag && pendingRegion) {
+      setLoopRegion(pendingRegion);
+      setPendingRegion(null);
+      setLoopEnabled(true);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.target instanceof HTMLSelectElement || e.target instanceof HTMLInputElement) {
+      return;
+    }
+    switch (e.key) {
+      case ' ':
+      case 'k':
+        togglePlay();
+        break;
+      case 'ArrowLeft':
+        seek(currentPosition() - SEEK_STEP_SECONDS);
+        break;
+      case 'ArrowRight':
+        seek(currentPosition() + SEEK_STEP_SECONDS);
+        break;
+      case 'ArrowUp':
+        setVolume((current) => Math.min(1, current + VOLUME_STEP));
+        break;
+      case 'ArrowDown':
+        setVolume((current) => Math.max(0, current - VOLUME_STEP));
+        break;
+      case 'Home':
+        seek(0);
+        break;
+      case 'l':
+        setLoopEnabled((current) => !current);
+        break;
+      case 'Escape':
+        setLoopRegion(null);
+        setLoopEnabled(false);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      aria-label="Audio player. Space to play or pause, arrow keys to seek and change volume, L to loop the selected region."
+      className="flex flex-col space-y-3 border border-gray-200 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height: CANVAS_HEIGHT }}
+        className="cursor-pointer touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      />
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <button
+          type="button"
+          onClick={togglePlay}
+          aria-keyshortcuts={ariaKeyShortcuts(KEYBOARD_SHORTCUTS.playPause)}
+          className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-1 px-4 rounded-md transition-all duration-200"
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button
+          type="button"
+          onClick={() => { pause(); setPosition(0); }}
+          className="border border-gray-300 hover:bg-gray-100 font-semibold py-1 px-3 rounded-md"
+        >
+          Stop
+        </button>
+        <span className="tabular-nums">
+          {formatTime(isPlaying ? currentPosition() : position)} / {formatTime(duration)}
+        </span>
+
+        <label className="flex items-center space-x-1">
+          <input
+            type="checkbox"
+            checked={loopEnabled}
+            onChange={(e) => setLoopEnabled(e.target.checked)}
+            disabled={!loopRegion}
+          />
+          <span>Loop selection</span>
+        </label>
+
+        <label className="flex items-center space-x-1">
+          <span>Speed</span>
+          <select
+            className="p-1 border border-gray-300 rounded bg-white"
+            value={rate}
+            onChange={(e) => setRate(Number(e.target.value))}
+          >
+            {PLAYBACK_RATES.map((value) => (
+              <option key={value} value={value}>{value}×</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center space-x-1">
+          <span>Volume</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={volume}
+            onChange={(e) => setVolume(Number(e.target.value))}
+          />
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Click the waveform to seek; drag to select a loop region.
+      </p>
+    </div>
+  );
+};
+
+export default AudioPlayer;
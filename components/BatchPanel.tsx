@@ -0,0 +1,238 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { TtsProvider } from '../services/providers';
+import { parseBatchFile, runBatch, buildBatchZip, ParsedBatch, BatchRunResult } from '../services/batch';
+import { planScriptChunks } from '../services/scriptChunker';
+import { processChannels } from '../services/audioProcessing';
+import { stitchSamples } from '../services/audioStitcher';
+import { encodeWAVBytes, pcm16ToFloat32 } from '../services/encoders/wav';
+import { downloadBlob } from '../services/audioExport';
+import { BatchRow, BatchRowResult, Emotion, Language, LexiconEntry, ProcessingSettings } from '../types';
+import {
+  TTS_SAMPLE_RATE,
+  CHUNK_MAX_CHARS,
+  CHUNK_CROSSFADE_MS,
+  BATCH_REQUESTS_PER_MINUTE,
+  BATCH_MAX_RETRIES,
+  BATCH_RETRY_BASE_DELAY_MS,
+  decode,
+} from '../constants';
+
+interface BatchPanelProps {
+  provider: TtsProvider;
+  canGenerate: boolean;
+  defaults: { voiceId: string, emotion: Emotion, language: Language };
+  processingSettings: ProcessingSettings;
+  lexicon: LexiconEntry[];
+  chunkSilenceMs: number;
+}
+
+const STATUS_STYLES: Record<BatchRowResult['status'], string> = {
+  queued: 'text-gray-500',
+  generating: 'text-blue-600',
+  success: 'text-green-600',
+  failed: 'text-red-600',
+  cancelled: 'text-gray-500',
+};
+
+/**
+ * Generates many short prompts from an uploaded CSV or JSON file and bundles
+ * the WAVs with a manifest into a ZIP.
+ */
+const BatchPanel: React.FC<BatchPanelProps> = ({ provider, canGenerate, defaults, processingSettings, lexicon, chunkSilenceMs }) => {
+  const [fileName, setFileName] = useState<string>('');
+  const [parsed, setParsed] = useState<ParsedBatch | null>(null);
+  const [results, setResults] = useState<BatchRowResult[]>([]);
+  const [run, setRun] = useState<BatchRunResult | null>(null);
+  const [running, setRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop issuing requests if the panel goes away mid-batch
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file after editing it
+    if (!file) {
+      return;
+    }
+    setError(null);
+    setResults([]);
+    setRun(null);
+    setFileName(file.name);
+    try {
+      setParsed(parseBatchFile(await file.text(), file.name, {
+        voices: provider.voices,
+        emotions: provider.emotions,
+        languages: provider.languages,
+        defaults,
+      }));
+    } catch (err: any) {
+      setParsed(null);
+      setError(err.message || 'Could not read the batch file.');
+    }
+  };
+
+  const generateRow = async (row: BatchRow, signal: AbortSignal | undefined, pace: () => Promise<void>) => {
+    const voiceOption = provider.voices.find((voice) => voice.id === row.voiceId);
+    if (!voiceOption) {
+      throw new Error(`Voice "${row.voiceId}" is not available from ${provider.label}; re-upload the file after switching providers.`);
+    }
+    const { chunks, leadingPauseMs } = planScriptChunks(row.script, lexicon, row.language, CHUNK_MAX_CHARS);
+    const segments: Float32Array[] = [];
+    for (const chunk of chunks) {
+      if (chunk.index > 0) {
+        await pace();
+      }
+      const base64Audio = await provider.generateSpeech({
+        script: chunk.text,
+        slow: chunk.slow,
+        voiceOption,
+        emotion: row.emotion,
+        language: row.language,
+        signal,
+        maxAttempts: 1, // runBatch retries, paced by the request limit
+      });
+      segments.push(pcm16ToFloat32(decode(base64Audio)));
+    }
+    const samples = stitchSamples(segments, TTS_SAMPLE_RATE, {
+      silenceMs: chunkSilenceMs,
+      crossfadeMs: CHUNK_CROSSFADE_MS,
+      gapsMs: chunks.map((chunk) => chunk.pauseAfterMs),
+      leadingSilenceMs: leadingPauseMs,
+    });
+    const channels = processChannels([samples], TTS_SAMPLE_RATE, processingSettings);
+    return encodeWAVBytes(channels, TTS_SAMPLE_RATE, 16);
+  };
+
+  const handleStart = async () => {
+    if (!parsed || parsed.rows.length === 0) {
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setRun(null);
+    setResults(parsed.rows.map((row) => ({ id: row.id, status: 'queued', attempts: 0 })));
+    try {
+      const result = await runBatch(parsed.rows, {
+        generate: generateRow,
+        requestsPerMinute: BATCH_REQUESTS_PER_MINUTE,
+        maxRetries: BATCH_MAX_RETRIES,
+        retryBaseDelayMs: BATCH_RETRY_BASE_DELAY_MS,
+        signal: controller.signal,
+        onUpdate: (index, rowResult) => setResults((current) => current.map((r, i) => (i === index ? rowResult : r))),
+      });
+      setResults(result.results);
+      setRun(result);
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!run) {
+      return;
+    }
+    const zip = buildBatchZip(run, {
+      source: fileName,
+      provider: provider.id,
+      createdAt: new Date().toISOString(),
+      invalidRows: parsed?.errors ?? [],
+    });
+    downloadBlob(new Blob([zip as BlobPart], { type: 'application/zip' }), `${fileName.replace(/\.[^.]+$/, '') || 'batch'}-voiceovers.zip`);
+  };
+
+  const finished = results.filter((r) => r.status === 'success' || r.status === 'failed' || r.status === 'cancelled').length;
+
+  return (
+    <details className="border border-gray-200 rounded-lg p-4">
+      <summary className="text-lg font-medium text-gray-700 cursor-pointer">Batch generation</summary>
+      <div className="mt-3 space-y-3 text-sm text-gray-700">
+        <p>
+          Upload a CSV (with a header row) or JSON array with <code>id</code>, <code>script</code>, <code>voice</code>,{' '}
+          <code>emotion</code> and <code>language</code>. Empty voice, emotion or language fields use the current selection.
+          Scripts may use the same markup as the editor, and the pronunciation lexicon applies.
+        </p>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          aria-label="Batch file"
+          onChange={handleFile}
+          disabled={running}
+        />
+
+        {error && (
+          <p className="text-red-600" role="alert">{error}</p>
+        )}
+
+        {parsed && (
+          <p>
+            {parsed.rows.length} valid row{parsed.rows.length === 1 ? '' : 's'}
+            {parsed.errors.length > 0 && `, ${parsed.errors.length} skipped`}
+          </p>
+        )}
+        {parsed && parsed.errors.length > 0 && (
+          <ul className="max-h-32 overflow-y-auto text-red-600 list-disc list-inside">
+            {parsed.errors.map((rowError) => (
+              <li key={rowError.row}>Row {rowError.row}{rowError.id ? ` (${rowError.id})` : ''}: {rowError.message}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={!canGenerate || running || !parsed || parsed.rows.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded-lg"
+          >
+            Generate batch
+          </button>
+          {running && (
+            <button
+              type="button"
+              onClick={() => abortRef.current?.abort()}
+              className="border border-red-500 text-red-600 hover:bg-red-50 font-semibold py-2 px-4 rounded-lg"
+            >
+              Cancel
+            </button>
+          )}
+          {run && !running && (
+            <button
+              type="button"
+              onClick={handleDownload}
+              className="bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-4 rounded-lg"
+            >
+              Download ZIP
+            </button>
+          )}
+        </div>
+
+        {results.length > 0 && (
+          <>
+            <progress className="w-full" max={results.length} value={finished} aria-label="Batch progress" />
+            <p aria-live="polite">{finished} of {results.length} rows processed</p>
+            <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+              {results.map((result) => (
+                <li key={result.id} className="py-1">
+                  <div className="flex justify-between">
+                    <span className="font-mono">{result.id}</span>
+                    <span className={STATUS_STYLES[result.status]}>
+                      {result.status}
+                      {result.attempts > 1 && ` (${result.attempts} attempts)`}
+                    </span>
+                  </div>
+                  {result.error && <p className="text-xs text-red-600">{result.error}</p>}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface CacheNoticeProps {
+  cached: number; // Requests of the take answered from the audio cache
+  total: number;
+  onRegenerate: () => void;
+  disabled?: boolean;
+}
+
+// Says when the take in the player came from the audio cache, with a way to bypass it
+const CacheNotice: React.FC<CacheNoticeProps> = ({ cached, total, onRegenerate, disabled }) => (
+  <div className="flex flex-wrap items-center justify-between gap-3 text-sm bg-green-50 border border-green-300 text-green-800 rounded-lg px-3 py-2">
+    <span>
+      {cached === total
+        ? 'Played from the audio cache; no request was made.'
+        : `${cached} of ${total} chunks came from the audio cache.`}
+    </span>
+    <button
+      type="button"
+      onClick={onRegenerate}
+      disabled={disabled}
+      className="font-semibold underline hover:text-green-900 disabled:text-gray-400"
+    >
+      Regenerate without cache
+    </button>
+  </div>
+);
+
+export default CacheNotice;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { ChunkStatus, ScriptChunk } from '../types';
+
+interface ChunkProgressProps {
+  chunks: ScriptChunk[];
+  loading: boolean;
+  onRetry: (chunk: ScriptChunk) => void;
+}
+
+const CHUNK_STATUS_LABELS: Record<ChunkStatus, string> = {
+  pending: 'Queued',
+  generating: 'Generating...',
+  done: 'Done',
+  error: 'Failed',
+};
+
+const CHUNK_STATUS_STYLES: Record<ChunkStatus, string> = {
+  pending: 'text-gray-500',
+  generating: 'text-blue-600 animate-pulse',
+  done: 'text-green-600',
+  error: 'text-red-600 font-semibold',
+};
+
+// Status of each chunk of a long script, with a retry button for failed ones
+const ChunkProgress: React.FC<ChunkProgressProps> = ({ chunks, loading, onRetry }) => {
+  const chunksDone = chunks.filter((chunk) => chunk.status === 'done').length;
+
+  return (
+    <div className="flex flex-col space-y-2" role="group" aria-label="Chunk progress" aria-busy={loading}>
+      <p className="text-sm font-semibold text-gray-700">
+        Chunks: {chunksDone} / {chunks.length} generated
+      </p>
+      <ul className="flex flex-col space-y-1">
+        {chunks.map((chunk) => (
+          <li key={chunk.index} className="flex items-center justify-between text-sm border border-gray-200 rounded-lg px-3 py-2">
+            <span className="truncate text-gray-700 mr-3" title={chunk.text}>
+              {chunk.index + 1}. {chunk.text}
+            </span>
+            <span className="flex items-center space-x-2 shrink-0">
+              <span className={CHUNK_STATUS_STYLES[chunk.status]}>
+                {CHUNK_STATUS_LABELS[chunk.status]}{chunk.cached ? ' (cached)' : ''}
+              </span>
+              {chunk.status === 'error' && (
+                <button
+                  type="button"
+                  onClick={() => onRetry(chunk)}
+                  disabled={loading}
+                  title={chunk.error}
+                  className="bg-red-500 hover:bg-red-600 text-white font-semibold py-1 px-3 rounded-md transition-all duration-200"
+                >
+                  Retry
+                </button>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ChunkProgress;
@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface ChunkSettingsProps {
+  silenceMs: number;
+  onSilenceChange: (silenceMs: number) => void;
+  disabled?: boolean;
+  describedBy?: string;
+  children?: React.ReactNode; // Further options for chunked takes
+}
+
+// How long scripts are joined after being split into separate requests
+const ChunkSettings: React.FC<ChunkSettingsProps> = ({ silenceMs, onSilenceChange, disabled, describedBy, children }) => (
+  <div className="flex flex-col space-y-2">
+    <label htmlFor="chunk-silence" className="text-lg font-semibold text-gray-700">Pause Between Chunks (ms):</label>
+    <input
+      id="chunk-silence"
+      type="number"
+      min={0}
+      max={3000}
+      step={50}
+      className="w-full md:w-48 p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-800"
+      value={silenceMs}
+      onChange={(e) => onSilenceChange(Math.max(0, Number(e.target.value) || 0))}
+      disabled={disabled}
+      aria-describedby={describedBy}
+    />
+    <p className="text-sm text-gray-600 mt-1">
+      Long scripts are split at sentence and paragraph boundaries and joined with this pause.
+    </p>
+    {children}
+  </div>
+);
+
+export default ChunkSettings;
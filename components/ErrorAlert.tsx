@@ -0,0 +1,35 @@
+import React from 'react';
+import { ErrorRecoveryAction } from '../types';
+
+interface ErrorAlertProps {
+  message: string;
+  action: ErrorRecoveryAction | null; // Offered as a button below the message
+  onAction: () => void;
+  disabled?: boolean;
+  alertRef?: React.Ref<HTMLDivElement>; // Focused when a generation fails
+}
+
+const ERROR_ACTION_LABELS: Record<ErrorRecoveryAction, string> = {
+  'select-key': 'Select API Key',
+  retry: 'Try again',
+  'edit-script': 'Edit script',
+};
+
+const ErrorAlert: React.FC<ErrorAlertProps> = ({ message, action, onAction, disabled, alertRef }) => (
+  <div ref={alertRef} tabIndex={-1} className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg relative text-center" role="alert">
+    <strong className="font-bold">Error: </strong>
+    <span className="block sm:inline">{message}</span>
+    {action && (
+      <button
+        type="button"
+        onClick={onAction}
+        disabled={disabled}
+        className="block mx-auto mt-2 underline font-semibold hover:text-red-900"
+      >
+        {ERROR_ACTION_LABELS[action]}
+      </button>
+    )}
+  </div>
+);
+
+export default ErrorAlert;
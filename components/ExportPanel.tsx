@@ -0,0 +1,179 @@
+import React, { useState, useMemo, useImperativeHandle } from 'react';
+import { exportAudioBuffer, exportFileExtension, downloadBlob } from '../services/audioExport';
+import { CaptionCue, CaptionFormat, formatCaptions } from '../services/captions';
+import { ariaKeyShortcuts } from '../services/shortcuts';
+import { ExportSettings, ExportFormat, WavBitDepth } from '../types';
+import {
+  EXPORT_FORMAT_OPTIONS,
+  MP3_BITRATE_OPTIONS,
+  OPUS_BITRATE_OPTIONS,
+  EXPORT_SAMPLE_RATE_OPTIONS,
+  KEYBOARD_SHORTCUTS,
+} from '../constants';
+
+interface ExportPanelProps {
+  audioBuffer: AudioBuffer;
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+  captionCues?: CaptionCue[] | null;
+  controlsRef?: React.Ref<ExportPanelControls>; // Lets the download shortcut export with the panel's settings
+}
+
+export interface ExportPanelControls {
+  download(): void;
+}
+
+const selectClassName = "p-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800";
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ audioBuffer, settings, onSettingsChange, captionCues, controlsRef }) => {
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // Shared by the audio and caption files of one take so they sort together
+  const baseName = useMemo(() => `gemini-voiceover-${Date.now()}`, [audioBuffer]);
+
+  const update = (patch: Partial<ExportSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  const handleDownload = async () => {
+    setError(null);
+    setExporting(true);
+    try {
+      const blob = await exportAudioBuffer(audioBuffer, settings);
+      downloadBlob(blob, `${baseName}.${exportFileExtension(settings)}`);
+    } catch (err: any) {
+      console.error(err);
+      setError(`Export failed: ${err.message || 'Unknown error'}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  useImperativeHandle(controlsRef, () => ({
+    download: () => {
+      if (!exporting) {
+        handleDownload();
+      }
+    },
+  }));
+
+  const handleCaptionDownload = (format: CaptionFormat) => {
+    if (captionCues) {
+      const type = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+      downloadBlob(new Blob([formatCaptions(format, captionCues)], { type }), `${baseName}.${format}`);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-3 mt-4">
+      <div className="flex flex-wrap justify-center gap-3">
+        <label className="flex flex-col text-sm font-medium text-gray-700">
+          Format
+          <select
+            className={selectClassName}
+            value={settings.format}
+            onChange={(e) => update({ format: e.target.value as ExportFormat })}
+          >
+            {EXPORT_FORMAT_OPTIONS.map((option) => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        {settings.format === 'wav' && (
+          <label className="flex flex-col text-sm font-medium text-gray-700">
+            Bit depth
+            <select
+              className={selectClassName}
+              value={settings.wavBitDepth}
+              onChange={(e) => update({ wavBitDepth: Number(e.target.value) as WavBitDepth })}
+            >
+              <option value={16}>16-bit</option>
+              <option value={24}>24-bit</option>
+              <option value={32}>32-bit float</option>
+            </select>
+          </label>
+        )}
+
+        {settings.format === 'mp3' && (
+          <label className="flex flex-col text-sm font-medium text-gray-700">
+            Bitrate
+            <select
+              className={selectClassName}
+              value={settings.mp3Bitrate}
+              onChange={(e) => update({ mp3Bitrate: Number(e.target.value) })}
+            >
+              {MP3_BITRATE_OPTIONS.map((kbps) => (
+                <option key={kbps} value={kbps}>{kbps} kbps</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {settings.format === 'ogg-opus' && (
+          <label className="flex flex-col text-sm font-medium text-gray-700">
+            Bitrate
+            <select
+              className={selectClassName}
+              value={settings.opusBitrate}
+              onChange={(e) => update({ opusBitrate: Number(e.target.value) })}
+            >
+              {OPUS_BITRATE_OPTIONS.map((kbps) => (
+                <option key={kbps} value={kbps}>{kbps} kbps</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {settings.format !== 'ogg-opus' && (
+          <label className="flex flex-col text-sm font-medium text-gray-700">
+            Sample rate
+            <select
+              className={selectClassName}
+              value={settings.sampleRate ?? ''}
+              onChange={(e) => update({ sampleRate: e.target.value ? Number(e.target.value) : null })}
+            >
+              <option value="">Native ({audioBuffer.sampleRate / 1000} kHz)</option>
+              {EXPORT_SAMPLE_RATE_OPTIONS.map((rate) => (
+                <option key={rate} value={rate}>{rate / 1000} kHz</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleDownload}
+        disabled={exporting}
+        aria-keyshortcuts={ariaKeyShortcuts(KEYBOARD_SHORTCUTS.download)}
+        className="bg-green-500 hover:bg-green-600 text-white font-bold py-3 px-6 rounded-lg shadow-md hover:shadow-lg transition-all duration-300 flex items-center space-x-2"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        </svg>
+        <span>{exporting ? 'Encoding...' : `Download Voice-over (.${exportFileExtension(settings)})`}</span>
+      </button>
+
+      {captionCues && captionCues.length > 0 && (
+        <div className="flex items-center gap-3 text-sm">
+          <span className="text-gray-700">Captions (estimated timing):</span>
+          {(['srt', 'vtt'] as const).map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleCaptionDownload(format)}
+              className="border border-green-500 text-green-700 hover:bg-green-50 font-semibold py-1 px-3 rounded-lg"
+            >
+              .{format}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { GenerationMode } from '../types';
+
+interface GenerationModeToggleProps {
+  mode: GenerationMode;
+  onModeChange: (mode: GenerationMode) => void;
+  disabled?: boolean;
+  describedBy?: string;
+}
+
+const MODE_LABELS: Record<GenerationMode, string> = {
+  single: 'Single Voice',
+  dialogue: 'Dialogue',
+};
+
+// Switches between one voice for the whole script and a voice per speaker
+const GenerationModeToggle: React.FC<GenerationModeToggleProps> = ({ mode, onModeChange, disabled, describedBy }) => (
+  <div className="flex rounded-lg border border-gray-300 overflow-hidden" role="group" aria-label="Generation mode">
+    {(Object.keys(MODE_LABELS) as GenerationMode[]).map((option) => (
+      <button
+        key={option}
+        type="button"
+        onClick={() => onModeChange(option)}
+        aria-pressed={mode === option}
+        disabled={disabled}
+        aria-describedby={describedBy}
+        className={`flex-1 py-2 px-4 font-semibold transition-all duration-200 ${
+          mode === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+        }`}
+      >
+        {MODE_LABELS[option]}
+      </button>
+    ))}
+  </div>
+);
+
+export default GenerationModeToggle;
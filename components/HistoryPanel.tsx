@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { HistoryStore } from '../services/historyStore';
+import { HistoryTake } from '../types';
+import { LANGUAGE_OPTIONS, EMOTION_OPTIONS } from '../constants';
+import { getTtsProvider } from '../services/providers';
+
+interface HistoryPanelProps {
+  store: HistoryStore;
+  version: number; // Bumped by the parent whenever a take is added
+  onReplay: (take: HistoryTake) => void;
+  onDownload: (take: HistoryTake) => void;
+  onRestore: (take: HistoryTake) => void;
+  onAddToTimeline: (take: HistoryTake) => void;
+}
+
+const labelFor = <T extends string>(options: { id: T, label: string }[], id: T) =>
+  options.find((option) => option.id === id)?.label ?? id;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ store, version, onReplay, onDownload, onRestore, onAddToTimeline }) => {
+  const [takes, setTakes] = useState<HistoryTake[]>([]);
+  const [query, setQuery] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setTakes(await store.list(query));
+    } catch (err: any) {
+      console.error(err);
+      setError(`Could not load history: ${err.message || 'Unknown error'}`);
+    }
+  }, [store, query]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, version]);
+
+  const handleStartRename = (take: HistoryTake) => {
+    setEditingId(take.id);
+    setDraftName(take.name);
+  };
+
+  const handleCommitRename = async () => {
+    if (!editingId) {
+      return;
+    }
+    const name = draftName.trim();
+    setEditingId(null);
+    setError(null);
+    try {
+      if (name) {
+        await store.rename(editingId, name);
+      }
+    } catch (err: any) {
+      console.error(err);
+      setError(`Could not rename the take: ${err.message || 'Unknown error'}`);
+    }
+    refresh();
+  };
+
+  const handleDelete = async (take: HistoryTake) => {
+    setError(null);
+    try {
+      await store.remove(take.id);
+    } catch (err: any) {
+      console.error(err);
+      setError(`Could not delete the take: ${err.message || 'Unknown error'}`);
+    }
+    refresh();
+  };
+
+  return (
+    <aside className="bg-white shadow-lg rounded-xl p-6 w-full lg:w-80 flex flex-col space-y-4">
+      <h2 className="text-2xl font-bold text-gray-900">History</h2>
+
+      <label htmlFor="history-search" className="sr-only">Search takes</label>
+      <input
+        id="history-search"
+        type="search"
+        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800"
+        placeholder="Search by script text..."
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">{error}</p>
+      )}
+
+      {takes.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          {query ? 'No takes match your search.' : 'Generated takes will appear here.'}
+        </p>
+      ) : (
+        <ul className="flex flex-col space-y-3 overflow-y-auto max-h-[70vh]">
+          {takes.map((take) => (
+            <li key={take.id} className="border border-gray-200 rounded-lg p-3 flex flex-col space-y-2">
+              {editingId === take.id ? (
+                <input
+                  aria-label="Take name"
+                  className="w-full p-1 border border-gray-300 rounded text-gray-800"
+                  value={draftName}
+                  autoFocus
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={handleCommitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleCommitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                />
+              ) : (
+                <p className="font-semibold text-gray-800 truncate" title={take.name}>{take.name}</p>
+              )}
+              <p className="text-xs text-gray-500">
+                {new Date(take.createdAt).toLocaleString()} · {take.mode === 'dialogue'
+                  ? 'Dialogue'
+                  : getTtsProvider(take.providerId).voices.find((voice) => voice.id === take.voiceId)?.label ?? take.voiceId}
+                {' '}· {labelFor(EMOTION_OPTIONS, take.emotion)} · {labelFor(LANGUAGE_OPTIONS, take.language)}
+              </p>
+              <p className="text-sm text-gray-600 line-clamp-2">{take.script}</p>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <button type="button" onClick={() => onReplay(take)} className="text-blue-600 hover:underline">Play</button>
+                <button type="button" onClick={() => onDownload(take)} className="text-green-600 hover:underline">Download</button>
+                <button type="button" onClick={() => onAddToTimeline(take)} className="text-blue-600 hover:underline">Add to timeline</button>
+                <button type="button" onClick={() => onRestore(take)} className="text-gray-700 hover:underline">Restore settings</button>
+                <button type="button" onClick={() => handleStartRename(take)} className="text-gray-700 hover:underline">Rename</button>
+                <button type="button" onClick={() => handleDelete(take)} className="text-red-600 hover:underline">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,277 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { LexiconStore, LexiconDraft, findLexiconMatches } from '../services/lexicon';
+import { downloadBlob } from '../services/audioExport';
+import { TtsProvider } from '../services/providers';
+import { LexiconEntry, Language, Emotion, VoiceOption } from '../types';
+import { LANGUAGE_OPTIONS, TTS_SAMPLE_RATE, decode, decodeAudioData } from '../constants';
+
+interface LexiconPanelProps {
+  entries: LexiconEntry[];
+  store: LexiconStore;
+  onEntriesChange: () => void; // Called after any change so the parent can re-read the store
+  script: string; // Text the lexicon will be applied to, for the preview
+  language: Language;
+  provider: TtsProvider;
+  voice: VoiceOption;
+  emotion: Emotion;
+  canGenerate: boolean;
+  getAudioContext: () => AudioContext;
+}
+
+const fieldClassName = "p-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800";
+
+const EMPTY_DRAFT: LexiconDraft = {
+  term: '',
+  replacement: '',
+  language: null,
+  caseSensitive: false,
+  wholeWord: true,
+};
+
+/**
+ * Edits the pronunciation lexicon: terms the model gets wrong and the spelling
+ * to speak instead. Entries apply to every generation in their language; the
+ * preview shows which words of the current script will be replaced.
+ */
+const LexiconPanel: React.FC<LexiconPanelProps> = ({
+  entries,
+  store,
+  onEntriesChange,
+  script,
+  language,
+  provider,
+  voice,
+  emotion,
+  canGenerate,
+  getAudioContext,
+}) => {
+  const [draft, setDraft] = useState<LexiconDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [testing, setTesting] = useState<string | null>(null); // Spelling being synthesized
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  useEffect(() => () => sourceRef.current?.stop(), []);
+
+  const matches = useMemo(() => findLexiconMatches(script, entries, language), [script, entries, language]);
+
+  const update = (patch: Partial<LexiconDraft>) => setDraft((current) => ({ ...current, ...patch }));
+
+  const resetForm = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const handleEdit = (entry: LexiconEntry) => {
+    const { id, ...rest } = entry;
+    setDraft(rest);
+    setEditingId(id);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    setError(null);
+    try {
+      store.save(draft, editingId ?? undefined);
+      onEntriesChange();
+      resetForm();
+    } catch (err: any) {
+      setError(err.message || 'Could not save the entry.');
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    store.remove(id);
+    onEntriesChange();
+    if (editingId === id) {
+      resetForm();
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([store.exportJson()], { type: 'application/json' }), 'pronunciation-lexicon.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    setError(null);
+    setImportErrors([]);
+    try {
+      const result = store.importJson(await file.text());
+      onEntriesChange();
+      setImportErrors(result.errors);
+    } catch (err: any) {
+      setError(err.message || 'Could not import the lexicon.');
+    }
+  };
+
+  // Speaks only the replacement spelling, with the selected voice and emotion
+  const handleTest = async (entry: LexiconDraft) => {
+    const spelling = entry.replacement.trim();
+    if (!spelling) {
+      return;
+    }
+    setError(null);
+    setTesting(spelling);
+    try {
+      const base64Audio = await provider.generateSpeech({
+        script: spelling,
+        voiceOption: voice,
+        emotion,
+        language: entry.language ?? language,
+      });
+      const ctx = getAudioContext();
+      sourceRef.current?.stop();
+      const source = ctx.createBufferSource();
+      source.buffer = await decodeAudioData(decode(base64Audio), ctx, TTS_SAMPLE_RATE, 1);
+      source.connect(ctx.destination);
+      source.start();
+      sourceRef.current = source;
+    } catch (err: any) {
+      setError(err.message || 'Could not synthesize the pronunciation.');
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const languageLabel = (id: Language | null) =>
+    id === null ? 'All languages' : LANGUAGE_OPTIONS.find((option) => option.id === id)?.label ?? id;
+
+  const preview: React.ReactNode[] = [];
+  let cursor = 0;
+  matches.forEach((match) => {
+    preview.push(script.slice(cursor, match.offset));
+    preview.push(
+      <mark key={match.offset} className="bg-purple-100 text-purple-900 rounded px-0.5" title={`Spoken as "${match.entry.replacement}"`}>
+        {script.slice(match.offset, match.offset + match.length)}
+        <sup className="ml-0.5 text-purple-600">{match.entry.replacement}</sup>
+      </mark>,
+    );
+    cursor = match.offset + match.length;
+  });
+  preview.push(script.slice(cursor));
+
+  const testButton = (entry: LexiconDraft) => (
+    <button
+      type="button"
+      onClick={() => handleTest(entry)}
+      disabled={!canGenerate || testing !== null || !entry.replacement.trim()}
+      className="text-blue-600 hover:underline disabled:text-gray-400"
+    >
+      {testing === entry.replacement.trim() ? 'Synthesizing...' : 'Test pronunciation'}
+    </button>
+  );
+
+  return (
+    <details className="border border-gray-200 rounded-lg p-4">
+      <summary className="text-lg font-medium text-gray-700 cursor-pointer">Pronunciation lexicon</summary>
+      <div className="mt-3 space-y-3 text-sm text-gray-700">
+        {entries.length > 0 && (
+          <ul className="divide-y divide-gray-100">
+            {entries.map((entry) => (
+              <li key={entry.id} className="py-1 flex flex-wrap items-center justify-between gap-3">
+                <span>
+                  <span className="font-medium">{entry.term}</span> {'\u2192'} {entry.replacement}{' '}
+                  <span className="text-gray-500">
+                    ({languageLabel(entry.language)}{entry.caseSensitive ? ', match case' : ''}{entry.wholeWord ? '' : ', inside words'})
+                  </span>
+                </span>
+                <span className="flex gap-3">
+                  {testButton(entry)}
+                  <button type="button" onClick={() => handleEdit(entry)} className="text-blue-600 hover:underline">Edit</button>
+                  <button type="button" onClick={() => handleRemove(entry.id)} className="text-red-600 hover:underline">Delete</button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <label className="flex flex-col font-medium">
+            Term
+            <input type="text" className={fieldClassName} value={draft.term} onChange={(e) => update({ term: e.target.value })} />
+          </label>
+          <label className="flex flex-col font-medium">
+            Say it as
+            <input
+              type="text"
+              className={fieldClassName}
+              placeholder='e.g. "Poo-jee-verse"'
+              value={draft.replacement}
+              onChange={(e) => update({ replacement: e.target.value })}
+            />
+          </label>
+          <label className="flex flex-col font-medium">
+            Language
+            <select
+              className={fieldClassName}
+              value={draft.language ?? ''}
+              onChange={(e) => update({ language: (e.target.value || null) as Language | null })}
+            >
+              <option value="">All languages</option>
+              {LANGUAGE_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={draft.caseSensitive} onChange={(e) => update({ caseSensitive: e.target.checked })} />
+            Match case
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={draft.wholeWord} onChange={(e) => update({ wholeWord: e.target.checked })} />
+            Whole words only
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={handleSave}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg"
+          >
+            {editingId ? 'Update entry' : 'Add entry'}
+          </button>
+          {testButton(draft)}
+          {editingId && (
+            <button type="button" onClick={resetForm} className="text-gray-600 hover:underline">Cancel editing</button>
+          )}
+          <button type="button" onClick={handleExport} disabled={entries.length === 0} className="text-blue-600 hover:underline disabled:text-gray-400">
+            Export lexicon
+          </button>
+          <label className="text-blue-600 hover:underline cursor-pointer">
+            Import lexicon
+            <input type="file" accept=".json,application/json" className="sr-only" onChange={handleImport} />
+          </label>
+        </div>
+
+        {error && <p className="text-red-600" role="alert">{error}</p>}
+        {importErrors.length > 0 && (
+          <ul className="text-red-600 list-disc list-inside" role="alert">
+            {importErrors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
+
+        {script.trim() && (
+          <div className="space-y-1">
+            <p className="font-medium">
+              Preview ({matches.length === 0 ? 'no words replaced' : `${matches.length} replacement${matches.length === 1 ? '' : 's'}`} for {languageLabel(language)})
+            </p>
+            <p className="whitespace-pre-wrap max-h-48 overflow-y-auto border border-gray-200 rounded-lg p-2 bg-gray-50 leading-relaxed">{preview}</p>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default LexiconPanel;
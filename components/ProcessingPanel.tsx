@@ -0,0 +1,229 @@
+import React, { useState, useMemo } from 'react';
+import { ProcessingPresetStore } from '../services/processingPresets';
+import { measureLoudness, peakLevel, gainToDb } from '../services/audioProcessing';
+import { ProcessingSettings, ProcessingPreset, NormalizationMode } from '../types';
+
+interface ProcessingPanelProps {
+  settings: ProcessingSettings;
+  onSettingsChange: (settings: ProcessingSettings) => void;
+  presetStore: ProcessingPresetStore;
+  audioBuffer: AudioBuffer | null; // Processed output, used for the level readout
+}
+
+const inputClassName = "w-20 p-1 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800";
+const sectionClassName = "flex flex-wrap items-center gap-3 text-sm text-gray-700";
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+  disabled?: boolean;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, min, max, step = 1, disabled }) => (
+  <label className="flex items-center gap-1">
+    {label}
+    <input
+      type="number"
+      className={inputClassName}
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      disabled={disabled}
+      onChange={(e) => {
+        const parsed = Number(e.target.value);
+        if (e.target.value !== '' && Number.isFinite(parsed)) {
+          onChange(parsed);
+        }
+      }}
+    />
+  </label>
+);
+
+const formatLevel = (value: number, unit: string) => (Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`);
+
+const ProcessingPanel: React.FC<ProcessingPanelProps> = ({ settings, onSettingsChange, presetStore, audioBuffer }) => {
+  const [presets, setPresets] = useState<ProcessingPreset[]>(() => presetStore.list());
+  const [selectedPresetId, setSelectedPresetId] = useState<string>('');
+  const [presetName, setPresetName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof ProcessingSettings>(key: K, patch: Partial<ProcessingSettings[K]>) =>
+    onSettingsChange({ ...settings, [key]: Object.assign({}, settings[key], patch) });
+
+  const levels = useMemo(() => {
+    if (!audioBuffer) {
+      return null;
+    }
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i));
+    return {
+      loudness: measureLoudness(channels, audioBuffer.sampleRate),
+      peak: gainToDb(peakLevel(channels)),
+    };
+  }, [audioBuffer]);
+
+  const selectedPreset = presets.find((preset) => preset.id === selectedPresetId);
+
+  const handleApplyPreset = (id: string) => {
+    setSelectedPresetId(id);
+    const preset = presets.find((p) => p.id === id);
+    if (preset) {
+      onSettingsChange(preset.settings);
+      setPresetName(preset.builtIn ? '' : preset.name);
+    }
+  };
+
+  const handleSavePreset = () => {
+    setError(null);
+    try {
+      const preset = presetStore.save(presetName, settings);
+      setPresets(presetStore.list());
+      setSelectedPresetId(preset.id);
+    } catch (err: any) {
+      setError(err.message || 'Could not save preset.');
+    }
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) {
+      return;
+    }
+    presetStore.remove(selectedPreset.id);
+    setPresets(presetStore.list());
+    setSelectedPresetId('');
+    setPresetName('');
+  };
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <legend className="px-2 text-lg font-medium text-gray-700">Post-processing</legend>
+
+      <div className={sectionClassName}>
+        <label className="flex items-center gap-2 font-medium">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+          />
+          Process audio before playback and export
+        </label>
+      </div>
+
+      <div className={sectionClassName}>
+        <label className="flex items-center gap-1">
+          Preset
+          <select
+            className="p-1 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800"
+            value={selectedPresetId}
+            onChange={(e) => handleApplyPreset(e.target.value)}
+          >
+            <option value="">Custom</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+        </label>
+        <input
+          type="text"
+          aria-label="Preset name"
+          className="p-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800"
+          placeholder="Preset name"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+        />
+        <button type="button" onClick={handleSavePreset} className="text-blue-600 hover:underline">Save preset</button>
+        {selectedPreset && !selectedPreset.builtIn && (
+          <button type="button" onClick={handleDeletePreset} className="text-red-600 hover:underline">Delete</button>
+        )}
+      </div>
+
+      <div className={sectionClassName}>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.highPass.enabled}
+            onChange={(e) => update('highPass', { enabled: e.target.checked })}
+          />
+          High-pass
+        </label>
+        <NumberField
+          label="Cutoff (Hz)"
+          value={settings.highPass.cutoffHz}
+          min={20}
+          max={500}
+          onChange={(cutoffHz) => update('highPass', { cutoffHz })}
+          disabled={!settings.highPass.enabled}
+        />
+      </div>
+
+      <div className={sectionClassName}>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.eq.enabled}
+            onChange={(e) => update('eq', { enabled: e.target.checked })}
+          />
+          EQ
+        </label>
+        <NumberField label="Low (dB)" value={settings.eq.lowGainDb} min={-12} max={12} step={0.5} onChange={(lowGainDb) => update('eq', { lowGainDb })} disabled={!settings.eq.enabled} />
+        <NumberField label="Mid (dB)" value={settings.eq.midGainDb} min={-12} max={12} step={0.5} onChange={(midGainDb) => update('eq', { midGainDb })} disabled={!settings.eq.enabled} />
+        <NumberField label="High (dB)" value={settings.eq.highGainDb} min={-12} max={12} step={0.5} onChange={(highGainDb) => update('eq', { highGainDb })} disabled={!settings.eq.enabled} />
+      </div>
+
+      <div className={sectionClassName}>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.trimSilence.enabled}
+            onChange={(e) => update('trimSilence', { enabled: e.target.checked })}
+          />
+          Trim silence
+        </label>
+        <NumberField label="Threshold (dBFS)" value={settings.trimSilence.thresholdDb} min={-90} max={-10} onChange={(thresholdDb) => update('trimSilence', { thresholdDb })} disabled={!settings.trimSilence.enabled} />
+        <NumberField label="Padding (ms)" value={settings.trimSilence.paddingMs} min={0} max={2000} step={10} onChange={(paddingMs) => update('trimSilence', { paddingMs })} disabled={!settings.trimSilence.enabled} />
+      </div>
+
+      <div className={sectionClassName}>
+        <label className="flex items-center gap-1">
+          Normalize
+          <select
+            className="p-1 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800"
+            value={settings.normalization.mode}
+            onChange={(e) => update('normalization', { mode: e.target.value as NormalizationMode })}
+          >
+            <option value="none">Off</option>
+            <option value="peak">Peak</option>
+            <option value="loudness">Loudness (LUFS)</option>
+          </select>
+        </label>
+        {settings.normalization.mode === 'peak' && (
+          <NumberField label="Peak (dBFS)" value={settings.normalization.peakDb} min={-20} max={0} step={0.5} onChange={(peakDb) => update('normalization', { peakDb })} />
+        )}
+        {settings.normalization.mode === 'loudness' && (
+          <NumberField label="Target (LUFS)" value={settings.normalization.targetLufs} min={-36} max={-6} step={0.5} onChange={(targetLufs) => update('normalization', { targetLufs })} />
+        )}
+      </div>
+
+      <div className={sectionClassName}>
+        <NumberField label="Fade in (ms)" value={settings.fades.fadeInMs} min={0} max={5000} step={10} onChange={(fadeInMs) => update('fades', { fadeInMs })} />
+        <NumberField label="Fade out (ms)" value={settings.fades.fadeOutMs} min={0} max={5000} step={10} onChange={(fadeOutMs) => update('fades', { fadeOutMs })} />
+      </div>
+
+      {levels && (
+        <p className="text-xs text-gray-500">
+          Output: {formatLevel(levels.loudness, 'LUFS')} integrated, peak {formatLevel(levels.peak, 'dBFS')}
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">{error}</p>
+      )}
+    </fieldset>
+  );
+};
+
+export default ProcessingPanel;
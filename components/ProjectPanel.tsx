@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { ProjectFileError } from '../services/projectFile';
+import { PROJECT_FILE_EXTENSION } from '../constants';
+
+interface ProjectPanelProps {
+  name: string;
+  onNameChange: (name: string) => void;
+  hasAudio: boolean;
+  onSave: (includeAudio: boolean) => void;
+  onOpen: (text: string) => Promise<void>; // Rejects with ProjectFileError when the file cannot be used
+  disabled?: boolean;
+}
+
+/**
+ * Open and save-as actions for project files. The session is also autosaved,
+ * so this is for keeping and sharing versions of a voice-over.
+ */
+const ProjectPanel: React.FC<ProjectPanelProps> = ({ name, onNameChange, hasAudio, onSave, onOpen, disabled }) => {
+  const [includeAudio, setIncludeAudio] = useState<boolean>(false);
+  const [error, setError] = useState<{ message: string, problems: string[] } | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    setError(null);
+    try {
+      await onOpen(await file.text());
+    } catch (err: any) {
+      console.error(err);
+      setError({
+        message: err.message || 'Could not open the project.',
+        problems: err instanceof ProjectFileError ? err.problems : [],
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-2 border border-gray-200 rounded-lg p-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col flex-1 min-w-[10rem] text-sm font-medium text-gray-700">
+          Project name
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => onNameChange(e.target.value)}
+            placeholder="Untitled project"
+            className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800"
+          />
+        </label>
+        <label className="border border-gray-300 hover:bg-gray-100 text-gray-700 font-semibold py-2 px-4 rounded-lg cursor-pointer">
+          Open...
+          <input
+            type="file"
+            accept={`${PROJECT_FILE_EXTENSION},application/json`}
+            className="sr-only"
+            onChange={handleFile}
+            disabled={disabled}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => onSave(includeAudio && hasAudio)}
+          className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg"
+        >
+          Save as...
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={includeAudio}
+          onChange={(e) => setIncludeAudio(e.target.checked)}
+          disabled={!hasAudio}
+        />
+        Embed the generated audio (larger file)
+      </label>
+
+      {error && (
+        <div className="text-sm text-red-600" role="alert">
+          <p>{error.message}</p>
+          {error.problems.length > 0 && (
+            <ul className="list-disc list-inside">
+              {error.problems.map((problem) => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectPanel;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { TtsProvider, TTS_PROVIDERS } from '../services/providers';
+import { TtsProviderId } from '../types';
+
+interface ProviderSelectProps {
+  provider: TtsProvider;
+  onProviderChange: (providerId: TtsProviderId) => void;
+  disabled?: boolean;
+}
+
+// Chooses the speech backend, with a short description of the current one
+const ProviderSelect: React.FC<ProviderSelectProps> = ({ provider, onProviderChange, disabled }) => (
+  <div className="flex flex-col space-y-2">
+    <label htmlFor="provider-select" className="text-lg font-semibold text-gray-700">Speech Provider:</label>
+    <select
+      id="provider-select"
+      className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-800"
+      value={provider.id}
+      onChange={(e) => onProviderChange(e.target.value as TtsProviderId)}
+      disabled={disabled}
+    >
+      {TTS_PROVIDERS.map((option) => (
+        <option key={option.id} value={option.id}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+    <p className="text-sm text-gray-600 mt-1">{provider.description}</p>
+  </div>
+);
+
+export default ProviderSelect;
@@ -0,0 +1,112 @@
+import React from 'react';
+import ScriptEditor from './ScriptEditor';
+import { MarkupError } from '../services/scriptMarkup';
+import { ScriptConversionMode } from '../types';
+
+interface ScriptConversionPanelProps {
+  mode: ScriptConversionMode;
+  onModeChange: (mode: ScriptConversionMode) => void;
+  languageLabel: string;
+  canTranslate: boolean; // Whether the provider offers translation
+  canTransliterate: boolean; // False for English, which needs no conversion
+  preview: string | null;
+  onPreviewChange: (text: string) => void;
+  stale: boolean; // The script or language changed since the preview was made
+  converting: boolean;
+  onConvert: () => void;
+  errors: MarkupError[]; // Markup errors in the preview
+  disabled?: boolean;
+}
+
+const MODE_LABELS: Record<ScriptConversionMode, string> = {
+  none: 'Use as written',
+  transliterate: 'Transliterate',
+  translate: 'Translate',
+};
+
+/**
+ * Chooses how the script is converted before synthesis and shows the converted
+ * text for review. The preview is what gets spoken, so edits to it are kept
+ * until the source script or language changes.
+ */
+const ScriptConversionPanel: React.FC<ScriptConversionPanelProps> = ({
+  mode,
+  onModeChange,
+  languageLabel,
+  canTranslate,
+  canTransliterate,
+  preview,
+  onPreviewChange,
+  stale,
+  converting,
+  onConvert,
+  errors,
+  disabled,
+}) => {
+  const available: Record<ScriptConversionMode, boolean> = {
+    none: true,
+    transliterate: canTransliterate,
+    translate: canTranslate,
+  };
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <legend className="px-2 text-lg font-medium text-gray-700">Before synthesis</legend>
+      <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+        {(Object.keys(MODE_LABELS) as ScriptConversionMode[]).map((option) => (
+          <label key={option} className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="script-conversion"
+              value={option}
+              checked={mode === option}
+              onChange={() => onModeChange(option)}
+              disabled={disabled || !available[option]}
+            />
+            {MODE_LABELS[option]}
+          </label>
+        ))}
+      </div>
+      <p className="text-sm text-gray-600">
+        {mode === 'none' && 'The script is spoken exactly as typed.'}
+        {mode === 'transliterate' && `Romanized words (e.g. "namaskaram") are converted to ${languageLabel} script; markup and text already in ${languageLabel} are kept.`}
+        {mode === 'translate' && `The script is translated into ${languageLabel} by a text model.`}
+        {!canTransliterate && mode === 'none' && ' Choose Telugu, Hindi or Tamil to transliterate.'}
+      </p>
+
+      {mode !== 'none' && (
+        <>
+          <button
+            type="button"
+            onClick={onConvert}
+            disabled={disabled || converting}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded-lg"
+          >
+            {converting ? 'Converting...' : preview === null ? 'Preview conversion' : 'Convert again'}
+          </button>
+          {preview !== null && (
+            <div className="flex flex-col space-y-1">
+              <label htmlFor="converted-script" className="text-sm font-medium text-gray-700">
+                Converted script (this is what will be spoken; you can edit it)
+              </label>
+              <ScriptEditor
+                id="converted-script"
+                value={preview}
+                onChange={onPreviewChange}
+                errors={errors}
+                disabled={disabled}
+              />
+              {stale && (
+                <p className="text-sm text-yellow-700" role="status">
+                  The script or language changed since this preview was made. Convert again to update it.
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </fieldset>
+  );
+};
+
+export default ScriptConversionPanel;
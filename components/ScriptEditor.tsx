@@ -0,0 +1,111 @@
+import React, { useRef } from 'react';
+import { MarkupError } from '../services/scriptMarkup';
+
+interface ScriptEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  errors: MarkupError[];
+  highlight?: { offset: number, length: number } | null; // Word being spoken during playback
+  placeholder?: string;
+  disabled?: boolean;
+  describedBy?: string; // Id of text explaining the field, e.g. why it is disabled
+}
+
+// The backdrop must share the textarea's box model and font metrics so the
+// highlighted ranges line up with the typed text.
+const sharedClassName = "w-full p-4 border rounded-lg text-base leading-6 font-[inherit] whitespace-pre-wrap break-words";
+
+/**
+ * Script textarea that highlights markup errors and the word being spoken. A
+ * mirrored backdrop behind a transparent textarea renders <mark> elements at
+ * each range.
+ */
+const ScriptEditor: React.FC<ScriptEditorProps> = ({ id, value, onChange, errors, highlight, placeholder, disabled, describedBy }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const handleScroll = () => {
+    if (backdropRef.current && textareaRef.current) {
+      backdropRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  };
+
+  const selectError = (error: MarkupError) => {
+    const textarea = textareaRef.current;
+    if (textarea) {
+      textarea.focus();
+      textarea.setSelectionRange(error.offset, error.offset + error.length);
+    }
+  };
+
+  const ranges = errors.map((error) => ({ offset: error.offset, length: error.length, className: 'bg-red-200' }));
+  if (highlight) {
+    ranges.push({ ...highlight, className: 'bg-yellow-200' });
+    ranges.sort((a, b) => a.offset - b.offset);
+  }
+
+  const highlighted: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range, index) => {
+    if (range.offset < cursor) {
+      return; // Overlapping ranges are highlighted once
+    }
+    highlighted.push(value.slice(cursor, range.offset));
+    highlighted.push(
+      <mark key={index} className={`${range.className} text-transparent rounded-sm`}>
+        {value.slice(range.offset, range.offset + range.length)}
+      </mark>,
+    );
+    cursor = range.offset + range.length;
+  });
+  // A trailing newline needs a character after it to take up space in the backdrop.
+  highlighted.push(value.slice(cursor) + '\u200b');
+
+  const errorListId = `${id}-errors`;
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <div className="relative">
+        <div
+          ref={backdropRef}
+          aria-hidden="true"
+          className={`${sharedClassName} absolute inset-0 overflow-hidden border-transparent text-transparent bg-white pointer-events-none`}
+        >
+          {highlighted}
+        </div>
+        <textarea
+          ref={textareaRef}
+          id={id}
+          className={`${sharedClassName} relative border-gray-300 bg-transparent focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 resize-y min-h-[150px] text-black placeholder-gray-600`}
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={handleScroll}
+          rows={8}
+          disabled={disabled}
+          aria-invalid={errors.length > 0}
+          aria-describedby={[describedBy, errors.length > 0 && errorListId].filter(Boolean).join(' ') || undefined}
+        ></textarea>
+      </div>
+
+      {errors.length > 0 && (
+        <ul id={errorListId} className="text-sm text-red-700 flex flex-col space-y-1">
+          {errors.map((error, index) => (
+            <li key={index}>
+              <button type="button" onClick={() => selectError(error)} className="text-left hover:underline">
+                Line {error.line}, column {error.column}: {error.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-sm text-gray-600">
+        Markup: <code>[pause 500ms]</code>, <code>*emphasis*</code>, <code>{'{word|phonetic spelling}'}</code>, <code>{'<slow>...</slow>'}</code>. Escape a symbol with <code>\</code>.
+      </p>
+    </div>
+  );
+};
+
+export default ScriptEditor;
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { SpeechCache, SpeechCacheStats } from '../services/speechCache';
+import { SPEECH_CACHE_MAX_BYTES } from '../constants';
+
+interface SpeechCachePanelProps {
+  cache: SpeechCache;
+  version: number; // Bumped by the parent after each generation so the stats are re-read
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Size of the local audio cache, with a button to empty it. Repeat requests
+ * for the same script and settings are answered from this cache for free.
+ */
+const SpeechCachePanel: React.FC<SpeechCachePanelProps> = ({ cache, version }) => {
+  const [stats, setStats] = useState<SpeechCacheStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setStats(await cache.stats());
+    } catch (err: any) {
+      setError(err.message || 'Could not read the audio cache.');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [cache, version]);
+
+  const handleClear = async () => {
+    setError(null);
+    try {
+      await cache.clear();
+    } catch (err: any) {
+      setError(err.message || 'Could not clear the audio cache.');
+    }
+    refresh();
+  };
+
+  return (
+    <details className="border border-gray-200 rounded-lg p-4">
+      <summary className="text-lg font-medium text-gray-700 cursor-pointer">Audio cache</summary>
+      <div className="mt-3 space-y-3 text-sm text-gray-700">
+        <p>
+          Generating the same script with the same voice, tone, language and model again plays the saved audio
+          instead of making a new request. Use "Regenerate without cache" under the player for a fresh take.
+        </p>
+        {stats && (
+          <p>
+            {stats.entries} clip{stats.entries === 1 ? '' : 's'}, {formatMegabytes(stats.bytes)} of {formatMegabytes(SPEECH_CACHE_MAX_BYTES)}.
+            Least recently used clips are removed first.
+          </p>
+        )}
+        <button
+          type="button"
+          onClick={handleClear}
+          disabled={!stats || stats.entries === 0}
+          className="text-red-600 hover:underline disabled:text-gray-400"
+        >
+          Clear audio cache
+        </button>
+        {error && <p className="text-red-600" role="alert">{error}</p>}
+      </div>
+    </details>
+  );
+};
+
+export default SpeechCachePanel;
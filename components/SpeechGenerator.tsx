@@ -1,278 +1,838 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { generateSpeech } from '../services/geminiService';
-import { VOICE_OPTIONS, decode, decodeAudioData, encodeWAV, LANGUAGE_OPTIONS } from '../constants';
-import { VoiceOption, Emotion, Language } from '../types';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { parseDialogue, assignDefaultVoices, resolveSpeakerVoices, spokenSpeakers, speakableDialogueLines } from '../services/dialogue';
+import { planScriptChunks } from '../services/scriptChunker';
+import { parseMarkup } from '../services/scriptMarkup';
+import { wordIndexAt, TimingSegment } from '../services/speechTiming';
+import { AuthError, CancelledError, describeError } from '../services/speechErrors';
+import { exportAudioBuffer, exportFileExtension, downloadBlob } from '../services/audioExport';
+import { processAudioBuffer } from '../services/audioProcessing';
+import { createProcessingPresetStore } from '../services/processingPresets';
+import { createVoicePresetStore, withVoicePresets } from '../services/voicePresets';
+import { TimelineSource } from '../services/timeline';
+import { createLexiconStore } from '../services/lexicon';
+import { createSpeechCache, createDefaultSpeechCacheBackend, withSpeechCache } from '../services/speechCache';
+import { withBudgetLimit, withUsageTracking } from '../services/usage';
+import { ariaKeyShortcuts } from '../services/shortcuts';
+import { createProjectFile, parseProjectFile, serializeProject } from '../services/projectFile';
+import { TtsProvider, TTS_PROVIDERS, DEFAULT_TTS_PROVIDER, getTtsProvider } from '../services/providers';
+import { useProcessedAudio } from '../hooks/useProcessedAudio';
+import { useTakeTiming, TakeText } from '../hooks/useTakeTiming';
+import { useChunkedSpeech, ChunkRequest } from '../hooks/useChunkedSpeech';
+import { useStreamPlayback } from '../hooks/useStreamPlayback';
+import { useTakeHistory, TakeSettings } from '../hooks/useTakeHistory';
+import { useUsage } from '../hooks/useUsage';
+import { useScriptConversion } from '../hooks/useScriptConversion';
+import { useProjectAutosave } from '../hooks/useProjectAutosave';
+import { useHighContrast } from '../hooks/useHighContrast';
+import { useApiKey } from '../hooks/useApiKey';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useGenerationAnnouncements } from '../hooks/useGenerationAnnouncements';
+import HistoryPanel from './HistoryPanel';
+import ExportPanel, { ExportPanelControls } from './ExportPanel';
+import ProcessingPanel from './ProcessingPanel';
+import BatchPanel from './BatchPanel';
+import ProjectPanel from './ProjectPanel';
+import VoicePresetPanel from './VoicePresetPanel';
+import VoiceAuditionPanel from './VoiceAuditionPanel';
+import ScriptConversionPanel from './ScriptConversionPanel';
+import UsagePanel from './UsagePanel';
+import SpeechCachePanel from './SpeechCachePanel';
+import CacheNotice from './CacheNotice';
+import TimelinePanel from './TimelinePanel';
+import LexiconPanel from './LexiconPanel';
+import ScriptEditor from './ScriptEditor';
+import AccessibilityControls from './AccessibilityControls';
+import ApiKeyNotice from './ApiKeyNotice';
+import VoiceControls from './VoiceControls';
+import ProviderSelect from './ProviderSelect';
+import GenerationModeToggle from './GenerationModeToggle';
+import ChunkProgress from './ChunkProgress';
+import ChunkSettings from './ChunkSettings';
+import StreamPlaybackToggle from './StreamPlaybackToggle';
+import ErrorAlert from './ErrorAlert';
+import AudioPlayer, { AudioPlayerControls } from './AudioPlayer';
+import {
+  decode,
+  encode,
+  decodeAudioData,
+  encodePCM16,
+  concatPCM,
+  EMOTION_OPTIONS,
+  TTS_SAMPLE_RATE,
+  CHUNK_MAX_CHARS,
+  DEFAULT_CHUNK_SILENCE_MS,
+  DEFAULT_EXPORT_SETTINGS,
+  DEFAULT_PROCESSING_SETTINGS,
+  SPEECH_ERROR_MESSAGES,
+  PROJECT_FILE_EXTENSION,
+  KEYBOARD_SHORTCUTS,
+} from '../constants';
+import {
+  VoiceOption,
+  Emotion,
+  Language,
+  GenerationMode,
+  SpeakerVoiceMap,
+  ScriptChunk,
+  HistoryTake,
+  ExportSettings,
+  ProcessingSettings,
+  TtsProviderId,
+  ErrorRecoveryAction,
+  ProjectFile,
+  ProjectState,
+} from '../types';
+
+// Explains the disabled controls while no API key is selected
+const API_KEY_NOTICE_ID = 'api-key-notice';
 
 const SpeechGenerator: React.FC = () => {
   const [script, setScript] = useState<string>('');
-  const [selectedVoice, setSelectedVoice] = useState<VoiceOption>(VOICE_OPTIONS[0]);
+  const [baseProvider, setProvider] = useState<TtsProvider>(DEFAULT_TTS_PROVIDER);
+  const [selectedVoice, setSelectedVoice] = useState<VoiceOption>(DEFAULT_TTS_PROVIDER.voices[0]);
   const [selectedEmotion, setSelectedEmotion] = useState<Emotion>('neutral');
   const [selectedLanguage, setSelectedLanguage] = useState<Language>('english');
+  const [mode, setMode] = useState<GenerationMode>('single');
+  const [speakerVoiceMap, setSpeakerVoiceMap] = useState<SpeakerVoiceMap>({});
+  const [chunkSilenceMs, setChunkSilenceMs] = useState<number>(DEFAULT_CHUNK_SILENCE_MS);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
-  const [hasApiKeySelected, setHasApiKeySelected] = useState<boolean>(false); // New state for API key status
+  const [errorAction, setErrorAction] = useState<ErrorRecoveryAction | null>(null);
+  const [notice, setNotice] = useState<string | null>(null); // Non-error status, e.g. a cancelled request
+  const [rawBuffer, setRawBuffer] = useState<AudioBuffer | null>(null); // Take as generated, before post-processing
+  const [takeText, setTakeText] = useState<TakeText | null>(null);
+  const [activeWordIndex, setActiveWordIndex] = useState<number>(-1);
+  const [playerKey, setPlayerKey] = useState<number>(0); // Remounts the player so each take starts fresh
+  const [playerAutoPlay, setPlayerAutoPlay] = useState<boolean>(true);
+  const [streamPlayback, setStreamPlayback] = useState<boolean>(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [processingSettings, setProcessingSettings] = useState<ProcessingSettings>(DEFAULT_PROCESSING_SETTINGS);
+  const [projectName, setProjectName] = useState<string>('');
+  const [timelineTakes, setTimelineTakes] = useState<TimelineSource[]>([]);
+  const apiKey = useApiKey();
+  const [highContrast, toggleHighContrast] = useHighContrast();
+  // How many of the take's requests were answered from the audio cache
+  const [takeCache, setTakeCache] = useState<{ cached: number, total: number } | null>(null);
+  const [cacheVersion, setCacheVersion] = useState<number>(0);
+
+  const lexiconStore = useMemo(() => createLexiconStore(), []);
+  const [lexicon, setLexicon] = useState(() => lexiconStore.list());
+  const voicePresetStore = useMemo(() => createVoicePresetStore(), []);
+  const [voicePresets, setVoicePresets] = useState(() => voicePresetStore.list());
+  const usage = useUsage();
+  const speechCache = useMemo(() => createSpeechCache(createDefaultSpeechCacheBackend()), []);
+
+  // The selected provider with the user's voice presets added to its voices, logging every request
+  // that reaches it and refusing new ones past a hard budget limit; repeat requests are answered
+  // from the audio cache and never logged or blocked
+  const provider = useMemo(
+    () => withSpeechCache(
+      withBudgetLimit(withUsageTracking(withVoicePresets(baseProvider, voicePresets), usage.record), usage.currentBudget),
+      speechCache,
+    ),
+    [baseProvider, voicePresets, usage.record, usage.currentBudget, speechCache],
+  );
+  const withPresets = (next: TtsProvider) => withVoicePresets(next, voicePresets);
+
+  // Providers that run without a key (offline mock, self-hosted) stay usable when none is selected
+  const canGenerate = apiKey.hasKey || !provider.requiresApiKey;
+  const emotionOptions = EMOTION_OPTIONS.filter((option) => provider.emotions.includes(option.id));
 
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Form settings of the take currently being generated, saved with it to history
+  const pendingTakeRef = useRef<TakeSettings | null>(null);
+  const playerControlsRef = useRef<AudioPlayerControls>(null);
+  const exportControlsRef = useRef<ExportPanelControls>(null);
+  const generateButtonRef = useRef<HTMLButtonElement>(null);
+  const cancelButtonRef = useRef<HTMLButtonElement>(null);
+  const errorRef = useRef<HTMLDivElement>(null);
+
+  const processingPresetStore = useMemo(() => createProcessingPresetStore(), []);
 
   const getAudioContext = useCallback(() => {
     if (!audioContextRef.current) {
-      audioContextRef.current = new window.AudioContext({ sampleRate: 24000 });
+      audioContextRef.current = new window.AudioContext({ sampleRate: TTS_SAMPLE_RATE });
     }
     return audioContextRef.current;
   }, []);
 
-  // Effect to clean up the object URL when component unmounts or a new audio is generated
-  useEffect(() => {
-    return () => {
-      if (downloadUrl) {
-        URL.revokeObjectURL(downloadUrl);
-      }
-    };
-  }, [downloadUrl]);
+  const chunked = useChunkedSpeech(getAudioContext, chunkSilenceMs);
+  const { chunks } = chunked;
+  const streamPlayer = useStreamPlayback(getAudioContext);
+  const history = useTakeHistory(getAudioContext);
+
+  const dialogue = useMemo(() => parseDialogue(script), [script]);
+  const markup = useMemo(() => parseMarkup(script), [script]);
 
-  // Check for API key on component mount
+  // What is actually spoken: the script itself, or its reviewed conversion
+  const conversion = useScriptConversion(script, selectedLanguage, provider);
+  const { synthesisScript, converting } = conversion;
+  const speechDialogue = useMemo(
+    () => (synthesisScript === script ? dialogue : parseDialogue(synthesisScript)),
+    [synthesisScript, script, dialogue],
+  );
+  const speechMarkup = useMemo(
+    () => (synthesisScript === script ? markup : parseMarkup(synthesisScript)),
+    [synthesisScript, script, markup],
+  );
+  // What the player and export panel see; re-derived when the processing settings change
+  const currentBuffer = useProcessedAudio(rawBuffer, processingSettings, getAudioContext);
+
+  const { timing, captionCues } = useTakeTiming(currentBuffer, takeText, processingSettings);
+  const activeWord = timing && takeText?.script === script ? timing.words[activeWordIndex] : undefined;
+
+  const handlePlaybackPosition = useCallback((seconds: number) => {
+    setActiveWordIndex(timing ? wordIndexAt(timing, seconds) : -1);
+  }, [timing]);
+
+  // Give newly detected speakers a voice while keeping the user's existing choices
   useEffect(() => {
-    const checkApiKey = async () => {
-      if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
-        const hasKey = await window.aistudio.hasSelectedApiKey();
-        setHasApiKeySelected(hasKey);
-      } else {
-        // Assume key is available if aistudio API is not present (e.g., local dev without special runtime)
-        setHasApiKeySelected(true);
-      }
-    };
-    checkApiKey();
-  }, []);
+    if (mode !== 'dialogue') {
+      return;
+    }
+    setSpeakerVoiceMap((current) => assignDefaultVoices(dialogue.speakers, provider.voices, current));
+  }, [mode, dialogue.speakers, provider]);
 
   const handleSelectApiKey = async () => {
-    if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
-      await window.aistudio.openSelectKey();
-      // As per guidelines, assume selection was successful and update state
-      setHasApiKeySelected(true);
+    if (await apiKey.selectKey()) {
       setError(null); // Clear any previous API key related error
     } else {
       setError("API key selection not available in this environment.");
     }
   };
 
-  const handleGenerateSpeech = async () => {
+  const clearError = () => {
     setError(null);
-    if (!hasApiKeySelected) {
-      setError("An API Key must be selected before generating speech. Please click 'Select API Key'.");
+    setErrorAction(null);
+    setNotice(null);
+  };
+
+  const handleGenerationError = (err: any) => {
+    if (err instanceof CancelledError) {
+      setNotice(SPEECH_ERROR_MESSAGES.cancelled.message);
       return;
     }
+    console.error(err);
+    const { message, action } = describeError(err);
+    setError(message);
+    if (err instanceof AuthError && provider.requiresApiKey) {
+      apiKey.forgetKey(); // Prompt user to select key again
+      setErrorAction('select-key');
+    } else {
+      setErrorAction(action === 'select-key' ? null : action);
+    }
+  };
 
-    if (downloadUrl) {
-      URL.revokeObjectURL(downloadUrl); // Clean up previous download URL
-      setDownloadUrl(null);
+  const handleErrorAction = () => {
+    if (errorAction === 'select-key') {
+      handleSelectApiKey();
+    } else if (errorAction === 'retry') {
+      handleGenerateSpeech();
+    } else if (errorAction === 'edit-script') {
+      document.getElementById('script')?.focus();
     }
-    setLoading(true);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    streamPlayer.stop();
+  };
 
-    // Stop any currently playing audio
-    if (sourceNodeRef.current) {
-      sourceNodeRef.current.stop();
-      sourceNodeRef.current.disconnect();
-      sourceNodeRef.current = null;
+  const loadIntoPlayer = (audioBuffer: AudioBuffer, text: TakeText | null, autoPlay = true) => {
+    if (autoPlay) {
+      streamPlayer.stop();
     }
+    setRawBuffer(audioBuffer);
+    setTakeText(text);
+    setTakeCache(null);
+    setActiveWordIndex(-1);
+    setPlayerAutoPlay(autoPlay);
+    setPlayerKey((key) => key + 1);
+  };
+
+  const [announcement, setAnnouncement] = useGenerationAnnouncements({
+    notice,
+    loading,
+    converting,
+    chunksDone: chunks.filter((chunk) => chunk.status === 'done').length,
+    chunkCount: chunks.length,
+    generateButtonRef,
+    cancelButtonRef,
+    errorRef,
+    playerControlsRef,
+  });
+
+  // Loads the finished take into the player (which starts playing it), makes it
+  // available for export and records it in history
+  const presentAudio = (audioBuffer: AudioBuffer, autoPlay = true, segments?: TimingSegment[]) => {
+    const take = pendingTakeRef.current;
+    loadIntoPlayer(audioBuffer, take && { script: take.script, mode: take.mode, segments }, autoPlay);
+    setAnnouncement(`Voice-over ready, ${audioBuffer.duration.toFixed(1)} seconds.${autoPlay ? ' Playing now.' : ''}`);
+
+    if (pendingTakeRef.current) {
+      history.save(audioBuffer, pendingTakeRef.current);
+    }
+  };
 
+  const handleReplayTake = async (take: HistoryTake) => {
     try {
-      const base64Audio = await generateSpeech({
-        script,
-        voiceOption: selectedVoice,
-        emotion: selectedEmotion,
-        language: selectedLanguage,
-      });
+      loadIntoPlayer(await history.decodeTake(take), { script: take.script, mode: take.mode });
+    } catch (err: any) {
+      handleGenerationError(err);
+    }
+  };
 
-      const audioBytes = decode(base64Audio);
-      const audioContext = getAudioContext();
-      const audioBuffer = await decodeAudioData(audioBytes, audioContext, 24000, 1);
+  const handleDownloadTake = async (take: HistoryTake) => {
+    try {
+      const processed = processAudioBuffer(getAudioContext(), await history.decodeTake(take), processingSettings);
+      const blob = await exportAudioBuffer(processed, exportSettings);
+      downloadBlob(blob, `${take.name.replace(/[^\p{L}\p{N}_-]+/gu, '-')}.${exportFileExtension(exportSettings)}`);
+    } catch (err: any) {
+      handleGenerationError(err);
+    }
+  };
+
+  // Takes go to the timeline as heard, with the current post-processing applied
+  const addToTimeline = (buffer: AudioBuffer, label: string) => {
+    setTimelineTakes((current) => [...current, { id: crypto.randomUUID(), label, buffer }]);
+    setNotice(`Added "${label}" to the timeline.`);
+  };
+
+  const handleAddTakeToTimeline = async (take: HistoryTake) => {
+    try {
+      addToTimeline(processAudioBuffer(getAudioContext(), await history.decodeTake(take), processingSettings), take.name);
+    } catch (err: any) {
+      handleGenerationError(err);
+    }
+  };
 
-      const source = audioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(audioContext.destination);
-      source.start();
+  const handleRestoreTake = (take: HistoryTake) => {
+    setProvider(getTtsProvider(take.providerId));
+    const takeProvider = withPresets(getTtsProvider(take.providerId));
+    setScript(take.script);
+    setMode(take.mode);
+    setSelectedEmotion(take.emotion);
+    setSelectedLanguage(take.language);
+    const voice = takeProvider.voices.find((option) => option.id === take.voiceId);
+    setSelectedVoice(voice ?? takeProvider.voices[0]);
+    if (take.speakerVoices) {
+      setSpeakerVoiceMap(take.speakerVoices);
+    }
+  };
 
-      sourceNodeRef.current = source; // Keep reference to the playing source
+  const projectState = useMemo<ProjectState>(() => ({
+    providerId: provider.id,
+    mode,
+    script,
+    voiceId: selectedVoice.id,
+    speakerVoices: speakerVoiceMap,
+    emotion: selectedEmotion,
+    language: selectedLanguage,
+    chunkSilenceMs,
+    processing: processingSettings,
+  }), [provider, mode, script, selectedVoice, speakerVoiceMap, selectedEmotion, selectedLanguage, chunkSilenceMs, processingSettings]);
 
-      // Generate WAV Blob and create download URL
-      const wavBlob = encodeWAV(audioBuffer);
-      const url = URL.createObjectURL(wavBlob);
-      setDownloadUrl(url);
+  // Replaces the session with a validated project; embedded audio is loaded into the player without playing
+  const applyProject = async (project: ProjectFile) => {
+    const projectProvider = withPresets(getTtsProvider(project.providerId));
+    setProjectName(project.name);
+    setProvider(getTtsProvider(project.providerId));
+    setScript(project.script);
+    setMode(project.mode);
+    setSelectedVoice(projectProvider.voices.find((option) => option.id === project.voiceId) ?? projectProvider.voices[0]);
+    setSpeakerVoiceMap(project.speakerVoices);
+    setSelectedEmotion(project.emotion);
+    setSelectedLanguage(project.language);
+    setChunkSilenceMs(project.chunkSilenceMs);
+    setProcessingSettings(project.processing);
+    chunked.clear();
+    if (project.audio) {
+      const audioBuffer = await decodeAudioData(decode(project.audio.pcm), getAudioContext(), project.audio.sampleRate, 1);
+      loadIntoPlayer(audioBuffer, { script: project.script, mode: project.mode }, false);
+    }
+  };
 
+  useProjectAutosave(projectName, projectState, (saved) => {
+    try {
+      applyProject(parseProjectFile(saved, TTS_PROVIDERS.map(withPresets)));
     } catch (err: any) {
-      console.error(err);
-      let errorMessage: string;
-      if (err instanceof Error) {
-        errorMessage = err.message;
-        // If the error specifically indicates a key issue, update the state
-        if (errorMessage.includes("API key might be invalid or not selected.")) {
-          setHasApiKeySelected(false); // Prompt user to select key again
+      console.warn('Could not restore the autosaved session:', err);
+      setNotice(`The previous session could not be restored: ${[err.message, ...(err.problems ?? [])].join(' ')}`);
+    }
+  });
+
+  const handleOpenProject = async (text: string) => {
+    await applyProject(parseProjectFile(text, TTS_PROVIDERS.map(withPresets)));
+    clearError();
+  };
+
+  const handleSaveProject = (includeAudio: boolean) => {
+    const audio = includeAudio && rawBuffer
+      ? { sampleRate: rawBuffer.sampleRate, pcm: encode(encodePCM16(rawBuffer)) }
+      : undefined;
+    const project = createProjectFile(projectName, projectState, audio);
+    const fileName = projectName.trim().replace(/[^\p{L}\p{N}_-]+/gu, '-') || 'voice-project';
+    downloadBlob(new Blob([serializeProject(project)], { type: 'application/json' }), `${fileName}${PROJECT_FILE_EXTENSION}`);
+  };
+
+  // Stitches the chunk buffers once every chunk has been generated
+  const finishChunkedGeneration = () => {
+    const take = chunked.stitch();
+    if (!take) {
+      return;
+    }
+    presentAudio(take.audioBuffer, true, take.segments);
+    setTakeCache({ cached: take.cached, total: take.total });
+    setCacheVersion((version) => version + 1);
+  };
+
+  // Only a reminder: the budget layer blocks billed requests, so cached takes still play
+  const warnAboutBudget = () => {
+    const budget = usage.currentBudget();
+    if (budget.level !== 'ok') {
+      setNotice(budget.message);
+    }
+  };
+
+  // Converts the script for review; resolves false if conversion failed or was cancelled
+  const handleConvertScript = async (): Promise<boolean> => {
+    clearError();
+    if (conversion.translates) {
+      warnAboutBudget();
+    }
+    setLoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+      await conversion.convert(mode === 'dialogue', controller.signal);
+      return true;
+    } catch (err: any) {
+      handleGenerationError(err);
+      return false;
+    } finally {
+      abortControllerRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  // With forceRegenerate, cached audio is ignored and replaced by the new take
+  const handleGenerateSpeech = async ({ forceRegenerate = false }: { forceRegenerate?: boolean } = {}) => {
+    clearError();
+    if (!canGenerate) {
+      setError("An API Key must be selected before generating speech. Please click 'Select API Key'.");
+      return;
+    }
+    warnAboutBudget();
+    if (markup.errors.length > 0) {
+      setError("Fix the highlighted script markup errors before generating.");
+      return;
+    }
+    if (conversion.stale) {
+      // The converted text must be reviewed before anything is spoken
+      if (await handleConvertScript()) {
+        setNotice('Review the converted script below, then generate again.');
+      }
+      return;
+    }
+    if (speechMarkup.errors.length > 0) {
+      setError("Fix the markup errors in the converted script before generating.");
+      return;
+    }
+
+    setRawBuffer(null); // Unmounting the player stops any currently playing audio
+    streamPlayer.stop();
+    setLoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+
+    pendingTakeRef.current = {
+      providerId: provider.id,
+      script: synthesisScript,
+      mode,
+      voiceId: selectedVoice.id,
+      speakerVoices: mode === 'dialogue' ? speakerVoiceMap : undefined,
+      emotion: selectedEmotion,
+      language: selectedLanguage,
+    };
+
+    try {
+      if (mode === 'dialogue') {
+        chunked.clear();
+        const lines = speakableDialogueLines(speechDialogue.lines, lexicon, selectedLanguage);
+        if (lines.length === 0) {
+          throw new Error("No dialogue lines found. Write each line as 'Speaker: text'.");
         }
-      } else if (typeof err === 'string') {
-        errorMessage = err;
-      } else {
-        errorMessage = 'An unexpected error occurred during speech generation.';
+        let cached = false;
+        const clips = await provider.generateDialogueSpeech({
+          lines,
+          speakerVoices: resolveSpeakerVoices(spokenSpeakers(lines), speakerVoiceMap, provider.voices),
+          emotion: selectedEmotion,
+          language: selectedLanguage,
+          signal,
+          forceRegenerate,
+          onCacheHit: () => { cached = true; },
+        });
+        const audioBytes = concatPCM(clips.map(decode));
+        presentAudio(await decodeAudioData(audioBytes, getAudioContext(), TTS_SAMPLE_RATE, 1));
+        setTakeCache({ cached: cached ? 1 : 0, total: 1 });
+        setCacheVersion((version) => version + 1);
+        return;
+      }
+
+      const request: ChunkRequest = { provider, voiceOption: selectedVoice, emotion: selectedEmotion, language: selectedLanguage, forceRegenerate };
+      const { chunks: scriptChunks, leadingPauseMs } = planScriptChunks(synthesisScript, lexicon, selectedLanguage, CHUNK_MAX_CHARS);
+
+      // A script that fits in one request without pauses can be played while it
+      // is generated; the finished clip is then handed to the player
+      const [firstChunk] = scriptChunks;
+      if (streamPlayback && provider.streamSpeech && scriptChunks.length === 1 && leadingPauseMs === 0 && !firstChunk.pauseAfterMs) {
+        chunked.clear();
+        let cached = false;
+        const audioBuffer = await streamPlayer.play(provider.streamSpeech({
+          script: firstChunk.text,
+          slow: firstChunk.slow,
+          voiceOption: selectedVoice,
+          emotion: selectedEmotion,
+          language: selectedLanguage,
+          signal,
+          forceRegenerate,
+          onCacheHit: () => { cached = true; },
+        }));
+        presentAudio(audioBuffer, false);
+        setTakeCache({ cached: cached ? 1 : 0, total: 1 });
+        setCacheVersion((version) => version + 1);
+        return;
+      }
+
+      const pauses = {
+        gapsMs: scriptChunks.map((chunk) => chunk.pauseAfterMs),
+        leadingSilenceMs: leadingPauseMs,
+      };
+      const results = await chunked.run(scriptChunks, request, pauses, signal);
+      const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (signal.aborted) {
+        throw new CancelledError();
+      }
+
+      if (failures.length === scriptChunks.length) {
+        throw failures[0].reason;
+      }
+      if (failures.length > 0) {
+        const reason = failures[0].reason instanceof Error ? failures[0].reason.message : String(failures[0].reason);
+        throw new Error(`${failures.length} of ${scriptChunks.length} chunks failed (${reason}). Retry the failed chunks below.`);
+      }
+
+      finishChunkedGeneration();
+    } catch (err: any) {
+      handleGenerationError(err);
+    } finally {
+      abortControllerRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  const handleRetryChunk = async (chunk: ScriptChunk) => {
+    clearError();
+    warnAboutBudget();
+    setLoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+      if (await chunked.retry(chunk, controller.signal)) {
+        finishChunkedGeneration();
       }
-      setError(errorMessage);
+    } catch (err: any) {
+      handleGenerationError(err);
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
     }
   };
 
-  const handleVoiceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const voice = VOICE_OPTIONS.find(v => v.id === e.target.value);
+  const handleProviderChange = (providerId: TtsProviderId) => {
+    setProvider(getTtsProvider(providerId));
+    const next = withPresets(getTtsProvider(providerId));
+    // Keep the current selections where the new provider supports them
+    setSelectedVoice((current) => next.voices.find((voice) => voice.id === current.id) ?? next.voices[0]);
+    setSelectedEmotion((current) => (next.emotions.includes(current) ? current : next.emotions[0]));
+    setSelectedLanguage((current) => (next.languages.some((language) => language.id === current) ? current : next.languages[0].id));
+    setSpeakerVoiceMap({});
+    setError(null);
+  };
+
+  const handleVoiceChange = (voiceId: string) => {
+    const voice = provider.voices.find(v => v.id === voiceId);
     if (voice) {
       setSelectedVoice(voice);
     }
+    // Selecting a custom preset also applies its delivery defaults
+    const preset = voicePresets.find((p) => p.id === voice?.presetId);
+    if (preset) {
+      if (provider.emotions.includes(preset.emotion)) {
+        setSelectedEmotion(preset.emotion);
+      }
+      setSelectedLanguage(preset.language);
+      if (preset.processing) {
+        setProcessingSettings(preset.processing);
+      }
+    }
   };
 
-  const handleEmotionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    setSelectedEmotion(e.target.value as Emotion);
-  };
+  // Keep the selected voice in step with edits to (or removal of) its preset
+  useEffect(() => {
+    setSelectedVoice((current) => provider.voices.find((voice) => voice.id === current.id) ?? provider.voices[0]);
+  }, [provider]);
 
-  const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    setSelectedLanguage(e.target.value as Language);
+  const handleSpeakerVoiceChange = (speaker: string, voiceId: string) => {
+    setSpeakerVoiceMap((current) => ({ ...current, [speaker]: voiceId }));
   };
 
+  const generateDisabled = loading || !script.trim() || !canGenerate || markup.errors.length > 0;
+  const generateHint = loading ? null
+    : !canGenerate ? 'Select an API key above to enable generation.'
+    : !script.trim() ? 'Write a script to enable generation.'
+    : markup.errors.length > 0 ? 'Fix the highlighted markup errors to enable generation.'
+    : null;
+  const keyNoticeId = canGenerate ? undefined : API_KEY_NOTICE_ID;
+
+  useKeyboardShortcuts({
+    generate: generateDisabled ? null : () => handleGenerateSpeech(),
+    playPause: () => playerControlsRef.current?.togglePlay(),
+    download: () => exportControlsRef.current?.download(),
+    cancel: loading ? handleCancel : null,
+  });
+
   return (
-    <div className="bg-white shadow-lg rounded-xl p-6 md:p-10 w-full max-w-2xl mx-auto flex flex-col space-y-6">
-      <h1 className="text-4xl font-extrabold text-center text-gray-900 mb-6">Pujiverse Voice Studio</h1>
+    <div className="flex flex-col lg:flex-row lg:items-start gap-6 w-full">
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">{announcement}</div>
+
+      <div className="bg-white shadow-lg rounded-xl p-6 md:p-10 w-full max-w-2xl mx-auto flex flex-col space-y-6">
+        <h1 className="text-4xl font-extrabold text-center text-gray-900 mb-6">Pujiverse Voice Studio</h1>
+
+        <AccessibilityControls highContrast={highContrast} onHighContrastToggle={toggleHighContrast} />
+
+        {!canGenerate && <ApiKeyNotice descriptionId={API_KEY_NOTICE_ID} onSelectKey={handleSelectApiKey} />}
+
+        <ProjectPanel
+          name={projectName}
+          onNameChange={setProjectName}
+          hasAudio={rawBuffer !== null}
+          onSave={handleSaveProject}
+          onOpen={handleOpenProject}
+          disabled={loading}
+        />
+
+        <ProviderSelect provider={provider} onProviderChange={handleProviderChange} disabled={loading} />
+
+        <GenerationModeToggle mode={mode} onModeChange={setMode} disabled={!canGenerate} describedBy={keyNoticeId} />
+
+        <div className="flex flex-col space-y-4">
+          <label htmlFor="script" className="text-lg font-semibold text-gray-700">Script:</label>
+          <ScriptEditor
+            id="script"
+            placeholder={mode === 'dialogue'
+              ? "Write one line per turn, e.g.\nRavi: Welcome to the show!\nPriya: Thanks for having me."
+              : "Enter your script here. The model will try to speak in the selected language and emotion."}
+            value={script}
+            onChange={setScript}
+            errors={markup.errors}
+            highlight={activeWord ? { offset: activeWord.offset, length: activeWord.length } : null}
+            disabled={!canGenerate} // Disable script input if no API key
+            describedBy={keyNoticeId}
+          />
+        </div>
+
+        <VoiceControls
+          mode={mode}
+          voices={provider.voices}
+          selectedVoice={selectedVoice}
+          onVoiceChange={handleVoiceChange}
+          speakers={dialogue.speakers}
+          speakerVoices={speakerVoiceMap}
+          onSpeakerVoiceChange={handleSpeakerVoiceChange}
+          emotionOptions={emotionOptions}
+          emotion={selectedEmotion}
+          onEmotionChange={setSelectedEmotion}
+          languages={provider.languages}
+          language={selectedLanguage}
+          onLanguageChange={setSelectedLanguage}
+          disabled={!canGenerate}
+          describedBy={keyNoticeId}
+        />
+
+        {mode === 'single' && (
+          <ChunkSettings silenceMs={chunkSilenceMs} onSilenceChange={setChunkSilenceMs} disabled={!canGenerate} describedBy={keyNoticeId}>
+            {provider.streamSpeech && (
+              <StreamPlaybackToggle enabled={streamPlayback} onChange={setStreamPlayback} disabled={!canGenerate} describedBy={keyNoticeId} />
+            )}
+          </ChunkSettings>
+        )}
+
+        <ScriptConversionPanel
+          mode={conversion.mode}
+          onModeChange={conversion.setMode}
+          languageLabel={provider.languages.find((language) => language.id === selectedLanguage)?.label ?? selectedLanguage}
+          canTranslate={!!provider.translateScript}
+          canTransliterate={selectedLanguage !== 'english'}
+          preview={conversion.preview}
+          onPreviewChange={conversion.editPreview}
+          stale={conversion.stale}
+          converting={converting}
+          onConvert={handleConvertScript}
+          errors={speechMarkup.errors}
+          disabled={loading || !canGenerate}
+        />
+
+        <button
+          ref={generateButtonRef}
+          onClick={() => handleGenerateSpeech()}
+          className={`w-full py-4 px-6 rounded-lg text-xl font-bold transition-all duration-300
+            ${generateDisabled
+              ? 'bg-blue-300 cursor-not-allowed animate-pulse'
+              : 'bg-blue-600 hover:bg-blue-700 text-white shadow-md hover:shadow-lg'
+            }`}
+          disabled={generateDisabled}
+          aria-describedby={generateHint ? 'generate-hint' : undefined}
+          aria-keyshortcuts={ariaKeyShortcuts(KEYBOARD_SHORTCUTS.generate)}
+        >
+          {loading
+            ? (converting ? 'Converting Script...' : 'Generating Speech...')
+            : (conversion.stale ? 'Convert Script for Review' : 'Generate Voice-over')}
+        </button>
+        {generateHint && <p id="generate-hint" className="text-sm text-gray-600 text-center">{generateHint}</p>}
 
-      {!hasApiKeySelected && (
-        <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-3 rounded-lg relative text-center flex flex-col items-center space-y-3" role="alert">
-          <p className="font-bold text-lg">API Key Required</p>
-          <p className="text-base">Please select your Gemini API key to use the voice generation service.</p>
+        {loading && (
           <button
-            onClick={handleSelectApiKey}
-            className="mt-2 bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-2 px-5 rounded-lg shadow-md transition-all duration-300"
+            ref={cancelButtonRef}
+            type="button"
+            onClick={handleCancel}
+            aria-keyshortcuts={ariaKeyShortcuts(KEYBOARD_SHORTCUTS.cancel)}
+            className="self-center border border-red-500 text-red-600 hover:bg-red-50 font-semibold py-2 px-6 rounded-lg"
           >
-            Select API Key
+            Cancel
           </button>
-          <p className="text-sm mt-2">
-            Learn more about billing for Gemini API:{" "}
-            <a
-              href="https://ai.google.dev/gemini-api/docs/billing"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="underline text-yellow-800 hover:text-yellow-900"
-            >
-              Billing Documentation
-            </a>
-          </p>
-        </div>
-      )}
-
-      <div className="flex flex-col space-y-4">
-        <label htmlFor="script" className="text-lg font-semibold text-gray-700">Script:</label>
-        <textarea
-          id="script"
-          className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 resize-y min-h-[150px] text-black bg-white placeholder-gray-600"
-          placeholder="Enter your script here. The model will try to speak in the selected language and emotion."
-          value={script}
-          onChange={(e) => setScript(e.target.value)}
-          rows={8}
-          disabled={!hasApiKeySelected} // Disable script input if no API key
-        ></textarea>
-      </div>
+        )}
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6">
-        <div className="flex flex-col space-y-2">
-          <label htmlFor="voice-select" className="text-lg font-semibold text-gray-700">Select Voice:</label>
-          <select
-            id="voice-select"
-            className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-800"
-            value={selectedVoice.id}
-            onChange={handleVoiceChange}
-            disabled={!hasApiKeySelected}
-          >
-            {VOICE_OPTIONS.map((option) => (
-              <option key={option.id} value={option.id}>
-                {option.label}
-              </option>
-            ))}
-          </select>
-          <p className="text-sm text-gray-600 mt-1">{selectedVoice.description}</p>
-        </div>
+        {chunks.length > 1 && <ChunkProgress chunks={chunks} loading={loading} onRetry={handleRetryChunk} />}
 
-        <div className="flex flex-col space-y-2">
-          <label htmlFor="emotion-select" className="text-lg font-semibold text-gray-700">Desired Tone/Emotion:</label>
-          <select
-            id="emotion-select"
-            className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-800"
-            value={selectedEmotion}
-            onChange={handleEmotionChange}
-            disabled={!hasApiKeySelected}
-          >
-            <option value="neutral">Neutral</option>
-            <option value="cheerful">Cheerful</option>
-            <option value="happy">Happy</option>
-            <option value="sad">Sad</option>
-            <option value="angry">Angry</option>
-            <option value="calm">Calm</option>
-            <option value="excited">Excited</option>
-          </select>
-          <p className="text-sm text-gray-600 mt-1">
-            Specify the overall emotional tone for the voice-over.
-          </p>
-        </div>
+        {error && (
+          <ErrorAlert message={error} action={errorAction} onAction={handleErrorAction} disabled={loading} alertRef={errorRef} />
+        )}
+
+        {notice && !error && (
+          <p className="text-center text-gray-600">{notice}</p>
+        )}
+
+        <ProcessingPanel
+          settings={processingSettings}
+          onSettingsChange={setProcessingSettings}
+          presetStore={processingPresetStore}
+          audioBuffer={currentBuffer}
+        />
+
+        {currentBuffer && (
+          <AudioPlayer
+            key={playerKey}
+            audioBuffer={currentBuffer}
+            getAudioContext={getAudioContext}
+            autoPlay={playerAutoPlay}
+            onPositionChange={handlePlaybackPosition}
+            controlsRef={playerControlsRef}
+          />
+        )}
+
+        {currentBuffer && takeCache && takeCache.cached > 0 && (
+          <CacheNotice
+            cached={takeCache.cached}
+            total={takeCache.total}
+            onRegenerate={() => handleGenerateSpeech({ forceRegenerate: true })}
+            disabled={generateDisabled}
+          />
+        )}
 
-        <div className="flex flex-col space-y-2">
-          <label htmlFor="language-select" className="text-lg font-semibold text-gray-700">Select Language:</label>
-          <select
-            id="language-select"
-            className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-800"
-            value={selectedLanguage}
-            onChange={handleLanguageChange}
-            disabled={!hasApiKeySelected}
+        {currentBuffer && (
+          <button
+            type="button"
+            onClick={() => addToTimeline(currentBuffer, takeText?.script.trim().slice(0, 40) || `Take ${timelineTakes.length + 1}`)}
+            className="self-start text-blue-600 hover:underline"
           >
-            {LANGUAGE_OPTIONS.map((option) => (
-              <option key={option.id} value={option.id}>
-                {option.label}
-              </option>
-            ))}
-          </select>
-          <p className="text-sm text-gray-600 mt-1">
-            Select the target language for the voice-over (e.g., Telugu, Hindi).
-          </p>
-        </div>
+            Add to timeline
+          </button>
+        )}
+
+        {currentBuffer && (
+          <ExportPanel
+            audioBuffer={currentBuffer}
+            settings={exportSettings}
+            onSettingsChange={setExportSettings}
+            captionCues={captionCues}
+            controlsRef={exportControlsRef}
+          />
+        )}
+
+        <BatchPanel
+          provider={provider}
+          canGenerate={canGenerate}
+          defaults={{ voiceId: selectedVoice.id, emotion: selectedEmotion, language: selectedLanguage }}
+          processingSettings={processingSettings}
+          lexicon={lexicon}
+          chunkSilenceMs={chunkSilenceMs}
+        />
+
+        <VoicePresetPanel
+          presets={voicePresets}
+          store={voicePresetStore}
+          onPresetsChange={() => setVoicePresets(voicePresetStore.list())}
+          processingSettings={processingSettings}
+          available={!!baseProvider.supportsVoicePresets}
+        />
+
+        <VoiceAuditionPanel
+          provider={provider}
+          presets={voicePresets}
+          defaults={{ emotion: selectedEmotion, language: selectedLanguage }}
+          processingSettings={processingSettings}
+          canGenerate={canGenerate}
+          getAudioContext={getAudioContext}
+        />
+
+        <LexiconPanel
+          entries={lexicon}
+          store={lexiconStore}
+          onEntriesChange={() => setLexicon(lexiconStore.list())}
+          script={synthesisScript}
+          language={selectedLanguage}
+          provider={provider}
+          voice={selectedVoice}
+          emotion={selectedEmotion}
+          canGenerate={canGenerate}
+          getAudioContext={getAudioContext}
+        />
+
+        <TimelinePanel takes={timelineTakes} getAudioContext={getAudioContext} />
+
+        <UsagePanel
+          entries={usage.entries}
+          settings={usage.settings}
+          onSettingsChange={usage.updateSettings}
+          onClear={usage.clear}
+          budgetStatus={usage.budgetStatus}
+        />
+
+        <SpeechCachePanel cache={speechCache} version={cacheVersion} />
       </div>
 
-      <button
-        onClick={handleGenerateSpeech}
-        className={`w-full py-4 px-6 rounded-lg text-xl font-bold transition-all duration-300
-          ${loading || !script.trim() || !hasApiKeySelected
-            ? 'bg-blue-300 cursor-not-allowed animate-pulse'
-            : 'bg-blue-600 hover:bg-blue-700 text-white shadow-md hover:shadow-lg'
-          }`}
-        disabled={loading || !script.trim() || !hasApiKeySelected}
-      >
-        {loading ? 'Generating Speech...' : 'Generate Voice-over'}
-      </button>
-
-      {error && (
-        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg relative text-center" role="alert">
-          <strong className="font-bold">Error: </strong>
-          <span className="block sm:inline">{error}</span>
-        </div>
-      )}
-
-      {downloadUrl && (
-        <div className="flex justify-center mt-4">
-          <a
-            href={downloadUrl}
-            download={`gemini-voiceover-${Date.now()}.wav`}
-            className="bg-green-500 hover:bg-green-600 text-white font-bold py-3 px-6 rounded-lg shadow-md hover:shadow-lg transition-all duration-300 flex items-center space-x-2"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-            </svg>
-            <span>Download Voice-over (.wav)</span>
-          </a>
-        </div>
-      )}
+      <HistoryPanel
+        store={history.store}
+        version={history.version}
+        onReplay={handleReplayTake}
+        onDownload={handleDownloadTake}
+        onRestore={handleRestoreTake}
+        onAddToTimeline={handleAddTakeToTimeline}
+      />
     </div>
   );
 };
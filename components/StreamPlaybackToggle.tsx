@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface StreamPlaybackToggleProps {
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+  disabled?: boolean;
+  describedBy?: string;
+}
+
+// Opt-in for playing a take while it is still being generated
+const StreamPlaybackToggle: React.FC<StreamPlaybackToggleProps> = ({ enabled, onChange, disabled, describedBy }) => (
+  <label className="flex items-center gap-2 text-sm text-gray-700">
+    <input
+      type="checkbox"
+      checked={enabled}
+      onChange={(e) => onChange(e.target.checked)}
+      disabled={disabled}
+      aria-describedby={describedBy}
+    />
+    Start playback while generating (single-request scripts without pauses; post-processing applies to the finished take)
+  </label>
+);
+
+export default StreamPlaybackToggle;
@@ -0,0 +1,362 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  TimelineSource,
+  createTimeline,
+  addClip,
+  removeClip,
+  moveClip,
+  setClipGain,
+  trimClipStart,
+  trimClipEnd,
+  clipEnd,
+  timelineDuration,
+  duckingEnvelope,
+  renderTimeline,
+} from '../services/timeline';
+import { downloadBlob } from '../services/audioExport';
+import AudioPlayer from './AudioPlayer';
+import { Timeline, TimelineClip, TimelineTrack, DuckingSettings } from '../types';
+import { encodeWAV, TIMELINE_SAMPLE_RATE, TIMELINE_CHANNELS, TIMELINE_PIXELS_PER_SECOND } from '../constants';
+
+interface TimelinePanelProps {
+  takes: TimelineSource[]; // Takes sent from generation or history, ready to drop on the voice track
+  getAudioContext: () => AudioContext;
+}
+
+type DragMode = 'move' | 'trim-start' | 'trim-end';
+
+const TRACKS: { id: TimelineTrack, label: string }[] = [
+  { id: 'voice', label: 'Voice' },
+  { id: 'music', label: 'Music' },
+];
+
+const TRACK_HEIGHT = 56;
+const KEYBOARD_STEP_SECONDS = 0.1;
+const MIN_VISIBLE_SECONDS = 30;
+const DRAG_DATA_TYPE = 'application/x-timeline-source';
+
+const fieldClassName = "w-24 p-1 border border-gray-300 rounded bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800";
+
+/**
+ * Arranges takes on a voice track over a music bed, with automatic ducking,
+ * and renders the arrangement to a single WAV. Clips are moved by dragging
+ * them (or with the arrow keys) and trimmed by dragging their edges.
+ */
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ takes, getAudioContext }) => {
+  const [timeline, setTimeline] = useState<Timeline>(createTimeline);
+  const [music, setMusic] = useState<TimelineSource[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [zoom, setZoom] = useState<number>(1);
+  const [mix, setMix] = useState<AudioBuffer | null>(null);
+  const [rendering, setRendering] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const dragRef = useRef<{ clip: TimelineClip, mode: DragMode, originX: number } | null>(null);
+
+  const pixelsPerSecond = TIMELINE_PIXELS_PER_SECOND * zoom;
+  const sources = useMemo(() => [...takes, ...music], [takes, music]);
+  const sourceById = useMemo(() => new Map(sources.map((source) => [source.id, source])), [sources]);
+  const envelope = useMemo(() => duckingEnvelope(timeline), [timeline]);
+  const width = Math.max(timelineDuration(timeline) + 5, MIN_VISIBLE_SECONDS) * pixelsPerSecond;
+  const selected = timeline.clips.find((clip) => clip.id === selectedId) ?? null;
+
+  // A rendered mix no longer matches once the arrangement changes
+  useEffect(() => setMix(null), [timeline, sources]);
+
+  const place = (source: TimelineSource, track: TimelineTrack, start?: number) => {
+    const id = crypto.randomUUID();
+    setTimeline((current) => addClip(current, track, { id: source.id, duration: source.buffer.duration }, start, id));
+    setSelectedId(id);
+  };
+
+  const handleImportMusic = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    setError(null);
+    try {
+      // Decoded at the mixdown rate rather than the 24 kHz speech context, to keep the music's quality
+      const decoder = new OfflineAudioContext(TIMELINE_CHANNELS, 1, TIMELINE_SAMPLE_RATE);
+      const buffer = await decoder.decodeAudioData(await file.arrayBuffer());
+      const source: TimelineSource = { id: crypto.randomUUID(), label: file.name, buffer };
+      setMusic((current) => [...current, source]);
+      place(source, 'music', 0);
+    } catch (err: any) {
+      setError(`Could not read ${file.name}: ${err.message || 'unsupported audio format'}.`);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, track: TimelineTrack) => {
+    e.preventDefault();
+    const source = sourceById.get(e.dataTransfer.getData(DRAG_DATA_TYPE));
+    if (!source) {
+      return;
+    }
+    const isMusic = music.some((item) => item.id === source.id);
+    if ((track === 'music') !== isMusic) {
+      setError(isMusic ? 'Music goes on the music track.' : 'Takes go on the voice track.');
+      return;
+    }
+    setError(null);
+    place(source, track, (e.clientX - e.currentTarget.getBoundingClientRect().left) / pixelsPerSecond);
+  };
+
+  const startDrag = (e: React.PointerEvent<HTMLElement>, clip: TimelineClip, mode: DragMode) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { clip, mode, originX: e.clientX };
+    setSelectedId(clip.id);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      return;
+    }
+    const delta = (e.clientX - drag.originX) / pixelsPerSecond;
+    const { clip, mode } = drag;
+    setTimeline((current) => {
+      if (mode === 'trim-start') {
+        return trimClipStart(current, clip.id, clip.start + delta);
+      }
+      if (mode === 'trim-end') {
+        return trimClipEnd(current, clip.id, clipEnd(clip) + delta);
+      }
+      return moveClip(current, clip.id, clip.start + delta);
+    });
+  };
+
+  const handleClipKeyDown = (e: React.KeyboardEvent<HTMLElement>, clip: TimelineClip) => {
+    const step = e.shiftKey ? 1 : KEYBOARD_STEP_SECONDS;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      setTimeline((current) => moveClip(current, clip.id, clip.start + (e.key === 'ArrowLeft' ? -step : step)));
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      setTimeline((current) => removeClip(current, clip.id));
+      setSelectedId(null);
+    }
+  };
+
+  const updateDucking = (patch: Partial<DuckingSettings>) =>
+    setTimeline((current) => ({ ...current, ducking: { ...current.ducking, ...patch } }));
+
+  const handleRender = async () => {
+    setRendering(true);
+    setError(null);
+    try {
+      setMix(await renderTimeline(timeline, new Map(sources.map((source) => [source.id, source.buffer]))));
+    } catch (err: any) {
+      setError(err.message || 'Could not render the timeline.');
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  // The ducking envelope drawn over the music track, full level at the top
+  const envelopePoints = [...envelope, { time: width / pixelsPerSecond, gain: envelope[envelope.length - 1].gain }]
+    .map((point) => `${point.time * pixelsPerSecond},${(1 - point.gain) * (TRACK_HEIGHT - 8) + 4}`)
+    .join(' ');
+
+  return (
+    <details className="border border-gray-200 rounded-lg p-4">
+      <summary className="text-lg font-medium text-gray-700 cursor-pointer">Timeline</summary>
+      <div className="mt-3 space-y-3 text-sm text-gray-700">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">Audio:</span>
+          {sources.length === 0 && <span className="text-gray-500">Use "Add to timeline" on a take to collect it here.</span>}
+          {sources.map((source) => (
+            <span
+              key={source.id}
+              draggable
+              onDragStart={(e) => e.dataTransfer.setData(DRAG_DATA_TYPE, source.id)}
+              className={`flex items-center gap-2 px-2 py-1 rounded border cursor-grab ${music.includes(source) ? 'bg-green-50 border-green-300' : 'bg-blue-50 border-blue-300'}`}
+              title="Drag onto a track, or add it after the last clip"
+            >
+              {source.label} ({source.buffer.duration.toFixed(1)}s)
+              <button
+                type="button"
+                onClick={() => place(source, music.includes(source) ? 'music' : 'voice')}
+                className="text-blue-600 hover:underline"
+                aria-label={`Add ${source.label} to the end of its track`}
+              >
+                Add
+              </button>
+            </span>
+          ))}
+          <label className="text-blue-600 hover:underline cursor-pointer">
+            Import music...
+            <input type="file" accept="audio/*" className="sr-only" onChange={handleImportMusic} />
+          </label>
+        </div>
+
+        <div className="flex">
+          <div className="flex flex-col shrink-0 w-16 font-medium">
+            {TRACKS.map((track) => (
+              <div key={track.id} className="flex items-center" style={{ height: TRACK_HEIGHT }}>{track.label}</div>
+            ))}
+          </div>
+          <div className="overflow-x-auto border border-gray-200 rounded">
+            <div style={{ width }}>
+              {TRACKS.map((track) => (
+                <div
+                  key={track.id}
+                  className="relative border-b border-gray-100 bg-gray-50"
+                  style={{ height: TRACK_HEIGHT }}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => handleDrop(e, track.id)}
+                  onPointerDown={() => setSelectedId(null)}
+                >
+                  {timeline.clips.filter((clip) => clip.track === track.id).map((clip) => (
+                    <div
+                      key={clip.id}
+                      role="button"
+                      tabIndex={0}
+                      aria-pressed={clip.id === selectedId}
+                      aria-label={`${sourceById.get(clip.sourceId)?.label ?? 'Missing source'} at ${clip.start.toFixed(1)} seconds`}
+                      className={`absolute top-1 bottom-1 rounded text-xs text-white overflow-hidden select-none touch-none cursor-move ${track.id === 'voice' ? 'bg-blue-500' : 'bg-green-600'} ${clip.id === selectedId ? 'ring-2 ring-yellow-400' : ''}`}
+                      style={{ left: clip.start * pixelsPerSecond, width: Math.max(clip.duration * pixelsPerSecond, 4) }}
+                      onPointerDown={(e) => startDrag(e, clip, 'move')}
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={() => { dragRef.current = null; }}
+                      onKeyDown={(e) => handleClipKeyDown(e, clip)}
+                      onFocus={() => setSelectedId(clip.id)}
+                    >
+                      <span
+                        className="absolute left-0 top-0 bottom-0 w-2 bg-black/20 cursor-ew-resize"
+                        onPointerDown={(e) => startDrag(e, clip, 'trim-start')}
+                      />
+                      <span className="block px-3 py-1 truncate">{sourceById.get(clip.sourceId)?.label ?? 'Missing source'}</span>
+                      <span
+                        className="absolute right-0 top-0 bottom-0 w-2 bg-black/20 cursor-ew-resize"
+                        onPointerDown={(e) => startDrag(e, clip, 'trim-end')}
+                      />
+                    </div>
+                  ))}
+                  {track.id === 'music' && timeline.ducking.enabled && (
+                    <svg className="absolute inset-0 pointer-events-none" width={width} height={TRACK_HEIGHT} aria-hidden="true">
+                      <polyline points={envelopePoints} fill="none" stroke="#b45309" strokeWidth={1.5} />
+                    </svg>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+        <label className="flex items-center gap-2">
+          Zoom
+          <input type="range" min={0.25} max={4} step={0.25} value={zoom} onChange={(e) => setZoom(Number(e.target.value))} />
+        </label>
+
+        {selected && (
+          <div className="flex flex-wrap items-end gap-3 border-t border-gray-100 pt-3">
+            <span className="font-medium">{sourceById.get(selected.sourceId)?.label ?? 'Missing source'}</span>
+            <label className="flex flex-col">
+              Start (s)
+              <input
+                type="number"
+                min={0}
+                step={KEYBOARD_STEP_SECONDS}
+                className={fieldClassName}
+                value={Number(selected.start.toFixed(2))}
+                onChange={(e) => setTimeline((current) => moveClip(current, selected.id, Number(e.target.value)))}
+              />
+            </label>
+            <label className="flex flex-col">
+              Trim start (s)
+              <input
+                type="number"
+                min={0}
+                step={KEYBOARD_STEP_SECONDS}
+                className={fieldClassName}
+                value={Number(selected.offset.toFixed(2))}
+                onChange={(e) => setTimeline((current) => trimClipStart(current, selected.id, selected.start + Number(e.target.value) - selected.offset))}
+              />
+            </label>
+            <label className="flex flex-col">
+              Length (s)
+              <input
+                type="number"
+                min={0}
+                step={KEYBOARD_STEP_SECONDS}
+                className={fieldClassName}
+                value={Number(selected.duration.toFixed(2))}
+                onChange={(e) => setTimeline((current) => trimClipEnd(current, selected.id, selected.start + Number(e.target.value)))}
+              />
+            </label>
+            <label className="flex flex-col">
+              Gain (dB)
+              <input
+                type="number"
+                min={-40}
+                max={12}
+                step={1}
+                className={fieldClassName}
+                value={selected.gainDb}
+                onChange={(e) => setTimeline((current) => setClipGain(current, selected.id, Number(e.target.value)))}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => {
+                setTimeline((current) => removeClip(current, selected.id));
+                setSelectedId(null);
+              }}
+              className="text-red-600 hover:underline"
+            >
+              Remove clip
+            </button>
+          </div>
+        )}
+
+        <fieldset className="flex flex-wrap items-end gap-3 border-t border-gray-100 pt-3">
+          <legend className="sr-only">Ducking</legend>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={timeline.ducking.enabled} onChange={(e) => updateDucking({ enabled: e.target.checked })} />
+            Lower music under speech
+          </label>
+          <label className="flex flex-col">
+            By (dB)
+            <input type="number" min={0} max={40} step={1} className={fieldClassName} value={timeline.ducking.amountDb}
+              disabled={!timeline.ducking.enabled} onChange={(e) => updateDucking({ amountDb: Math.max(0, Number(e.target.value)) })} />
+          </label>
+          <label className="flex flex-col">
+            Fade down (ms)
+            <input type="number" min={0} max={5000} step={50} className={fieldClassName} value={timeline.ducking.attackMs}
+              disabled={!timeline.ducking.enabled} onChange={(e) => updateDucking({ attackMs: Math.max(0, Number(e.target.value)) })} />
+          </label>
+          <label className="flex flex-col">
+            Fade up (ms)
+            <input type="number" min={0} max={5000} step={50} className={fieldClassName} value={timeline.ducking.releaseMs}
+              disabled={!timeline.ducking.enabled} onChange={(e) => updateDucking({ releaseMs: Math.max(0, Number(e.target.value)) })} />
+          </label>
+        </fieldset>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={handleRender}
+            disabled={rendering || timeline.clips.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded-lg"
+          >
+            {rendering ? 'Rendering...' : 'Render mix'}
+          </button>
+          {mix && (
+            <button
+              type="button"
+              onClick={() => downloadBlob(encodeWAV(mix), 'timeline-mix.wav')}
+              className="text-green-600 hover:underline"
+            >
+              Download WAV
+            </button>
+          )}
+        </div>
+        {error && <p className="text-red-600" role="alert">{error}</p>}
+        {mix && <AudioPlayer audioBuffer={mix} getAudioContext={getAudioContext} />}
+      </div>
+    </details>
+  );
+};
+
+export default TimelinePanel;
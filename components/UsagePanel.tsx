@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { summarizeUsage, usageToCsv, formatCost, UsageSettings, UsagePeriod, BudgetStatus } from '../services/usage';
+import { downloadBlob } from '../services/audioExport';
+import { UsageEntry, ModelPrice, UsageBudget } from '../types';
+
+interface UsagePanelProps {
+  entries: UsageEntry[];
+  settings: UsageSettings;
+  onSettingsChange: (settings: UsageSettings) => void;
+  onClear: () => void;
+  budgetStatus: BudgetStatus;
+}
+
+const inputClassName = "w-28 p-1 border border-gray-300 rounded bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800";
+
+const PRICE_FIELDS: { key: keyof ModelPrice, label: string }[] = [
+  { key: 'inputPer1kChars', label: 'Input / 1K chars' },
+  { key: 'outputPer1kChars', label: 'Output / 1K chars' },
+  { key: 'audioPerMinute', label: 'Audio / minute' },
+];
+
+const BUDGET_FIELDS: { key: keyof UsageBudget, label: string }[] = [
+  { key: 'dailySoft', label: 'Daily warning' },
+  { key: 'dailyHard', label: 'Daily limit' },
+  { key: 'monthlySoft', label: 'Monthly warning' },
+  { key: 'monthlyHard', label: 'Monthly limit' },
+];
+
+const formatSeconds = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s` : `${seconds.toFixed(1)}s`;
+
+/**
+ * Daily and monthly totals of the local usage log with estimated costs, the
+ * editable price table and budget limits, and CSV export.
+ */
+const UsagePanel: React.FC<UsagePanelProps> = ({ entries, settings, onSettingsChange, onClear, budgetStatus }) => {
+  const [period, setPeriod] = useState<UsagePeriod>('day');
+  const totals = useMemo(() => summarizeUsage(entries, settings.prices, period), [entries, settings.prices, period]);
+  // Priced models plus any model seen in the log, so unpriced ones can be given a price
+  const models = useMemo(
+    () => [...new Set([...Object.keys(settings.prices), ...entries.map((entry) => entry.model)])].sort(),
+    [entries, settings.prices],
+  );
+
+  const updatePrice = (model: string, key: keyof ModelPrice, value: number) => {
+    const current = settings.prices[model] ?? { inputPer1kChars: 0, outputPer1kChars: 0, audioPerMinute: 0 };
+    onSettingsChange({ ...settings, prices: { ...settings.prices, [model]: { ...current, [key]: value } } });
+  };
+
+  const updateBudget = (key: keyof UsageBudget, text: string) => {
+    const value = text.trim() === '' ? null : Number(text);
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      return;
+    }
+    onSettingsChange({ ...settings, budget: { ...settings.budget, [key]: value } });
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([usageToCsv(entries, settings.prices)], { type: 'text/csv' }), 'voice-studio-usage.csv');
+  };
+
+  return (
+    <details className="border border-gray-200 rounded-lg p-4">
+      <summary className="text-lg font-medium text-gray-700 cursor-pointer">Usage &amp; cost</summary>
+      <div className="mt-3 space-y-4 text-sm text-gray-700">
+        <p>
+          Today: <span className="font-semibold">{formatCost(budgetStatus.todayCost)}</span>, this month:{' '}
+          <span className="font-semibold">{formatCost(budgetStatus.monthCost)}</span>.{' '}
+          <span className="text-gray-500">Costs are estimates from the price table below, not your bill.</span>
+        </p>
+        {budgetStatus.message && (
+          <p className={budgetStatus.level === 'block' ? 'text-red-600' : 'text-yellow-700'} role="status">{budgetStatus.message}</p>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-4">
+            <span className="font-medium">Totals by</span>
+            {(['day', 'month'] as UsagePeriod[]).map((option) => (
+              <label key={option} className="flex items-center gap-1">
+                <input type="radio" name="usage-period" checked={period === option} onChange={() => setPeriod(option)} />
+                {option === 'day' ? 'Day' : 'Month'}
+              </label>
+            ))}
+          </div>
+          {totals.length === 0 ? (
+            <p className="text-gray-500">No requests recorded yet.</p>
+          ) : (
+            <div className="max-h-56 overflow-y-auto">
+              <table className="w-full text-left">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="font-medium py-1">{period === 'day' ? 'Date' : 'Month'}</th>
+                    <th className="font-medium py-1">Requests</th>
+                    <th className="font-medium py-1">Failed</th>
+                    <th className="font-medium py-1">Characters</th>
+                    <th className="font-medium py-1">Audio</th>
+                    <th className="font-medium py-1">Avg. latency</th>
+                    <th className="font-medium py-1">Est. cost</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {totals.map((total) => (
+                    <tr key={total.period}>
+                      <td className="py-1">{total.period}</td>
+                      <td className="py-1">{total.requests}</td>
+                      <td className="py-1">{total.failures}</td>
+                      <td className="py-1">{total.characters.toLocaleString()}</td>
+                      <td className="py-1">{formatSeconds(total.audioSeconds)}</td>
+                      <td className="py-1">{(total.averageLatencyMs / 1000).toFixed(1)}s</td>
+                      <td className="py-1">{formatCost(total.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="font-medium">Budget (USD, leave empty for none)</legend>
+          <div className="flex flex-wrap gap-4">
+            {BUDGET_FIELDS.map(({ key, label }) => (
+              <label key={key} className="flex flex-col">
+                {label}
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  className={inputClassName}
+                  value={settings.budget[key] ?? ''}
+                  onChange={(e) => updateBudget(key, e.target.value)}
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-gray-500">Warnings are shown before generating; limits block generation until raised.</p>
+        </fieldset>
+
+        <fieldset className="space-y-2">
+          <legend className="font-medium">Price table (USD)</legend>
+          <table className="text-left">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="font-medium py-1 pr-3">Model</th>
+                {PRICE_FIELDS.map(({ key, label }) => (
+                  <th key={key} className="font-medium py-1 pr-3">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {models.map((model) => (
+                <tr key={model}>
+                  <td className="py-1 pr-3 font-mono">{model}</td>
+                  {PRICE_FIELDS.map(({ key, label }) => (
+                    <td key={key} className="py-1 pr-3">
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        aria-label={`${model} ${label}`}
+                        className={inputClassName}
+                        value={settings.prices[model]?.[key] ?? 0}
+                        onChange={(e) => {
+                          const value = Number(e.target.value);
+                          if (Number.isFinite(value) && value >= 0) {
+                            updatePrice(model, key, value);
+                          }
+                        }}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </fieldset>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button type="button" onClick={handleExport} disabled={entries.length === 0} className="text-blue-600 hover:underline disabled:text-gray-400">
+            Export CSV
+          </button>
+          <button type="button" onClick={onClear} disabled={entries.length === 0} className="text-red-600 hover:underline disabled:text-gray-400">
+            Clear usage log
+          </button>
+          <span className="text-gray-500">{entries.length} request{entries.length === 1 ? '' : 's'} recorded</span>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default UsagePanel;
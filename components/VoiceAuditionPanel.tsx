@@ -0,0 +1,229 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { TtsProvider } from '../services/providers';
+import { runWithConcurrency } from '../services/taskPool';
+import { processAudioBuffer } from '../services/audioProcessing';
+import { VoiceOption, VoicePreset, Emotion, Language, ProcessingSettings, ChunkStatus } from '../types';
+import {
+  AUDITION_SAMPLE_TEXT,
+  AUDITION_GAP_SECONDS,
+  CHUNK_CONCURRENCY,
+  TTS_SAMPLE_RATE,
+  decode,
+  decodeAudioData,
+} from '../constants';
+
+interface VoiceAuditionPanelProps {
+  provider: TtsProvider; // Voice list includes the user's presets where supported
+  presets: VoicePreset[];
+  defaults: { emotion: Emotion, language: Language };
+  processingSettings: ProcessingSettings;
+  canGenerate: boolean;
+  getAudioContext: () => AudioContext;
+}
+
+interface Audition {
+  voice: VoiceOption;
+  status: ChunkStatus;
+  buffer?: AudioBuffer;
+  error?: string;
+}
+
+const STATUS_LABELS: Record<ChunkStatus, string> = {
+  pending: 'Queued',
+  generating: 'Generating...',
+  done: 'Ready',
+  error: 'Failed',
+};
+
+/**
+ * Generates one sample sentence with several voices and plays the results back
+ * to back. Presets are auditioned with their own emotion, language and
+ * processing; other voices use the current selection.
+ */
+const VoiceAuditionPanel: React.FC<VoiceAuditionPanelProps> = ({ provider, presets, defaults, processingSettings, canGenerate, getAudioContext }) => {
+  const [sampleText, setSampleText] = useState<string>(AUDITION_SAMPLE_TEXT);
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => provider.voices.slice(0, 3).map((voice) => voice.id));
+  const [auditions, setAuditions] = useState<Audition[]>([]);
+  const [running, setRunning] = useState<boolean>(false);
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const gapTimerRef = useRef<number | null>(null);
+
+  const stopPlayback = () => {
+    if (gapTimerRef.current !== null) {
+      clearTimeout(gapTimerRef.current);
+      gapTimerRef.current = null;
+    }
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      sourceRef.current.stop();
+      sourceRef.current.disconnect();
+      sourceRef.current = null;
+    }
+    setPlayingIndex(null);
+  };
+
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    stopPlayback();
+  }, []);
+
+  // Drop selections that are no longer offered, e.g. after switching providers
+  useEffect(() => {
+    setSelectedIds((current) => current.filter((id) => provider.voices.some((voice) => voice.id === id)));
+  }, [provider]);
+
+  // Plays auditions[index], then each later ready audition unless `single`
+  const play = (list: Audition[], index: number, single = false) => {
+    stopPlayback();
+    const next = list.findIndex((audition, i) => i >= index && audition.buffer);
+    if (next === -1) {
+      return;
+    }
+    const ctx = getAudioContext();
+    const source = ctx.createBufferSource();
+    source.buffer = list[next].buffer!;
+    source.connect(ctx.destination);
+    source.onended = () => {
+      sourceRef.current = null;
+      source.disconnect();
+      setPlayingIndex(null);
+      if (!single) {
+        gapTimerRef.current = window.setTimeout(() => play(list, next + 1), AUDITION_GAP_SECONDS * 1000);
+      }
+    };
+    source.start();
+    sourceRef.current = source;
+    setPlayingIndex(next);
+  };
+
+  const toggleVoice = (id: string, checked: boolean) => {
+    setSelectedIds((current) => (checked ? [...current, id] : current.filter((selected) => selected !== id)));
+  };
+
+  const handleAudition = async () => {
+    const voices = provider.voices.filter((voice) => selectedIds.includes(voice.id));
+    if (voices.length === 0 || !sampleText.trim()) {
+      return;
+    }
+    stopPlayback();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    const list: Audition[] = voices.map((voice) => ({ voice, status: 'pending' }));
+    setAuditions(list);
+    const updateAudition = (index: number, patch: Partial<Audition>) => {
+      list[index] = { ...list[index], ...patch };
+      setAuditions([...list]);
+    };
+
+    const ctx = getAudioContext();
+    await runWithConcurrency(voices, CHUNK_CONCURRENCY, async (voice: VoiceOption, index: number) => {
+      const preset = presets.find((p) => p.id === voice.presetId);
+      const emotion = preset && provider.emotions.includes(preset.emotion) ? preset.emotion : defaults.emotion;
+      const language = preset?.language ?? defaults.language;
+      updateAudition(index, { status: 'generating' });
+      try {
+        const base64Audio = await provider.generateSpeech({
+          script: sampleText.trim(),
+          voiceOption: voice,
+          emotion,
+          language,
+          signal: controller.signal,
+        });
+        const buffer = await decodeAudioData(decode(base64Audio), ctx, TTS_SAMPLE_RATE, 1);
+        updateAudition(index, { status: 'done', buffer: processAudioBuffer(ctx, buffer, preset?.processing ?? processingSettings) });
+      } catch (err: any) {
+        updateAudition(index, { status: 'error', error: err.message || 'Generation failed.' });
+      }
+    });
+
+    abortRef.current = null;
+    setRunning(false);
+    if (!controller.signal.aborted) {
+      play(list, 0);
+    }
+  };
+
+  return (
+    <details className="border border-gray-200 rounded-lg p-4">
+      <summary className="text-lg font-medium text-gray-700 cursor-pointer">Voice audition</summary>
+      <div className="mt-3 space-y-3 text-sm text-gray-700">
+        <label className="flex flex-col font-medium">
+          Sample sentence
+          <input
+            type="text"
+            className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800"
+            value={sampleText}
+            onChange={(e) => setSampleText(e.target.value)}
+          />
+        </label>
+
+        <fieldset className="grid grid-cols-1 md:grid-cols-2 gap-1 max-h-48 overflow-y-auto">
+          <legend className="font-medium mb-1">Voices to compare</legend>
+          {provider.voices.map((voice) => (
+            <label key={voice.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(voice.id)}
+                onChange={(e) => toggleVoice(voice.id, e.target.checked)}
+                disabled={running}
+              />
+              {voice.label}
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={handleAudition}
+            disabled={!canGenerate || running || selectedIds.length === 0 || !sampleText.trim()}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded-lg"
+          >
+            Audition {selectedIds.length} voice{selectedIds.length === 1 ? '' : 's'}
+          </button>
+          {running && (
+            <button
+              type="button"
+              onClick={() => abortRef.current?.abort()}
+              className="border border-red-500 text-red-600 hover:bg-red-50 font-semibold py-2 px-4 rounded-lg"
+            >
+              Cancel
+            </button>
+          )}
+          {!running && auditions.some((audition) => audition.buffer) && (
+            playingIndex === null ? (
+              <button type="button" onClick={() => play(auditions, 0)} className="text-blue-600 hover:underline">Play all</button>
+            ) : (
+              <button type="button" onClick={stopPlayback} className="text-blue-600 hover:underline">Stop</button>
+            )
+          )}
+        </div>
+
+        {auditions.length > 0 && (
+          <ol className="divide-y divide-gray-100">
+            {auditions.map((audition, index) => (
+              <li key={audition.voice.id} className={`py-1 flex items-center justify-between gap-3 ${playingIndex === index ? 'font-semibold text-blue-700' : ''}`}>
+                <span>{audition.voice.label}</span>
+                <span className="flex items-center gap-3">
+                  {audition.error ? (
+                    <span className="text-red-600">{audition.error}</span>
+                  ) : (
+                    <span>{playingIndex === index ? 'Playing' : STATUS_LABELS[audition.status]}</span>
+                  )}
+                  {audition.buffer && (
+                    <button type="button" onClick={() => play(auditions, index, true)} className="text-blue-600 hover:underline">Play</button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default VoiceAuditionPanel;
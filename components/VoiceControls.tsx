@@ -0,0 +1,135 @@
+import React from 'react';
+import { VoiceOption, Emotion, Language, GenerationMode, SpeakerVoiceMap } from '../types';
+
+interface VoiceControlsProps {
+  mode: GenerationMode;
+  voices: VoiceOption[];
+  selectedVoice: VoiceOption;
+  onVoiceChange: (voiceId: string) => void;
+  speakers: string[]; // Dialogue mode picks a voice per speaker instead of one voice
+  speakerVoices: SpeakerVoiceMap;
+  onSpeakerVoiceChange: (speaker: string, voiceId: string) => void;
+  emotionOptions: { id: Emotion, label: string }[];
+  emotion: Emotion;
+  onEmotionChange: (emotion: Emotion) => void;
+  languages: { id: Language, label: string }[];
+  language: Language;
+  onLanguageChange: (language: Language) => void;
+  disabled?: boolean;
+  describedBy?: string;
+}
+
+const selectClassName = "w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-800";
+
+// Voice (or per-speaker voices), tone and language of the take
+const VoiceControls: React.FC<VoiceControlsProps> = ({
+  mode,
+  voices,
+  selectedVoice,
+  onVoiceChange,
+  speakers,
+  speakerVoices,
+  onSpeakerVoiceChange,
+  emotionOptions,
+  emotion,
+  onEmotionChange,
+  languages,
+  language,
+  onLanguageChange,
+  disabled,
+  describedBy,
+}) => (
+  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6">
+    {mode === 'dialogue' ? (
+      <div className="flex flex-col space-y-2">
+        <span className="text-lg font-semibold text-gray-700">Speaker Voices:</span>
+        {speakers.length === 0 ? (
+          <p className="text-sm text-gray-600">No speakers detected yet. Start lines with a one-word name followed by a colon.</p>
+        ) : (
+          speakers.map((speaker) => (
+            <div key={speaker} className="flex flex-col space-y-1">
+              <label htmlFor={`speaker-voice-${speaker}`} className="text-sm font-medium text-gray-700">{speaker}</label>
+              <select
+                id={`speaker-voice-${speaker}`}
+                className="w-full p-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-800"
+                value={speakerVoices[speaker] ?? ''}
+                onChange={(e) => onSpeakerVoiceChange(speaker, e.target.value)}
+                disabled={disabled}
+                aria-describedby={describedBy}
+              >
+                {voices.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))
+        )}
+      </div>
+    ) : (
+      <div className="flex flex-col space-y-2">
+        <label htmlFor="voice-select" className="text-lg font-semibold text-gray-700">Select Voice:</label>
+        <select
+          id="voice-select"
+          className={selectClassName}
+          value={selectedVoice.id}
+          onChange={(e) => onVoiceChange(e.target.value)}
+          disabled={disabled}
+          aria-describedby={describedBy}
+        >
+          {voices.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <p className="text-sm text-gray-600 mt-1">{selectedVoice.description}</p>
+      </div>
+    )}
+
+    <div className="flex flex-col space-y-2">
+      <label htmlFor="emotion-select" className="text-lg font-semibold text-gray-700">Desired Tone/Emotion:</label>
+      <select
+        id="emotion-select"
+        className={selectClassName}
+        value={emotion}
+        onChange={(e) => onEmotionChange(e.target.value as Emotion)}
+        disabled={disabled}
+        aria-describedby={describedBy}
+      >
+        {emotionOptions.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <p className="text-sm text-gray-600 mt-1">
+        Specify the overall emotional tone for the voice-over.
+      </p>
+    </div>
+
+    <div className="flex flex-col space-y-2">
+      <label htmlFor="language-select" className="text-lg font-semibold text-gray-700">Select Language:</label>
+      <select
+        id="language-select"
+        className={selectClassName}
+        value={language}
+        onChange={(e) => onLanguageChange(e.target.value as Language)}
+        disabled={disabled}
+        aria-describedby={describedBy}
+      >
+        {languages.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <p className="text-sm text-gray-600 mt-1">
+        Select the target language for the voice-over (e.g., Telugu, Hindi).
+      </p>
+    </div>
+  </div>
+);
+
+export default VoiceControls;
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { VoicePresetStore, VoicePresetDraft } from '../services/voicePresets';
+import { downloadBlob } from '../services/audioExport';
+import { VoicePreset, ProcessingSettings, Emotion, Language } from '../types';
+import { GEMINI_PREBUILT_VOICES, EMOTION_OPTIONS, LANGUAGE_OPTIONS } from '../constants';
+
+interface VoicePresetPanelProps {
+  presets: VoicePreset[];
+  store: VoicePresetStore;
+  onPresetsChange: () => void; // Called after any change so the parent can re-read the store
+  processingSettings: ProcessingSettings; // Current settings, saved with a preset on request
+  available: boolean; // Whether the selected provider can use presets
+}
+
+const fieldClassName = "p-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800";
+
+const EMPTY_DRAFT: VoicePresetDraft = {
+  name: '',
+  voiceName: GEMINI_PREBUILT_VOICES[0].name,
+  emotion: 'neutral',
+  language: 'english',
+  stylePrompt: '',
+};
+
+/**
+ * Create, edit, import and export custom voices built on the Gemini prebuilt
+ * voices. Presets appear in the voice lists of providers that support them.
+ */
+const VoicePresetPanel: React.FC<VoicePresetPanelProps> = ({ presets, store, onPresetsChange, processingSettings, available }) => {
+  const [draft, setDraft] = useState<VoicePresetDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saveProcessing, setSaveProcessing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const update = (patch: Partial<VoicePresetDraft>) => setDraft((current) => ({ ...current, ...patch }));
+
+  const resetForm = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+    setSaveProcessing(false);
+  };
+
+  const handleEdit = (preset: VoicePreset) => {
+    const { id, ...rest } = preset;
+    setDraft(rest);
+    setEditingId(id);
+    setSaveProcessing(!!preset.processing);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    setError(null);
+    const { processing, ...rest } = draft;
+    try {
+      // Keep the processing saved with the preset unless the user asked to replace or drop it
+      const keptProcessing = saveProcessing ? (editingId && processing ? processing : processingSettings) : undefined;
+      store.save(keptProcessing ? { ...rest, processing: keptProcessing } : rest, editingId ?? undefined);
+      onPresetsChange();
+      resetForm();
+    } catch (err: any) {
+      setError(err.message || 'Could not save preset.');
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    store.remove(id);
+    onPresetsChange();
+    if (editingId === id) {
+      resetForm();
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([store.exportJson()], { type: 'application/json' }), 'voice-presets.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    setError(null);
+    setImportErrors([]);
+    try {
+      const result = store.importJson(await file.text());
+      onPresetsChange();
+      setImportErrors(result.errors);
+    } catch (err: any) {
+      setError(err.message || 'Could not import presets.');
+    }
+  };
+
+  return (
+    <details className="border border-gray-200 rounded-lg p-4">
+      <summary className="text-lg font-medium text-gray-700 cursor-pointer">Voice presets</summary>
+      <div className="mt-3 space-y-3 text-sm text-gray-700">
+        {!available && (
+          <p className="text-gray-600">Presets use Gemini voices; switch to the Gemini provider to select them.</p>
+        )}
+
+        {presets.length > 0 && (
+          <ul className="divide-y divide-gray-100">
+            {presets.map((preset) => (
+              <li key={preset.id} className="py-1 flex items-center justify-between gap-3">
+                <span>
+                  <span className="font-medium">{preset.name}</span>{' '}
+                  <span className="text-gray-500">({preset.voiceName}{preset.processing ? ', with processing' : ''})</span>
+                </span>
+                <span className="flex gap-3">
+                  <button type="button" onClick={() => handleEdit(preset)} className="text-blue-600 hover:underline">Edit</button>
+                  <button type="button" onClick={() => handleRemove(preset.id)} className="text-red-600 hover:underline">Delete</button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="flex flex-col font-medium">
+            Name
+            <input type="text" className={fieldClassName} value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+          </label>
+          <label className="flex flex-col font-medium">
+            Base voice
+            <select className={fieldClassName} value={draft.voiceName} onChange={(e) => update({ voiceName: e.target.value })}>
+              {GEMINI_PREBUILT_VOICES.map((voice) => (
+                <option key={voice.name} value={voice.name}>{voice.name} ({voice.style})</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col font-medium">
+            Default emotion
+            <select className={fieldClassName} value={draft.emotion} onChange={(e) => update({ emotion: e.target.value as Emotion })}>
+              {EMOTION_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col font-medium">
+            Default language
+            <select className={fieldClassName} value={draft.language} onChange={(e) => update({ language: e.target.value as Language })}>
+              {LANGUAGE_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <label className="flex flex-col font-medium">
+          Style prompt
+          <input
+            type="text"
+            className={fieldClassName}
+            placeholder='e.g. "like a late-night radio host"'
+            value={draft.stylePrompt}
+            onChange={(e) => update({ stylePrompt: e.target.value })}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={saveProcessing} onChange={(e) => setSaveProcessing(e.target.checked)} />
+          {editingId && draft.processing ? 'Keep the saved post-processing settings' : 'Save the current post-processing settings with this preset'}
+        </label>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={handleSave}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg"
+          >
+            {editingId ? 'Update preset' : 'Add preset'}
+          </button>
+          {editingId && (
+            <button type="button" onClick={resetForm} className="text-gray-600 hover:underline">Cancel editing</button>
+          )}
+          <button type="button" onClick={handleExport} disabled={presets.length === 0} className="text-blue-600 hover:underline disabled:text-gray-400">
+            Export presets
+          </button>
+          <label className="text-blue-600 hover:underline cursor-pointer">
+            Import presets
+            <input type="file" accept=".json,application/json" className="sr-only" onChange={handleImport} />
+          </label>
+        </div>
+
+        {error && <p className="text-red-600" role="alert">{error}</p>}
+        {importErrors.length > 0 && (
+          <ul className="text-red-600 list-disc list-inside" role="alert">
+            {importErrors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default VoicePresetPanel;
@@ -1,7 +1,12 @@
 
-import { VoiceOption, Language } from './types';
+import { VoiceOption, Emotion, Language, ExportFormat, ExportSettings, WavBitDepth, ProcessingSettings, ProcessingPreset, SpeechErrorKind, ErrorRecoveryAction, PriceTable, UsageBudget, DuckingSettings, ShortcutAction, KeyboardShortcut } from './types';
+import { encodeWAVBytes, floatTo16BitPCM } from './services/encoders/wav';
 
 export const GEMINI_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+// Text model used for script translation
+export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+// Sample rate of the 16-bit mono PCM every TTS provider returns.
+export const TTS_SAMPLE_RATE = 24000;
 
 // Note: These voice descriptions are based on general perception and might not be officially tagged.
 // The actual emotional nuance and language fidelity depend on the input text, selected language, and model's interpretation.
@@ -45,6 +50,41 @@ export const VOICE_OPTIONS: VoiceOption[] = [
   },
 ];
 
+// Every prebuilt voice of the Gemini TTS models, with the style Google lists for it.
+// Custom voice presets can be based on any of them.
+export const GEMINI_PREBUILT_VOICES: { name: string, style: string }[] = [
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Callirrhoe', style: 'Easy-going' },
+  { name: 'Autonoe', style: 'Bright' },
+  { name: 'Enceladus', style: 'Breathy' },
+  { name: 'Iapetus', style: 'Clear' },
+  { name: 'Umbriel', style: 'Easy-going' },
+  { name: 'Algieba', style: 'Smooth' },
+  { name: 'Despina', style: 'Smooth' },
+  { name: 'Erinome', style: 'Clear' },
+  { name: 'Algenib', style: 'Gravelly' },
+  { name: 'Rasalgethi', style: 'Informative' },
+  { name: 'Laomedeia', style: 'Upbeat' },
+  { name: 'Achernar', style: 'Soft' },
+  { name: 'Alnilam', style: 'Firm' },
+  { name: 'Schedar', style: 'Even' },
+  { name: 'Gacrux', style: 'Mature' },
+  { name: 'Pulcherrima', style: 'Forward' },
+  { name: 'Achird', style: 'Friendly' },
+  { name: 'Zubenelgenubi', style: 'Casual' },
+  { name: 'Vindemiatrix', style: 'Gentle' },
+  { name: 'Sadachbia', style: 'Lively' },
+  { name: 'Sadaltager', style: 'Knowledgeable' },
+  { name: 'Sulafat', style: 'Warm' },
+];
+
 export const LANGUAGE_OPTIONS: { id: Language, label: string }[] = [
   { id: 'english', label: 'English' },
   { id: 'telugu', label: 'Telugu' },
@@ -52,6 +92,198 @@ export const LANGUAGE_OPTIONS: { id: Language, label: string }[] = [
   { id: 'tamil', label: 'Tamil' },
 ];
 
+export const EMOTION_OPTIONS: { id: Emotion, label: string }[] = [
+  { id: 'neutral', label: 'Neutral' },
+  { id: 'cheerful', label: 'Cheerful' },
+  { id: 'happy', label: 'Happy' },
+  { id: 'sad', label: 'Sad' },
+  { id: 'angry', label: 'Angry' },
+  { id: 'calm', label: 'Calm' },
+  { id: 'excited', label: 'Excited' },
+];
+
+// Style directives are prepended to the script as a natural-language instruction
+// (e.g. "Say in Telugu, in a calm and soothing tone: ..."). The TTS model follows
+// such prefixes reliably, whereas a `systemInstruction` causes INTERNAL errors.
+// An empty string means "no directive" for that value.
+export const EMOTION_STYLE_DIRECTIVES: Record<Emotion, string> = {
+  neutral: '',
+  happy: 'in a happy, warm tone',
+  sad: 'in a sad, subdued tone',
+  angry: 'in an angry, forceful tone',
+  cheerful: 'in a cheerful and upbeat tone',
+  calm: 'in a calm and soothing tone',
+  excited: 'in an excited, energetic tone',
+};
+
+export const SLOW_RATE_DIRECTIVE = 'slowly and deliberately';
+
+export const LANGUAGE_STYLE_DIRECTIVES: Record<Language, string> = {
+  english: '',
+  telugu: 'in Telugu with natural Telugu pronunciation',
+  hindi: 'in Hindi with natural Hindi pronunciation',
+  tamil: 'in Tamil with natural Tamil pronunciation',
+};
+
+// Long scripts are split into chunks that are generated separately and stitched back together.
+export const CHUNK_MAX_CHARS = 1500;
+export const CHUNK_CONCURRENCY = 3;
+export const DEFAULT_CHUNK_SILENCE_MS = 250;
+export const CHUNK_CROSSFADE_MS = 15;
+
+// Generation history is kept in IndexedDB; the oldest takes are evicted beyond this size.
+export const HISTORY_DB_NAME = 'pujiverse-voice-studio';
+export const HISTORY_QUOTA_BYTES = 200 * 1024 * 1024;
+
+// Generated audio is cached by request, least recently used clips are evicted first
+export const SPEECH_CACHE_DB_NAME = 'pujiverse-voice-studio.speech-cache';
+export const SPEECH_CACHE_MAX_BYTES = 100 * 1024 * 1024;
+
+export const EXPORT_FORMAT_OPTIONS: { id: ExportFormat, label: string, extension: string, mimeType: string }[] = [
+  { id: 'wav', label: 'WAV', extension: 'wav', mimeType: 'audio/wav' },
+  { id: 'flac', label: 'FLAC (lossless)', extension: 'flac', mimeType: 'audio/flac' },
+  { id: 'mp3', label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg' },
+  { id: 'ogg-opus', label: 'Ogg/Opus', extension: 'opus', mimeType: 'audio/ogg; codecs=opus' },
+];
+
+export const MP3_BITRATE_OPTIONS = [64, 96, 128, 192, 256, 320];
+export const OPUS_BITRATE_OPTIONS = [24, 32, 48, 64, 96, 128];
+export const EXPORT_SAMPLE_RATE_OPTIONS = [44100, 48000];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'wav',
+  wavBitDepth: 16,
+  mp3Bitrate: 128,
+  opusBitrate: 48,
+  sampleRate: null,
+};
+
+// Post-processing chain applied before playback and export
+export const PROCESSING_PRESETS_STORAGE_KEY = 'pujiverse-voice-studio.processing-presets';
+
+export const DEFAULT_PROCESSING_SETTINGS: ProcessingSettings = {
+  enabled: false,
+  highPass: { enabled: false, cutoffHz: 80 },
+  eq: { enabled: false, lowGainDb: 0, midGainDb: 0, highGainDb: 0 },
+  trimSilence: { enabled: false, thresholdDb: -50, paddingMs: 100 },
+  normalization: { mode: 'none', peakDb: -1, targetLufs: -16 },
+  fades: { fadeInMs: 0, fadeOutMs: 0 },
+};
+
+export const BUILT_IN_PROCESSING_PRESETS: ProcessingPreset[] = [
+  {
+    id: 'builtin-podcast',
+    name: 'Podcast (-16 LUFS)',
+    builtIn: true,
+    settings: {
+      enabled: true,
+      highPass: { enabled: true, cutoffHz: 80 },
+      eq: { enabled: true, lowGainDb: -1, midGainDb: 1, highGainDb: 2 },
+      trimSilence: { enabled: true, thresholdDb: -50, paddingMs: 150 },
+      normalization: { mode: 'loudness', peakDb: -1, targetLufs: -16 },
+      fades: { fadeInMs: 20, fadeOutMs: 150 },
+    },
+  },
+  {
+    id: 'builtin-broadcast',
+    name: 'Broadcast (-23 LUFS)',
+    builtIn: true,
+    settings: {
+      enabled: true,
+      highPass: { enabled: true, cutoffHz: 60 },
+      eq: { enabled: false, lowGainDb: 0, midGainDb: 0, highGainDb: 0 },
+      trimSilence: { enabled: true, thresholdDb: -55, paddingMs: 250 },
+      normalization: { mode: 'loudness', peakDb: -1, targetLufs: -23 },
+      fades: { fadeInMs: 10, fadeOutMs: 100 },
+    },
+  },
+  {
+    id: 'builtin-peak',
+    name: 'Peak normalize (-1 dBFS)',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_PROCESSING_SETTINGS,
+      enabled: true,
+      normalization: { mode: 'peak', peakDb: -1, targetLufs: -16 },
+    },
+  },
+];
+
+// Transient speech request failures (quota, network, 5xx, empty audio) are retried with jittered backoff
+export const SPEECH_RETRY_ATTEMPTS = 3;
+export const SPEECH_RETRY_BASE_DELAY_MS = 1000;
+export const SPEECH_RETRY_MAX_DELAY_MS = 30000;
+
+// User-facing message and recovery action for each kind of speech error
+export const SPEECH_ERROR_MESSAGES: Record<SpeechErrorKind, { message: string, action: ErrorRecoveryAction | null }> = {
+  auth: { message: 'The API key is missing, invalid or not allowed to use this model. Select a different key.', action: 'select-key' },
+  quota: { message: 'The rate limit or quota was reached. Wait a moment, then try again.', action: 'retry' },
+  budget: { message: 'A hard spending limit was reached. Raise it in Usage & cost to continue.', action: null },
+  safety: { message: 'The script was blocked by the safety filters. Rephrase the flagged text and try again.', action: 'edit-script' },
+  'empty-audio': { message: 'The service returned no audio. Try again, or shorten the script.', action: 'retry' },
+  network: { message: 'Could not reach the speech service. Check your connection and try again.', action: 'retry' },
+  server: { message: 'The speech service is having problems. Try again in a few minutes.', action: 'retry' },
+  cancelled: { message: 'Generation was cancelled.', action: null },
+  unknown: { message: 'Speech generation failed.', action: 'retry' },
+};
+
+// Batch generation: requests are spaced out to stay under provider rate limits,
+// and each row is retried with exponential backoff before being marked failed.
+export const BATCH_REQUESTS_PER_MINUTE = 10;
+export const BATCH_MAX_RETRIES = 2;
+export const BATCH_RETRY_BASE_DELAY_MS = 2000;
+
+export const VOICE_PRESETS_STORAGE_KEY = 'pujiverse-voice-studio.voice-presets';
+export const AUDITION_SAMPLE_TEXT = 'The quick brown fox jumps over the lazy dog, and then takes a well-earned nap in the sun.';
+export const AUDITION_GAP_SECONDS = 0.6; // Silence between voices when auditions play back to back
+
+export const LEXICON_STORAGE_KEY = 'pujiverse-voice-studio.lexicon';
+
+export const USAGE_LOG_STORAGE_KEY = 'pujiverse-voice-studio.usage-log';
+export const USAGE_SETTINGS_STORAGE_KEY = 'pujiverse-voice-studio.usage-settings';
+export const USAGE_LOG_MAX_ENTRIES = 5000; // Oldest entries are dropped first
+
+// Estimates derived from the published per-token prices (about 4 characters per
+// text token, 25 audio tokens per second). Editable in the usage panel.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  [GEMINI_TTS_MODEL]: { inputPer1kChars: 0.000125, outputPer1kChars: 0, audioPerMinute: 0.015 },
+  [GEMINI_TEXT_MODEL]: { inputPer1kChars: 0.000075, outputPer1kChars: 0.000625, audioPerMinute: 0 },
+};
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+  dailySoft: null,
+  dailyHard: null,
+  monthlySoft: null,
+  monthlyHard: null,
+};
+
+// Timeline mixdown; music is decoded at this rate and takes are resampled to it
+export const TIMELINE_SAMPLE_RATE = 48000;
+export const TIMELINE_CHANNELS = 2;
+export const TIMELINE_MIN_CLIP_SECONDS = 0.1;
+export const TIMELINE_PIXELS_PER_SECOND = 40;
+export const DEFAULT_DUCKING: DuckingSettings = {
+  enabled: true,
+  amountDb: 12,
+  attackMs: 200,
+  releaseMs: 500,
+};
+
+// Work from anywhere on the page. Alt+Shift avoids the browser's own Alt+letter menus.
+export const KEYBOARD_SHORTCUTS: Record<ShortcutAction, KeyboardShortcut> = {
+  generate: { code: 'Enter', primary: true, description: 'Generate the voice-over' },
+  playPause: { code: 'KeyP', alt: true, shift: true, description: 'Play or pause the current take' },
+  download: { code: 'KeyD', alt: true, shift: true, description: 'Download the current take' },
+  cancel: { code: 'Escape', description: 'Cancel generation' },
+};
+export const HIGH_CONTRAST_STORAGE_KEY = 'pujiverse-voice-studio.high-contrast';
+
+// Project files; bump the version and add a migration in services/projectFile.ts when the format changes
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.voiceproject.json';
+export const PROJECT_AUTOSAVE_STORAGE_KEY = 'pujiverse-voice-studio.autosave';
+export const PROJECT_AUTOSAVE_DELAY_MS = 1000;
+
 // Helper functions for audio decoding/encoding as provided in guidelines
 export function decode(base64: string) {
   const binaryString = atob(base64);
@@ -63,6 +295,14 @@ export function decode(base64: string) {
   return bytes;
 }
 
+export function encode(bytes: Uint8Array) {
+  let binaryString = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binaryString += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binaryString);
+}
+
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
@@ -85,66 +325,44 @@ export async function decodeAudioData(
 /**
  * Converts an AudioBuffer to a WAV Blob.
  * @param audioBuffer The AudioBuffer containing the audio data.
+ * @param bitDepth Sample format: 16 or 24-bit integer PCM, or 32-bit float.
  * @returns A Blob representing the WAV file.
  */
-export function encodeWAV(audioBuffer: AudioBuffer): Blob {
-  const numChannels = audioBuffer.numberOfChannels;
-  const sampleRate = audioBuffer.sampleRate;
-  const bitsPerSample = 16; // The decodeAudioData function uses Int16Array, so 16 bits per sample.
-
-  let interleaved: Float32Array;
-  if (numChannels === 2) {
-    const L = audioBuffer.getChannelData(0);
-    const R = audioBuffer.getChannelData(1);
-    interleaved = new Float32Array(L.length + R.length);
-    for (let i = 0; i < L.length; i++) {
-      interleaved[2 * i] = L[i];
-      interleaved[2 * i + 1] = R[i];
-    }
-  } else {
-    interleaved = audioBuffer.getChannelData(0);
+export function encodeWAV(audioBuffer: AudioBuffer, bitDepth: WavBitDepth = 16): Blob {
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    channels.push(audioBuffer.getChannelData(channel));
   }
+  return new Blob([encodeWAVBytes(channels, audioBuffer.sampleRate, bitDepth) as BlobPart], { type: 'audio/wav' });
+}
 
-  const dataLength = interleaved.length * (bitsPerSample / 8);
-  const buffer = new ArrayBuffer(44 + dataLength);
-  const view = new DataView(buffer);
-
-  let offset = 0;
-
-  // RIFF chunk descriptor
-  writeString(view, offset, 'RIFF'); offset += 4;
-  view.setUint32(offset, 36 + dataLength, true); offset += 4;
-  writeString(view, offset, 'WAVE'); offset += 4;
-
-  // FMT sub-chunk
-  writeString(view, offset, 'fmt '); offset += 4;
-  view.setUint32(offset, 16, true); offset += 4; // Subchunk1Size for PCM
-  view.setUint16(offset, 1, true); offset += 2; // AudioFormat (PCM = 1)
-  view.setUint16(offset, numChannels, true); offset += 2;
-  view.setUint32(offset, sampleRate, true); offset += 4;
-  view.setUint32(offset, sampleRate * numChannels * (bitsPerSample / 8), true); offset += 4; // ByteRate
-  view.setUint16(offset, numChannels * (bitsPerSample / 8), true); offset += 2; // BlockAlign
-  view.setUint16(offset, bitsPerSample, true); offset += 2;
-
-  // Data sub-chunk
-  writeString(view, offset, 'data'); offset += 4;
-  view.setUint32(offset, dataLength, true); offset += 4;
-
-  // Write the actual audio data
-  floatTo16BitPCM(view, offset, interleaved);
-
-  return new Blob([view], { type: 'audio/wav' });
+/**
+ * Converts the first channel of an AudioBuffer back to raw 16-bit PCM bytes,
+ * the same layout `decodeAudioData` reads.
+ */
+export function encodePCM16(audioBuffer: AudioBuffer): Uint8Array {
+  const samples = audioBuffer.getChannelData(0);
+  const bytes = new Uint8Array(samples.length * 2);
+  floatTo16BitPCM(new DataView(bytes.buffer), 0, samples);
+  return bytes;
 }
 
-function writeString(view: DataView, offset: number, s: string) {
-  for (let i = 0; i < s.length; i++) {
-    view.setUint8(offset + i, s.charCodeAt(i));
+// Joins byte arrays of any kind (encoded frames, container pages) into one buffer
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
   }
+  return result;
 }
 
-function floatTo16BitPCM(view: DataView, offset: number, input: Float32Array) {
-  for (let i = 0; i < input.length; i++, offset += 2) {
-    const s = Math.max(-1, Math.min(1, input[i]));
-    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
-  }
+/**
+ * Joins raw PCM byte chunks into one contiguous buffer, e.g. clips generated
+ * line by line for a dialogue.
+ */
+export function concatPCM(chunks: Uint8Array[]): Uint8Array {
+  return concatBytes(chunks);
 }
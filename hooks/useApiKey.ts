@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Whether an API key has been selected in the AI Studio runtime. Outside that
+ * runtime the key is assumed to come from the environment.
+ */
+export function useApiKey() {
+  const [hasKey, setHasKey] = useState<boolean>(false);
+
+  useEffect(() => {
+    const checkApiKey = async () => {
+      if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
+        setHasKey(await window.aistudio.hasSelectedApiKey());
+      } else {
+        // Assume key is available if aistudio API is not present (e.g., local dev without special runtime)
+        setHasKey(true);
+      }
+    };
+    checkApiKey();
+  }, []);
+
+  // Opens the runtime's key picker; false when this environment has none
+  const selectKey = async (): Promise<boolean> => {
+    if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
+      await window.aistudio.openSelectKey();
+      // As per guidelines, assume selection was successful and update state
+      setHasKey(true);
+      return true;
+    }
+    return false;
+  };
+
+  // The service rejected the key, so ask for a new one
+  const forgetKey = () => setHasKey(false);
+
+  return { hasKey, selectKey, forgetKey };
+}
@@ -0,0 +1,108 @@
+import { useRef, useState } from 'react';
+import { stitchAudioBuffers, stitchedSegmentStarts, StitchOptions } from '../services/audioStitcher';
+import { countWords, TimingSegment } from '../services/speechTiming';
+import { runWithConcurrency } from '../services/taskPool';
+import { TtsProvider } from '../services/providers';
+import { decode, decodeAudioData, TTS_SAMPLE_RATE, CHUNK_CONCURRENCY, CHUNK_CROSSFADE_MS } from '../constants';
+import { GenerateSpeechParams, ScriptChunk } from '../types';
+
+export type ChunkRequest = Pick<GenerateSpeechParams, 'voiceOption' | 'emotion' | 'language' | 'forceRegenerate'> & { provider: TtsProvider };
+
+// Silence from [pause] markup, applied when the chunks are stitched
+export type ChunkPauses = Pick<StitchOptions, 'gapsMs' | 'leadingSilenceMs'>;
+
+export interface StitchedTake {
+  audioBuffer: AudioBuffer;
+  segments: TimingSegment[]; // Where each chunk sits in the take, for word timing
+  cached: number; // Chunks answered from the audio cache
+  total: number;
+}
+
+/**
+ * Generates a long script as separate chunk requests with live per-chunk status.
+ * Failed chunks can be retried on their own with the settings the take started
+ * with; the take is stitched once every chunk has audio.
+ */
+export function useChunkedSpeech(getAudioContext: () => AudioContext, silenceMs: number) {
+  const [chunks, setChunks] = useState<ScriptChunk[]>([]);
+  const wordCountsRef = useRef<number[]>([]);
+  const buffersRef = useRef<(AudioBuffer | null)[]>([]);
+  const cachedRef = useRef<boolean[]>([]);
+  const requestRef = useRef<ChunkRequest | null>(null);
+  const pausesRef = useRef<ChunkPauses>({});
+
+  const updateChunk = (index: number, patch: Partial<ScriptChunk>) => {
+    setChunks((current) => current.map((chunk) => (chunk.index === index ? { ...chunk, ...patch } : chunk)));
+  };
+
+  const generateChunk = async (chunk: ScriptChunk, request: ChunkRequest, signal: AbortSignal) => {
+    updateChunk(chunk.index, { status: 'generating', error: undefined, cached: false });
+    try {
+      const { provider, ...params } = request;
+      let cached = false;
+      const base64Audio = await provider.generateSpeech({
+        script: chunk.text,
+        slow: chunk.slow,
+        signal,
+        onCacheHit: () => { cached = true; },
+        ...params,
+      });
+      buffersRef.current[chunk.index] = await decodeAudioData(decode(base64Audio), getAudioContext(), TTS_SAMPLE_RATE, 1);
+      cachedRef.current[chunk.index] = cached;
+      updateChunk(chunk.index, { status: 'done', cached });
+    } catch (err: any) {
+      updateChunk(chunk.index, { status: 'error', error: err instanceof Error ? err.message : String(err) });
+      throw err;
+    }
+  };
+
+  // Starts a new take; resolves with one settled result per chunk
+  const run = (scriptChunks: ScriptChunk[], request: ChunkRequest, pauses: ChunkPauses, signal: AbortSignal) => {
+    requestRef.current = request;
+    pausesRef.current = pauses;
+    buffersRef.current = new Array(scriptChunks.length).fill(null);
+    cachedRef.current = new Array(scriptChunks.length).fill(false);
+    wordCountsRef.current = scriptChunks.map((chunk) => countWords(chunk.text));
+    setChunks(scriptChunks);
+    return runWithConcurrency(scriptChunks, CHUNK_CONCURRENCY, (chunk) => generateChunk(chunk, request, signal));
+  };
+
+  // Generates one chunk of the current take again; resolves false when no take has been started
+  const retry = async (chunk: ScriptChunk, signal: AbortSignal): Promise<boolean> => {
+    const request = requestRef.current;
+    if (!request) {
+      return false;
+    }
+    await generateChunk(chunk, request, signal);
+    return true;
+  };
+
+  // The stitched take, or null while any chunk is still missing
+  const stitch = (): StitchedTake | null => {
+    const buffers = buffersRef.current;
+    if (buffers.some((buffer) => !buffer)) {
+      return null;
+    }
+    const options: StitchOptions = {
+      silenceMs,
+      crossfadeMs: CHUNK_CROSSFADE_MS,
+      ...pausesRef.current,
+    };
+    const chunkBuffers = buffers as AudioBuffer[];
+    const starts = stitchedSegmentStarts(chunkBuffers.map((buffer) => buffer.length), TTS_SAMPLE_RATE, options);
+    return {
+      audioBuffer: stitchAudioBuffers(getAudioContext(), chunkBuffers, options),
+      segments: chunkBuffers.map((buffer, index) => ({
+        start: starts[index],
+        end: starts[index] + buffer.duration,
+        wordCount: wordCountsRef.current[index] ?? 0,
+      })),
+      cached: cachedRef.current.filter(Boolean).length,
+      total: chunkBuffers.length,
+    };
+  };
+
+  const clear = () => setChunks([]);
+
+  return { chunks, run, retry, stitch, clear };
+}
@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import React, { useRef } from 'react';
+import { describe, it, expect, afterEach } from 'vitest';
+import { cleanup, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import { useGenerationAnnouncements } from './useGenerationAnnouncements';
+import { AudioPlayerControls } from '../components/AudioPlayer';
+import ChunkProgress from '../components/ChunkProgress';
+import ErrorAlert from '../components/ErrorAlert';
+import { ScriptChunk } from '../types';
+
+interface StudioProps {
+  loading?: boolean;
+  converting?: boolean;
+  notice?: string | null;
+  error?: string | null;
+  chunks?: ScriptChunk[];
+}
+
+// The parts of the studio the announcements drive, laid out as SpeechGenerator does
+const Studio: React.FC<StudioProps> = ({ loading = false, converting = false, notice = null, error = null, chunks = [] }) => {
+  const generateButtonRef = useRef<HTMLButtonElement>(null);
+  const cancelButtonRef = useRef<HTMLButtonElement>(null);
+  const errorRef = useRef<HTMLDivElement>(null);
+  const playerControlsRef = useRef<AudioPlayerControls>(null);
+  const [announcement] = useGenerationAnnouncements({
+    notice,
+    loading,
+    converting,
+    chunksDone: chunks.filter((chunk) => chunk.status === 'done').length,
+    chunkCount: chunks.length,
+    generateButtonRef,
+    cancelButtonRef,
+    errorRef,
+    playerControlsRef,
+  });
+
+  return (
+    <main>
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">{announcement}</div>
+      {error && <ErrorAlert message={error} action="retry" onAction={() => {}} alertRef={errorRef} />}
+      {chunks.length > 1 && <ChunkProgress chunks={chunks} loading={loading} onRetry={() => {}} />}
+      <button ref={generateButtonRef} type="button" disabled={loading}>Generate</button>
+      {loading && <button ref={cancelButtonRef} type="button">Cancel</button>}
+    </main>
+  );
+};
+
+const chunk = (index: number, status: ScriptChunk['status']): ScriptChunk => ({ index, text: `Part ${index + 1}.`, status });
+
+const liveRegion = () => screen.getByRole('status');
+
+describe('useGenerationAnnouncements', () => {
+  afterEach(cleanup);
+
+  it('announces the start of a generation and moves focus to Cancel', () => {
+    const { rerender } = render(<Studio />);
+    expect(liveRegion().textContent).toBe('');
+    screen.getByRole('button', { name: 'Generate' }).focus();
+
+    rerender(<Studio loading />);
+    expect(liveRegion().textContent).toBe('Generating speech...');
+    expect(document.activeElement).toBe(screen.getByRole('button', { name: 'Cancel' }));
+  });
+
+  it('announces conversion, chunk progress and notices', () => {
+    const { rerender } = render(<Studio />);
+    rerender(<Studio loading converting />);
+    expect(liveRegion().textContent).toBe('Converting script...');
+
+    rerender(<Studio loading chunks={[chunk(0, 'done'), chunk(1, 'generating'), chunk(2, 'pending')]} />);
+    expect(liveRegion().textContent).toBe('1 of 3 chunks generated.');
+
+    rerender(<Studio notice="Generation cancelled." />);
+    expect(liveRegion().textContent).toBe('Generation cancelled.');
+  });
+
+  it('focuses the error when a generation fails and Generate when it ends otherwise', () => {
+    const { rerender } = render(<Studio loading />);
+    rerender(<Studio error="The service is busy." />);
+    expect(document.activeElement).toBe(screen.getByRole('alert'));
+
+    rerender(<Studio loading />);
+    rerender(<Studio />);
+    expect(document.activeElement).toBe(screen.getByRole('button', { name: 'Generate' }));
+  });
+
+  it('has no axe violations while generating or after a failure', async () => {
+    const options: axe.RunOptions = { rules: { 'color-contrast': { enabled: false } } };
+    const { container, rerender } = render(<Studio loading chunks={[chunk(0, 'done'), chunk(1, 'error')]} />);
+    expect((await axe.run(container, options)).violations).toEqual([]);
+
+    rerender(<Studio error="The service is busy." />);
+    expect((await axe.run(container, options)).violations).toEqual([]);
+  });
+});
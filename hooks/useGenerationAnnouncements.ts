@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioPlayerControls } from '../components/AudioPlayer';
+
+interface GenerationAnnouncementOptions {
+  notice: string | null;
+  loading: boolean;
+  converting: boolean;
+  chunksDone: number;
+  chunkCount: number;
+  // Controls that take keyboard focus when a generation starts or ends
+  generateButtonRef: React.RefObject<HTMLButtonElement | null>;
+  cancelButtonRef: React.RefObject<HTMLButtonElement | null>;
+  errorRef: React.RefObject<HTMLDivElement | null>;
+  playerControlsRef: React.RefObject<AudioPlayerControls | null>;
+}
+
+/**
+ * Text for the screen reader live region, plus a setter for one-off messages.
+ * Notices, chunk progress and the start of a generation are announced, and
+ * keyboard focus stays on a live control as the generate and cancel buttons
+ * are disabled or removed.
+ */
+export function useGenerationAnnouncements({
+  notice,
+  loading,
+  converting,
+  chunksDone,
+  chunkCount,
+  generateButtonRef,
+  cancelButtonRef,
+  errorRef,
+  playerControlsRef,
+}: GenerationAnnouncementOptions): [string, (text: string) => void] {
+  const [announcement, setAnnouncement] = useState<string>('');
+
+  // Notices are shown as plain text and read out through the live region
+  useEffect(() => {
+    if (notice) {
+      setAnnouncement(notice);
+    }
+  }, [notice]);
+
+  useEffect(() => {
+    if (loading && chunkCount > 1 && chunksDone > 0) {
+      setAnnouncement(`${chunksDone} of ${chunkCount} chunks generated.`);
+    }
+  }, [loading, chunksDone, chunkCount]);
+
+  const wasLoadingRef = useRef<boolean>(false);
+  useEffect(() => {
+    const wasLoading = wasLoadingRef.current;
+    wasLoadingRef.current = loading;
+    const focusLost = !document.activeElement || document.activeElement === document.body;
+    if (loading && !wasLoading) {
+      setAnnouncement(converting ? 'Converting script...' : 'Generating speech...');
+      if (focusLost || document.activeElement === generateButtonRef.current) {
+        cancelButtonRef.current?.focus();
+      }
+    } else if (!loading && wasLoading && focusLost) {
+      if (errorRef.current) {
+        errorRef.current.focus();
+      } else if (playerControlsRef.current) {
+        playerControlsRef.current.focus();
+      } else {
+        generateButtonRef.current?.focus();
+      }
+    }
+  }, [loading, converting]);
+
+  return [announcement, setAnnouncement];
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { loadHighContrast, saveHighContrast, applyHighContrast } from '../services/highContrast';
+
+// The high-contrast theme switch, remembered across sessions
+export function useHighContrast(): [boolean, () => void] {
+  const [highContrast, setHighContrast] = useState<boolean>(() => loadHighContrast());
+
+  useEffect(() => {
+    applyHighContrast(highContrast);
+  }, [highContrast]);
+
+  const toggle = () => {
+    saveHighContrast(!highContrast);
+    setHighContrast(!highContrast);
+  };
+
+  return [highContrast, toggle];
+}
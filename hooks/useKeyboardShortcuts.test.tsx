@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { cleanup, fireEvent, renderHook } from '@testing-library/react';
+import { ShortcutHandlers, useKeyboardShortcuts } from './useKeyboardShortcuts';
+
+const handlers = (overrides: Partial<ShortcutHandlers> = {}): ShortcutHandlers => ({
+  generate: vi.fn(),
+  playPause: vi.fn(),
+  download: vi.fn(),
+  cancel: null,
+  ...overrides,
+});
+
+// Dispatches a key press and reports whether the hook claimed it
+const press = (init: KeyboardEventInit) => !fireEvent.keyDown(window, init);
+
+describe('useKeyboardShortcuts', () => {
+  afterEach(cleanup);
+
+  it('runs the handler of a matching combination and keeps the key from the page', () => {
+    const current = handlers();
+    renderHook(() => useKeyboardShortcuts(current));
+
+    expect(press({ code: 'KeyP', altKey: true, shiftKey: true })).toBe(true);
+    expect(current.playPause).toHaveBeenCalledTimes(1);
+    expect(press({ code: 'Enter', ctrlKey: true })).toBe(true);
+    expect(current.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves unmatched keys, null handlers and repeats to the browser', () => {
+    const current = handlers();
+    renderHook(() => useKeyboardShortcuts(current));
+
+    expect(press({ code: 'KeyP', altKey: true })).toBe(false);
+    expect(press({ code: 'Escape' })).toBe(false);
+    expect(press({ code: 'KeyD', altKey: true, shiftKey: true, repeat: true })).toBe(false);
+    expect(current.playPause).not.toHaveBeenCalled();
+    expect(current.download).not.toHaveBeenCalled();
+  });
+
+  it('uses the handlers of the latest render', () => {
+    const cancel = vi.fn();
+    const { rerender } = renderHook((props: ShortcutHandlers) => useKeyboardShortcuts(props), { initialProps: handlers() });
+    rerender(handlers({ cancel }));
+
+    expect(press({ code: 'Escape' })).toBe(true);
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops listening when unmounted', () => {
+    const current = handlers();
+    const { unmount } = renderHook(() => useKeyboardShortcuts(current));
+    unmount();
+
+    expect(press({ code: 'Enter', ctrlKey: true })).toBe(false);
+    expect(current.generate).not.toHaveBeenCalled();
+  });
+});
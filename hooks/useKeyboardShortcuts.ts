@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import { matchShortcut } from '../services/shortcuts';
+import { ShortcutAction } from '../types';
+
+export type ShortcutHandlers = Record<ShortcutAction, (() => void) | null>;
+
+/**
+ * Runs the handler of a studio shortcut. Handlers are read at key-press time, so
+ * the listener is attached once. A null handler leaves the key to the browser,
+ * e.g. Escape while nothing is loading.
+ */
+export function useKeyboardShortcuts(handlers: ShortcutHandlers) {
+  const handlersRef = useRef<ShortcutHandlers>(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = e.defaultPrevented ? null : matchShortcut(e);
+      const handler = action && handlersRef.current[action];
+      if (handler) {
+        e.preventDefault();
+        handler();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
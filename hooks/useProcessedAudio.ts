@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { processAudioBuffer } from '../services/audioProcessing';
+import { ProcessingSettings } from '../types';
+
+/**
+ * The take with post-processing applied. The DSP runs in an effect rather than
+ * during render, so typing and dragging a slider are not held up by it. A new
+ * take reads as null until its processed copy is ready, so the player never
+ * mounts with the previous take's audio.
+ */
+export function useProcessedAudio(
+  rawBuffer: AudioBuffer | null,
+  settings: ProcessingSettings,
+  getAudioContext: () => AudioContext,
+): AudioBuffer | null {
+  const [processed, setProcessed] = useState<{ source: AudioBuffer, buffer: AudioBuffer } | null>(null);
+
+  useEffect(() => {
+    if (!rawBuffer) {
+      setProcessed(null);
+      return;
+    }
+    setProcessed({ source: rawBuffer, buffer: processAudioBuffer(getAudioContext(), rawBuffer, settings) });
+  }, [rawBuffer, settings, getAudioContext]);
+
+  return processed && processed.source === rawBuffer ? processed.buffer : null;
+}
@@ -0,0 +1,30 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { createProjectAutosave, createProjectFile } from '../services/projectFile';
+import { ProjectState } from '../types';
+import { PROJECT_AUTOSAVE_DELAY_MS } from '../constants';
+
+/**
+ * Hands the last autosaved session to `restore` once on mount, then saves the
+ * session shortly after each change. Saving starts only after the restore, so
+ * the saved session is never overwritten by the blank initial state.
+ */
+export function useProjectAutosave(name: string, state: ProjectState, restore: (saved: string) => void) {
+  const autosave = useMemo(() => createProjectAutosave(), []);
+  const readyRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    const saved = autosave.load();
+    if (saved) {
+      restore(saved);
+    }
+    readyRef.current = true;
+  }, [autosave]);
+
+  useEffect(() => {
+    if (!readyRef.current) {
+      return;
+    }
+    const timer = setTimeout(() => autosave.save(createProjectFile(name, state)), PROJECT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [autosave, name, state]);
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { transliterateScript } from '../services/transliteration';
+import { TtsProvider } from '../services/providers';
+import { Language, ScriptConversionMode } from '../types';
+
+// Converted script under review, with the inputs it was made from
+interface ScriptConversion {
+  text: string;
+  source: string;
+  language: Language;
+  mode: ScriptConversionMode;
+}
+
+/**
+ * The reviewed transliteration or translation of the script, and the text that
+ * is actually spoken. A conversion is stale once the script, language or mode
+ * it was made from changes, and must be converted again before generating.
+ */
+export function useScriptConversion(script: string, language: Language, provider: TtsProvider) {
+  const [mode, setMode] = useState<ScriptConversionMode>('none');
+  const [conversion, setConversion] = useState<ScriptConversion | null>(null);
+  const [converting, setConverting] = useState<boolean>(false);
+
+  const stale = mode !== 'none' && (
+    !conversion || conversion.source !== script || conversion.language !== language || conversion.mode !== mode
+  );
+  const synthesisScript = mode === 'none' ? script : conversion?.text ?? '';
+  // Translation is a billed provider request; transliteration runs locally
+  const translates = mode === 'translate' && !!provider.translateScript;
+
+  // Fall back to the unconverted script when the chosen conversion is no longer possible
+  useEffect(() => {
+    if ((mode === 'transliterate' && language === 'english') || (mode === 'translate' && !provider.translateScript)) {
+      setMode('none');
+    }
+  }, [mode, language, provider]);
+
+  const convert = async (keepSpeakerLabels: boolean, signal: AbortSignal) => {
+    setConverting(true);
+    try {
+      const text = translates && provider.translateScript
+        ? await provider.translateScript({ script, language, signal })
+        : transliterateScript(script, language, { keepSpeakerLabels });
+      setConversion({ text, source: script, language, mode });
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  const editPreview = (text: string) => setConversion((current) => current && { ...current, text });
+
+  return {
+    mode,
+    setMode,
+    preview: mode === 'none' ? null : conversion?.text ?? null,
+    editPreview,
+    stale,
+    converting,
+    translates,
+    synthesisScript,
+    convert,
+  };
+}
@@ -0,0 +1,32 @@
+import { useCallback, useRef } from 'react';
+import { createPcmStreamScheduler, createAudioContextSink, playPcmStream, AudioContextSink } from '../services/streamScheduler';
+import { TTS_SAMPLE_RATE } from '../constants';
+
+// Plays streamed speech as it arrives; `stop` silences whatever is still scheduled
+export function useStreamPlayback(getAudioContext: () => AudioContext) {
+  const sinkRef = useRef<AudioContextSink | null>(null);
+
+  const stop = useCallback(() => {
+    sinkRef.current?.stop();
+    sinkRef.current = null;
+  }, []);
+
+  // Resolves with the whole clip once the stream ends
+  const play = useCallback(async (chunks: AsyncIterable<string>): Promise<AudioBuffer> => {
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') {
+      await ctx.resume();
+    }
+    const sink = createAudioContextSink(ctx, TTS_SAMPLE_RATE);
+    sinkRef.current = sink;
+    const samples = await playPcmStream(
+      chunks,
+      createPcmStreamScheduler({ clock: ctx, sampleRate: TTS_SAMPLE_RATE, schedule: sink.schedule }),
+    );
+    const audioBuffer = ctx.createBuffer(1, samples.length, TTS_SAMPLE_RATE);
+    audioBuffer.copyToChannel(samples, 0);
+    return audioBuffer;
+  }, [getAudioContext]);
+
+  return { play, stop };
+}
@@ -0,0 +1,38 @@
+import { useMemo, useState } from 'react';
+import { createHistoryStore, createDefaultHistoryBackend } from '../services/historyStore';
+import { decodeAudioData, encodePCM16 } from '../constants';
+import { HistoryTake } from '../types';
+
+// Form settings a take was generated with, saved alongside it
+export type TakeSettings = Pick<HistoryTake, 'providerId' | 'script' | 'mode' | 'voiceId' | 'speakerVoices' | 'emotion' | 'language'>;
+
+/**
+ * The local take library. `version` changes whenever a take is saved, so the
+ * history panel knows to reload its listing.
+ */
+export function useTakeHistory(getAudioContext: () => AudioContext) {
+  const store = useMemo(() => createHistoryStore(createDefaultHistoryBackend()), []);
+  const [version, setVersion] = useState<number>(0);
+
+  const save = async (audioBuffer: AudioBuffer, settings: TakeSettings) => {
+    const createdAt = Date.now();
+    try {
+      await store.add({
+        ...settings,
+        id: crypto.randomUUID(),
+        name: settings.script.trim().slice(0, 40) || `Take ${new Date(createdAt).toLocaleString()}`,
+        createdAt,
+        sampleRate: audioBuffer.sampleRate,
+      }, encodePCM16(audioBuffer).buffer as ArrayBuffer);
+      setVersion((current) => current + 1);
+    } catch (err) {
+      // History is a convenience; a storage failure must not hide the generated audio.
+      console.error("Failed to save take to history:", err);
+    }
+  };
+
+  const decodeTake = async (take: HistoryTake) =>
+    decodeAudioData(new Uint8Array(await store.getAudio(take.id)), getAudioContext(), take.sampleRate, 1);
+
+  return { store, version, save, decodeTake };
+}
@@ -0,0 +1,46 @@
+import { useMemo } from 'react';
+import { blankOutNonTurnText } from '../services/dialogue';
+import { blankOutMarkup } from '../services/scriptMarkup';
+import { alignScriptTiming, TimingSegment } from '../services/speechTiming';
+import { buildCaptionCues } from '../services/captions';
+import { GenerationMode, ProcessingSettings } from '../types';
+
+// Script behind the take in the player, for word timing and captions
+export interface TakeText {
+  script: string;
+  mode: GenerationMode;
+  segments?: TimingSegment[]; // Where each generated chunk sits in the raw take
+}
+
+/**
+ * Estimated word timing and caption cues of the current take. Markup, speaker
+ * labels and text outside dialogue turns are blanked out so word offsets still
+ * point into the script. Chunk placement is only trusted while trimming has not
+ * shifted the audio.
+ */
+export function useTakeTiming(audioBuffer: AudioBuffer | null, takeText: TakeText | null, processingSettings: ProcessingSettings) {
+  const timedText = useMemo(() => {
+    if (!takeText) {
+      return null;
+    }
+    const text = blankOutMarkup(takeText.script);
+    return takeText.mode === 'dialogue' ? blankOutNonTurnText(text) : text;
+  }, [takeText]);
+
+  const timing = useMemo(() => {
+    if (!audioBuffer || !takeText || !timedText) {
+      return null;
+    }
+    const trimmed = processingSettings.enabled && processingSettings.trimSilence.enabled;
+    return alignScriptTiming(timedText, audioBuffer.getChannelData(0), audioBuffer.sampleRate, {
+      segments: trimmed ? undefined : takeText.segments,
+    });
+  }, [audioBuffer, takeText, timedText, processingSettings]);
+
+  const captionCues = useMemo(
+    () => (timing && timedText && timing.words.length > 0 ? buildCaptionCues(timing, timedText) : null),
+    [timing, timedText],
+  );
+
+  return { timing, captionCues };
+}
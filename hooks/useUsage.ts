@@ -0,0 +1,39 @@
+import { useCallback, useMemo, useState } from 'react';
+import { createUsageStore, checkBudget, BudgetStatus, UsageSettings } from '../services/usage';
+import { UsageEntry } from '../types';
+import { USAGE_LOG_MAX_ENTRIES } from '../constants';
+
+// The usage log and budget settings, kept in step with local storage
+export function useUsage() {
+  const store = useMemo(() => createUsageStore(), []);
+  const [entries, setEntries] = useState(() => store.list());
+  const [settings, setSettings] = useState(() => store.settings());
+
+  const record = useCallback((entry: Omit<UsageEntry, 'id'>) => {
+    const recorded = store.record(entry);
+    setEntries((current) => [...current, recorded].slice(-USAGE_LOG_MAX_ENTRIES));
+  }, [store]);
+
+  const budgetStatus = useMemo(
+    () => checkBudget(entries, settings.prices, settings.budget),
+    [entries, settings],
+  );
+
+  // Re-read from storage so requests made since the last render count
+  const currentBudget = useCallback(
+    (): BudgetStatus => checkBudget(store.list(), settings.prices, settings.budget),
+    [store, settings],
+  );
+
+  const updateSettings = (next: UsageSettings) => {
+    store.saveSettings(next);
+    setSettings(next);
+  };
+
+  const clear = () => {
+    store.clear();
+    setEntries([]);
+  };
+
+  return { entries, settings, budgetStatus, record, currentBudget, updateSettings, clear };
+}
@@ -0,0 +1,78 @@
+import { ExportSettings } from '../types';
+import { EXPORT_FORMAT_OPTIONS } from '../constants';
+import { encodeWAVBytes } from './encoders/wav';
+import { encodeFLAC } from './encoders/flac';
+import { encodeMP3 } from './encoders/mp3';
+import { encodeOggOpus, webCodecsOpusEncoder, OpusPacketEncoder, OPUS_SAMPLE_RATE } from './encoders/oggOpus';
+import { resample } from './encoders/resample';
+
+export interface ExportedAudio {
+  bytes: Uint8Array;
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * Encodes planar float samples with the given export settings, resampling first
+ * when a target sample rate is set. Opus is always encoded at 48 kHz.
+ */
+export async function exportSamples(
+  channels: Float32Array[],
+  sampleRate: number,
+  settings: ExportSettings,
+  opusEncoder: OpusPacketEncoder = webCodecsOpusEncoder,
+): Promise<ExportedAudio> {
+  const format = EXPORT_FORMAT_OPTIONS.find((option) => option.id === settings.format);
+  if (!format) {
+    throw new Error(`Unknown export format "${settings.format}".`);
+  }
+
+  const targetRate = settings.format === 'ogg-opus' ? OPUS_SAMPLE_RATE : settings.sampleRate ?? sampleRate;
+  const samples = targetRate === sampleRate
+    ? channels
+    : channels.map((channel) => resample(channel, sampleRate, targetRate));
+
+  let bytes: Uint8Array;
+  switch (settings.format) {
+    case 'wav':
+      bytes = encodeWAVBytes(samples, targetRate, settings.wavBitDepth);
+      break;
+    case 'flac':
+      bytes = encodeFLAC(samples, targetRate);
+      break;
+    case 'mp3':
+      bytes = encodeMP3(samples, targetRate, settings.mp3Bitrate);
+      break;
+    case 'ogg-opus':
+      bytes = await encodeOggOpus(samples, settings.sampleRate ?? sampleRate, settings.opusBitrate * 1000, opusEncoder);
+      break;
+  }
+
+  return { bytes, mimeType: format.mimeType, extension: format.extension };
+}
+
+export async function exportAudioBuffer(audioBuffer: AudioBuffer, settings: ExportSettings): Promise<Blob> {
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    channels.push(audioBuffer.getChannelData(channel));
+  }
+  const { bytes, mimeType } = await exportSamples(channels, audioBuffer.sampleRate, settings);
+  return new Blob([bytes as BlobPart], { type: mimeType });
+}
+
+export function exportFileExtension(settings: ExportSettings): string {
+  return EXPORT_FORMAT_OPTIONS.find((option) => option.id === settings.format)?.extension ?? 'wav';
+}
+
+/**
+ * Saves a Blob through a temporary object URL and anchor click.
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke on the next tick so the browser has started the download.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
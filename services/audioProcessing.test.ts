@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyFades,
+  dbToGain,
+  findSoundBounds,
+  gainToDb,
+  highPass,
+  loudnessNormalize,
+  measureLoudness,
+  peakLevel,
+  peakNormalize,
+  processChannels,
+  threeBandEq,
+  trimSilence,
+} from './audioProcessing';
+import { DEFAULT_PROCESSING_SETTINGS } from '../constants';
+
+const SAMPLE_RATE = 48000;
+
+function sine(frequency: number, amplitude: number, seconds: number, sampleRate = SAMPLE_RATE): Float32Array {
+  return Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate));
+}
+
+// RMS over the second half, after the filter has settled
+function steadyRms(samples: Float32Array): number {
+  const half = samples.subarray(samples.length / 2);
+  return Math.sqrt(half.reduce((sum, value) => sum + value * value, 0) / half.length);
+}
+
+const padded = (signal: Float32Array, before: number, after: number) => {
+  const output = new Float32Array(before + signal.length + after);
+  output.set(signal, before);
+  return output;
+};
+
+describe('measureLoudness', () => {
+  it('reads a full-scale 997 Hz sine as -3.01 LUFS (the BS.1770 calibration tone)', () => {
+    expect(measureLoudness([sine(997, 1, 2)], SAMPLE_RATE)).toBeCloseTo(-3.01, 1);
+  });
+
+  it('drops 6 dB when the amplitude halves, at other sample rates too', () => {
+    const loudness = measureLoudness([sine(997, 0.5, 2, 24000)], 24000);
+    expect(loudness).toBeCloseTo(-3.01 - 6.02, 1);
+  });
+
+  it('sums the power of all channels', () => {
+    const tone = sine(997, 0.5, 2);
+    expect(measureLoudness([tone, tone], SAMPLE_RATE) - measureLoudness([tone], SAMPLE_RATE)).toBeCloseTo(3.01, 1);
+  });
+
+  it('gates out silence', () => {
+    // Ungated, three seconds of silence would pull a ten second tone down by 1.1 dB
+    const tone = sine(997, 0.5, 10);
+    const difference = measureLoudness([tone], SAMPLE_RATE) - measureLoudness([padded(tone, SAMPLE_RATE * 3, 0)], SAMPLE_RATE);
+    expect(difference).toBeGreaterThanOrEqual(0);
+    expect(difference).toBeLessThan(0.1);
+    expect(measureLoudness([new Float32Array(SAMPLE_RATE)], SAMPLE_RATE)).toBe(-Infinity);
+    expect(measureLoudness([new Float32Array(0)], SAMPLE_RATE)).toBe(-Infinity);
+  });
+});
+
+describe('normalization', () => {
+  it('scales to the target loudness', () => {
+    const [output] = loudnessNormalize([sine(997, 0.05, 2)], SAMPLE_RATE, -16);
+    expect(measureLoudness([output], SAMPLE_RATE)).toBeCloseTo(-16, 1);
+  });
+
+  it('caps the loudness gain at a -1 dBFS peak', () => {
+    const [output] = loudnessNormalize([sine(997, 0.05, 2)], SAMPLE_RATE, 0);
+    expect(gainToDb(peakLevel([output]))).toBeCloseTo(-1, 3);
+  });
+
+  it('scales the highest peak across channels to the target', () => {
+    const output = peakNormalize([Float32Array.of(0.1, -0.25), Float32Array.of(0.05, 0)], -6);
+    expect(peakLevel(output)).toBeCloseTo(dbToGain(-6), 6);
+    expect(output[0][0] / output[0][1]).toBeCloseTo(-0.4, 6);
+  });
+
+  it('leaves silence as it is', () => {
+    const silence = [new Float32Array(100)];
+    expect(peakNormalize(silence, -1)).toEqual(silence);
+    expect(loudnessNormalize(silence, SAMPLE_RATE, -16)).toEqual(silence);
+  });
+});
+
+describe('silence trimming', () => {
+  it('finds the sound and pads it', () => {
+    const signal = padded(sine(440, 0.5, 0.5), SAMPLE_RATE, SAMPLE_RATE);
+    const { start, end } = findSoundBounds([signal], SAMPLE_RATE, -40, 100);
+    expect(start).toBe(SAMPLE_RATE - 4800);
+    expect(end).toBe(SAMPLE_RATE * 1.5 + 4800);
+  });
+
+  it('trims every channel to the same bounds', () => {
+    const left = padded(sine(440, 0.5, 0.5), 9600, 9600);
+    const right = new Float32Array(left.length);
+    const trimmed = trimSilence([left, right], SAMPLE_RATE, -40, 0);
+    expect(trimmed.map((channel) => channel.length)).toEqual([24000, 24000]);
+  });
+
+  it('trims a silent signal to nothing', () => {
+    expect(trimSilence([new Float32Array(SAMPLE_RATE)], SAMPLE_RATE, -60, 100)).toEqual([new Float32Array(0)]);
+  });
+});
+
+describe('fades', () => {
+  it('ramps in from and out to silence', () => {
+    const faded = applyFades(new Float32Array(100).fill(1), 1000, 10, 20);
+    expect(faded[0]).toBe(0);
+    expect(faded[5]).toBeCloseTo(0.5, 6);
+    expect(faded[10]).toBe(1);
+    expect(faded[79]).toBe(1);
+    expect(faded[89]).toBeCloseTo(0.5, 6);
+    expect(faded[99]).toBe(0);
+  });
+
+  it('does not modify its input and clamps fades longer than the signal', () => {
+    const input = new Float32Array(4).fill(1);
+    expect(Array.from(applyFades(input, 1000, 100, 0))).toEqual([0, 0.25, 0.5, 0.75]);
+    expect(Array.from(input)).toEqual([1, 1, 1, 1]);
+  });
+});
+
+describe('filters', () => {
+  it('high-pass removes rumble and keeps speech frequencies', () => {
+    expect(steadyRms(highPass(sine(20, 1, 1), SAMPLE_RATE, 80))).toBeLessThan(0.05);
+    expect(steadyRms(highPass(sine(1000, 1, 1), SAMPLE_RATE, 80))).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+
+  it('boosts each EQ band by its gain', () => {
+    const tone = sine(1000, 0.1, 1);
+    const boosted = threeBandEq(tone, SAMPLE_RATE, 0, 6, 0);
+    expect(gainToDb(steadyRms(boosted) / steadyRms(tone))).toBeCloseTo(6, 1);
+    expect(gainToDb(steadyRms(threeBandEq(sine(50, 0.1, 1), SAMPLE_RATE, -6, 0, 0)) / steadyRms(sine(50, 0.1, 1)))).toBeCloseTo(-6, 0);
+  });
+});
+
+describe('processChannels', () => {
+  it('returns the input untouched when processing is off', () => {
+    const channels = [sine(440, 0.5, 0.1)];
+    expect(processChannels(channels, SAMPLE_RATE, DEFAULT_PROCESSING_SETTINGS)).toBe(channels);
+  });
+
+  it('trims, normalizes and fades in order', () => {
+    const input = padded(sine(997, 0.05, 1), SAMPLE_RATE, SAMPLE_RATE);
+    const [output] = processChannels([input], SAMPLE_RATE, {
+      ...DEFAULT_PROCESSING_SETTINGS,
+      enabled: true,
+      trimSilence: { enabled: true, thresholdDb: -50, paddingMs: 0 },
+      normalization: { mode: 'peak', peakDb: -3, targetLufs: -16 },
+      fades: { fadeInMs: 10, fadeOutMs: 10 },
+    });
+
+    expect(output.length).toBe(SAMPLE_RATE);
+    expect(peakLevel([output])).toBeCloseTo(dbToGain(-3), 3);
+    expect(output[0]).toBeCloseTo(0, 6);
+    expect(output[output.length - 1]).toBeCloseTo(0, 6);
+    expect(input.length).toBe(SAMPLE_RATE * 3);
+    expect(peakLevel([input])).toBeCloseTo(0.05, 6);
+  });
+});
@@ -0,0 +1,300 @@
+import { ProcessingSettings } from '../types';
+
+interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// 3-band EQ corner frequencies
+const EQ_LOW_SHELF_HZ = 200;
+const EQ_MID_PEAK_HZ = 1000;
+const EQ_HIGH_SHELF_HZ = 4000;
+const EQ_MID_Q = 0.9;
+const BUTTERWORTH_Q = Math.SQRT1_2;
+
+// Loudness measurement per ITU-R BS.1770-4
+const LOUDNESS_BLOCK_SECONDS = 0.4;
+const LOUDNESS_BLOCK_STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+// Loudness normalization never pushes the sample peak above this ceiling.
+const LOUDNESS_PEAK_CEILING_DB = -1;
+
+const TRIM_WINDOW_MS = 10;
+
+export const dbToGain = (db: number) => 10 ** (db / 20);
+export const gainToDb = (gain: number) => 20 * Math.log10(gain);
+
+function normalizeCoefficients(b0: number, b1: number, b2: number, a0: number, a1: number, a2: number): BiquadCoefficients {
+  return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+}
+
+// Filter designs follow the RBJ Audio EQ Cookbook.
+export function highPassCoefficients(sampleRate: number, cutoffHz: number, q = BUTTERWORTH_Q): BiquadCoefficients {
+  const w0 = (2 * Math.PI * cutoffHz) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  return normalizeCoefficients((1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+}
+
+export function shelfCoefficients(sampleRate: number, frequencyHz: number, gainDb: number, type: 'low' | 'high', q = BUTTERWORTH_Q): BiquadCoefficients {
+  const a = 10 ** (gainDb / 40);
+  const w0 = (2 * Math.PI * frequencyHz) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const twoSqrtAAlpha = 2 * Math.sqrt(a) * alpha;
+  const sign = type === 'low' ? -1 : 1;
+
+  return normalizeCoefficients(
+    a * ((a + 1) + sign * (a - 1) * cos + twoSqrtAAlpha),
+    -2 * sign * a * ((a - 1) + sign * (a + 1) * cos),
+    a * ((a + 1) + sign * (a - 1) * cos - twoSqrtAAlpha),
+    (a + 1) - sign * (a - 1) * cos + twoSqrtAAlpha,
+    2 * sign * ((a - 1) - sign * (a + 1) * cos),
+    (a + 1) - sign * (a - 1) * cos - twoSqrtAAlpha,
+  );
+}
+
+export function peakingCoefficients(sampleRate: number, frequencyHz: number, gainDb: number, q: number): BiquadCoefficients {
+  const a = 10 ** (gainDb / 40);
+  const w0 = (2 * Math.PI * frequencyHz) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  return normalizeCoefficients(1 + alpha * a, -2 * cos, 1 - alpha * a, 1 + alpha / a, -2 * cos, 1 - alpha / a);
+}
+
+/**
+ * Runs a biquad filter (transposed direct form II) over the samples.
+ */
+export function applyBiquad(samples: Float32Array, c: BiquadCoefficients): Float32Array {
+  const output = new Float32Array(samples.length);
+  let z1 = 0;
+  let z2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = c.b0 * x + z1;
+    z1 = c.b1 * x - c.a1 * y + z2;
+    z2 = c.b2 * x - c.a2 * y;
+    output[i] = y;
+  }
+  return output;
+}
+
+export function highPass(samples: Float32Array, sampleRate: number, cutoffHz: number): Float32Array {
+  return applyBiquad(samples, highPassCoefficients(sampleRate, cutoffHz));
+}
+
+/**
+ * Simple 3-band EQ: low shelf, mid peak and high shelf, each with a gain in dB.
+ */
+export function threeBandEq(samples: Float32Array, sampleRate: number, lowGainDb: number, midGainDb: number, highGainDb: number): Float32Array {
+  let output = samples;
+  if (lowGainDb !== 0) {
+    output = applyBiquad(output, shelfCoefficients(sampleRate, EQ_LOW_SHELF_HZ, lowGainDb, 'low'));
+  }
+  if (midGainDb !== 0) {
+    output = applyBiquad(output, peakingCoefficients(sampleRate, EQ_MID_PEAK_HZ, midGainDb, EQ_MID_Q));
+  }
+  if (highGainDb !== 0) {
+    output = applyBiquad(output, shelfCoefficients(sampleRate, EQ_HIGH_SHELF_HZ, highGainDb, 'high'));
+  }
+  return output === samples ? samples.slice() : output;
+}
+
+export function peakLevel(channels: Float32Array[]): number {
+  let peak = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) {
+      const value = Math.abs(channel[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+}
+
+/**
+ * K-weighting filter pair from BS.1770 (head-related high shelf, then the RLB
+ * high-pass), re-derived for any sample rate the same way libebur128 does.
+ */
+function kWeightingCoefficients(sampleRate: number): [BiquadCoefficients, BiquadCoefficients] {
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let q = 0.7071752369554196;
+  const vh = 10 ** (3.999843853973347 / 20);
+  const vb = vh ** 0.4996667741545416;
+  const shelf = normalizeCoefficients(vh + (vb * k) / q + k * k, 2 * (k * k - vh), vh - (vb * k) / q + k * k, 1 + k / q + k * k, 2 * (k * k - 1), 1 - k / q + k * k);
+
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  q = 0.5003270373238773;
+  const a0 = 1 + k / q + k * k;
+  const rlb = { b0: 1, b1: -2, b2: 1, a1: (2 * (k * k - 1)) / a0, a2: (1 - k / q + k * k) / a0 };
+  return [shelf, rlb];
+}
+
+function kWeight(samples: Float32Array, sampleRate: number): Float32Array {
+  const [shelf, rlb] = kWeightingCoefficients(sampleRate);
+  return applyBiquad(applyBiquad(samples, shelf), rlb);
+}
+
+/**
+ * Integrated loudness in LUFS (ITU-R BS.1770-4 with absolute and relative
+ * gating). Returns -Infinity for silence. All channels are weighted equally.
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): number {
+  const weighted = channels.map((channel) => kWeight(channel, sampleRate));
+  const length = weighted[0]?.length ?? 0;
+  if (length === 0) {
+    return -Infinity;
+  }
+
+  const blockLength = Math.min(length, Math.round(LOUDNESS_BLOCK_SECONDS * sampleRate));
+  const step = Math.max(1, Math.round(LOUDNESS_BLOCK_STEP_SECONDS * sampleRate));
+  const blockPowers: number[] = [];
+  for (let start = 0; start + blockLength <= length; start += step) {
+    let power = 0;
+    for (const channel of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockLength; i++) {
+        sum += channel[i] * channel[i];
+      }
+      power += sum / blockLength;
+    }
+    blockPowers.push(power);
+  }
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const aboveAbsolute = blockPowers.filter((power) => toLufs(power) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) {
+    return -Infinity;
+  }
+  const relativeGate = toLufs(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter((power) => toLufs(power) > relativeGate);
+  return toLufs(mean(gated));
+}
+
+export function applyGain(channels: Float32Array[], gain: number): Float32Array[] {
+  return channels.map((channel) => channel.map((value) => value * gain));
+}
+
+export function peakNormalize(channels: Float32Array[], targetPeakDb: number): Float32Array[] {
+  const peak = peakLevel(channels);
+  return peak > 0 ? applyGain(channels, dbToGain(targetPeakDb) / peak) : channels.map((channel) => channel.slice());
+}
+
+/**
+ * Scales the signal to the target integrated loudness. The gain is capped so the
+ * sample peak stays at or below -1 dBFS, so very dynamic takes may end up
+ * slightly quieter than the target rather than clipping.
+ */
+export function loudnessNormalize(channels: Float32Array[], sampleRate: number, targetLufs: number): Float32Array[] {
+  const loudness = measureLoudness(channels, sampleRate);
+  if (!Number.isFinite(loudness)) {
+    return channels.map((channel) => channel.slice());
+  }
+  const peak = peakLevel(channels);
+  let gain = dbToGain(targetLufs - loudness);
+  if (peak * gain > dbToGain(LOUDNESS_PEAK_CEILING_DB)) {
+    gain = dbToGain(LOUDNESS_PEAK_CEILING_DB) / peak;
+  }
+  return applyGain(channels, gain);
+}
+
+/**
+ * Finds the first and last sample (end exclusive) whose short-term RMS across
+ * channels exceeds the threshold, widened by `paddingMs` on both sides.
+ */
+export function findSoundBounds(channels: Float32Array[], sampleRate: number, thresholdDb: number, paddingMs: number): { start: number, end: number } {
+  const length = channels[0]?.length ?? 0;
+  const window = Math.max(1, Math.round((TRIM_WINDOW_MS / 1000) * sampleRate));
+  const threshold = dbToGain(thresholdDb);
+  let first = -1;
+  let last = -1;
+
+  for (let start = 0; start < length; start += window) {
+    const end = Math.min(length, start + window);
+    let sum = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) {
+        sum += channel[i] * channel[i];
+      }
+    }
+    const rms = Math.sqrt(sum / ((end - start) * channels.length));
+    if (rms > threshold) {
+      if (first === -1) first = start;
+      last = end;
+    }
+  }
+
+  if (first === -1) {
+    return { start: 0, end: 0 };
+  }
+  const padding = Math.round((paddingMs / 1000) * sampleRate);
+  return { start: Math.max(0, first - padding), end: Math.min(length, last + padding) };
+}
+
+export function trimSilence(channels: Float32Array[], sampleRate: number, thresholdDb: number, paddingMs: number): Float32Array[] {
+  const { start, end } = findSoundBounds(channels, sampleRate, thresholdDb, paddingMs);
+  return channels.map((channel) => channel.slice(start, end));
+}
+
+export function applyFades(samples: Float32Array, sampleRate: number, fadeInMs: number, fadeOutMs: number): Float32Array {
+  const output = samples.slice();
+  const fadeIn = Math.min(output.length, Math.round((fadeInMs / 1000) * sampleRate));
+  const fadeOut = Math.min(output.length, Math.round((fadeOutMs / 1000) * sampleRate));
+  for (let i = 0; i < fadeIn; i++) {
+    output[i] *= i / fadeIn;
+  }
+  for (let i = 0; i < fadeOut; i++) {
+    output[output.length - 1 - i] *= i / fadeOut;
+  }
+  return output;
+}
+
+/**
+ * Runs the full chain: high-pass, EQ, silence trim, normalization, fades. The
+ * input is never modified. Returns the input unchanged when processing is off.
+ */
+export function processChannels(channels: Float32Array[], sampleRate: number, settings: ProcessingSettings): Float32Array[] {
+  if (!settings.enabled) {
+    return channels;
+  }
+
+  let output = channels;
+  if (settings.highPass.enabled) {
+    output = output.map((channel) => highPass(channel, sampleRate, settings.highPass.cutoffHz));
+  }
+  if (settings.eq.enabled) {
+    const { lowGainDb, midGainDb, highGainDb } = settings.eq;
+    output = output.map((channel) => threeBandEq(channel, sampleRate, lowGainDb, midGainDb, highGainDb));
+  }
+  if (settings.trimSilence.enabled) {
+    output = trimSilence(output, sampleRate, settings.trimSilence.thresholdDb, settings.trimSilence.paddingMs);
+  }
+  if (settings.normalization.mode === 'peak') {
+    output = peakNormalize(output, settings.normalization.peakDb);
+  } else if (settings.normalization.mode === 'loudness') {
+    output = loudnessNormalize(output, sampleRate, settings.normalization.targetLufs);
+  }
+  if (settings.fades.fadeInMs > 0 || settings.fades.fadeOutMs > 0) {
+    output = output.map((channel) => applyFades(channel, sampleRate, settings.fades.fadeInMs, settings.fades.fadeOutMs));
+  }
+  return output;
+}
+
+export function processAudioBuffer(ctx: BaseAudioContext, audioBuffer: AudioBuffer, settings: ProcessingSettings): AudioBuffer {
+  if (!settings.enabled) {
+    return audioBuffer;
+  }
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    channels.push(audioBuffer.getChannelData(channel));
+  }
+  const processed = processChannels(channels, audioBuffer.sampleRate, settings);
+  const result = ctx.createBuffer(processed.length, Math.max(1, processed[0].length), audioBuffer.sampleRate);
+  processed.forEach((data, channel) => result.copyToChannel(data, channel));
+  return result;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { stitchSamples, stitchedSegmentStarts } from './audioStitcher';
+
+const SAMPLE_RATE = 1000; // One sample per millisecond
+
+const constant = (length: number, value: number) => new Float32Array(length).fill(value);
+
+describe('stitchSamples', () => {
+  it('joins segments with silence between them', () => {
+    const output = stitchSamples([constant(100, 1), constant(50, 1)], SAMPLE_RATE, { silenceMs: 20, crossfadeMs: 0 });
+
+    expect(output.length).toBe(170);
+    expect(Array.from(output.subarray(0, 100)).every((sample) => sample === 1)).toBe(true);
+    expect(Array.from(output.subarray(100, 120)).every((sample) => sample === 0)).toBe(true);
+    expect(Array.from(output.subarray(120)).every((sample) => sample === 1)).toBe(true);
+  });
+
+  it('fades both sides of a silence gap to avoid clicks', () => {
+    const output = stitchSamples([constant(100, 1), constant(100, 1)], SAMPLE_RATE, { silenceMs: 20, crossfadeMs: 5 });
+
+    expect(Array.from(output.subarray(95, 100))).toEqual([0.8, 0.6, 0.4, 0.2, 0].map(Math.fround));
+    expect(Array.from(output.subarray(120, 125))).toEqual([0, 0.2, 0.4, 0.6, 0.8].map(Math.fround));
+    // The outer edges of the take are left alone
+    expect(output[0]).toBe(1);
+    expect(output[output.length - 1]).toBe(1);
+  });
+
+  it('overlaps segments with an equal-power crossfade when there is no silence', () => {
+    const output = stitchSamples([constant(100, 1), constant(100, 0.5)], SAMPLE_RATE, { silenceMs: 0, crossfadeMs: 10 });
+
+    expect(output.length).toBe(190);
+    expect(output[89]).toBe(1);
+    for (let i = 0; i < 10; i++) {
+      const t = ((i + 0.5) / 10) * (Math.PI / 2);
+      expect(output[90 + i]).toBeCloseTo(Math.cos(t) + 0.5 * Math.sin(t), 5);
+    }
+    expect(output[100]).toBe(0.5);
+  });
+
+  it('never overlaps more than the shorter segment', () => {
+    const output = stitchSamples([constant(100, 1), constant(4, 1)], SAMPLE_RATE, { silenceMs: 0, crossfadeMs: 10 });
+    expect(output.length).toBe(100);
+  });
+
+  it('uses per-segment gaps, leading silence and trailing silence', () => {
+    const options = { silenceMs: 20, crossfadeMs: 0, gapsMs: [50, undefined, 30], leadingSilenceMs: 10 };
+    const output = stitchSamples([constant(10, 1), constant(10, 1), constant(10, 1)], SAMPLE_RATE, options);
+
+    expect(stitchedSegmentStarts([10, 10, 10], SAMPLE_RATE, options)).toEqual([0.01, 0.07, 0.1]);
+    expect(output.length).toBe(10 + 10 + 50 + 10 + 20 + 10 + 30);
+    expect(output[9]).toBe(0);
+    expect(output[10]).toBe(1);
+    expect(output[20]).toBe(0);
+    expect(output[70]).toBe(1);
+    expect(output[100]).toBe(1);
+    expect(output[110]).toBe(0);
+  });
+
+  it('returns only the leading silence when there are no segments', () => {
+    expect(stitchSamples([], SAMPLE_RATE, { silenceMs: 20, crossfadeMs: 5, leadingSilenceMs: 30 })).toEqual(new Float32Array(30));
+  });
+});
@@ -0,0 +1,104 @@
+export interface StitchOptions {
+  silenceMs: number; // Silence inserted between consecutive segments
+  crossfadeMs: number; // Edge fade (with silence) or overlap length (without silence)
+  gapsMs?: (number | undefined)[]; // Per-segment silence after segment i, overriding `silenceMs`; the last entry is trailing silence
+  leadingSilenceMs?: number;
+}
+
+const toSamples = (ms: number, sampleRate: number) => Math.max(0, Math.round((ms / 1000) * sampleRate));
+
+interface SegmentLayout {
+  gaps: number[]; // Silence after each segment, in samples
+  overlaps: number[]; // Crossfade overlap with the next segment, in samples
+  starts: number[]; // First sample of each segment in the output
+  totalLength: number;
+}
+
+function layoutSegments(lengths: number[], sampleRate: number, options: StitchOptions): SegmentLayout {
+  const fadeLength = toSamples(options.crossfadeMs, sampleRate);
+  const lastIndex = lengths.length - 1;
+  // gaps[i] is the silence after segment i; only the explicit override applies after the last one.
+  const gaps = lengths.map((_, index) => {
+    const override = options.gapsMs?.[index];
+    return toSamples(override ?? (index < lastIndex ? options.silenceMs : 0), sampleRate);
+  });
+  const overlaps = lengths.map((length, index) =>
+    index < lastIndex && gaps[index] === 0 ? Math.min(fadeLength, length, lengths[index + 1]) : 0,
+  );
+
+  const starts: number[] = [];
+  let cursor = toSamples(options.leadingSilenceMs ?? 0, sampleRate);
+  lengths.forEach((length, index) => {
+    starts.push(cursor);
+    cursor += length + gaps[index] - overlaps[index];
+  });
+  return { gaps, overlaps, starts, totalLength: cursor };
+}
+
+/**
+ * Where each segment starts in the stitched output, in seconds. Useful for
+ * mapping per-segment information (e.g. chunk text) onto the joined take.
+ */
+export function stitchedSegmentStarts(lengths: number[], sampleRate: number, options: StitchOptions): number[] {
+  return layoutSegments(lengths, sampleRate, options).starts.map((start) => start / sampleRate);
+}
+
+/**
+ * Joins mono sample segments into one signal. Where a boundary has a silence gap
+ * each side gets a short fade to avoid clicks; where it has none the segments
+ * overlap with an equal-power crossfade.
+ */
+export function stitchSamples(segments: Float32Array[], sampleRate: number, options: StitchOptions): Float32Array {
+  if (segments.length === 0) {
+    return new Float32Array(toSamples(options.leadingSilenceMs ?? 0, sampleRate));
+  }
+
+  const fadeLength = toSamples(options.crossfadeMs, sampleRate);
+  const lastIndex = segments.length - 1;
+  const { gaps, overlaps, starts, totalLength } = layoutSegments(segments.map((segment) => segment.length), sampleRate, options);
+  const output = new Float32Array(totalLength);
+
+  segments.forEach((segment, index) => {
+    const faded = segment.slice();
+    const edge = Math.min(fadeLength, Math.floor(segment.length / 2));
+    for (let i = 0; i < edge; i++) {
+      const gain = i / edge;
+      if (index > 0 && gaps[index - 1] > 0) {
+        faded[i] *= gain;
+      }
+      if (index < lastIndex && gaps[index] > 0) {
+        faded[segment.length - 1 - i] *= gain;
+      }
+    }
+
+    const cursor = starts[index];
+    const overlapIn = index > 0 ? overlaps[index - 1] : 0;
+    for (let i = 0; i < overlapIn; i++) {
+      const t = ((i + 0.5) / overlapIn) * (Math.PI / 2);
+      output[cursor + i] = output[cursor + i] * Math.cos(t) + faded[i] * Math.sin(t);
+    }
+    output.set(faded.subarray(overlapIn), cursor + overlapIn);
+  });
+
+  return output;
+}
+
+/**
+ * Stitches decoded AudioBuffers channel by channel into a new AudioBuffer.
+ * All buffers are expected to share the sample rate and channel count of the first.
+ */
+export function stitchAudioBuffers(ctx: BaseAudioContext, buffers: AudioBuffer[], options: StitchOptions): AudioBuffer {
+  if (buffers.length === 0) {
+    throw new Error('Cannot stitch an empty list of audio buffers.');
+  }
+
+  const { sampleRate, numberOfChannels } = buffers[0];
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    channels.push(stitchSamples(buffers.map((buffer) => buffer.getChannelData(channel)), sampleRate, options));
+  }
+
+  const result = ctx.createBuffer(numberOfChannels, Math.max(1, channels[0].length), sampleRate);
+  channels.forEach((data, channel) => result.copyToChannel(data, channel));
+  return result;
+}
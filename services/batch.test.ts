@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BatchRunOptions, runBatch, validateBatchRecords } from './batch';
+import { BatchRow } from '../types';
+import { AuthError, NetworkError, QuotaError } from './speechErrors';
+
+const rows: BatchRow[] = ['a', 'b', 'c'].map((id) => ({ id, script: `Line ${id}`, voiceId: 'kore', emotion: 'neutral', language: 'english' }));
+
+// Fake clock: sleeping advances time, each request takes a second
+function setup(generate: (row: BatchRow) => Promise<Uint8Array>, overrides: Partial<BatchRunOptions> = {}) {
+  let time = 0;
+  const requestTimes: number[] = [];
+  const sleeps: number[] = [];
+  const options: BatchRunOptions = {
+    generate: async (row) => {
+      requestTimes.push(time);
+      time += 1000;
+      return generate(row);
+    },
+    requestsPerMinute: 10,
+    maxRetries: 2,
+    retryBaseDelayMs: 2000,
+    now: () => time,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      time += Math.max(0, ms);
+    },
+    ...overrides,
+  };
+  return { options, requestTimes, sleeps };
+}
+
+const ok = async () => new Uint8Array([1]);
+
+describe('runBatch', () => {
+  it('spaces requests by the requests-per-minute limit', async () => {
+    const { options, requestTimes } = setup(ok);
+    const { results, files } = await runBatch(rows, options);
+
+    expect(requestTimes).toEqual([0, 6000, 12000]);
+    expect(results.map((result) => [result.status, result.attempts])).toEqual([['success', 1], ['success', 1], ['success', 1]]);
+    expect(files.map((file) => file.name)).toEqual(['a.wav', 'b.wav', 'c.wav']);
+  });
+
+  it('paces every request of a row that needs several', async () => {
+    const { options, requestTimes } = setup(ok);
+    const { results } = await runBatch(rows.slice(0, 2), {
+      ...options,
+      generate: async (row, signal, pace) => {
+        await options.generate(row, signal, pace);
+        await pace();
+        return options.generate(row, signal, pace);
+      },
+    });
+
+    expect(results.map((result) => result.attempts)).toEqual([1, 1]);
+    expect(requestTimes).toEqual([0, 6000, 12000, 18000]);
+  });
+
+  it('retries retryable errors with backoff and paces the retries too', async () => {
+    const generate = vi.fn()
+      .mockRejectedValueOnce(new NetworkError('Offline'))
+      .mockRejectedValueOnce(new NetworkError('Offline'))
+      .mockImplementation(ok);
+    const { options, requestTimes } = setup(generate, { requestsPerMinute: 60 });
+    const { results } = await runBatch(rows.slice(0, 1), options);
+
+    expect(results[0]).toMatchObject({ status: 'success', attempts: 3 });
+    // Backoff of 2s then 4s after each one-second request; the 1s pacing interval has already passed
+    expect(requestTimes).toEqual([0, 3000, 8000]);
+  });
+
+  it('never waits less than the pacing interval between attempts', async () => {
+    const generate = vi.fn().mockRejectedValueOnce(new NetworkError('Offline')).mockImplementation(ok);
+    const { options, requestTimes } = setup(generate, { retryBaseDelayMs: 100 });
+    await runBatch(rows.slice(0, 1), options);
+
+    expect(requestTimes).toEqual([0, 6000]);
+  });
+
+  it('waits at least as long as the server asks', async () => {
+    const generate = vi.fn().mockRejectedValueOnce(new QuotaError('Slow down', 30000)).mockImplementation(ok);
+    const { options, requestTimes } = setup(generate);
+    await runBatch(rows.slice(0, 1), options);
+
+    expect(requestTimes).toEqual([0, 31000]);
+  });
+
+  it('makes at most maxRetries + 1 requests for a row and moves on', async () => {
+    const generate = vi.fn(async (row: BatchRow) => {
+      if (row.id === 'a') {
+        throw new NetworkError('Offline');
+      }
+      return new Uint8Array([1]);
+    });
+    const { options } = setup(generate);
+    const { results } = await runBatch(rows.slice(0, 2), options);
+
+    expect(generate).toHaveBeenCalledTimes(4);
+    expect(results[0]).toMatchObject({ status: 'failed', attempts: 3, error: 'Offline' });
+    expect(results[1]).toMatchObject({ status: 'success', attempts: 1 });
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const generate = vi.fn().mockRejectedValue(new AuthError('Bad key'));
+    const { options } = setup(generate);
+    const { results } = await runBatch(rows.slice(0, 1), options);
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(results[0]).toMatchObject({ status: 'failed', attempts: 1, error: 'Bad key' });
+  });
+
+  it('marks unfinished rows as cancelled when aborted', async () => {
+    const controller = new AbortController();
+    const generate = vi.fn(async (row: BatchRow) => {
+      if (row.id === 'b') {
+        controller.abort();
+      }
+      return new Uint8Array([1]);
+    });
+    const { options } = setup(generate, { signal: controller.signal });
+    const { results, files } = await runBatch(rows, options);
+
+    expect(results.map((result) => result.status)).toEqual(['success', 'cancelled', 'cancelled']);
+    expect(files).toHaveLength(1);
+  });
+});
+
+describe('validateBatchRecords', () => {
+  const options = {
+    voices: [{ id: 'kore', label: 'Kore', voiceName: 'Kore', description: '' }],
+    emotions: ['neutral' as const],
+    languages: [{ id: 'english' as const, label: 'English' }],
+    defaults: { voiceId: 'kore', emotion: 'neutral' as const, language: 'english' as const },
+  };
+
+  it('reports rows whose script markup does not parse', () => {
+    const { rows: valid, errors } = validateBatchRecords([{ id: 'a', script: 'Hello <slow>there' }, { id: 'b', script: 'Fine.' }], options);
+
+    expect(valid.map((row) => row.id)).toEqual(['b']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ row: 1, id: 'a' });
+    expect(errors[0].message).toMatch(/^markup error at column \d+ of line 1: /);
+  });
+});
@@ -0,0 +1,332 @@
+import { BatchRow, BatchRowError, BatchRowResult, Emotion, Language, VoiceOption } from '../types';
+import { createZip, ZipEntry } from './zip';
+import { QuotaError, isRetryableError } from './speechErrors';
+import { parseMarkup } from './scriptMarkup';
+
+export interface BatchValidationOptions {
+  voices: VoiceOption[];
+  emotions: Emotion[];
+  languages: { id: Language, label: string }[];
+  // Used when a row leaves the column empty or the file has no such column
+  defaults: { voiceId: string, emotion: Emotion, language: Language };
+}
+
+export interface ParsedBatch {
+  rows: BatchRow[];
+  errors: BatchRowError[];
+}
+
+export interface BatchRunOptions {
+  // Produces the file contents for one row; retryable SpeechErrors are retried
+  // here so every attempt is paced and counted. A row that needs several
+  // requests awaits `pace` before each one after the first.
+  generate: (row: BatchRow, signal: AbortSignal | undefined, pace: () => Promise<void>) => Promise<Uint8Array>;
+  requestsPerMinute: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  signal?: AbortSignal;
+  onUpdate?: (index: number, result: BatchRowResult) => void;
+  // Injectable for tests
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  now?: () => number;
+}
+
+export interface BatchRunResult {
+  results: BatchRowResult[];
+  files: ZipEntry[];
+}
+
+// Accepted spellings for each column, compared after lower-casing and removing spaces, dashes and underscores
+const COLUMN_ALIASES: Record<keyof BatchRow, string[]> = {
+  id: ['id'],
+  script: ['script', 'text'],
+  voiceId: ['voiceid', 'voice'],
+  emotion: ['emotion', 'style'],
+  language: ['language', 'lang'],
+};
+
+const ROW_ID_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N}_.-]*$/u;
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, newlines and doubled
+ * quotes. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0].trim() !== '') {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) {
+    throw new Error('CSV ends inside a quoted field.');
+  }
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+  return records;
+}
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_-]+/g, '');
+
+function toBatchRecord(raw: Record<string, unknown>): Partial<Record<keyof BatchRow, string>> {
+  const record: Partial<Record<keyof BatchRow, string>> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const column = (Object.keys(COLUMN_ALIASES) as (keyof BatchRow)[])
+      .find((name) => COLUMN_ALIASES[name].includes(normalizeKey(key)));
+    if (column && value !== null && value !== undefined) {
+      record[column] = String(value).trim();
+    }
+  }
+  return record;
+}
+
+/**
+ * Reads a CSV (with a header row) or JSON (an array of objects) batch file into
+ * loosely typed records. The format is chosen from the file extension, falling
+ * back to sniffing the first character.
+ */
+export function readBatchRecords(text: string, fileName: string): Partial<Record<keyof BatchRow, string>>[] {
+  const isJson = /\.json$/i.test(fileName) || (!/\.csv$/i.test(fileName) && /^\s*[[{]/.test(text));
+
+  if (isJson) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (err: any) {
+      throw new Error(`Invalid JSON: ${err.message}`);
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON batch files must contain an array of rows.');
+    }
+    return parsed.map((item, index) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        throw new Error(`Row ${index + 1} is not an object.`);
+      }
+      return toBatchRecord(item as Record<string, unknown>);
+    });
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('The CSV file is empty.');
+  }
+  return rows.map((cells) => toBatchRecord(Object.fromEntries(header.map((name, i) => [name, cells[i] ?? '']))));
+}
+
+/**
+ * Checks every record against the provider's voices, emotions and languages.
+ * Voice ids and languages match case-insensitively (languages also by label) and
+ * are returned in canonical form. Invalid rows are reported, not dropped silently.
+ */
+export function validateBatchRecords(
+  records: Partial<Record<keyof BatchRow, string>>[],
+  options: BatchValidationOptions,
+): ParsedBatch {
+  const rows: BatchRow[] = [];
+  const errors: BatchRowError[] = [];
+  const seenIds = new Set<string>();
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const id = record.id ?? '';
+    const problems: string[] = [];
+
+    if (!id) {
+      problems.push('missing id');
+    } else if (!ROW_ID_PATTERN.test(id)) {
+      problems.push(`id "${id}" may only contain letters, digits, "_", "-" and "."`);
+    } else if (seenIds.has(id.toLowerCase())) {
+      problems.push(`duplicate id "${id}"`);
+    }
+
+    const script = record.script ?? '';
+    const [markupError] = parseMarkup(script).errors;
+    if (!script) {
+      problems.push('missing script');
+    } else if (markupError) {
+      problems.push(`markup error at column ${markupError.column} of line ${markupError.line}: ${markupError.message}`);
+    }
+
+    const voiceInput = record.voiceId || options.defaults.voiceId;
+    const voice = options.voices.find((option) => option.id.toLowerCase() === voiceInput.toLowerCase());
+    if (!voice) {
+      problems.push(`unknown voice "${voiceInput}"`);
+    }
+
+    const emotionInput = (record.emotion || options.defaults.emotion).toLowerCase();
+    const emotion = options.emotions.find((option) => option === emotionInput);
+    if (!emotion) {
+      problems.push(`unsupported emotion "${emotionInput}"`);
+    }
+
+    const languageInput = (record.language || options.defaults.language).toLowerCase();
+    const language = options.languages.find(
+      (option) => option.id === languageInput || option.label.toLowerCase() === languageInput,
+    );
+    if (!language) {
+      problems.push(`unsupported language "${languageInput}"`);
+    }
+
+    if (problems.length > 0 || !voice || !emotion || !language) {
+      errors.push({ row, id: id || undefined, message: problems.join('; ') });
+      return;
+    }
+    seenIds.add(id.toLowerCase());
+    rows.push({ id, script, voiceId: voice.id, emotion, language: language.id });
+  });
+
+  return { rows, errors };
+}
+
+export function parseBatchFile(text: string, fileName: string, options: BatchValidationOptions): ParsedBatch {
+  return validateBatchRecords(readBatchRecords(text, fileName), options);
+}
+
+export const batchFileName = (row: BatchRow) => `${row.id}.wav`;
+
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (ms <= 0 || signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Generates the rows one at a time. Requests (including retries and the extra
+ * requests of a multi-chunk row) are spaced at least 60s / requestsPerMinute
+ * apart; a row failing with a retryable error is retried with exponential
+ * backoff (or the server's retry delay, if longer) up to `maxRetries` times.
+ * Aborting the signal also aborts the request in flight and marks every row
+ * that has not finished as cancelled.
+ */
+export async function runBatch(rows: BatchRow[], options: BatchRunOptions): Promise<BatchRunResult> {
+  const { generate, requestsPerMinute, maxRetries, retryBaseDelayMs, signal, onUpdate } = options;
+  const sleep = options.sleep ?? abortableSleep;
+  const now = options.now ?? Date.now;
+  const minInterval = 60_000 / Math.max(1, requestsPerMinute);
+
+  const results: BatchRowResult[] = rows.map((row) => ({ id: row.id, status: 'queued', attempts: 0 }));
+  const files: ZipEntry[] = [];
+  let lastRequestAt = -Infinity;
+
+  const waitForSlot = async () => {
+    await sleep(lastRequestAt + minInterval - now(), signal);
+    lastRequestAt = now();
+  };
+
+  const update = (index: number, patch: Partial<BatchRowResult>) => {
+    results[index] = { ...results[index], ...patch };
+    onUpdate?.(index, results[index]);
+  };
+
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index];
+    let lastError = '';
+    let retryAfterMs = 0;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) {
+        await sleep(Math.max(retryBaseDelayMs * 2 ** (attempt - 1), retryAfterMs), signal);
+      }
+      await waitForSlot();
+      if (signal?.aborted) {
+        break;
+      }
+
+      update(index, { status: 'generating', attempts: attempt + 1 });
+      try {
+        const data = await generate(row, signal, waitForSlot);
+        if (signal?.aborted) {
+          break;
+        }
+        files.push({ name: batchFileName(row), data });
+        update(index, { status: 'success', fileName: batchFileName(row), error: undefined });
+        break;
+      } catch (err: any) {
+        lastError = err?.message || String(err);
+        if (!isRetryableError(err)) {
+          break;
+        }
+        retryAfterMs = err instanceof QuotaError ? err.retryAfterMs ?? 0 : 0;
+      }
+    }
+
+    if (signal?.aborted) {
+      for (let rest = index; rest < rows.length; rest++) {
+        if (results[rest].status !== 'success') {
+          update(rest, { status: 'cancelled' });
+        }
+      }
+      break;
+    }
+    if (results[index].status !== 'success') {
+      update(index, { status: 'failed', error: lastError });
+    }
+  }
+
+  return { results, files };
+}
+
+export function buildBatchManifest(results: BatchRowResult[], meta: Record<string, unknown> = {}): string {
+  const count = (status: BatchRowResult['status']) => results.filter((result) => result.status === status).length;
+  return JSON.stringify({
+    ...meta,
+    total: results.length,
+    succeeded: count('success'),
+    failed: count('failed'),
+    cancelled: count('cancelled'),
+    rows: results,
+  }, null, 2);
+}
+
+/**
+ * Packs the generated files and a manifest.json describing every row into a ZIP.
+ */
+export function buildBatchZip(run: BatchRunResult, meta: Record<string, unknown> = {}): Uint8Array {
+  const manifest = new TextEncoder().encode(buildBatchManifest(run.results, meta));
+  return createZip([...run.files, { name: 'manifest.json', data: manifest }]);
+}
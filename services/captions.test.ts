@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { buildCaptionCues, formatCaptions, formatSrt, formatWebVtt } from './captions';
+import { TimingTrack, segmentScript } from './speechTiming';
+
+// One second per word, sentences back to back
+function evenTrack(script: string): TimingTrack {
+  const sentences = segmentScript(script);
+  let time = 0;
+  const words = sentences.flatMap((sentence, sentenceIndex) =>
+    sentence.words.map((word) => ({ ...word, sentenceIndex, start: time, end: ++time })));
+  return {
+    sentences: sentences.map((sentence, index) => {
+      const own = words.filter((word) => word.sentenceIndex === index);
+      return { text: sentence.text, offset: sentence.offset, length: sentence.length, start: own[0].start, end: own[own.length - 1].end };
+    }),
+    words,
+  };
+}
+
+describe('buildCaptionCues', () => {
+  it('makes one cue per sentence with its punctuation', () => {
+    const script = 'Hello, world! "Ready?"\nGo.';
+    expect(buildCaptionCues(evenTrack(script), script)).toEqual([
+      { start: 0, end: 2, text: 'Hello, world!' },
+      { start: 2, end: 3, text: '"Ready?"' },
+      { start: 3, end: 4, text: 'Go.' },
+    ]);
+  });
+
+  it('breaks long sentences between words and collapses whitespace', () => {
+    const script = 'The quick brown   fox jumps over the lazy dog.';
+    const cues = buildCaptionCues(evenTrack(script), script, 20);
+
+    expect(cues.map((cue) => cue.text)).toEqual(['The quick brown fox', 'jumps over the lazy', 'dog.']);
+    expect(cues.map((cue) => [cue.start, cue.end])).toEqual([[0, 4], [4, 8], [8, 9]]);
+    expect(cues.every((cue) => cue.text.length <= 20)).toBe(true);
+  });
+
+  it('keeps a single word longer than the limit as its own cue', () => {
+    const script = 'Supercalifragilistic word.';
+    expect(buildCaptionCues(evenTrack(script), script, 10).map((cue) => cue.text)).toEqual(['Supercalifragilistic', 'word.']);
+  });
+});
+
+describe('caption formats', () => {
+  const cues = [
+    { start: 0, end: 1.5, text: 'First.' },
+    { start: 3661.2345, end: 3662, text: 'Second.' },
+  ];
+
+  it('writes numbered SRT cues with comma milliseconds', () => {
+    expect(formatSrt(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nFirst.\n\n2\n01:01:01,235 --> 01:01:02,000\nSecond.\n',
+    );
+  });
+
+  it('writes WebVTT with a header and dot milliseconds', () => {
+    expect(formatWebVtt(cues)).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nFirst.\n\n01:01:01.235 --> 01:01:02.000\nSecond.\n',
+    );
+  });
+
+  it('clamps negative times and picks the format by name', () => {
+    expect(formatCaptions('srt', [{ start: -0.2, end: 0.1, text: 'x' }])).toBe('1\n00:00:00,000 --> 00:00:00,100\nx\n');
+    expect(formatCaptions('vtt', [])).toBe('WEBVTT\n\n');
+  });
+});
@@ -0,0 +1,78 @@
+import { TimingTrack, TimedWord } from './speechTiming';
+
+export interface CaptionCue {
+  start: number; // Seconds
+  end: number;
+  text: string;
+}
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+// Common subtitle guideline: at most ~42 characters per caption line
+const DEFAULT_MAX_CUE_CHARS = 42;
+
+/**
+ * Builds one cue per sentence, breaking long sentences between words so no
+ * cue exceeds `maxChars`. Cue text is taken from `script` so punctuation is
+ * kept; runs of whitespace are collapsed.
+ */
+export function buildCaptionCues(track: TimingTrack, script: string, maxChars: number = DEFAULT_MAX_CUE_CHARS): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+
+  track.sentences.forEach((sentence, sentenceIndex) => {
+    const words = track.words.filter((word) => word.sentenceIndex === sentenceIndex);
+    const sentenceEnd = sentence.offset + sentence.length;
+    let group: TimedWord[] = [];
+
+    const flush = (isLast: boolean) => {
+      if (group.length === 0) {
+        return;
+      }
+      const from = group[0] === words[0] ? sentence.offset : group[0].offset;
+      const to = isLast ? sentenceEnd : group[group.length - 1].offset + group[group.length - 1].length;
+      cues.push({
+        start: group[0].start,
+        end: group[group.length - 1].end,
+        text: script.slice(from, to).replace(/\s+/g, ' ').trim(),
+      });
+      group = [];
+    };
+
+    words.forEach((word) => {
+      const candidate = group.length > 0 ? script.slice(group[0].offset, word.offset + word.length) : word.text;
+      if (group.length > 0 && candidate.replace(/\s+/g, ' ').length > maxChars) {
+        flush(false);
+      }
+      group.push(word);
+    });
+    flush(true);
+  });
+
+  return cues;
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function formatWebVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map((cue) => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+export const formatCaptions = (format: CaptionFormat, cues: CaptionCue[]) =>
+  (format === 'srt' ? formatSrt(cues) : formatWebVtt(cues));
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { parseDialogue, assignDefaultVoices, resolveSpeakerVoices, spokenSpeakers, speakableDialogueLines, speakerLabel, blankOutNonTurnText } from './dialogue';
+import { LexiconEntry, VoiceOption } from '../types';
+
+const voice = (id: string, voiceName = id): VoiceOption => ({ id, label: id, voiceName, description: '' });
+const VOICES = [voice('kore', 'Kore'), voice('puck', 'Puck'), voice('kore-warm', 'Kore'), voice('zephyr', 'Zephyr')];
+
+describe('parseDialogue', () => {
+  it('splits labelled lines into turns and lists speakers in order of appearance', () => {
+    const parsed = parseDialogue('Ravi: Welcome to the show!\nPriya: Thanks for having me.\nRavi: Let us begin.');
+    expect(parsed.speakers).toEqual(['Ravi', 'Priya']);
+    expect(parsed.lines).toEqual([
+      { speaker: 'Ravi', text: 'Welcome to the show!', lineNumber: 1 },
+      { speaker: 'Priya', text: 'Thanks for having me.', lineNumber: 2 },
+      { speaker: 'Ravi', text: 'Let us begin.', lineNumber: 3 },
+    ]);
+  });
+
+  it('joins unlabelled lines onto the previous turn and skips blank lines', () => {
+    const parsed = parseDialogue('Ravi: First part\r\n\r\nsecond part');
+    expect(parsed.lines).toEqual([{ speaker: 'Ravi', text: 'First part second part', lineNumber: 1 }]);
+  });
+
+  it('ignores text before the first labelled line and turns without text', () => {
+    const parsed = parseDialogue('An introduction\nRavi:\nPriya: Hello');
+    expect(parsed.lines).toEqual([{ speaker: 'Priya', text: 'Hello', lineNumber: 3 }]);
+    expect(parsed.speakers).toEqual(['Ravi', 'Priya']);
+  });
+
+  it('does not treat sentences, times or URLs containing a colon as speaker labels', () => {
+    const parsed = parseDialogue('Ravi: Listen.\nThe time is: now\n10:30 works\nhttps://example.com');
+    expect(parsed.speakers).toEqual(['Ravi']);
+    expect(parsed.lines[0].text).toBe('Listen. The time is: now 10:30 works https://example.com');
+  });
+
+  it('accepts names in other scripts and with dots or hyphens', () => {
+    const parsed = parseDialogue('\u0C30\u0C35\u0C3F: \u0C28\u0C2E\u0C38\u0C4D\u0C15\u0C3E\u0C30\u0C02\nDr.Rao: Hi\nMary-Jane: Hello');
+    expect(parsed.speakers).toEqual(['\u0C30\u0C35\u0C3F', 'Dr.Rao', 'Mary-Jane']);
+  });
+});
+
+describe('spokenSpeakers', () => {
+  it('lists only speakers with text to speak, in order of appearance', () => {
+    const lines = [
+      { speaker: 'Priya', text: '  ', lineNumber: 1 },
+      { speaker: 'Ravi', text: 'Hello', lineNumber: 2 },
+      { speaker: 'Mina', text: 'Hi', lineNumber: 3 },
+      { speaker: 'Ravi', text: 'Welcome', lineNumber: 4 },
+    ];
+    expect(spokenSpeakers(lines)).toEqual(['Ravi', 'Mina']);
+  });
+});
+
+describe('speaker labels', () => {
+  it('finds the label with its colon', () => {
+    expect(speakerLabel('Ravi: Hello')).toBe('Ravi:');
+    expect(speakerLabel('The time is: now')).toBeUndefined();
+  });
+
+  it('blanks out labels without moving the spoken text', () => {
+    const script = 'Ravi: Hello\nPriya: Hi';
+    const blanked = blankOutNonTurnText(script);
+    expect(blanked).toBe('      Hello\n       Hi');
+    expect(blanked.length).toBe(script.length);
+  });
+
+  it('blanks out text before the first turn but keeps its line breaks', () => {
+    const script = 'Intro music\n\nRavi: Hello\nagain';
+    const blanked = blankOutNonTurnText(script);
+    expect(blanked).toBe('           \n\n      Hello\nagain');
+    expect(blanked.length).toBe(script.length);
+  });
+
+  it('blanks out a script without any speaker turns', () => {
+    expect(blankOutNonTurnText('No labels here')).toBe(' '.repeat(14));
+  });
+});
+
+describe('assignDefaultVoices', () => {
+  it('gives each speaker a voice with a different voice name where possible', () => {
+    expect(assignDefaultVoices(['A', 'B', 'C'], VOICES)).toEqual({ A: 'kore', B: 'puck', C: 'zephyr' });
+  });
+
+  it('keeps existing assignments that still exist and replaces stale ones', () => {
+    const map = assignDefaultVoices(['A', 'B'], VOICES, { A: 'zephyr', B: 'removed-voice' });
+    expect(map).toEqual({ A: 'zephyr', B: 'kore' });
+  });
+
+  it('reuses voices when there are more speakers than voice names', () => {
+    const map = assignDefaultVoices(['A', 'B', 'C', 'D'], [voice('kore', 'Kore'), voice('puck', 'Puck')]);
+    expect(map).toEqual({ A: 'kore', B: 'puck', C: 'kore', D: 'puck' });
+  });
+
+  it('assigns nothing when there are no voices', () => {
+    expect(assignDefaultVoices(['A'], [])).toEqual({});
+  });
+});
+
+describe('resolveSpeakerVoices', () => {
+  it('maps every speaker to its voice option', () => {
+    expect(resolveSpeakerVoices(['A', 'B'], { A: 'puck', B: 'kore' }, VOICES)).toEqual({ A: VOICES[1], B: VOICES[0] });
+  });
+
+  it('throws for a speaker without a valid voice', () => {
+    expect(() => resolveSpeakerVoices(['A', 'B'], { A: 'puck' }, VOICES)).toThrow('No voice assigned to speaker "B".');
+    expect(() => resolveSpeakerVoices(['A'], { A: 'missing' }, VOICES)).toThrow('"A"');
+  });
+});
+
+describe('speakableDialogueLines', () => {
+  it('applies the lexicon, flattens markup and drops lines left blank', () => {
+    const lexicon: LexiconEntry[] = [{ id: '1', term: 'GIF', replacement: 'jif', language: null, caseSensitive: true, wholeWord: true }];
+    const lines = [
+      { speaker: 'A', text: 'A GIF, [pause 1s] <slow>slowly</slow>.', lineNumber: 1 },
+      { speaker: 'B', text: '[pause 500ms]', lineNumber: 2 },
+    ];
+    expect(speakableDialogueLines(lines, lexicon, 'english')).toEqual([{ speaker: 'A', text: 'A jif, slowly.', lineNumber: 1 }]);
+  });
+});
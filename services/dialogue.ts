@@ -0,0 +1,145 @@
+import { DialogueLine, Language, LexiconEntry, SpeakerVoiceMap, VoiceOption } from '../types';
+import { applyLexicon } from './lexicon';
+import { renderMarkupAsText } from './scriptMarkup';
+
+// A speaker label is a single name-like word before a colon, e.g. "Ravi: Hello!"
+// or "Dr.Rao: Welcome". Requiring one word that starts with a letter keeps
+// sentences such as "The time is: now", clock times and URLs from being read
+// as speaker turns.
+const SPEAKER_NAME = String.raw`\p{L}[\p{L}\p{M}\p{N}_.'-]{0,29}`;
+const SPEAKER_LINE_PATTERN = new RegExp(String.raw`^\s*(${SPEAKER_NAME})\s*:(?!//)\s*(.*)$`, 'u');
+// Leading whitespace stays on the label's own line so blanking keeps line breaks
+const SPEAKER_LABEL = String.raw`^[^\S\r\n]*${SPEAKER_NAME}[^\S\r\n]*:(?!//)`;
+
+export interface ParsedDialogue {
+  lines: DialogueLine[];
+  speakers: string[]; // Unique speakers in order of first appearance
+}
+
+/**
+ * Parses a `Speaker: line` script into dialogue turns. Lines without a speaker
+ * label continue the previous turn; text before the first labelled line is ignored.
+ */
+export function parseDialogue(script: string): ParsedDialogue {
+  const lines: DialogueLine[] = [];
+  const speakers: string[] = [];
+
+  script.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) {
+      return;
+    }
+
+    const match = SPEAKER_LINE_PATTERN.exec(line);
+    if (match) {
+      const speaker = match[1];
+      if (!speakers.includes(speaker)) {
+        speakers.push(speaker);
+      }
+      lines.push({ speaker, text: match[2].trim(), lineNumber: index + 1 });
+      return;
+    }
+
+    const previous = lines[lines.length - 1];
+    if (previous) {
+      previous.text = previous.text ? `${previous.text} ${line}` : line;
+    }
+  });
+
+  return { lines: lines.filter((line) => line.text.length > 0), speakers };
+}
+
+/**
+ * Keeps any existing speaker assignments that still point at a known voice and
+ * gives every other speaker the next voice in the list, preferring voice names
+ * that are not already in use so the characters sound distinct.
+ */
+export function assignDefaultVoices(
+  speakers: string[],
+  voiceOptions: VoiceOption[],
+  existing: SpeakerVoiceMap = {},
+): SpeakerVoiceMap {
+  const map: SpeakerVoiceMap = {};
+  const usedVoiceNames = new Set<string>();
+
+  for (const speaker of speakers) {
+    const voice = voiceOptions.find((option) => option.id === existing[speaker]);
+    if (voice) {
+      map[speaker] = voice.id;
+      usedVoiceNames.add(voice.voiceName);
+    }
+  }
+
+  let cursor = 0;
+  for (const speaker of speakers) {
+    if (map[speaker] || voiceOptions.length === 0) {
+      continue;
+    }
+    const unused = voiceOptions.find((option) => !usedVoiceNames.has(option.voiceName));
+    const voice = unused ?? voiceOptions[cursor++ % voiceOptions.length];
+    map[speaker] = voice.id;
+    usedVoiceNames.add(voice.voiceName);
+  }
+
+  return map;
+}
+
+/**
+ * Resolves every speaker to its VoiceOption. Throws if a speaker has no
+ * assignment or is mapped to a voice id that does not exist.
+ */
+export function resolveSpeakerVoices(
+  speakers: string[],
+  map: SpeakerVoiceMap,
+  voiceOptions: VoiceOption[],
+): Record<string, VoiceOption> {
+  const resolved: Record<string, VoiceOption> = {};
+  for (const speaker of speakers) {
+    const voice = voiceOptions.find((option) => option.id === map[speaker]);
+    if (!voice) {
+      throw new Error(`No voice assigned to speaker "${speaker}".`);
+    }
+    resolved[speaker] = voice;
+  }
+  return resolved;
+}
+
+/**
+ * Unique speakers of the lines that have text to speak, in order of first
+ * appearance. A speaker whose turns are all blank is not part of the take.
+ */
+export function spokenSpeakers(lines: DialogueLine[]): string[] {
+  return [...new Set(lines.filter((line) => line.text.trim()).map((line) => line.speaker))];
+}
+
+/**
+ * The lines as sent to the provider: lexicon overrides applied and markup
+ * flattened to text, since dialogue lines cannot carry pauses or rate changes.
+ * Lines left blank by that are dropped.
+ */
+export function speakableDialogueLines(lines: DialogueLine[], lexicon: LexiconEntry[], language: Language): DialogueLine[] {
+  return lines
+    .map((line) => ({ ...line, text: renderMarkupAsText(applyLexicon(line.text, lexicon, language)) }))
+    .filter((line) => line.text.trim());
+}
+
+export function formatDialogueTranscript(lines: DialogueLine[]): string {
+  return lines.map((line) => `${line.speaker}: ${line.text}`).join('\n');
+}
+
+// The `Speaker:` label at the start of a line, colon included, if it has one
+export function speakerLabel(line: string): string | undefined {
+  return new RegExp(SPEAKER_LABEL, 'u').exec(line)?.[0];
+}
+
+/**
+ * Replaces every `Speaker:` label, and the text before the first labelled line
+ * that `parseDialogue` ignores, with spaces. Line breaks and the offsets of the
+ * spoken text are kept intact.
+ */
+export function blankOutNonTurnText(script: string): string {
+  const blank = (text: string) => text.replace(/[^\r\n]/g, ' ');
+  const firstTurn = script.search(new RegExp(SPEAKER_LABEL, 'mu'));
+  const turns = firstTurn < 0 ? blank(script) : blank(script.slice(0, firstTurn)) + script.slice(firstTurn);
+  return turns.replace(new RegExp(SPEAKER_LABEL, 'gmu'), (label) => ' '.repeat(label.length));
+}
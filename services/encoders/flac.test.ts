@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { encodeFLAC } from './flac';
+import { floatToInt16 } from './wav';
+
+class BitReader {
+  position = 0; // In bits
+
+  constructor(private bytes: Uint8Array) {}
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++, this.position++) {
+      value = value * 2 + ((this.bytes[this.position >> 3] >> (7 - (this.position & 7))) & 1);
+    }
+    return value;
+  }
+
+  readSigned(bits: number): number {
+    const value = this.read(bits);
+    return value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+  }
+
+  readUnary(): number {
+    let zeros = 0;
+    while (this.read(1) === 0) {
+      zeros++;
+    }
+    return zeros;
+  }
+
+  alignToByte() {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+
+  get bytePosition() {
+    return this.position >> 3;
+  }
+}
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xFFFF : (crc << 1) & 0xFFFF;
+    }
+  }
+  return crc;
+}
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+interface DecodedFlac {
+  sampleRate: number;
+  channels: Int16Array[];
+}
+
+// Decodes the subset of FLAC the encoder writes: fixed predictors, one Rice partition, independent channels
+function decodeFLAC(bytes: Uint8Array): DecodedFlac {
+  const reader = new BitReader(bytes);
+  expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('fLaC');
+  reader.read(32);
+  expect(reader.read(1)).toBe(1); // Last metadata block
+  expect(reader.read(7)).toBe(0); // STREAMINFO
+  expect(reader.read(24)).toBe(34);
+  reader.read(16 + 16 + 24 + 24);
+  const sampleRate = reader.read(20);
+  const channelCount = reader.read(3) + 1;
+  expect(reader.read(5) + 1).toBe(16);
+  const totalSamples = reader.read(36);
+  reader.read(128);
+
+  const channels = Array.from({ length: channelCount }, () => new Int16Array(totalSamples));
+  let decoded = 0;
+  for (let frameNumber = 0; decoded < totalSamples; frameNumber++) {
+    const frameStart = reader.bytePosition;
+    expect(reader.read(14)).toBe(0b11111111111110);
+    reader.read(2);
+    expect(reader.read(4)).toBe(0b0111);
+    const sampleRateCode = reader.read(4);
+    expect(reader.read(4) + 1).toBe(channelCount);
+    reader.read(4);
+
+    let number = reader.read(8);
+    let leadingOnes = 0;
+    while (number & (0x80 >> leadingOnes)) {
+      leadingOnes++;
+    }
+    if (leadingOnes > 0) {
+      number &= 0xFF >> (leadingOnes + 1);
+      for (let i = 1; i < leadingOnes; i++) {
+        number = number * 64 + (reader.read(8) & 0x3F);
+      }
+    }
+    expect(number).toBe(frameNumber);
+
+    const blockSize = reader.read(16) + 1;
+    if (sampleRateCode === 0b1100) {
+      expect(reader.read(8) * 1000).toBe(sampleRate);
+    } else if (sampleRateCode === 0b1101) {
+      expect(reader.read(16)).toBe(sampleRate);
+    }
+    reader.read(8); // Header CRC-8
+
+    for (const channel of channels) {
+      expect(reader.read(1)).toBe(0);
+      const type = reader.read(6);
+      expect(type & 0b111000).toBe(0b001000);
+      expect(reader.read(1)).toBe(0);
+      const order = type & 0b111;
+      const samples = channel.subarray(decoded, decoded + blockSize);
+      for (let i = 0; i < order; i++) {
+        samples[i] = reader.readSigned(16);
+      }
+      expect(reader.read(2)).toBe(0);
+      expect(reader.read(4)).toBe(0);
+      const parameter = reader.read(4);
+      for (let i = order; i < blockSize; i++) {
+        const folded = reader.readUnary() * 2 ** parameter + reader.read(parameter);
+        const residual = folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+        const prediction = FIXED_COEFFICIENTS[order].reduce((sum, coefficient, j) => sum + coefficient * samples[i - 1 - j], 0);
+        samples[i] = prediction + residual;
+      }
+    }
+
+    reader.alignToByte();
+    const expectedCrc = crc16(bytes.subarray(frameStart, reader.bytePosition));
+    expect(reader.read(16)).toBe(expectedCrc);
+    decoded += blockSize;
+  }
+
+  expect(reader.bytePosition).toBe(bytes.length);
+  return { sampleRate, channels };
+}
+
+// Deterministic noise so failures reproduce
+function noise(length: number, seed: number): Float32Array {
+  const samples = new Float32Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    samples[i] = state / 2 ** 31 - 1;
+  }
+  return samples;
+}
+
+function sine(length: number, frequency: number, sampleRate: number): Float32Array {
+  return Float32Array.from({ length }, (_, i) => 0.8 * Math.sin(2 * Math.PI * frequency * i / sampleRate));
+}
+
+describe('encodeFLAC', () => {
+  it('round-trips a mono tone across several frames', () => {
+    const samples = sine(10000, 440, 24000);
+    const decoded = decodeFLAC(encodeFLAC([samples], 24000));
+
+    expect(decoded.sampleRate).toBe(24000);
+    expect(decoded.channels).toEqual([floatToInt16(samples)]);
+  });
+
+  it('round-trips stereo noise, silence and clipped samples', () => {
+    const left = noise(5000, 1);
+    const right = new Float32Array(5000);
+    right.set([1.5, -1.5, 1, -1], 100);
+    const decoded = decodeFLAC(encodeFLAC([left, right], 44100));
+
+    expect(decoded.channels).toEqual([floatToInt16(left), floatToInt16(right)]);
+  });
+
+  it('stores sample rates without a header code after the frame header', () => {
+    expect(decodeFLAC(encodeFLAC([sine(300, 100, 22000)], 22000)).sampleRate).toBe(22000);
+    expect(decodeFLAC(encodeFLAC([sine(300, 100, 11025)], 11025)).sampleRate).toBe(11025);
+  });
+
+  it('handles very short input', () => {
+    const samples = new Float32Array([0.5, -0.25]);
+    expect(decodeFLAC(encodeFLAC([samples], 16000)).channels).toEqual([floatToInt16(samples)]);
+  });
+
+  it('rejects unsupported channel counts and sample rates', () => {
+    expect(() => encodeFLAC([], 24000)).toThrow('1 to 8 channels');
+    expect(() => encodeFLAC([new Float32Array(1)], 70001)).toThrow('70001 Hz');
+  });
+});
@@ -0,0 +1,243 @@
+import { floatToInt16 } from './wav';
+
+const FLAC_BLOCK_SIZE = 4096;
+const BITS_PER_SAMPLE = 16;
+const MAX_FIXED_ORDER = 4;
+const MAX_RICE_PARAMETER = 14; // 15 is the escape code for 4-bit Rice parameters
+
+// Frame header codes for common sample rates (FLAC spec, "Sample rate" bits).
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001,
+  176400: 0b0010,
+  192000: 0b0011,
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+
+class BitWriter {
+  private bytes: number[] = [];
+  private current = 0;
+  private bitCount = 0;
+
+  write(value: number, bits: number) {
+    for (let i = bits - 1; i >= 0; i--) {
+      // Division keeps values wider than 32 bits (e.g. the 36-bit sample count) intact.
+      this.current = (this.current << 1) | (Math.floor(value / 2 ** i) & 1);
+      this.bitCount++;
+      if (this.bitCount === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeUnary(zeros: number) {
+    for (let i = 0; i < zeros; i++) {
+      this.write(0, 1);
+    }
+    this.write(1, 1);
+  }
+
+  alignToByte() {
+    if (this.bitCount > 0) {
+      this.write(0, 8 - this.bitCount);
+    }
+  }
+
+  get length() {
+    return this.bytes.length;
+  }
+
+  slice(start: number, end?: number) {
+    return this.bytes.slice(start, end);
+  }
+
+  toUint8Array() {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+function crc8(bytes: number[]): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xFF : (crc << 1) & 0xFF;
+    }
+  }
+  return crc;
+}
+
+function crc16(bytes: number[]): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xFFFF : (crc << 1) & 0xFFFF;
+    }
+  }
+  return crc;
+}
+
+// Frame numbers use the UTF-8 style variable-length encoding from the FLAC spec.
+function writeUtf8Number(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  const continuationBytes = value < 0x800 ? 1 : value < 0x10000 ? 2 : value < 0x200000 ? 3 : value < 0x4000000 ? 4 : 5;
+  const prefix = (0xFF << (7 - continuationBytes)) & 0xFF;
+  writer.write(prefix | Math.floor(value / 2 ** (6 * continuationBytes)), 8);
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3F), 8);
+  }
+}
+
+function fixedResidual(samples: Int16Array, order: number): Int32Array {
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = samples[i - 1]; break;
+      case 2: prediction = 2 * samples[i - 1] - samples[i - 2]; break;
+      case 3: prediction = 3 * samples[i - 1] - 3 * samples[i - 2] + samples[i - 3]; break;
+      case 4: prediction = 4 * samples[i - 1] - 6 * samples[i - 2] + 4 * samples[i - 3] - samples[i - 4]; break;
+    }
+    residual[i - order] = samples[i] - prediction;
+  }
+  return residual;
+}
+
+function riceParameter(residual: Int32Array): number {
+  if (residual.length === 0) {
+    return 0;
+  }
+  let sum = 0;
+  for (let i = 0; i < residual.length; i++) {
+    sum += Math.abs(residual[i]);
+  }
+  const mean = sum / residual.length;
+  return mean < 1 ? 0 : Math.min(MAX_RICE_PARAMETER, Math.floor(Math.log2(mean)));
+}
+
+function writeSubframe(writer: BitWriter, samples: Int16Array) {
+  // Pick the fixed predictor order with the smallest residual magnitude.
+  let bestOrder = 0;
+  let bestResidual = fixedResidual(samples, 0);
+  let bestCost = Infinity;
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, samples.length - 1); order++) {
+    const residual = order === 0 ? bestResidual : fixedResidual(samples, order);
+    let cost = 0;
+    for (let i = 0; i < residual.length; i++) {
+      cost += Math.abs(residual[i]);
+    }
+    if (cost < bestCost) {
+      bestCost = cost;
+      bestOrder = order;
+      bestResidual = residual;
+    }
+  }
+
+  writer.write(0, 1); // Zero padding
+  writer.write(0b001000 | bestOrder, 6); // SUBFRAME_FIXED with the chosen order
+  writer.write(0, 1); // No wasted bits
+
+  for (let i = 0; i < bestOrder; i++) {
+    writer.writeSigned(samples[i], BITS_PER_SAMPLE);
+  }
+
+  // Residual: Rice coding with 4-bit parameters and a single partition.
+  const parameter = riceParameter(bestResidual);
+  writer.write(0, 2);
+  writer.write(0, 4);
+  writer.write(parameter, 4);
+  for (let i = 0; i < bestResidual.length; i++) {
+    const value = bestResidual[i];
+    const folded = value >= 0 ? value * 2 : -value * 2 - 1;
+    writer.writeUnary(Math.floor(folded / 2 ** parameter));
+    if (parameter > 0) {
+      writer.write(folded % 2 ** parameter, parameter);
+    }
+  }
+}
+
+/**
+ * Encodes planar float samples as a 16-bit FLAC stream using fixed linear
+ * predictors and Rice-coded residuals. The STREAMINFO MD5 is left unset, which
+ * the format allows.
+ */
+export function encodeFLAC(channels: Float32Array[], sampleRate: number): Uint8Array {
+  if (channels.length < 1 || channels.length > 8) {
+    throw new Error(`FLAC export supports 1 to 8 channels, got ${channels.length}.`);
+  }
+
+  const quantized = channels.map(floatToInt16);
+  const totalSamples = quantized[0].length;
+  const writer = new BitWriter();
+
+  // Uncommon rates are stored after the frame header, in kHz or Hz.
+  const sampleRateCode = SAMPLE_RATE_CODES[sampleRate]
+    ?? (sampleRate % 1000 === 0 && sampleRate <= 255000 ? 0b1100 : 0b1101);
+  if (sampleRateCode === 0b1101 && sampleRate > 0xFFFF) {
+    throw new Error(`FLAC export does not support a sample rate of ${sampleRate} Hz.`);
+  }
+
+  // Stream marker and STREAMINFO metadata block (marked as the last block)
+  writer.write(0x664C6143, 32); // "fLaC"
+  writer.write(1, 1);
+  writer.write(0, 7);
+  writer.write(34, 24);
+  writer.write(Math.min(FLAC_BLOCK_SIZE, Math.max(16, totalSamples)), 16);
+  writer.write(FLAC_BLOCK_SIZE, 16);
+  writer.write(0, 24); // Minimum frame size unknown
+  writer.write(0, 24); // Maximum frame size unknown
+  writer.write(sampleRate, 20);
+  writer.write(channels.length - 1, 3);
+  writer.write(BITS_PER_SAMPLE - 1, 5);
+  writer.write(totalSamples, 36);
+  for (let i = 0; i < 16; i++) {
+    writer.write(0, 8); // MD5 not computed
+  }
+
+  for (let start = 0, frameNumber = 0; start < totalSamples; start += FLAC_BLOCK_SIZE, frameNumber++) {
+    const blockSize = Math.min(FLAC_BLOCK_SIZE, totalSamples - start);
+    const frameStart = writer.length;
+
+    writer.write(0b11111111111110, 14); // Sync code
+    writer.write(0, 1); // Reserved
+    writer.write(0, 1); // Fixed block size stream
+    writer.write(0b0111, 4); // Block size stored as 16-bit value after the header
+    writer.write(sampleRateCode, 4);
+    writer.write(channels.length - 1, 4); // Independent channels
+    writer.write(0b100, 3); // 16 bits per sample
+    writer.write(0, 1); // Reserved
+    writeUtf8Number(writer, frameNumber);
+    writer.write(blockSize - 1, 16);
+    if (sampleRateCode === 0b1100) {
+      writer.write(sampleRate / 1000, 8);
+    } else if (sampleRateCode === 0b1101) {
+      writer.write(sampleRate, 16);
+    }
+    writer.write(crc8(writer.slice(frameStart)), 8);
+
+    for (const samples of quantized) {
+      writeSubframe(writer, samples.subarray(start, start + blockSize));
+    }
+
+    writer.alignToByte();
+    writer.write(crc16(writer.slice(frameStart)), 16);
+  }
+
+  return writer.toUint8Array();
+}
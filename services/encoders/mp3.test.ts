@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { encodeMP3 } from './mp3';
+
+// Layer III bitrates (kbps) and sample rates by MPEG version, indexed as in the frame header
+const BITRATES = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const SAMPLE_RATES = { mpeg1: [44100, 48000, 32000], mpeg2: [22050, 24000, 16000] };
+
+interface FrameHeader {
+  version: 'mpeg1' | 'mpeg2';
+  layer: number;
+  kbps: number;
+  sampleRate: number;
+  mono: boolean;
+  length: number; // Bytes, header included
+}
+
+function parseFrames(bytes: Uint8Array): FrameHeader[] {
+  const frames: FrameHeader[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    expect(bytes[offset], `frame sync at byte ${offset}`).toBe(0xFF);
+    expect(bytes[offset + 1] & 0xE0, `frame sync at byte ${offset}`).toBe(0xE0);
+    const version = ((bytes[offset + 1] >> 3) & 0x3) === 3 ? 'mpeg1' : 'mpeg2';
+    const layer = 4 - ((bytes[offset + 1] >> 1) & 0x3);
+    const kbps = BITRATES[version][bytes[offset + 2] >> 4];
+    const sampleRate = SAMPLE_RATES[version][(bytes[offset + 2] >> 2) & 0x3];
+    const padding = (bytes[offset + 2] >> 1) & 0x1;
+    const mono = bytes[offset + 3] >> 6 === 3;
+    const length = Math.floor(((version === 'mpeg1' ? 144 : 72) * kbps * 1000) / sampleRate) + padding;
+    frames.push({ version, layer, kbps, sampleRate, mono, length });
+    offset += length;
+  }
+  expect(offset).toBe(bytes.length);
+  return frames;
+}
+
+const tone = (length: number, sampleRate: number) =>
+  Float32Array.from({ length }, (_, i) => 0.5 * Math.sin(2 * Math.PI * 440 * i / sampleRate));
+
+describe('encodeMP3', () => {
+  it('writes back-to-back Layer III frames at the requested bitrate for mono', () => {
+    const frames = parseFrames(encodeMP3([tone(24000, 24000)], 24000, 64));
+
+    expect(frames.length).toBeGreaterThan(0);
+    for (const frame of frames) {
+      expect(frame).toMatchObject({ version: 'mpeg2', layer: 3, kbps: 64, sampleRate: 24000, mono: true });
+    }
+    // MPEG-2 Layer III frames hold 576 samples; the encoder adds padding, never drops audio
+    expect(frames.length * 576).toBeGreaterThanOrEqual(24000);
+  });
+
+  it('encodes stereo at 44.1 kHz as MPEG-1 frames', () => {
+    const left = tone(44100, 44100);
+    const frames = parseFrames(encodeMP3([left, left.map((sample) => -sample)], 44100, 128));
+
+    for (const frame of frames) {
+      expect(frame).toMatchObject({ version: 'mpeg1', layer: 3, kbps: 128, sampleRate: 44100, mono: false });
+    }
+    expect(frames.length * 1152).toBeGreaterThanOrEqual(44100);
+  });
+
+  it('rejects more than two channels', () => {
+    const channel = new Float32Array(10);
+    expect(() => encodeMP3([channel, channel, channel], 24000, 64)).toThrow('1 or 2 channels, got 3');
+  });
+});
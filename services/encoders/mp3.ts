@@ -0,0 +1,33 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { floatToInt16 } from './wav';
+import { concatBytes } from '../../constants';
+
+// LAME consumes input in multiples of the MPEG frame size.
+const MP3_BLOCK_SIZE = 1152;
+
+/**
+ * Encodes mono or stereo float samples as a constant-bitrate MP3 stream.
+ */
+export function encodeMP3(channels: Float32Array[], sampleRate: number, kbps: number): Uint8Array {
+  if (channels.length < 1 || channels.length > 2) {
+    throw new Error(`MP3 export supports 1 or 2 channels, got ${channels.length}.`);
+  }
+
+  const encoder = new Mp3Encoder(channels.length, sampleRate, kbps);
+  const left = floatToInt16(channels[0]);
+  const right = channels.length === 2 ? floatToInt16(channels[1]) : undefined;
+  const parts: Uint8Array[] = [];
+
+  for (let i = 0; i < left.length; i += MP3_BLOCK_SIZE) {
+    const leftBlock = left.subarray(i, i + MP3_BLOCK_SIZE);
+    const encoded = right
+      ? encoder.encodeBuffer(leftBlock, right.subarray(i, i + MP3_BLOCK_SIZE))
+      : encoder.encodeBuffer(leftBlock);
+    if (encoded.length > 0) {
+      parts.push(new Uint8Array(encoded));
+    }
+  }
+  parts.push(new Uint8Array(encoder.flush()));
+
+  return concatBytes(parts);
+}
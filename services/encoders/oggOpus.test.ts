@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { encodeOggOpus, muxOggOpus, opusPacketSampleCount } from './oggOpus';
+
+// Bit-by-bit CRC-32 as the Ogg spec defines it: polynomial 0x04C11DB7, no reflection, zero initial value
+function referenceCrc(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    for (let bit = 7; bit >= 0; bit--) {
+      const top = ((crc >>> 31) ^ (byte >> bit)) & 1;
+      crc = ((crc << 1) ^ (top ? 0x04C11DB7 : 0)) >>> 0;
+    }
+  }
+  return crc;
+}
+
+interface OggPage {
+  flags: number;
+  granule: number;
+  serial: number;
+  sequence: number;
+  crc: number;
+  computedCrc: number;
+  packets: Uint8Array[]; // Packets that end on this page
+}
+
+function readPages(bytes: Uint8Array): OggPage[] {
+  const pages: OggPage[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset + offset);
+    expect(String.fromCharCode(...bytes.subarray(offset, offset + 4))).toBe('OggS');
+    const segments = bytes[offset + 26];
+    const lacing = bytes.subarray(offset + 27, offset + 27 + segments);
+    const bodyLength = lacing.reduce((sum, value) => sum + value, 0);
+    const end = offset + 27 + segments + bodyLength;
+
+    const page = bytes.slice(offset, end);
+    page.fill(0, 22, 26);
+    const packets: Uint8Array[] = [];
+    let start = offset + 27 + segments;
+    let length = 0;
+    lacing.forEach((value) => {
+      length += value;
+      if (value < 255) {
+        packets.push(bytes.slice(start, start + length));
+        start += length;
+        length = 0;
+      }
+    });
+
+    pages.push({
+      flags: view.getUint8(5),
+      granule: view.getUint32(6, true) + view.getUint32(10, true) * 2 ** 32,
+      serial: view.getUint32(14, true),
+      sequence: view.getUint32(18, true),
+      crc: view.getUint32(22, true),
+      computedCrc: referenceCrc(page),
+      packets,
+    });
+    offset = end;
+  }
+  return pages;
+}
+
+// TOC byte for a single 20 ms CELT frame (config 31, code 0)
+const packet = (length: number) => {
+  const bytes = new Uint8Array(length).fill(0xAB);
+  bytes[0] = 31 << 3;
+  return bytes;
+};
+
+describe('opusPacketSampleCount', () => {
+  it('reads the frame duration and count from the TOC byte', () => {
+    expect(opusPacketSampleCount(new Uint8Array([31 << 3]))).toBe(960); // 20 ms
+    expect(opusPacketSampleCount(new Uint8Array([(3 << 3) | 1]))).toBe(2 * 2880); // Two 60 ms SILK frames
+    expect(opusPacketSampleCount(new Uint8Array([(16 << 3) | 3, 4]))).toBe(4 * 120); // Four 2.5 ms frames
+    expect(opusPacketSampleCount(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('muxOggOpus', () => {
+  it('checks against the reference CRC', () => {
+    expect(referenceCrc(new TextEncoder().encode('123456789'))).toBe(0x89A1897F);
+  });
+
+  it('writes header pages and data pages with valid CRCs', () => {
+    const pages = readPages(muxOggOpus([packet(100), packet(80)], 2, 24000, 1234));
+
+    expect(pages).toHaveLength(3);
+    pages.forEach((page, index) => {
+      expect(page.crc).toBe(page.computedCrc);
+      expect(page.serial).toBe(1234);
+      expect(page.sequence).toBe(index);
+    });
+
+    const head = new DataView(pages[0].packets[0].buffer);
+    expect(String.fromCharCode(...pages[0].packets[0].subarray(0, 8))).toBe('OpusHead');
+    expect(head.getUint8(9)).toBe(2);
+    expect(head.getUint16(10, true)).toBe(312);
+    expect(head.getUint32(12, true)).toBe(24000);
+    expect(pages[0].flags).toBe(0x02);
+    expect(String.fromCharCode(...pages[1].packets[0].subarray(0, 8))).toBe('OpusTags');
+
+    expect(pages[2].flags).toBe(0x04);
+    expect(pages[2].granule).toBe(312 + 2 * 960);
+    expect(pages[2].packets).toEqual([packet(100), packet(80)]);
+  });
+
+  it('laces packets of 255 bytes or more and starts a new page when the segment table is full', () => {
+    const packets = [packet(255), ...Array.from({ length: 300 }, () => packet(10))];
+    const pages = readPages(muxOggOpus(packets, 1, 48000));
+
+    expect(pages).toHaveLength(4);
+    expect(pages.every((page) => page.crc === page.computedCrc)).toBe(true);
+    expect(pages[2].packets[0]).toEqual(packet(255));
+    expect(pages[2].packets).toHaveLength(254); // 2 segments for the long packet and 253 short ones
+    expect(pages[2].flags).toBe(0);
+    expect(pages[2].granule).toBe(312 + 254 * 960);
+    expect(pages[3].packets).toHaveLength(47);
+    expect(pages[3].flags).toBe(0x04);
+    expect(pages[3].granule).toBe(312 + 301 * 960);
+  });
+
+  it('ends the stream with an empty page when there are no packets', () => {
+    const pages = readPages(muxOggOpus([], 1, 48000));
+    expect(pages).toHaveLength(3);
+    expect(pages[2]).toMatchObject({ flags: 0x04, granule: 312, packets: [] });
+  });
+});
+
+describe('encodeOggOpus', () => {
+  it('muxes the packets of the injected encoder', async () => {
+    const encoder = vi.fn(async () => [packet(40)]);
+    const pages = readPages(await encodeOggOpus([new Float32Array(960)], 24000, 64000, encoder));
+
+    expect(encoder).toHaveBeenCalledWith([new Float32Array(960)], 64000);
+    expect(pages[2].packets).toEqual([packet(40)]);
+  });
+
+  it('rejects more than two channels', async () => {
+    const channels = [new Float32Array(1), new Float32Array(1), new Float32Array(1)];
+    await expect(encodeOggOpus(channels, 48000, 64000, vi.fn())).rejects.toThrow('1 or 2 channels');
+  });
+});
@@ -0,0 +1,232 @@
+import { concatBytes } from '../../constants';
+
+// Opus always runs at 48 kHz internally; Ogg granule positions count 48 kHz samples.
+export const OPUS_SAMPLE_RATE = 48000;
+// Samples the decoder discards at the start; libopus's default encoder lookahead.
+const OPUS_PRE_SKIP = 312;
+const MAX_SEGMENTS_PER_PAGE = 255;
+
+/**
+ * Encodes planar float samples at OPUS_SAMPLE_RATE into raw Opus packets.
+ * Packet encoding needs a real codec, so it is injected: the browser uses
+ * WebCodecs, tests can supply canned packets.
+ */
+export type OpusPacketEncoder = (channels: Float32Array[], bitrate: number) => Promise<Uint8Array[]>;
+
+/**
+ * Returns the number of 48 kHz samples in an Opus packet, read from its TOC byte
+ * (RFC 6716, section 3.1).
+ */
+export function opusPacketSampleCount(packet: Uint8Array): number {
+  if (packet.length === 0) {
+    return 0;
+  }
+  const config = packet[0] >> 3;
+  let frameMs: number;
+  if (config < 12) {
+    frameMs = [10, 20, 40, 60][config % 4];
+  } else if (config < 16) {
+    frameMs = [10, 20][config % 2];
+  } else {
+    frameMs = [2.5, 5, 10, 20][config % 4];
+  }
+
+  const code = packet[0] & 0x03;
+  const frameCount = code === 0 ? 1 : code === 3 ? (packet[1] ?? 0) & 0x3F : 2;
+  return (frameMs * OPUS_SAMPLE_RATE / 1000) * frameCount;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let j = 0; j < 8; j++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04C11DB7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(bytes: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xFF]) >>> 0;
+  }
+  return crc;
+}
+
+interface OggPageOptions {
+  serial: number;
+  sequence: number;
+  granule: number;
+  flags: number; // 0x02 = beginning of stream, 0x04 = end of stream
+}
+
+function buildOggPage(packets: Uint8Array[], options: OggPageOptions): Uint8Array {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+  }
+
+  const body = concatBytes(packets);
+  const page = new Uint8Array(27 + lacing.length + body.length);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4F, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(4, 0); // Version
+  view.setUint8(5, options.flags);
+  view.setUint32(6, options.granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(options.granule / 2 ** 32), true);
+  view.setUint32(14, options.serial, true);
+  view.setUint32(18, options.sequence, true);
+  view.setUint32(22, 0, true); // CRC placeholder
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+  page.set(body, 27 + lacing.length);
+
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+}
+
+function segmentCount(packet: Uint8Array): number {
+  return Math.floor(packet.length / 255) + 1;
+}
+
+function opusHead(channelCount: number, inputSampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(Array.from('OpusHead', (c) => c.charCodeAt(0)));
+  view.setUint8(8, 1); // Version
+  view.setUint8(9, channelCount);
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  view.setUint8(18, 0); // Channel mapping family 0 (mono/stereo)
+  return head;
+}
+
+function opusTags(vendor: string): Uint8Array {
+  const vendorBytes = new TextEncoder().encode(vendor);
+  const tags = new Uint8Array(8 + 4 + vendorBytes.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(Array.from('OpusTags', (c) => c.charCodeAt(0)));
+  view.setUint32(8, vendorBytes.length, true);
+  tags.set(vendorBytes, 12);
+  view.setUint32(12 + vendorBytes.length, 0, true); // No user comments
+  return tags;
+}
+
+/**
+ * Wraps raw Opus packets in an Ogg container (RFC 7845). `inputSampleRate` is
+ * informational only; playback is always at 48 kHz.
+ */
+export function muxOggOpus(packets: Uint8Array[], channelCount: number, inputSampleRate: number, serial = 0x50564F53): Uint8Array {
+  const pages: Uint8Array[] = [
+    buildOggPage([opusHead(channelCount, inputSampleRate)], { serial, sequence: 0, granule: 0, flags: 0x02 }),
+    buildOggPage([opusTags('Pujiverse Voice Studio')], { serial, sequence: 1, granule: 0, flags: 0 }),
+  ];
+
+  let sequence = 2;
+  let granule = OPUS_PRE_SKIP;
+  let pagePackets: Uint8Array[] = [];
+  let pageSegments = 0;
+
+  const flushPage = (isLast: boolean) => {
+    pages.push(buildOggPage(pagePackets, { serial, sequence: sequence++, granule, flags: isLast ? 0x04 : 0 }));
+    pagePackets = [];
+    pageSegments = 0;
+  };
+
+  packets.forEach((packet, index) => {
+    if (pageSegments + segmentCount(packet) > MAX_SEGMENTS_PER_PAGE) {
+      flushPage(false);
+    }
+    pagePackets.push(packet);
+    pageSegments += segmentCount(packet);
+    granule += opusPacketSampleCount(packet);
+    if (index === packets.length - 1) {
+      flushPage(true);
+    }
+  });
+
+  if (packets.length === 0) {
+    flushPage(true);
+  }
+
+  return concatBytes(pages);
+}
+
+/**
+ * Encodes planar float samples at OPUS_SAMPLE_RATE to an Ogg/Opus file using
+ * the given packet encoder.
+ */
+export async function encodeOggOpus(
+  channels: Float32Array[],
+  inputSampleRate: number,
+  bitrate: number,
+  packetEncoder: OpusPacketEncoder,
+): Promise<Uint8Array> {
+  if (channels.length < 1 || channels.length > 2) {
+    throw new Error(`Opus export supports 1 or 2 channels, got ${channels.length}.`);
+  }
+  const packets = await packetEncoder(channels, bitrate);
+  return muxOggOpus(packets, channels.length, inputSampleRate);
+}
+
+/**
+ * Opus packet encoder backed by the browser's WebCodecs AudioEncoder.
+ */
+export const webCodecsOpusEncoder: OpusPacketEncoder = async (channels, bitrate) => {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error('Ogg/Opus export needs WebCodecs, which this browser does not support.');
+  }
+
+  const packets: Uint8Array[] = [];
+  let encoderError: DOMException | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push(data);
+    },
+    error: (error) => {
+      encoderError = error;
+    },
+  });
+
+  encoder.configure({
+    codec: 'opus',
+    sampleRate: OPUS_SAMPLE_RATE,
+    numberOfChannels: channels.length,
+    bitrate,
+  });
+
+  const frameCount = channels[0].length;
+  const planar = new Float32Array(frameCount * channels.length);
+  channels.forEach((channel, index) => planar.set(channel, index * frameCount));
+
+  const audioData = new AudioData({
+    format: 'f32-planar',
+    sampleRate: OPUS_SAMPLE_RATE,
+    numberOfFrames: frameCount,
+    numberOfChannels: channels.length,
+    timestamp: 0,
+    data: planar,
+  });
+  encoder.encode(audioData);
+  audioData.close();
+
+  await encoder.flush();
+  encoder.close();
+
+  if (encoderError) {
+    throw encoderError;
+  }
+  return packets;
+};
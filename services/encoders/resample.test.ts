@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { resample } from './resample';
+
+const sine = (frequency: number, sampleRate: number, length: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin(2 * Math.PI * frequency * i / sampleRate));
+
+// Largest deviation from the expected signal, skipping the kernel's run-in at both ends
+function maxError(actual: Float32Array, expected: Float32Array, margin: number): number {
+  let error = 0;
+  for (let i = margin; i < actual.length - margin; i++) {
+    error = Math.max(error, Math.abs(actual[i] - expected[i]));
+  }
+  return error;
+}
+
+const peak = (samples: Float32Array, margin: number) =>
+  Math.max(...Array.from(samples.subarray(margin, samples.length - margin), Math.abs));
+
+describe('resample', () => {
+  it('scales the length by the rate ratio', () => {
+    expect(resample(new Float32Array(24000), 24000, 48000).length).toBe(48000);
+    expect(resample(new Float32Array(24000), 24000, 44100).length).toBe(44100);
+    expect(resample(new Float32Array(1001), 48000, 16000).length).toBe(334);
+  });
+
+  it('returns a copy when the rate does not change', () => {
+    const input = Float32Array.from([0.1, -0.2, 0.3]);
+    const output = resample(input, 24000, 24000);
+    expect(output).toEqual(input);
+    expect(output).not.toBe(input);
+  });
+
+  it('keeps the waveform of a tone when upsampling', () => {
+    const output = resample(sine(440, 24000, 2400), 24000, 44100);
+    expect(maxError(output, sine(440, 44100, output.length), 40)).toBeLessThan(0.01);
+  });
+
+  it('keeps the waveform of a tone when downsampling', () => {
+    const output = resample(sine(440, 48000, 4800), 48000, 16000);
+    expect(maxError(output, sine(440, 16000, output.length), 20)).toBeLessThan(0.01);
+  });
+
+  it('filters out a tone above the new Nyquist frequency when downsampling', () => {
+    const output = resample(sine(12000, 48000, 4800), 48000, 16000);
+    expect(peak(output, 20)).toBeLessThan(0.05);
+  });
+});
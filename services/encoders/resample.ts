@@ -0,0 +1,44 @@
+// Half-width of the Lanczos kernel in input samples. Larger values give a
+// sharper anti-aliasing filter at the cost of more work per output sample.
+const LANCZOS_TAPS = 8;
+
+function sinc(x: number): number {
+  if (x === 0) {
+    return 1;
+  }
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+/**
+ * Resamples a mono signal with a windowed-sinc (Lanczos) interpolator. When
+ * downsampling, the kernel is widened so it also acts as the low-pass filter.
+ */
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || input.length === 0) {
+    return input.slice();
+  }
+
+  const ratio = toRate / fromRate;
+  const outputLength = Math.round(input.length * ratio);
+  const output = new Float32Array(outputLength);
+  const scale = Math.min(1, ratio); // < 1 when downsampling
+  const radius = LANCZOS_TAPS / scale;
+
+  for (let i = 0; i < outputLength; i++) {
+    const center = i / ratio;
+    const first = Math.max(0, Math.ceil(center - radius));
+    const last = Math.min(input.length - 1, Math.floor(center + radius));
+    let sum = 0;
+    let weightSum = 0;
+    for (let j = first; j <= last; j++) {
+      const x = (center - j) * scale;
+      const weight = sinc(x) * sinc(x / LANCZOS_TAPS);
+      sum += input[j] * weight;
+      weightSum += weight;
+    }
+    output[i] = weightSum !== 0 ? sum / weightSum : 0;
+  }
+
+  return output;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { encodeWAVBytes, floatToInt16, interleave, pcm16ToFloat32, pcm16ToWAV } from './wav';
+
+const ascii = (bytes: Uint8Array, start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length));
+
+describe('encodeWAVBytes', () => {
+  it('writes a 44-byte PCM header for 16-bit stereo', () => {
+    const bytes = encodeWAVBytes([new Float32Array([0, 0.5]), new Float32Array([-0.5, 1])], 24000);
+    const view = new DataView(bytes.buffer);
+
+    expect(bytes.length).toBe(44 + 8);
+    expect(ascii(bytes, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 8);
+    expect(ascii(bytes, 8, 8)).toBe('WAVEfmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1); // Integer PCM
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(24000 * 2 * 2);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(bytes, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(8);
+    expect([0, 1, 2, 3].map((i) => view.getInt16(44 + i * 2, true))).toEqual([0, -16384, 16383, 32767]);
+  });
+
+  it('packs 24-bit samples little-endian', () => {
+    const bytes = encodeWAVBytes([new Float32Array([1, -1])], 48000, 24);
+    const view = new DataView(bytes.buffer);
+
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(32, true)).toBe(3);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(Array.from(bytes.subarray(44))).toEqual([0xFF, 0xFF, 0x7F, 0x00, 0x00, 0x80]);
+  });
+
+  it('stores 32-bit output as IEEE float', () => {
+    const bytes = encodeWAVBytes([new Float32Array([0.25, -2])], 16000, 32);
+    const view = new DataView(bytes.buffer);
+
+    expect(view.getUint16(20, true)).toBe(3);
+    expect(view.getUint32(40, true)).toBe(8);
+    expect(view.getFloat32(44, true)).toBe(0.25);
+    expect(view.getFloat32(48, true)).toBe(-2); // Float output is not clipped
+  });
+});
+
+describe('sample conversion', () => {
+  it('interleaves channels frame by frame', () => {
+    expect(Array.from(interleave([new Float32Array([1, 2]), new Float32Array([3, 4])]))).toEqual([1, 3, 2, 4]);
+  });
+
+  it('clips to the 16-bit range', () => {
+    expect(Array.from(floatToInt16(new Float32Array([2, -2, 0])))).toEqual([32767, -32768, 0]);
+  });
+
+  it('reads 16-bit PCM back as floats and wraps it in a WAV file', () => {
+    const pcm = new Uint8Array(new Int16Array([0, 16384, -32768]).buffer);
+    expect(Array.from(pcm16ToFloat32(pcm))).toEqual([0, 0.5, -1]);
+
+    const wav = pcm16ToWAV(pcm, 24000);
+    expect(wav.length).toBe(44 + 6);
+    expect(Array.from(new Int16Array(wav.slice(44).buffer))).toEqual([0, 16383, -32768]);
+  });
+});
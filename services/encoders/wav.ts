@@ -0,0 +1,121 @@
+import { WavBitDepth } from '../../types';
+
+/**
+ * Interleaves per-channel sample arrays into a single array (L R L R ...).
+ */
+export function interleave(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) {
+    return channels[0];
+  }
+  const frameCount = channels[0].length;
+  const interleaved = new Float32Array(frameCount * channels.length);
+  for (let i = 0; i < frameCount; i++) {
+    for (let channel = 0; channel < channels.length; channel++) {
+      interleaved[i * channels.length + channel] = channels[channel][i];
+    }
+  }
+  return interleaved;
+}
+
+/**
+ * Encodes planar float samples as a RIFF/WAVE file. 16 and 24-bit output is
+ * integer PCM; 32-bit output is IEEE float.
+ */
+export function encodeWAVBytes(channels: Float32Array[], sampleRate: number, bitDepth: WavBitDepth = 16): Uint8Array {
+  const numChannels = channels.length;
+  const bytesPerSample = bitDepth / 8;
+  const interleaved = interleave(channels);
+
+  const dataLength = interleaved.length * bytesPerSample;
+  const bytes = new Uint8Array(44 + dataLength);
+  const view = new DataView(bytes.buffer);
+
+  let offset = 0;
+
+  // RIFF chunk descriptor
+  writeString(view, offset, 'RIFF'); offset += 4;
+  view.setUint32(offset, 36 + dataLength, true); offset += 4;
+  writeString(view, offset, 'WAVE'); offset += 4;
+
+  // FMT sub-chunk
+  writeString(view, offset, 'fmt '); offset += 4;
+  view.setUint32(offset, 16, true); offset += 4; // Subchunk1Size for PCM
+  view.setUint16(offset, bitDepth === 32 ? 3 : 1, true); offset += 2; // AudioFormat (PCM = 1, IEEE float = 3)
+  view.setUint16(offset, numChannels, true); offset += 2;
+  view.setUint32(offset, sampleRate, true); offset += 4;
+  view.setUint32(offset, sampleRate * numChannels * bytesPerSample, true); offset += 4; // ByteRate
+  view.setUint16(offset, numChannels * bytesPerSample, true); offset += 2; // BlockAlign
+  view.setUint16(offset, bitDepth, true); offset += 2;
+
+  // Data sub-chunk
+  writeString(view, offset, 'data'); offset += 4;
+  view.setUint32(offset, dataLength, true); offset += 4;
+
+  // Write the actual audio data
+  if (bitDepth === 16) {
+    floatTo16BitPCM(view, offset, interleaved);
+  } else if (bitDepth === 24) {
+    floatTo24BitPCM(view, offset, interleaved);
+  } else {
+    for (let i = 0; i < interleaved.length; i++, offset += 4) {
+      view.setFloat32(offset, interleaved[i], true);
+    }
+  }
+
+  return bytes;
+}
+
+function writeString(view: DataView, offset: number, s: string) {
+  for (let i = 0; i < s.length; i++) {
+    view.setUint8(offset + i, s.charCodeAt(i));
+  }
+}
+
+export function floatTo16BitPCM(view: DataView, offset: number, input: Float32Array) {
+  for (let i = 0; i < input.length; i++, offset += 2) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+  }
+}
+
+function floatTo24BitPCM(view: DataView, offset: number, input: Float32Array) {
+  for (let i = 0; i < input.length; i++, offset += 3) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    const value = Math.round(s < 0 ? s * 0x800000 : s * 0x7FFFFF);
+    view.setUint8(offset, value & 0xFF);
+    view.setUint8(offset + 1, (value >> 8) & 0xFF);
+    view.setUint8(offset + 2, (value >> 16) & 0xFF);
+  }
+}
+
+/**
+ * Quantizes float samples in [-1, 1] to signed 16-bit integers.
+ */
+export function floatToInt16(input: Float32Array): Int16Array {
+  const output = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+  return output;
+}
+
+/**
+ * Reads little-endian 16-bit mono PCM (the TTS output format) as float samples.
+ */
+export function pcm16ToFloat32(data: Uint8Array): Float32Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const output = new Float32Array(Math.floor(data.byteLength / 2));
+  for (let i = 0; i < output.length; i++) {
+    output[i] = view.getInt16(i * 2, true) / 32768;
+  }
+  return output;
+}
+
+/**
+ * Wraps 16-bit mono PCM (the TTS output format) in a WAV file. Needs neither
+ * Blob nor AudioContext, so it also runs in Node.
+ */
+export function pcm16ToWAV(pcm: Uint8Array, sampleRate: number, bitDepth: WavBitDepth = 16): Uint8Array {
+  return encodeWAVBytes([pcm16ToFloat32(pcm)], sampleRate, bitDepth);
+}
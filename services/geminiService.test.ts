@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Modality } from '@google/genai';
+import { buildStyledPrompt, generateSpeech, generateDialogueSpeech } from './geminiService';
+import { AuthError, EmptyAudioError, SafetyBlockedError, ServerError } from './speechErrors';
+import { GEMINI_TTS_MODEL, VOICE_OPTIONS } from '../constants';
+import { GenerateSpeechParams } from '../types';
+
+const generateContent = vi.fn();
+
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@google/genai')>(),
+  GoogleGenAI: vi.fn(() => ({ models: { generateContent } })),
+}));
+
+const audioResponse = (data: string) => ({ candidates: [{ content: { parts: [{ inlineData: { data } }] } }] });
+
+const params = (overrides: Partial<GenerateSpeechParams> = {}): GenerateSpeechParams => ({
+  script: 'Hello there.',
+  voiceOption: VOICE_OPTIONS[0],
+  emotion: 'neutral',
+  language: 'english',
+  ...overrides,
+});
+
+describe('buildStyledPrompt', () => {
+  it('returns the script unchanged when nothing adds a directive', () => {
+    expect(buildStyledPrompt('Hello.', 'neutral', 'english')).toBe('Hello.');
+  });
+
+  it('joins language, emotion, rate and style directives in that order', () => {
+    expect(buildStyledPrompt('Hello.', 'happy', 'telugu', true, 'like a radio host')).toBe(
+      'Say in Telugu with natural Telugu pronunciation, in a happy, warm tone, slowly and deliberately, like a radio host: Hello.',
+    );
+  });
+
+  it('ignores a blank style prompt', () => {
+    expect(buildStyledPrompt('Hello.', 'sad', 'english', false, '   ')).toBe('Say in a sad, subdued tone: Hello.');
+  });
+});
+
+describe('generateSpeech', () => {
+  beforeEach(() => {
+    generateContent.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {}); // Retry notices
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends the styled prompt with the voice config and returns the audio', async () => {
+    generateContent.mockResolvedValue(audioResponse('QUJD'));
+
+    await expect(generateSpeech(params({ emotion: 'calm' }))).resolves.toBe('QUJD');
+
+    const request = generateContent.mock.calls[0][0];
+    expect(request.model).toBe(GEMINI_TTS_MODEL);
+    expect(request.contents[0].parts[0].text).toBe(buildStyledPrompt('Hello there.', 'calm', 'english'));
+    expect(request.config.responseModalities).toEqual([Modality.AUDIO]);
+    expect(request.config.speechConfig.voiceConfig.prebuiltVoiceConfig.voiceName).toBe(VOICE_OPTIONS[0].voiceName);
+  });
+
+  it('adds the style prompt of a custom voice', async () => {
+    generateContent.mockResolvedValue(audioResponse('QUJD'));
+
+    await generateSpeech(params({ voiceOption: { ...VOICE_OPTIONS[0], stylePrompt: 'whispering' } }));
+
+    expect(generateContent.mock.calls[0][0].contents[0].parts[0].text).toBe('Say whispering: Hello there.');
+  });
+
+  it('reports a blocked prompt as SafetyBlockedError without retrying', async () => {
+    generateContent.mockResolvedValue({ promptFeedback: { blockReason: 'SAFETY', blockReasonMessage: 'Blocked.' } });
+
+    await expect(generateSpeech(params())).rejects.toBeInstanceOf(SafetyBlockedError);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry an invalid key', async () => {
+    generateContent.mockRejectedValue(Object.assign(new Error('API key not valid'), { status: 400 }));
+
+    await expect(generateSpeech(params())).rejects.toBeInstanceOf(AuthError);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a response without audio and then gives up', async () => {
+    vi.useFakeTimers();
+    generateContent.mockResolvedValue({ candidates: [{ content: { parts: [] } }] });
+
+    const result = expect(generateSpeech(params())).rejects.toBeInstanceOf(EmptyAudioError);
+    await vi.runAllTimersAsync();
+    await result;
+    expect(generateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it('makes a single request when the caller retries itself', async () => {
+    generateContent.mockRejectedValue(Object.assign(new Error('Internal error'), { status: 503 }));
+
+    await expect(generateSpeech(params({ maxAttempts: 1 }))).rejects.toBeInstanceOf(ServerError);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('succeeds when a retry returns audio', async () => {
+    vi.useFakeTimers();
+    generateContent
+      .mockRejectedValueOnce(Object.assign(new Error('Internal error'), { status: 503 }))
+      .mockResolvedValueOnce(audioResponse('QUJD'));
+
+    const result = generateSpeech(params());
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('QUJD');
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports every attempt with the characters of the styled prompt', async () => {
+    vi.useFakeTimers();
+    generateContent
+      .mockRejectedValueOnce(Object.assign(new Error('Internal error'), { status: 503 }))
+      .mockResolvedValueOnce(audioResponse('QUJD'));
+    const onAttempt = vi.fn();
+
+    const result = generateSpeech(params({ emotion: 'happy', onAttempt }));
+    await vi.runAllTimersAsync();
+    await result;
+
+    const characters = buildStyledPrompt('Hello there.', 'happy', 'english').length;
+    expect(onAttempt.mock.calls.map(([attempt]) => [attempt.characters, attempt.error?.constructor])).toEqual([
+      [characters, ServerError],
+      [characters, undefined],
+    ]);
+  });
+});
+
+describe('generateDialogueSpeech', () => {
+  beforeEach(() => {
+    generateContent.mockReset();
+    generateContent.mockResolvedValue(audioResponse('QUJD'));
+  });
+
+  const speakerVoices = { Ravi: VOICE_OPTIONS[0], Priya: VOICE_OPTIONS[1], Mina: VOICE_OPTIONS[2] };
+
+  it('uses the multi-speaker config for two speakers', async () => {
+    const lines = [
+      { speaker: 'Ravi', text: 'Hello.', lineNumber: 1 },
+      { speaker: 'Priya', text: 'Hi.', lineNumber: 2 },
+    ];
+
+    await expect(generateDialogueSpeech({ lines, speakerVoices, emotion: 'neutral', language: 'english' })).resolves.toEqual(['QUJD']);
+
+    const { speakerVoiceConfigs } = generateContent.mock.calls[0][0].config.speechConfig.multiSpeakerVoiceConfig;
+    expect(speakerVoiceConfigs.map((config: { speaker: string }) => config.speaker)).toEqual(['Ravi', 'Priya']);
+  });
+
+  it('does not count a speaker whose lines are blank', async () => {
+    const lines = [
+      { speaker: 'Ravi', text: 'Hello.', lineNumber: 1 },
+      { speaker: 'Mina', text: '  ', lineNumber: 2 },
+      { speaker: 'Priya', text: 'Hi.', lineNumber: 3 },
+    ];
+
+    await generateDialogueSpeech({ lines, speakerVoices, emotion: 'neutral', language: 'english' });
+
+    expect(generateContent).toHaveBeenCalledTimes(1);
+    expect(generateContent.mock.calls[0][0].contents[0].parts[0].text).not.toContain('Mina');
+  });
+});
@@ -1,66 +1,230 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { GEMINI_TTS_MODEL } from '../constants';
-import { VoiceOption, Emotion, Language } from '../types';
-
-interface GenerateSpeechParams {
-  script: string;
-  voiceOption: VoiceOption;
-  emotion: Emotion;
-  language: Language;
+import { GoogleGenAI, Modality, SpeechConfig, GenerateContentResponse } from "@google/genai";
+import {
+  GEMINI_TTS_MODEL,
+  GEMINI_TEXT_MODEL,
+  LANGUAGE_OPTIONS,
+  EMOTION_STYLE_DIRECTIVES,
+  LANGUAGE_STYLE_DIRECTIVES,
+  SLOW_RATE_DIRECTIVE,
+  SPEECH_RETRY_ATTEMPTS,
+  SPEECH_RETRY_BASE_DELAY_MS,
+  SPEECH_RETRY_MAX_DELAY_MS,
+} from '../constants';
+import { Emotion, Language, DialogueLine, GenerateSpeechParams, GenerateDialogueSpeechParams, TranslateScriptParams } from '../types';
+import { formatDialogueTranscript, spokenSpeakers } from './dialogue';
+import { generateDialogueLineByLine } from './providers/ttsProvider';
+import { withRetry } from './retry';
+import { SpeechError, CancelledError, EmptyAudioError, SafetyBlockedError, isSafetyReason, toSpeechError } from './speechErrors';
+
+/**
+ * Prefixes the script with a natural-language delivery instruction built from the
+ * configured emotion, language and rate directives and a preset's style prompt.
+ * Returns the script unchanged when none of them has a directive.
+ */
+export function buildStyledPrompt(script: string, emotion: Emotion, language: Language, slow = false, stylePrompt = ''): string {
+  const directives = [LANGUAGE_STYLE_DIRECTIVES[language], EMOTION_STYLE_DIRECTIVES[emotion], slow ? SLOW_RATE_DIRECTIVE : '', stylePrompt]
+    .filter((directive) => directive && directive.trim().length > 0);
+
+  if (directives.length === 0) {
+    return script;
+  }
+  return `Say ${directives.join(', ')}: ${script}`;
 }
 
 export async function generateSpeech(params: GenerateSpeechParams): Promise<string> {
-  // CRITICAL: Create GoogleGenAI instance right before API call
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const { script, voiceOption, emotion, language, slow } = params;
+
+  // Using `systemInstruction` with the TTS model leads to internal API errors, so the
+  // emotion and language are expressed as a style prefix in the prompt content instead.
+  const prompt = buildStyledPrompt(script, emotion, language, slow, voiceOption.stylePrompt);
+
+  return requestSpeech(prompt, {
+    voiceConfig: {
+      prebuiltVoiceConfig: { voiceName: voiceOption.voiceName },
+    },
+  }, params);
+}
+
+/**
+ * Builds the prompt for a two-speaker conversation. The speaker names in the
+ * transcript must match the names in the multi-speaker voice config.
+ */
+export function buildDialoguePrompt(lines: DialogueLine[], speakers: string[], emotion: Emotion, language: Language): string {
+  const transcript = formatDialogueTranscript(lines);
+  const styled = buildStyledPrompt(transcript, emotion, language);
+  if (styled !== transcript) {
+    return styled.replace(/^Say /, `Read the following conversation between ${speakers.join(' and ')} `);
+  }
+  return `TTS the following conversation between ${speakers.join(' and ')}:\n${transcript}`;
+}
+
+/**
+ * Generates speech for a dialogue. Scripts with exactly two speakers use the API's
+ * multi-speaker config and return a single clip; any other number of speakers is
+ * generated line by line. Blank lines are skipped, so only speakers with text to
+ * speak count. The returned clips are in script order and are meant to be joined
+ * into one track by the caller. Style prompts of custom voices only apply when
+ * lines are generated one by one.
+ */
+export async function generateDialogueSpeech(params: GenerateDialogueSpeechParams): Promise<string[]> {
+  const { speakerVoices, emotion, language } = params;
+  const lines = params.lines.filter((line) => line.text.trim());
+  const speakers = spokenSpeakers(lines);
 
-  const { script, voiceOption, emotion, language } = params;
-
-  // The gemini-2.5-flash-preview-tts model primarily relies on the input script
-  // and the voiceName for language and emotional nuance.
-  // Using `systemInstruction` for these parameters for a TTS model can lead to internal API errors.
-  // We remove it to ensure the API call succeeds. The model will generate speech
-  // for the provided script in the language it detects, using the characteristics
-  // of the selected voice.
-  // let systemInstruction = `You are generating speech. The user wants the audio in ${language}.`;
-  // if (emotion && emotion !== 'neutral') {
-  //   systemInstruction += ` Deliver the speech with a ${emotion} tone.`;
-  // } else {
-  //   systemInstruction += ` Deliver the speech in a natural tone.`;
-  // }
+  if (speakers.length === 2) {
+    const prompt = buildDialoguePrompt(lines, speakers, emotion, language);
+    const audio = await requestSpeech(prompt, {
+      multiSpeakerVoiceConfig: {
+        speakerVoiceConfigs: speakers.map((speaker) => ({
+          speaker,
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: speakerVoices[speaker].voiceName },
+          },
+        })),
+      },
+    }, params);
+    return [audio];
+  }
+
+  return generateDialogueLineByLine(generateSpeech, { ...params, lines });
+}
+
+/**
+ * Throws SafetyBlockedError when the prompt or the generated content was filtered.
+ */
+function assertNotBlocked(response: GenerateContentResponse) {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(response.promptFeedback?.blockReasonMessage || 'The script was blocked by the safety filters.', blockReason);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (isSafetyReason(finishReason)) {
+    throw new SafetyBlockedError('The generated audio was blocked by the safety filters.', finishReason);
+  }
+}
+
+/**
+ * Streaming variant of `generateSpeech`: yields base64 PCM chunks as the API
+ * produces them so playback can begin before the whole clip has arrived.
+ * Streams are not retried, since part of the audio may already be playing.
+ */
+export async function* streamSpeech(params: GenerateSpeechParams): AsyncGenerator<string> {
+  const { script, voiceOption, emotion, language, slow, signal } = params;
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const prompt = buildStyledPrompt(script, emotion, language, slow, voiceOption.stylePrompt);
+  const started = performance.now();
+  let received = false;
+  let failure: SpeechError | undefined;
 
   try {
-    const response = await ai.models.generateContent({
+    const stream = await ai.models.generateContentStream({
       model: GEMINI_TTS_MODEL,
-      contents: [{ parts: [{ text: script }] }],
+      contents: [{ parts: [{ text: prompt }] }],
       config: {
-        // systemInstruction: systemInstruction, // Removed as it causes INTERNAL errors for TTS model
         responseModalities: [Modality.AUDIO],
         speechConfig: {
           voiceConfig: {
             prebuiltVoiceConfig: { voiceName: voiceOption.voiceName },
           },
         },
+        abortSignal: signal,
       },
     });
+    for await (const response of stream) {
+      assertNotBlocked(response);
+      for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+          received = true;
+          yield part.inlineData.data;
+        }
+      }
+    }
+    if (!received) {
+      throw new EmptyAudioError("No audio data received from the API.");
+    }
+  } catch (error) {
+    failure = signal?.aborted ? new CancelledError(undefined, { cause: error }) : toSpeechError(error);
+    throw failure;
+  } finally {
+    params.onAttempt?.({ characters: prompt.length, latencyMs: Math.round(performance.now() - started), error: failure });
+  }
+}
 
+async function requestSpeech(
+  prompt: string,
+  speechConfig: SpeechConfig,
+  { signal, maxAttempts = SPEECH_RETRY_ATTEMPTS, onAttempt }: Pick<GenerateSpeechParams, 'signal' | 'maxAttempts' | 'onAttempt'>,
+): Promise<string> {
+  return withRetry(async () => {
+    // CRITICAL: Create GoogleGenAI instance right before API call
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    const response = await ai.models.generateContent({
+      model: GEMINI_TTS_MODEL,
+      contents: [{ parts: [{ text: prompt }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig,
+        abortSignal: signal,
+      },
+    });
+    assertNotBlocked(response);
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
 
     if (!base64Audio) {
-      throw new Error("No audio data received from the API.");
+      throw new EmptyAudioError("No audio data received from the API.");
     }
 
     return base64Audio;
-  } catch (error: any) {
-    if (error instanceof Error && error.message.includes("Requested entity was not found.")) {
-      console.error("API Key error: Requested entity was not found. Prompting user to select key.");
-      // Assume window.aistudio.openSelectKey() is available in this environment for Veo models.
-      // Although not strictly necessary for TTS, it's good practice to handle.
-      if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
-        await window.aistudio.openSelectKey();
-        throw new Error("API key might be invalid or not selected. Please try again after selecting a key.");
-      }
+  }, {
+    maxAttempts,
+    baseDelayMs: SPEECH_RETRY_BASE_DELAY_MS,
+    maxDelayMs: SPEECH_RETRY_MAX_DELAY_MS,
+    signal,
+    onRetry: (error, attempt, delayMs) =>
+      console.warn(`Speech request failed (${error.name}), retrying in ${delayMs} ms (attempt ${attempt + 1} of ${maxAttempts}).`),
+    onAttempt: (latencyMs, error) => onAttempt?.({ characters: prompt.length, latencyMs, error }),
+  });
+}
+
+/**
+ * Instructs the text model to translate a voice-over script while leaving the
+ * app's markup and "Speaker:" labels untouched.
+ */
+export function buildTranslationPrompt(script: string, language: Language): string {
+  const label = LANGUAGE_OPTIONS.find((option) => option.id === language)?.label ?? language;
+  return [
+    `Translate the following voice-over script into ${label}, written in its native script.`,
+    'Keep the meaning, tone and line breaks. Leave these unchanged: text in square brackets such as [pause 500ms],',
+    'tags such as <slow> and </slow>, asterisks and curly braces used for markup, backslash escapes,',
+    'and speaker names followed by a colon at the start of a line.',
+    'Reply with the translated script only.',
+    '',
+    script,
+  ].join('\n');
+}
+
+export async function translateScript(params: TranslateScriptParams): Promise<string> {
+  const { script, language, signal, onAttempt } = params;
+  const prompt = buildTranslationPrompt(script, language);
+  return withRetry(async () => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: GEMINI_TEXT_MODEL,
+      contents: [{ parts: [{ text: prompt }] }],
+      config: { abortSignal: signal },
+    });
+    assertNotBlocked(response);
+    const text = response.text?.trim();
+    if (!text) {
+      throw new SpeechError('The translation came back empty.');
     }
-    console.error("Error generating speech:", error);
-    throw new Error(`Failed to generate speech: ${error.message || 'Unknown error'}`);
-  }
-}
\ No newline at end of file
+    return text;
+  }, {
+    maxAttempts: SPEECH_RETRY_ATTEMPTS,
+    baseDelayMs: SPEECH_RETRY_BASE_DELAY_MS,
+    maxDelayMs: SPEECH_RETRY_MAX_DELAY_MS,
+    signal,
+    onAttempt: (latencyMs, error) => onAttempt?.({ characters: prompt.length, latencyMs, error }),
+  });
+}
@@ -0,0 +1,22 @@
+import { HIGH_CONTRAST_STORAGE_KEY } from '../constants';
+
+/**
+ * Whether the high-contrast theme is on: the user's saved choice, otherwise
+ * the operating system's "increase contrast" preference.
+ */
+export function loadHighContrast(storage: Storage = localStorage): boolean {
+  const saved = storage.getItem(HIGH_CONTRAST_STORAGE_KEY);
+  if (saved !== null) {
+    return saved === 'true';
+  }
+  return typeof window !== 'undefined' && window.matchMedia?.('(prefers-contrast: more)').matches === true;
+}
+
+export function saveHighContrast(enabled: boolean, storage: Storage = localStorage) {
+  storage.setItem(HIGH_CONTRAST_STORAGE_KEY, String(enabled));
+}
+
+// The theme itself is a set of overrides in index.html keyed off this class
+export function applyHighContrast(enabled: boolean, root: HTMLElement = document.documentElement) {
+  root.classList.toggle('high-contrast', enabled);
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  createHistoryStore,
+  createIndexedDbHistoryBackend,
+  createMemoryHistoryBackend,
+  takeSizeBytes,
+} from './historyStore';
+import { HistoryTake } from '../types';
+
+const draft = (id: string, overrides: Partial<HistoryTake> = {}): Omit<HistoryTake, 'bytes'> => ({
+  id,
+  name: `Take ${id}`,
+  script: `Script of ${id}`,
+  mode: 'single',
+  voiceId: 'kore',
+  emotion: 'neutral',
+  language: 'english',
+  createdAt: Number(id),
+  sampleRate: 24000,
+  ...overrides,
+});
+
+const pcm = (bytes: number) => new Uint8Array(bytes).fill(7).buffer;
+
+describe('createHistoryStore with the in-memory backend', () => {
+  it('lists takes newest first without their audio', async () => {
+    const store = createHistoryStore(createMemoryHistoryBackend());
+    await store.add(draft('1'), pcm(10));
+    await store.add(draft('3'), pcm(10));
+    await store.add(draft('2'), pcm(10));
+
+    const takes = await store.list();
+    expect(takes.map((take) => take.id)).toEqual(['3', '2', '1']);
+    expect(takes[0].bytes).toBe(10);
+    expect(takes[0]).not.toHaveProperty('pcm');
+  });
+
+  it('searches names and scripts case-insensitively', async () => {
+    const store = createHistoryStore(createMemoryHistoryBackend());
+    await store.add(draft('1', { name: 'Intro', script: 'Welcome everyone' }), pcm(2));
+    await store.add(draft('2', { name: 'Outro', script: 'Thanks for listening' }), pcm(2));
+
+    expect((await store.list('  WELCOME ')).map((take) => take.id)).toEqual(['1']);
+    expect((await store.list('outro')).map((take) => take.id)).toEqual(['2']);
+    expect(await store.list('missing')).toEqual([]);
+  });
+
+  it('loads the audio of a take on request', async () => {
+    const store = createHistoryStore(createMemoryHistoryBackend());
+    await store.add(draft('1'), pcm(4));
+
+    expect(new Uint8Array(await store.getAudio('1'))).toEqual(new Uint8Array([7, 7, 7, 7]));
+    await expect(store.getAudio('2')).rejects.toThrow('missing from history');
+  });
+
+  it('evicts the oldest takes to stay within quota but never the new one', async () => {
+    const size = takeSizeBytes({ ...draft('1'), bytes: 100 });
+    const store = createHistoryStore(createMemoryHistoryBackend(), size * 2);
+    await store.add(draft('1'), pcm(100));
+    await store.add(draft('2'), pcm(100));
+
+    const evicted = await store.add(draft('3'), pcm(100));
+    expect(evicted.map((take) => take.id)).toEqual(['1']);
+    expect((await store.list()).map((take) => take.id)).toEqual(['3', '2']);
+    await expect(store.getAudio('1')).rejects.toThrow();
+
+    const oversized = await store.add(draft('4'), pcm(size * 3));
+    expect(oversized.map((take) => take.id)).toEqual(['2', '3']);
+    expect((await store.list()).map((take) => take.id)).toEqual(['4']);
+  });
+
+  it('renames a take and keeps its audio', async () => {
+    const store = createHistoryStore(createMemoryHistoryBackend());
+    await store.add(draft('1'), pcm(4));
+
+    await store.rename('1', 'Final');
+    expect((await store.list())[0].name).toBe('Final');
+    expect((await store.getAudio('1')).byteLength).toBe(4);
+    await expect(store.rename('2', 'Nope')).rejects.toThrow('History take 2 not found.');
+  });
+
+  it('removes a take together with its audio', async () => {
+    const store = createHistoryStore(createMemoryHistoryBackend());
+    await store.add(draft('1'), pcm(4));
+
+    await store.remove('1');
+    expect(await store.list()).toEqual([]);
+    await expect(store.getAudio('1')).rejects.toThrow();
+  });
+});
+
+describe('createIndexedDbHistoryBackend', () => {
+  it('stores records and audio separately', async () => {
+    const store = createHistoryStore(createIndexedDbHistoryBackend(new IDBFactory()));
+    await store.add(draft('1'), pcm(6));
+    await store.rename('1', 'Renamed');
+
+    expect(await store.list()).toEqual([{ ...draft('1'), name: 'Renamed', bytes: 6 }]);
+    expect((await store.getAudio('1')).byteLength).toBe(6);
+
+    await store.remove('1');
+    expect(await store.list()).toEqual([]);
+    await expect(store.getAudio('1')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,167 @@
+import { HistoryTake } from '../types';
+import { HISTORY_DB_NAME, HISTORY_QUOTA_BYTES } from '../constants';
+
+const TAKES_STORE = 'takes';
+const AUDIO_STORE = 'audio';
+
+/**
+ * Minimal persistence contract for history takes. Take records and their audio
+ * are kept apart so listing and searching never load PCM. The app uses
+ * IndexedDB; tests and environments without IndexedDB use the in-memory backend.
+ */
+export interface HistoryBackend {
+  getAll(): Promise<HistoryTake[]>;
+  getAudio(id: string): Promise<ArrayBuffer | undefined>;
+  put(take: HistoryTake, pcm?: ArrayBuffer): Promise<void>; // Without pcm only the record is updated
+  delete(id: string): Promise<void>;
+}
+
+export interface HistoryStore {
+  list(query?: string): Promise<HistoryTake[]>;
+  getAudio(id: string): Promise<ArrayBuffer>;
+  add(take: Omit<HistoryTake, 'bytes'>, pcm: ArrayBuffer): Promise<HistoryTake[]>; // Resolves with the takes evicted to stay within quota
+  rename(id: string, name: string): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export function createMemoryHistoryBackend(): HistoryBackend {
+  const takes = new Map<string, HistoryTake>();
+  const audio = new Map<string, ArrayBuffer>();
+  return {
+    getAll: async () => Array.from(takes.values()),
+    getAudio: async (id) => audio.get(id),
+    put: async (take, pcm) => {
+      takes.set(take.id, take);
+      if (pcm !== undefined) {
+        audio.set(take.id, pcm);
+      }
+    },
+    delete: async (id) => {
+      takes.delete(id);
+      audio.delete(id);
+    },
+  };
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDbHistoryBackend(factory: IDBFactory = indexedDB): HistoryBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = factory.open(HISTORY_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(TAKES_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(AUDIO_STORE);
+      };
+      dbPromise = requestToPromise(request);
+    }
+    return dbPromise;
+  };
+
+  const read = async <T>(storeName: string, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return requestToPromise(run(db.transaction(storeName, 'readonly').objectStore(storeName)));
+  };
+
+  // A record and its audio are written together so neither outlives the other
+  const write = async (run: (takes: IDBObjectStore, audio: IDBObjectStore) => void) => {
+    const transaction = (await openDb()).transaction([TAKES_STORE, AUDIO_STORE], 'readwrite');
+    run(transaction.objectStore(TAKES_STORE), transaction.objectStore(AUDIO_STORE));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    getAll: () => read<HistoryTake[]>(TAKES_STORE, (store) => store.getAll()),
+    getAudio: (id) => read<ArrayBuffer | undefined>(AUDIO_STORE, (store) => store.get(id)),
+    put: (take, pcm) => write((takes, audio) => {
+      takes.put(take);
+      if (pcm !== undefined) {
+        audio.put(pcm, take.id);
+      }
+    }),
+    delete: (id) => write((takes, audio) => {
+      takes.delete(id);
+      audio.delete(id);
+    }),
+  };
+}
+
+/**
+ * Falls back to an in-memory backend when IndexedDB is unavailable (e.g. some
+ * private browsing modes), so history still works for the session.
+ */
+export function createDefaultHistoryBackend(): HistoryBackend {
+  return typeof indexedDB !== 'undefined' ? createIndexedDbHistoryBackend() : createMemoryHistoryBackend();
+}
+
+export function takeSizeBytes(take: HistoryTake): number {
+  return take.bytes + (take.script.length + take.name.length) * 2;
+}
+
+export function createHistoryStore(backend: HistoryBackend, quotaBytes: number = HISTORY_QUOTA_BYTES): HistoryStore {
+  const newestFirst = (a: HistoryTake, b: HistoryTake) => b.createdAt - a.createdAt;
+
+  return {
+    async list(query = '') {
+      const needle = query.trim().toLocaleLowerCase();
+      const takes = await backend.getAll();
+      return takes
+        .filter((take) => !needle
+          || take.script.toLocaleLowerCase().includes(needle)
+          || take.name.toLocaleLowerCase().includes(needle))
+        .sort(newestFirst);
+    },
+
+    async getAudio(id) {
+      const pcm = await backend.getAudio(id);
+      if (!pcm) {
+        throw new Error('The audio of this take is missing from history.');
+      }
+      return pcm;
+    },
+
+    async add(draft, pcm) {
+      const take: HistoryTake = { ...draft, bytes: pcm.byteLength };
+      await backend.put(take, pcm);
+
+      const takes = (await backend.getAll()).sort(newestFirst);
+      let total = takes.reduce((sum, item) => sum + takeSizeBytes(item), 0);
+      const evicted: HistoryTake[] = [];
+
+      // Evict oldest first, but never the take that was just added.
+      while (total > quotaBytes && takes.length > 1) {
+        const oldest = takes.pop()!;
+        if (oldest.id === take.id) {
+          break;
+        }
+        await backend.delete(oldest.id);
+        total -= takeSizeBytes(oldest);
+        evicted.push(oldest);
+      }
+      return evicted;
+    },
+
+    async rename(id, name) {
+      const take = (await backend.getAll()).find((item) => item.id === id);
+      if (!take) {
+        throw new Error(`History take ${id} not found.`);
+      }
+      await backend.put({ ...take, name });
+    },
+
+    async remove(id) {
+      await backend.delete(id);
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { createStoredList, isRecord, readStoredJson } from './jsonStorage';
+
+const memoryStorage = (items: Record<string, string> = {}) => ({
+  getItem: (key: string) => items[key] ?? null,
+  setItem: (key: string, value: string) => void (items[key] = value),
+}) as unknown as Storage;
+
+describe('isRecord', () => {
+  it('accepts plain objects only', () => {
+    expect(isRecord({ a: 1 })).toBe(true);
+    expect([null, [], 'x', 1, undefined].some(isRecord)).toBe(false);
+  });
+});
+
+describe('stored JSON', () => {
+  it('falls back when nothing is stored or the text is not JSON', () => {
+    expect(readStoredJson(memoryStorage(), 'k', 'none')).toBe('none');
+    expect(readStoredJson(memoryStorage({ k: '{' }), 'k')).toBeNull();
+    expect(readStoredJson(memoryStorage({ k: '{"a":1}' }), 'k')).toEqual({ a: 1 });
+  });
+
+  const isNumber = (value: unknown): value is number => typeof value === 'number';
+
+  it('keeps a list under one key and reads anything else as empty', () => {
+    const storage = memoryStorage({ k: '{"not":"a list"}' });
+    const list = createStoredList(storage, 'k', isNumber);
+    expect(list.read()).toEqual([]);
+    list.write([1, 2]);
+    expect(list.read()).toEqual([1, 2]);
+  });
+
+  it('drops list entries that fail the element check', () => {
+    const list = createStoredList(memoryStorage({ k: '[1, null, "2", 3, {}]' }), 'k', isNumber);
+    expect(list.read()).toEqual([1, 3]);
+  });
+});
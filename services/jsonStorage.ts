@@ -0,0 +1,41 @@
+/**
+ * Helpers for JSON that comes from outside the app: browser storage, imported
+ * files and request bodies. Values are checked field by field before use.
+ */
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * The parsed value stored under `key`, or `fallback` when nothing is stored or
+ * the text is not valid JSON.
+ */
+export function readStoredJson(storage: Storage, key: string, fallback: unknown = null): unknown {
+  try {
+    return JSON.parse(storage.getItem(key) ?? 'null') ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export interface StoredList<T> {
+  read(): T[];
+  write(items: T[]): void;
+}
+
+/**
+ * A list kept as a JSON array under one storage key. Anything other than an
+ * array reads as an empty list, and entries that fail `isItem` are dropped.
+ */
+export function createStoredList<T>(storage: Storage, key: string, isItem: (value: unknown) => value is T): StoredList<T> {
+  return {
+    read() {
+      const parsed = readStoredJson(storage, key, []);
+      return Array.isArray(parsed) ? parsed.filter(isItem) : [];
+    },
+
+    write(items) {
+      storage.setItem(key, JSON.stringify(items));
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { applyLexicon, createLexiconStore, findLexiconMatches, validateLexiconEntry } from './lexicon';
+import { LexiconEntry } from '../types';
+import { LEXICON_STORAGE_KEY } from '../constants';
+
+let nextId = 0;
+const entry = (term: string, replacement: string, overrides: Partial<LexiconEntry> = {}): LexiconEntry => ({
+  id: `e${nextId++}`,
+  term,
+  replacement,
+  language: null,
+  caseSensitive: false,
+  wholeWord: true,
+  ...overrides,
+});
+
+const matched = (script: string, entries: LexiconEntry[]) =>
+  findLexiconMatches(script, entries, 'telugu').map(({ offset, length, entry }) => [script.slice(offset, offset + length), entry.replacement]);
+
+describe('findLexiconMatches', () => {
+  it('matches whole words only, ignoring case unless asked', () => {
+    const entries = [entry('ram', 'raam')];
+    expect(matched('Ram met Ramesh and namaskaram.', entries)).toEqual([['Ram', 'raam']]);
+    expect(matched('Ram met ram.', [entry('ram', 'raam', { caseSensitive: true })])).toEqual([['ram', 'raam']]);
+    expect(matched('Ramesh', [entry('ram', 'raam', { wholeWord: false })])).toEqual([['Ram', 'raam']]);
+  });
+
+  it('treats Indic vowel signs and viramas as part of the word', () => {
+    // raama must not match inside raamuDu or the consonant-final raam
+    const entries = [entry('\u0C30\u0C3E\u0C2E', 'Raama')];
+    expect(matched('\u0C30\u0C3E\u0C2E\u0C41\u0C21\u0C41 \u0C30\u0C3E\u0C2E!', entries)).toEqual([['\u0C30\u0C3E\u0C2E', 'Raama']]);
+    expect(matched('\u0C30\u0C3E\u0C2E\u0C4D', entries)).toEqual([]);
+  });
+
+  it('prefers the earliest, then the longest, then the language-specific match', () => {
+    const entries = [
+      entry('new', 'nyoo'),
+      entry('new york', 'noo york'),
+      entry('york', 'yawk', { language: 'english' }),
+      entry('york', 'yaark', { language: 'telugu' }),
+      entry('york', 'yorrk'),
+    ];
+    expect(matched('New York is new, york too.', entries)).toEqual([
+      ['New York', 'noo york'],
+      ['new', 'nyoo'],
+      ['york', 'yaark'],
+    ]);
+  });
+
+  it('skips pause tags, slow tags, pronunciation overrides and escapes', () => {
+    const entries = [entry('pause', 'paws'), entry('slow', 'slo'), entry('gif', 'jif'), entry('a', 'ay')];
+    const script = '[pause 500ms] <slow>{gif|ghif}</slow> \\a gif';
+    expect(matched(script, entries)).toEqual([['gif', 'jif']]);
+    expect(findLexiconMatches(script, entries, 'telugu')[0].offset).toBe(script.lastIndexOf('gif'));
+  });
+});
+
+describe('applyLexicon', () => {
+  it('rewrites matches as pronunciation overrides that keep the original text', () => {
+    expect(applyLexicon('Hi Siobhan, hi SIOBHAN.', [entry('siobhan', 'shi-vawn')], 'english')).toBe(
+      'Hi {Siobhan|shi-vawn}, hi {SIOBHAN|shi-vawn}.',
+    );
+  });
+
+  it('leaves the script alone when nothing matches or the entry is for another language', () => {
+    const script = 'Hello there.';
+    expect(applyLexicon(script, [entry('hello', 'hallo', { language: 'hindi' })], 'english')).toBe(script);
+  });
+});
+
+describe('validateLexiconEntry', () => {
+  it('trims and normalizes terms and fills in defaults', () => {
+    expect(validateLexiconEntry({ term: ' \u0C15\u0C3E ', replacement: 'kaa' })).toEqual({
+      term: '\u0C15\u0C3E',
+      replacement: 'kaa',
+      language: null,
+      caseSensitive: false,
+      wholeWord: true,
+    });
+    expect(validateLexiconEntry({ term: 'e\u0301', replacement: 'eh' })).toMatchObject({ term: '\u00E9' });
+  });
+
+  it('rejects empty fields, markup characters and unknown languages', () => {
+    expect(validateLexiconEntry([])).toBe('Entry is not an object.');
+    expect(validateLexiconEntry({ term: 'x', replacement: ' ' })).toBe('"x": the replacement spelling is empty.');
+    expect(validateLexiconEntry({ term: 'a|b', replacement: 'c' })).toMatch(/markup characters/);
+    expect(validateLexiconEntry({ term: 'x', replacement: 'y', language: 'klingon' })).toBe('"x": unknown language "klingon".');
+  });
+});
+
+describe('createLexiconStore', () => {
+  const memoryStorage = () => {
+    const items = new Map<string, string>();
+    return {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    } as unknown as Storage;
+  };
+
+  it('replaces an entry with the same term and language and round-trips exports', () => {
+    const store = createLexiconStore(memoryStorage());
+    store.save({ term: 'gif', replacement: 'jif', language: null, caseSensitive: false, wholeWord: true });
+    store.save({ term: 'gif', replacement: 'ghif', language: null, caseSensitive: false, wholeWord: true });
+    expect(store.list().map((saved) => saved.replacement)).toEqual(['ghif']);
+
+    const other = createLexiconStore(memoryStorage());
+    expect(other.importJson(store.exportJson()).imported.map((saved) => saved.term)).toEqual(['gif']);
+    expect(other.importJson('[{"term":""}]').errors).toEqual(['Entry 1: Entry has no term.']);
+  });
+
+  it('reads corrupted storage as an empty lexicon', () => {
+    const storage = memoryStorage();
+    storage.setItem(LEXICON_STORAGE_KEY, '{');
+    expect(createLexiconStore(storage).list()).toEqual([]);
+  });
+
+  it('skips stored entries that are not valid lexicon entries', () => {
+    const storage = memoryStorage();
+    const entry = { id: '1', term: 'gif', replacement: 'jif', language: null, caseSensitive: false, wholeWord: true };
+    storage.setItem(LEXICON_STORAGE_KEY, JSON.stringify([null, entry, { id: '2', term: 'x' }, { ...entry, id: undefined }]));
+    expect(createLexiconStore(storage).list()).toEqual([entry]);
+  });
+});
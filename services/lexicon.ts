@@ -0,0 +1,198 @@
+import { LexiconEntry, Language } from '../types';
+import { LEXICON_STORAGE_KEY, LANGUAGE_OPTIONS } from '../constants';
+import { isRecord, createStoredList } from './jsonStorage';
+
+const EXPORT_FORMAT = 'pujiverse-voice-studio-lexicon';
+const EXPORT_VERSION = 1;
+
+export type LexiconDraft = Omit<LexiconEntry, 'id'>;
+
+export interface LexiconImportResult {
+  imported: LexiconEntry[];
+  errors: string[]; // One message per entry that was skipped
+}
+
+/**
+ * Pronunciation entries saved by the user. Saving a term that already exists
+ * for the same language replaces it, which is also how imports are merged.
+ */
+export interface LexiconStore {
+  list(): LexiconEntry[];
+  save(draft: LexiconDraft, id?: string): LexiconEntry;
+  remove(id: string): void;
+  exportJson(): string;
+  importJson(text: string): LexiconImportResult;
+}
+
+export interface LexiconMatch {
+  offset: number; // UTF-16 offset into the script
+  length: number;
+  entry: LexiconEntry;
+}
+
+// Characters with a meaning in script markup; they would break the {term|spelling} rewrite
+const MARKUP_CHARACTERS = /[\\*[\]{}<>|\n]/;
+
+/**
+ * Checks an entry from the editor or an import file. Returns an error message,
+ * or the cleaned-up draft.
+ */
+export function validateLexiconEntry(value: unknown): LexiconDraft | string {
+  if (!isRecord(value)) {
+    return 'Entry is not an object.';
+  }
+  // NFC so terms typed with decomposed vowel signs still match text in the usual form
+  const term = typeof value.term === 'string' ? value.term.trim().normalize('NFC') : '';
+  const replacement = typeof value.replacement === 'string' ? value.replacement.trim().normalize('NFC') : '';
+  if (!term) {
+    return 'Entry has no term.';
+  }
+  if (!replacement) {
+    return `"${term}": the replacement spelling is empty.`;
+  }
+  if (MARKUP_CHARACTERS.test(term) || MARKUP_CHARACTERS.test(replacement)) {
+    return `"${term}": terms and spellings cannot contain markup characters (\\ * [ ] { } < > |).`;
+  }
+  const language = value.language == null ? null : LANGUAGE_OPTIONS.find((option) => option.id === value.language)?.id;
+  if (language === undefined) {
+    return `"${term}": unknown language "${value.language}".`;
+  }
+  return {
+    term,
+    replacement,
+    language,
+    caseSensitive: value.caseSensitive === true,
+    wholeWord: value.wholeWord !== false,
+  };
+}
+
+const isStoredEntry = (value: unknown): value is LexiconEntry =>
+  isRecord(value) && typeof value.id === 'string' && typeof validateLexiconEntry(value) !== 'string';
+
+export function createLexiconStore(storage: Storage = localStorage): LexiconStore {
+  const { read, write } = createStoredList(storage, LEXICON_STORAGE_KEY, isStoredEntry);
+
+  const save = (draft: LexiconDraft, id?: string): LexiconEntry => {
+    const checked = validateLexiconEntry(draft);
+    if (typeof checked === 'string') {
+      throw new Error(checked);
+    }
+    const existing = read();
+    const clash = existing.find((entry) => entry.term === checked.term && entry.language === checked.language && entry.id !== id);
+    if (clash && id) {
+      throw new Error(`"${checked.term}" is already in the lexicon for this language.`);
+    }
+    const entry: LexiconEntry = { ...checked, id: id ?? clash?.id ?? crypto.randomUUID() };
+    const index = existing.findIndex((e) => e.id === entry.id);
+    write(index === -1 ? [...existing, entry] : existing.map((e, i) => (i === index ? entry : e)));
+    return entry;
+  };
+
+  return {
+    list: read,
+    save,
+
+    remove(id) {
+      write(read().filter((entry) => entry.id !== id));
+    },
+
+    exportJson() {
+      const entries = read().map(({ id, ...draft }) => draft);
+      return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, entries }, null, 2);
+    },
+
+    importJson(text) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        throw new Error('The lexicon file is not valid JSON.');
+      }
+      // A bare array of entries is accepted too, for hand-written files
+      const entries = Array.isArray(parsed) ? parsed : isRecord(parsed) && parsed.format === EXPORT_FORMAT ? parsed.entries : null;
+      if (!Array.isArray(entries)) {
+        throw new Error('This is not a lexicon file.');
+      }
+      const result: LexiconImportResult = { imported: [], errors: [] };
+      entries.forEach((value, index) => {
+        const draft = validateLexiconEntry(value);
+        if (typeof draft === 'string') {
+          result.errors.push(`Entry ${index + 1}: ${draft}`);
+        } else {
+          result.imported.push(save(draft));
+        }
+      });
+      return result;
+    },
+  };
+}
+
+// Letters, combining marks (Indic vowel signs and viramas), digits and the
+// zero-width joiners used inside Indic words. JavaScript's \b only knows ASCII
+// letters, so it would treat every vowel sign in a Telugu word as a boundary.
+const WORD_CHARACTER = String.raw`[\p{L}\p{M}\p{N}_\u200C\u200D]`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function entryPattern(entry: LexiconEntry): RegExp {
+  const term = escapeRegExp(entry.term);
+  const source = entry.wholeWord ? `(?<!${WORD_CHARACTER})${term}(?!${WORD_CHARACTER})` : term;
+  return new RegExp(source, entry.caseSensitive ? 'gu' : 'giu');
+}
+
+// Pause tags, <slow> tags, pronunciation overrides and escapes are never rewritten
+const PROTECTED_MARKUP = /\[pause[^\]\n]*\]|<\/?slow>|\{[^}\n]*\}|\\./gi;
+
+export const entriesForLanguage = (entries: LexiconEntry[], language: Language) =>
+  entries.filter((entry) => entry.language === null || entry.language === language);
+
+/**
+ * Finds where lexicon entries for `language` apply in a script. Where matches
+ * overlap, the earliest wins, then the longest; language-specific entries win
+ * over global ones for the same text. Text inside markup is skipped.
+ */
+export function findLexiconMatches(script: string, entries: LexiconEntry[], language: Language): LexiconMatch[] {
+  const protectedRanges = [...script.matchAll(PROTECTED_MARKUP)].map((match) => [match.index!, match.index! + match[0].length]);
+  const isProtected = (start: number, end: number) => protectedRanges.some(([from, to]) => start < to && end > from);
+
+  const candidates: LexiconMatch[] = [];
+  entriesForLanguage(entries, language).forEach((entry) => {
+    for (const match of script.matchAll(entryPattern(entry))) {
+      if (match[0].length > 0 && !isProtected(match.index!, match.index! + match[0].length)) {
+        candidates.push({ offset: match.index!, length: match[0].length, entry });
+      }
+    }
+  });
+  candidates.sort((a, b) =>
+    a.offset - b.offset
+    || b.length - a.length
+    || Number(b.entry.language !== null) - Number(a.entry.language !== null));
+
+  const matches: LexiconMatch[] = [];
+  let end = 0;
+  for (const candidate of candidates) {
+    if (candidate.offset >= end) {
+      matches.push(candidate);
+      end = candidate.offset + candidate.length;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Rewrites each match as a pronunciation override, {term|spelling}, so the rest
+ * of the markup pipeline speaks the spelling while captions keep the term.
+ */
+export function applyLexicon(script: string, entries: LexiconEntry[], language: Language): string {
+  const matches = findLexiconMatches(script, entries, language);
+  if (matches.length === 0) {
+    return script;
+  }
+  let output = '';
+  let cursor = 0;
+  for (const { offset, length, entry } of matches) {
+    output += `${script.slice(cursor, offset)}{${script.slice(offset, offset + length)}|${entry.replacement}}`;
+    cursor = offset + length;
+  }
+  return output + script.slice(cursor);
+}
@@ -0,0 +1,70 @@
+import { ProcessingPreset, ProcessingSettings } from '../types';
+import { PROCESSING_PRESETS_STORAGE_KEY, BUILT_IN_PROCESSING_PRESETS, DEFAULT_PROCESSING_SETTINGS } from '../constants';
+import { isRecord, createStoredList } from './jsonStorage';
+
+/**
+ * Named post-processing presets saved by the user. Built-in presets are always
+ * listed first and cannot be overwritten or deleted.
+ */
+export interface ProcessingPresetStore {
+  list(): ProcessingPreset[];
+  save(name: string, settings: ProcessingPreset['settings']): ProcessingPreset;
+  remove(id: string): void;
+}
+
+const isStoredPreset = (value: unknown): value is ProcessingPreset =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' && isRecord(value.settings);
+
+export function createProcessingPresetStore(storage: Storage = localStorage): ProcessingPresetStore {
+  const { read: readUserPresets, write: writeUserPresets } = createStoredList(storage, PROCESSING_PRESETS_STORAGE_KEY, isStoredPreset);
+
+  return {
+    list() {
+      return [...BUILT_IN_PROCESSING_PRESETS, ...readUserPresets()];
+    },
+
+    save(name, settings) {
+      const trimmed = name.trim();
+      if (!trimmed) {
+        throw new Error('Preset name cannot be empty.');
+      }
+      if (BUILT_IN_PROCESSING_PRESETS.some((preset) => preset.name === trimmed)) {
+        throw new Error(`"${trimmed}" is a built-in preset; choose another name.`);
+      }
+      // Saving under an existing name replaces that preset
+      const existing = readUserPresets();
+      const preset: ProcessingPreset = {
+        id: existing.find((p) => p.name === trimmed)?.id ?? crypto.randomUUID(),
+        name: trimmed,
+        settings,
+      };
+      writeUserPresets([...existing.filter((p) => p.id !== preset.id), preset]);
+      return preset;
+    },
+
+    remove(id) {
+      writeUserPresets(readUserPresets().filter((preset) => preset.id !== id));
+    },
+  };
+}
+
+/**
+ * Reads processing settings from a saved file, filling anything missing from
+ * older or hand-edited files with the defaults.
+ */
+export function normalizeProcessingSettings(value: unknown): ProcessingSettings {
+  const defaults = DEFAULT_PROCESSING_SETTINGS;
+  if (!isRecord(value)) {
+    return defaults;
+  }
+  const group = <K extends keyof ProcessingSettings>(key: K) =>
+    Object.assign({}, defaults[key], isRecord(value[key]) ? value[key] : {}) as ProcessingSettings[K];
+  return {
+    enabled: typeof value.enabled === 'boolean' ? value.enabled : defaults.enabled,
+    highPass: group('highPass'),
+    eq: group('eq'),
+    trimSilence: group('trimSilence'),
+    normalization: group('normalization'),
+    fades: group('fades'),
+  };
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ProjectFileError,
+  createProjectAutosave,
+  createProjectFile,
+  migrateProject,
+  parseProjectFile,
+  serializeProject,
+} from './projectFile';
+import { mockProvider } from './providers/mockProvider';
+import { ProjectState } from '../types';
+import { DEFAULT_CHUNK_SILENCE_MS, DEFAULT_PROCESSING_SETTINGS, PROJECT_AUTOSAVE_STORAGE_KEY, PROJECT_FILE_VERSION } from '../constants';
+
+const providers = [mockProvider];
+
+const state: ProjectState = {
+  providerId: 'mock',
+  mode: 'dialogue',
+  script: 'A: Hello\nB: Hi',
+  voiceId: mockProvider.voices[0].id,
+  speakerVoices: { A: mockProvider.voices[0].id, B: mockProvider.voices[1].id },
+  emotion: 'happy',
+  language: 'english',
+  chunkSilenceMs: 250,
+  processing: { ...DEFAULT_PROCESSING_SETTINGS, enabled: true, fades: { fadeInMs: 10, fadeOutMs: 20 } },
+};
+
+const savedAt = new Date('2026-01-02T03:04:05.000Z');
+
+// Serialized project with some fields replaced
+const fileWith = (overrides: Record<string, unknown>) => JSON.stringify({ ...createProjectFile('Demo', state, undefined, savedAt), ...overrides });
+
+const problemsOf = (text: string): string[] => {
+  try {
+    parseProjectFile(text, providers);
+  } catch (err) {
+    expect(err).toBeInstanceOf(ProjectFileError);
+    return (err as ProjectFileError).problems;
+  }
+  throw new Error('Expected the project to be rejected.');
+};
+
+describe('project files', () => {
+  it('round-trips the session state', () => {
+    const project = createProjectFile('Demo', state, undefined, savedAt);
+    expect(project).toMatchObject({ format: 'pujiverse-voice-studio-project', version: PROJECT_FILE_VERSION, savedAt: savedAt.toISOString() });
+    expect(parseProjectFile(serializeProject(project), providers)).toEqual(project);
+  });
+
+  it('round-trips embedded audio', () => {
+    const project = createProjectFile('Demo', state, { sampleRate: 24000, pcm: 'AAAA' }, savedAt);
+    expect(parseProjectFile(serializeProject(project), providers).audio).toEqual({ sampleRate: 24000, pcm: 'AAAA' });
+  });
+
+  it('fills in optional fields that are missing or malformed', () => {
+    const project = parseProjectFile(fileWith({ name: 7, speakerVoices: null, chunkSilenceMs: 'long', processing: undefined }), providers);
+    expect(project.name).toBe('');
+    expect(project.speakerVoices).toEqual({});
+    expect(project.chunkSilenceMs).toBe(DEFAULT_CHUNK_SILENCE_MS);
+    expect(project.processing).toEqual(DEFAULT_PROCESSING_SETTINGS);
+  });
+});
+
+describe('invalid project files', () => {
+  it('rejects text that is not JSON or not a project', () => {
+    expect(() => parseProjectFile('{', providers)).toThrow('not valid JSON');
+    expect(() => parseProjectFile('[]', providers)).toThrow('not a voice studio project file');
+    expect(() => parseProjectFile(fileWith({ format: 'other' }), providers)).toThrow('not a voice studio project file');
+  });
+
+  it('rejects missing and future versions', () => {
+    expect(() => parseProjectFile(fileWith({ version: undefined }), providers)).toThrow('no valid version number');
+    expect(() => parseProjectFile(fileWith({ version: 0 }), providers)).toThrow('no valid version number');
+    expect(() => parseProjectFile(fileWith({ version: 1.5 }), providers)).toThrow('no valid version number');
+    expect(() => parseProjectFile(fileWith({ version: PROJECT_FILE_VERSION + 1 }), providers)).toThrow('newer version of the app');
+  });
+
+  it('reports every unavailable setting at once', () => {
+    const problems = problemsOf(fileWith({
+      voiceId: 'gone',
+      speakerVoices: { A: 'gone-too' },
+      emotion: 'furious',
+      language: 'klingon',
+    }));
+    expect(problems).toHaveLength(4);
+    expect(problems[0]).toMatch(/^Voice "gone" is no longer available from Offline Mock\. Available voices: /);
+    expect(problems[1]).toBe('Voice "gone-too" for speaker "A" is no longer available from Offline Mock.');
+    expect(problems[2]).toBe('Emotion "furious" is not supported by Offline Mock.');
+    expect(problems[3]).toBe('Language "klingon" is not supported by Offline Mock.');
+  });
+
+  it('reports a missing script, unknown mode and provider and malformed audio', () => {
+    expect(problemsOf(fileWith({ script: undefined, mode: 'choir', providerId: 'elsewhere', audio: { pcm: 1 } }))).toEqual([
+      'The script is missing.',
+      'Unknown generation mode "choir".',
+      'The "elsewhere" provider is not available in this build.',
+      'The embedded audio is malformed.',
+    ]);
+  });
+
+  it('starts at version 1 with nothing to migrate', () => {
+    expect(PROJECT_FILE_VERSION).toBe(1);
+    const raw = JSON.parse(fileWith({}));
+    expect(migrateProject(raw)).toBe(raw);
+  });
+});
+
+describe('createProjectAutosave', () => {
+  const memoryStorage = () => {
+    const items = new Map<string, string>();
+    return {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: vi.fn((key: string, value: string) => void items.set(key, value)),
+    } as unknown as Storage;
+  };
+
+  it('saves the latest session without its audio', () => {
+    const storage = memoryStorage();
+    const autosave = createProjectAutosave(storage);
+    expect(autosave.load()).toBeNull();
+
+    autosave.save(createProjectFile('Demo', state, { sampleRate: 24000, pcm: 'AAAA' }, savedAt));
+    const saved = parseProjectFile(autosave.load()!, providers);
+    expect(saved.audio).toBeUndefined();
+    expect(saved.script).toBe(state.script);
+    expect(storage.setItem).toHaveBeenCalledWith(PROJECT_AUTOSAVE_STORAGE_KEY, expect.any(String));
+  });
+
+  it('keeps going when storage is full', () => {
+    const storage = memoryStorage();
+    vi.mocked(storage.setItem).mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(() => createProjectAutosave(storage).save(createProjectFile('Demo', state))).not.toThrow();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
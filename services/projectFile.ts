@@ -0,0 +1,174 @@
+import { ProjectFile, ProjectState, ProjectAudio, SpeakerVoiceMap } from '../types';
+import { TtsProvider } from './providers/ttsProvider';
+import { normalizeProcessingSettings } from './processingPresets';
+import { isRecord } from './jsonStorage';
+import {
+  PROJECT_FILE_VERSION,
+  PROJECT_AUTOSAVE_STORAGE_KEY,
+  DEFAULT_CHUNK_SILENCE_MS,
+} from '../constants';
+
+const PROJECT_FORMAT = 'pujiverse-voice-studio-project';
+
+/**
+ * A project file that cannot be opened. `problems` lists every issue found,
+ * e.g. each voice id that is no longer available.
+ */
+export class ProjectFileError extends Error {
+  constructor(message: string, readonly problems: string[] = []) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+type RawProject = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n project to version n + 1. Empty until the format first changes.
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {};
+
+/**
+ * Upgrades a parsed project of any known version to the current version.
+ */
+export function migrateProject(raw: unknown): RawProject {
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError('This is not a voice studio project file.');
+  }
+  const { version } = raw;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('The project file has no valid version number.');
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(`The project was saved by a newer version of the app (format ${version}); update the app to open it.`);
+  }
+  let project = raw;
+  for (let from = version; from < PROJECT_FILE_VERSION; from++) {
+    project = MIGRATIONS[from](project);
+  }
+  return project;
+}
+
+/**
+ * Checks a migrated project against the providers in this build. Unknown
+ * providers, voices, emotions and languages are all reported at once.
+ */
+function validateProject(project: RawProject, providers: TtsProvider[]): ProjectFile {
+  const problems: string[] = [];
+  const { script, mode, audio } = project;
+  if (typeof script !== 'string') {
+    problems.push('The script is missing.');
+  }
+  if (mode !== 'single' && mode !== 'dialogue') {
+    problems.push(`Unknown generation mode "${mode}".`);
+  }
+
+  const speakerVoices: SpeakerVoiceMap = Object.fromEntries(Object.entries(isRecord(project.speakerVoices) ? project.speakerVoices : {})
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+  const provider = providers.find((option) => option.id === project.providerId);
+  const voice = provider?.voices.find((option) => option.id === project.voiceId);
+  const emotion = provider?.emotions.find((option) => option === project.emotion);
+  const language = provider?.languages.find((option) => option.id === project.language);
+  if (!provider) {
+    problems.push(`The "${project.providerId}" provider is not available in this build.`);
+  } else {
+    const hasVoice = (id: unknown) => provider.voices.some((option) => option.id === id);
+    const available = provider.voices.map((option) => option.id).join(', ');
+    if (!voice) {
+      problems.push(`Voice "${project.voiceId}" is no longer available from ${provider.label}. Available voices: ${available}.`);
+    }
+    if (mode === 'dialogue') {
+      for (const [speaker, voiceId] of Object.entries(isRecord(project.speakerVoices) ? project.speakerVoices : {})) {
+        if (!hasVoice(voiceId)) {
+          problems.push(`Voice "${voiceId}" for speaker "${speaker}" is no longer available from ${provider.label}.`);
+        }
+      }
+    }
+    if (!emotion) {
+      problems.push(`Emotion "${project.emotion}" is not supported by ${provider.label}.`);
+    }
+    if (!language) {
+      problems.push(`Language "${project.language}" is not supported by ${provider.label}.`);
+    }
+  }
+
+  const embedded: ProjectAudio | undefined = isRecord(audio) && typeof audio.pcm === 'string' && Number(audio.sampleRate) > 0
+    ? { sampleRate: Number(audio.sampleRate), pcm: audio.pcm }
+    : undefined;
+  if (audio !== undefined && !embedded) {
+    problems.push('The embedded audio is malformed.');
+  }
+
+  // Every missing value below was reported as a problem above
+  if (problems.length > 0 || typeof script !== 'string' || (mode !== 'single' && mode !== 'dialogue') || !provider || !voice || !emotion || !language) {
+    throw new ProjectFileError('The project could not be opened.', problems);
+  }
+  const { name, savedAt, chunkSilenceMs } = project;
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    name: typeof name === 'string' ? name : '',
+    savedAt: typeof savedAt === 'string' ? savedAt : '',
+    providerId: provider.id,
+    mode,
+    script,
+    voiceId: voice.id,
+    speakerVoices,
+    emotion,
+    language: language.id,
+    chunkSilenceMs: typeof chunkSilenceMs === 'number' && Number.isFinite(chunkSilenceMs) ? chunkSilenceMs : DEFAULT_CHUNK_SILENCE_MS,
+    processing: normalizeProcessingSettings(project.processing),
+    ...(embedded ? { audio: embedded } : {}),
+  };
+}
+
+/**
+ * Parses, migrates and validates the JSON text of a project file.
+ */
+export function parseProjectFile(text: string, providers: TtsProvider[]): ProjectFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('The project file is not valid JSON.');
+  }
+  return validateProject(migrateProject(raw), providers);
+}
+
+export function createProjectFile(name: string, state: ProjectState, audio?: ProjectAudio, savedAt: Date = new Date()): ProjectFile {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    name,
+    savedAt: savedAt.toISOString(),
+    ...state,
+    ...(audio ? { audio } : {}),
+  };
+}
+
+export const serializeProject = (project: ProjectFile) => JSON.stringify(project, null, 2);
+
+/**
+ * Keeps the latest session in a single storage slot so it survives closing
+ * the tab. Audio is never autosaved; it would quickly exceed the storage quota.
+ */
+export interface ProjectAutosave {
+  load(): string | null;
+  save(project: ProjectFile): void;
+}
+
+export function createProjectAutosave(storage: Storage = localStorage): ProjectAutosave {
+  return {
+    load() {
+      return storage.getItem(PROJECT_AUTOSAVE_STORAGE_KEY);
+    },
+
+    save(project) {
+      const { audio, ...withoutAudio } = project;
+      try {
+        storage.setItem(PROJECT_AUTOSAVE_STORAGE_KEY, serializeProject(withoutAudio));
+      } catch (err) {
+        // A full storage quota must not interrupt editing
+        console.warn('Autosave failed:', err);
+      }
+    },
+  };
+}
@@ -0,0 +1,20 @@
+import { TtsProvider } from './ttsProvider';
+import { generateSpeech, streamSpeech, generateDialogueSpeech, translateScript } from '../geminiService';
+import { VOICE_OPTIONS, LANGUAGE_OPTIONS, EMOTION_OPTIONS, GEMINI_TTS_MODEL, GEMINI_TEXT_MODEL } from '../../constants';
+
+export const geminiProvider: TtsProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  description: 'Google Gemini text-to-speech. Requires an API key.',
+  requiresApiKey: true,
+  model: GEMINI_TTS_MODEL,
+  textModel: GEMINI_TEXT_MODEL,
+  voices: VOICE_OPTIONS,
+  languages: LANGUAGE_OPTIONS,
+  emotions: EMOTION_OPTIONS.map((option) => option.id),
+  supportsVoicePresets: true,
+  generateSpeech,
+  streamSpeech,
+  generateDialogueSpeech,
+  translateScript,
+};
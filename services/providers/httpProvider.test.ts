@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHttpTtsProvider } from './httpProvider';
+import { EmptyAudioError, NetworkError, SpeechError } from '../speechErrors';
+import { VOICE_OPTIONS } from '../../constants';
+import { GenerateSpeechParams } from '../../types';
+
+const fetchMock = vi.fn();
+
+const provider = createHttpTtsProvider({
+  baseUrl: 'http://localhost:8787/',
+  voices: VOICE_OPTIONS,
+  languages: [{ id: 'english', label: 'English' }],
+  emotions: ['neutral'],
+});
+
+const params: GenerateSpeechParams = {
+  script: 'Hello there.',
+  voiceOption: VOICE_OPTIONS[0],
+  emotion: 'neutral',
+  language: 'english',
+  maxAttempts: 1,
+};
+
+const reply = (status: number, body: string) => new Response(body, { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('createHttpTtsProvider', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the request and returns the audio', async () => {
+    fetchMock.mockResolvedValue(reply(200, JSON.stringify({ audio: 'QUJD' })));
+
+    await expect(provider.generateSpeech({ ...params, slow: true })).resolves.toBe('QUJD');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8787/synthesize');
+    expect(JSON.parse(init.body)).toEqual({
+      script: 'Hello there.',
+      voice: VOICE_OPTIONS[0].voiceName,
+      emotion: 'neutral',
+      language: 'english',
+      rate: 'slow',
+    });
+  });
+
+  it('rejects a response whose audio is not a string', async () => {
+    fetchMock.mockResolvedValue(reply(200, JSON.stringify({ audio: 42 })));
+    const error = await provider.generateSpeech(params).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(SpeechError);
+    expect(error).toHaveProperty('kind', 'unknown');
+  });
+
+  it('rejects a body that is not a JSON object', async () => {
+    fetchMock.mockResolvedValue(reply(200, '["QUJD"]'));
+    await expect(provider.generateSpeech(params)).rejects.toThrow('malformed response');
+  });
+
+  it('reports a missing audio field as empty audio', async () => {
+    fetchMock.mockResolvedValue(reply(200, '{}'));
+    await expect(provider.generateSpeech(params)).rejects.toBeInstanceOf(EmptyAudioError);
+  });
+
+  it('uses the error message from a failed response', async () => {
+    fetchMock.mockResolvedValue(reply(400, JSON.stringify({ error: 'Unknown voice' })));
+    await expect(provider.generateSpeech(params)).rejects.toThrow('Failed to generate speech: Unknown voice');
+  });
+
+  it('reports an unreachable service as a network error', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+    const error = await provider.generateSpeech(params).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toHaveProperty('message', 'Could not reach http://localhost:8787/synthesize (fetch failed).');
+  });
+
+  it('reports every attempt with the script length', async () => {
+    fetchMock.mockResolvedValue(reply(200, JSON.stringify({ audio: 'QUJD' })));
+    const onAttempt = vi.fn();
+
+    await provider.generateSpeech({ ...params, onAttempt });
+
+    expect(onAttempt).toHaveBeenCalledTimes(1);
+    expect(onAttempt.mock.calls[0][0]).toMatchObject({ characters: params.script.length, error: undefined });
+  });
+});
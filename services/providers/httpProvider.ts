@@ -0,0 +1,86 @@
+import { TtsProvider, generateDialogueLineByLine } from './ttsProvider';
+import { VoiceOption, Emotion, Language, GenerateSpeechParams } from '../../types';
+import { SPEECH_RETRY_ATTEMPTS, SPEECH_RETRY_BASE_DELAY_MS, SPEECH_RETRY_MAX_DELAY_MS } from '../../constants';
+import { withRetry } from '../retry';
+import { CancelledError, EmptyAudioError, NetworkError, SpeechError, errorFromStatus } from '../speechErrors';
+import { isRecord } from '../jsonStorage';
+
+export interface HttpProviderConfig {
+  baseUrl: string;
+  label?: string;
+  voices: VoiceOption[];
+  languages: { id: Language, label: string }[];
+  emotions: Emotion[];
+  headers?: Record<string, string>;
+}
+
+/**
+ * Provider for a self-hosted TTS service. The endpoint receives
+ * `POST {baseUrl}/synthesize` with `{ script, voice, emotion, language, rate }` and
+ * responds with `{ audio }` holding base64 PCM in the same format Gemini returns,
+ * or with `{ error }` and a failure status.
+ */
+export function createHttpTtsProvider(config: HttpProviderConfig): TtsProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/synthesize`;
+
+  const synthesizeOnce = async (params: GenerateSpeechParams): Promise<string> => {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...config.headers },
+        body: JSON.stringify({
+          script: params.script,
+          voice: params.voiceOption.voiceName,
+          emotion: params.emotion,
+          language: params.language,
+          rate: params.slow ? 'slow' : 'normal',
+        }),
+        signal: params.signal,
+      });
+    } catch (error) {
+      if (params.signal?.aborted) {
+        throw new CancelledError(undefined, { cause: error });
+      }
+      const reason = error instanceof Error && error.message ? error.message : 'network error';
+      throw new NetworkError(`Could not reach ${endpoint} (${reason}).`, { cause: error });
+    }
+
+    const body: unknown = await response.json().catch(() => undefined);
+    if (!response.ok) {
+      const message = isRecord(body) && typeof body.error === 'string' && body.error ? body.error : `HTTP ${response.status}`;
+      throw errorFromStatus(response.status, message);
+    }
+    // A missing audio field reads as empty audio, which is worth retrying
+    const audio = isRecord(body) ? body.audio ?? '' : null;
+    if (typeof audio !== 'string') {
+      throw new SpeechError(`${endpoint} sent a malformed response; expected JSON with base64 audio.`);
+    }
+    if (!audio) {
+      throw new EmptyAudioError("No audio data received from the API.");
+    }
+    return audio;
+  };
+
+  const generateSpeech = (params: GenerateSpeechParams): Promise<string> =>
+    withRetry(() => synthesizeOnce(params), {
+      maxAttempts: params.maxAttempts ?? SPEECH_RETRY_ATTEMPTS,
+      baseDelayMs: SPEECH_RETRY_BASE_DELAY_MS,
+      maxDelayMs: SPEECH_RETRY_MAX_DELAY_MS,
+      signal: params.signal,
+      onAttempt: (latencyMs, error) => params.onAttempt?.({ characters: params.script.length, latencyMs, error }),
+    });
+
+  return {
+    id: 'http',
+    label: config.label ?? 'Self-hosted',
+    description: `Team-hosted TTS service at ${config.baseUrl}.`,
+    requiresApiKey: false,
+    model: 'self-hosted',
+    voices: config.voices,
+    languages: config.languages,
+    emotions: config.emotions,
+    generateSpeech,
+    generateDialogueSpeech: (params) => generateDialogueLineByLine(generateSpeech, params),
+  };
+}
@@ -0,0 +1,41 @@
+import { TtsProvider } from './ttsProvider';
+import { TtsProviderId } from '../../types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+import { createHttpTtsProvider } from './httpProvider';
+import { LANGUAGE_OPTIONS, EMOTION_OPTIONS } from '../../constants';
+
+export type { TtsProvider } from './ttsProvider';
+
+function configuredHttpProvider(): TtsProvider | null {
+  const baseUrl = process.env.TTS_HTTP_URL;
+  if (!baseUrl) {
+    return null;
+  }
+  // TTS_HTTP_VOICES is a comma-separated list of voice names the service accepts.
+  const voiceNames = (process.env.TTS_HTTP_VOICES || 'default').split(',').map((name) => name.trim()).filter(Boolean);
+  return createHttpTtsProvider({
+    baseUrl,
+    voices: voiceNames.map((name) => ({
+      id: `http-${name}`,
+      label: `${name} (Self-hosted)`,
+      voiceName: name,
+      description: `Voice "${name}" served by the team TTS endpoint.`,
+    })),
+    languages: LANGUAGE_OPTIONS,
+    emotions: EMOTION_OPTIONS.map((option) => option.id),
+  });
+}
+
+/**
+ * Providers available in this build. Gemini is first and therefore the default;
+ * the self-hosted provider only appears when TTS_HTTP_URL is configured.
+ */
+export const TTS_PROVIDERS: TtsProvider[] = [geminiProvider, mockProvider, configuredHttpProvider()]
+  .filter((provider): provider is TtsProvider => provider !== null);
+
+export const DEFAULT_TTS_PROVIDER = TTS_PROVIDERS[0];
+
+export function getTtsProvider(id: TtsProviderId | undefined): TtsProvider {
+  return TTS_PROVIDERS.find((provider) => provider.id === id) ?? DEFAULT_TTS_PROVIDER;
+}
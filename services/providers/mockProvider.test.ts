@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mockProvider } from './mockProvider';
+import { CancelledError } from '../speechErrors';
+import { GenerateSpeechParams } from '../../types';
+
+const params = (overrides: Partial<GenerateSpeechParams> = {}): GenerateSpeechParams => ({
+  script: 'Hello there.',
+  voiceOption: mockProvider.voices[0],
+  emotion: 'neutral',
+  language: 'english',
+  ...overrides,
+});
+
+describe('mockProvider', () => {
+  it('reports each request as one attempt', async () => {
+    const onAttempt = vi.fn();
+
+    await mockProvider.generateSpeech(params({ onAttempt }));
+
+    expect(onAttempt).toHaveBeenCalledTimes(1);
+    expect(onAttempt.mock.calls[0][0]).toMatchObject({ characters: 'Hello there.'.length, error: undefined });
+  });
+
+  it('reports a cancelled request with its error', async () => {
+    const onAttempt = vi.fn();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(mockProvider.generateSpeech(params({ onAttempt, signal: controller.signal }))).rejects.toBeInstanceOf(CancelledError);
+    expect(onAttempt.mock.calls[0][0].error).toBeInstanceOf(CancelledError);
+  });
+
+  it('reports one attempt per line of a dialogue', async () => {
+    const onAttempt = vi.fn();
+    const [low, high] = mockProvider.voices;
+
+    await mockProvider.generateDialogueSpeech({
+      lines: [{ speaker: 'A', text: 'Hi.', lineNumber: 1 }, { speaker: 'B', text: 'Hello!', lineNumber: 2 }],
+      speakerVoices: { A: low, B: high },
+      emotion: 'neutral',
+      language: 'english',
+      onAttempt,
+    });
+
+    expect(onAttempt.mock.calls.map(([attempt]) => attempt.characters)).toEqual([3, 6]);
+  });
+});
@@ -0,0 +1,187 @@
+import { TtsProvider, generateDialogueLineByLine } from './ttsProvider';
+import { VoiceOption, Emotion, GenerateSpeechParams, TranslateScriptParams, ProviderAttempt } from '../../types';
+import { LANGUAGE_OPTIONS, EMOTION_OPTIONS, TTS_SAMPLE_RATE, encode } from '../../constants';
+import { floatTo16BitPCM } from '../encoders/wav';
+import { sleep } from '../retry';
+import { transliterateScript } from '../transliteration';
+import { CancelledError } from '../speechErrors';
+
+const MOCK_VOICES: VoiceOption[] = [
+  {
+    id: 'mock-low',
+    label: 'Mock Low (Offline)',
+    voiceName: 'mock-low',
+    description: 'A deterministic low-pitched synthetic voice for development and tests.',
+  },
+  {
+    id: 'mock-high',
+    label: 'Mock High (Offline)',
+    voiceName: 'mock-high',
+    description: 'A deterministic high-pitched synthetic voice for development and tests.',
+  },
+];
+
+const BASE_PITCH_HZ: Record<string, number> = {
+  'mock-low': 110,
+  'mock-high': 220,
+};
+
+// Emotions shift pitch and speaking rate so style changes are audible offline.
+const EMOTION_PROSODY: Record<Emotion, { pitch: number, rate: number }> = {
+  neutral: { pitch: 1, rate: 1 },
+  happy: { pitch: 1.15, rate: 1.1 },
+  sad: { pitch: 0.85, rate: 0.8 },
+  angry: { pitch: 1.05, rate: 1.2 },
+  cheerful: { pitch: 1.2, rate: 1.1 },
+  calm: { pitch: 0.95, rate: 0.85 },
+  excited: { pitch: 1.3, rate: 1.3 },
+};
+
+const SLOW_RATE_FACTOR = 0.7;
+const CHARACTER_MS = 70;
+const SPACE_MS = 60;
+const PUNCTUATION_MS = 250;
+const EDGE_FADE_MS = 8;
+const HARMONICS = 12;
+
+function formantsFor(char: string): [number, number] {
+  // Spread code points over plausible vowel formant ranges.
+  const code = char.codePointAt(0) ?? 0;
+  return [300 + (code * 37) % 600, 900 + (code * 91) % 1600];
+}
+
+function formantGain(frequency: number, formant: number, bandwidth: number): number {
+  const distance = (frequency - formant) / bandwidth;
+  return Math.exp(-distance * distance);
+}
+
+/**
+ * Renders a script as formant-shaped harmonic tones, one short segment per
+ * character with pauses at spaces and punctuation. The output depends only on
+ * the inputs, so tests can compare it byte for byte.
+ */
+export function synthesizeMockSpeech(params: GenerateSpeechParams, sampleRate: number = TTS_SAMPLE_RATE): Float32Array {
+  const prosody = EMOTION_PROSODY[params.emotion] ?? EMOTION_PROSODY.neutral;
+  const pitch = (BASE_PITCH_HZ[params.voiceOption.voiceName] ?? 160) * prosody.pitch;
+  const rate = prosody.rate * (params.slow ? SLOW_RATE_FACTOR : 1);
+  const samplesFor = (ms: number) => Math.round((ms / rate / 1000) * sampleRate);
+  const fadeLength = Math.round((EDGE_FADE_MS / 1000) * sampleRate);
+
+  const segments: Float32Array[] = [];
+  for (const char of Array.from(params.script)) {
+    if (/\s/u.test(char)) {
+      segments.push(new Float32Array(samplesFor(SPACE_MS)));
+      continue;
+    }
+    if (/[\p{P}]/u.test(char)) {
+      segments.push(new Float32Array(samplesFor(PUNCTUATION_MS)));
+      continue;
+    }
+
+    const [f1, f2] = formantsFor(char);
+    const gains = Array.from({ length: HARMONICS }, (_, h) => {
+      const frequency = pitch * (h + 1);
+      return formantGain(frequency, f1, 150) + 0.5 * formantGain(frequency, f2, 250);
+    });
+    const norm = gains.reduce((sum, gain) => sum + gain, 0) || 1;
+
+    const segment = new Float32Array(samplesFor(CHARACTER_MS));
+    for (let i = 0; i < segment.length; i++) {
+      const t = i / sampleRate;
+      let value = 0;
+      for (let h = 0; h < HARMONICS; h++) {
+        value += gains[h] * Math.sin(2 * Math.PI * pitch * (h + 1) * t);
+      }
+      const edge = Math.min(1, i / fadeLength, (segment.length - 1 - i) / fadeLength);
+      segment[i] = 0.4 * (value / norm) * edge;
+    }
+    segments.push(segment);
+  }
+
+  const output = new Float32Array(segments.reduce((sum, segment) => sum + segment.length, 0));
+  let offset = 0;
+  for (const segment of segments) {
+    output.set(segment, offset);
+    offset += segment.length;
+  }
+  return output;
+}
+
+// Each mock request counts as one attempt, so offline runs reach the usage log and budget
+async function reportAttempt<T>(
+  characters: number,
+  onAttempt: ((attempt: ProviderAttempt) => void) | undefined,
+  run: () => Promise<T>,
+): Promise<T> {
+  const started = performance.now();
+  let failure: unknown;
+  try {
+    return await run();
+  } catch (error) {
+    failure = error;
+    throw error;
+  } finally {
+    onAttempt?.({ characters, latencyMs: Math.round(performance.now() - started), error: failure });
+  }
+}
+
+const generateMockSpeech = (params: GenerateSpeechParams): Promise<string> =>
+  reportAttempt(params.script.length, params.onAttempt, async () => {
+    if (params.signal?.aborted) {
+      throw new CancelledError();
+    }
+    const samples = synthesizeMockSpeech(params);
+    const bytes = new Uint8Array(samples.length * 2);
+    floatTo16BitPCM(new DataView(bytes.buffer), 0, samples);
+    return encode(bytes);
+  });
+
+// Streamed mock audio arrives in slices with a short delay, like a network response would
+const MOCK_STREAM_CHUNK_SECONDS = 0.5;
+const MOCK_STREAM_DELAY_MS = 150;
+
+async function* streamMockSpeech(params: GenerateSpeechParams): AsyncGenerator<string> {
+  const started = performance.now();
+  let failure: unknown;
+  try {
+    const samples = synthesizeMockSpeech(params);
+    const bytes = new Uint8Array(samples.length * 2);
+    floatTo16BitPCM(new DataView(bytes.buffer), 0, samples);
+    const chunkBytes = Math.round(MOCK_STREAM_CHUNK_SECONDS * TTS_SAMPLE_RATE) * 2;
+    for (let offset = 0; offset < bytes.length; offset += chunkBytes) {
+      await sleep(MOCK_STREAM_DELAY_MS, params.signal);
+      yield encode(bytes.subarray(offset, offset + chunkBytes));
+    }
+  } catch (error) {
+    failure = error;
+    throw error;
+  } finally {
+    params.onAttempt?.({ characters: params.script.length, latencyMs: Math.round(performance.now() - started), error: failure });
+  }
+}
+
+const MOCK_TRANSLATE_DELAY_MS = 300;
+
+// Stands in for a text model offline: "translating" transliterates into the target script
+function translateMockScript(params: TranslateScriptParams): Promise<string> {
+  return reportAttempt(params.script.length, params.onAttempt, async () => {
+    await sleep(MOCK_TRANSLATE_DELAY_MS, params.signal);
+    return transliterateScript(params.script, params.language, { keepSpeakerLabels: true });
+  });
+}
+
+export const mockProvider: TtsProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  description: 'Deterministic synthetic tones generated locally. No network or API key needed.',
+  requiresApiKey: false,
+  model: 'mock-tts',
+  textModel: 'mock-transliterator',
+  voices: MOCK_VOICES,
+  languages: LANGUAGE_OPTIONS,
+  emotions: EMOTION_OPTIONS.map((option) => option.id),
+  generateSpeech: generateMockSpeech,
+  streamSpeech: streamMockSpeech,
+  generateDialogueSpeech: (params) => generateDialogueLineByLine(generateMockSpeech, params),
+  translateScript: translateMockScript,
+};
@@ -0,0 +1,49 @@
+import { VoiceOption, Emotion, Language, TtsProviderId, GenerateSpeechParams, GenerateDialogueSpeechParams, TranslateScriptParams } from '../../types';
+
+/**
+ * A text-to-speech backend. Every provider returns base64-encoded 16-bit mono
+ * PCM at TTS_SAMPLE_RATE, so the rest of the app does not care which one ran.
+ * Failures are reported as SpeechError subclasses (see speechErrors.ts).
+ */
+export interface TtsProvider {
+  id: TtsProviderId;
+  label: string;
+  description: string;
+  requiresApiKey: boolean;
+  model: string; // Speech model billed for each request, recorded in the usage log
+  textModel?: string; // Model used by translateScript
+  voices: VoiceOption[];
+  languages: { id: Language, label: string }[];
+  emotions: Emotion[]; // Styles the provider can honour; others are hidden in the UI
+  supportsVoicePresets?: boolean; // Accepts any Gemini prebuilt voice name and style prompt, so custom presets are offered
+  generateSpeech(params: GenerateSpeechParams): Promise<string>;
+  // Optional: yields the same audio as base64 PCM chunks while it is being generated.
+  streamSpeech?(params: GenerateSpeechParams): AsyncIterable<string>;
+  // Returns one or more clips in script order, to be joined by the caller.
+  generateDialogueSpeech(params: GenerateDialogueSpeechParams): Promise<string[]>;
+  // Optional: translates a script with a text model, keeping markup and speaker labels intact.
+  translateScript?(params: TranslateScriptParams): Promise<string>;
+}
+
+/**
+ * Dialogue fallback for providers without native multi-speaker support:
+ * each line is generated separately with its speaker's voice.
+ */
+export async function generateDialogueLineByLine(
+  generateSpeech: TtsProvider['generateSpeech'],
+  params: GenerateDialogueSpeechParams,
+): Promise<string[]> {
+  const { lines, speakerVoices, emotion, language, signal, onAttempt } = params;
+  const clips: string[] = [];
+  for (const line of lines) {
+    clips.push(await generateSpeech({
+      script: line.text,
+      voiceOption: speakerVoices[line.speaker],
+      emotion,
+      language,
+      signal,
+      onAttempt,
+    }));
+  }
+  return clips;
+}
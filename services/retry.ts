@@ -0,0 +1,78 @@
+import { SpeechError, CancelledError, QuotaError, isRetryableError, toSpeechError } from './speechErrors';
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void;
+  onAttempt?: (latencyMs: number, error?: SpeechError) => void; // After every call of the operation
+  // Injectable for tests
+  random?: () => number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Resolves after `ms`, or rejects with CancelledError as soon as the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based): exponential growth capped at
+ * `maxDelayMs`, with full jitter so concurrent callers spread out.
+ */
+export function backoffDelayMs(attempt: number, baseDelayMs: number, maxDelayMs: number, random: () => number = Math.random): number {
+  return Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)));
+}
+
+/**
+ * Runs `operation` until it succeeds, fails with a non-retryable error or runs
+ * out of attempts. Errors are normalized to SpeechError. A QuotaError carrying
+ * a server-suggested delay waits at least that long. `onAttempt` hears about
+ * every attempt, so callers can account for each billed request.
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { maxAttempts, baseDelayMs, maxDelayMs, signal, onRetry, onAttempt, random } = options;
+  const wait = options.sleep ?? sleep;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw new CancelledError();
+    }
+    const started = performance.now();
+    const latencyMs = () => Math.round(performance.now() - started);
+    try {
+      const result = await operation(attempt);
+      onAttempt?.(latencyMs());
+      return result;
+    } catch (caught) {
+      const error = signal?.aborted ? new CancelledError(undefined, { cause: caught }) : toSpeechError(caught);
+      onAttempt?.(latencyMs(), error);
+      if (attempt >= maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+      let delay = backoffDelayMs(attempt, baseDelayMs, maxDelayMs, random);
+      if (error instanceof QuotaError && error.retryAfterMs !== undefined) {
+        delay = Math.max(delay, error.retryAfterMs);
+      }
+      onRetry?.(error, attempt, delay);
+      await wait(delay, signal);
+    }
+  }
+}
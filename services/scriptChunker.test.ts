@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { splitSentences, splitScript, chunkSpeechPlan, planScriptChunks } from './scriptChunker';
+import { LexiconEntry } from '../types';
+
+describe('splitSentences', () => {
+  it('splits at terminators followed by whitespace and keeps decimals intact', () => {
+    expect(splitSentences('It costs 3.5 rupees. Really? Yes!')).toEqual(['It costs 3.5 rupees.', 'Really?', 'Yes!']);
+  });
+
+  it('keeps runs of terminators and closing quotes with the sentence', () => {
+    expect(splitSentences('He asked "Why?!" Then he left\u2026 Done')).toEqual(['He asked "Why?!"', 'Then he left\u2026', 'Done']);
+  });
+
+  it('splits Hindi at the danda and double danda', () => {
+    const text = '\u0928\u092E\u0938\u094D\u0924\u0947\u0964 \u0906\u092A \u0915\u0948\u0938\u0947 \u0939\u0948\u0902\u0965 \u0920\u0940\u0915';
+    expect(splitSentences(text)).toEqual([
+      '\u0928\u092E\u0938\u094D\u0924\u0947\u0964',
+      '\u0906\u092A \u0915\u0948\u0938\u0947 \u0939\u0948\u0902\u0965',
+      '\u0920\u0940\u0915',
+    ]);
+  });
+
+  it('does not split at a danda inside a word', () => {
+    expect(splitSentences('\u0915\u0964\u0916 \u0917\u0964')).toEqual(['\u0915\u0964\u0916 \u0917\u0964']);
+  });
+});
+
+describe('splitScript', () => {
+  it('keeps paragraphs that fit together and collapses whitespace', () => {
+    expect(splitScript('One  two.\n\nThree\nfour.', 100)).toEqual(['One two.\n\nThree four.']);
+  });
+
+  it('starts a new chunk when the next paragraph would not fit', () => {
+    expect(splitScript('First paragraph.\n\nSecond paragraph.', 20)).toEqual(['First paragraph.', 'Second paragraph.']);
+  });
+
+  it('splits a long paragraph into whole sentences', () => {
+    const chunks = splitScript('One sentence here. Another one here. And a third.', 40);
+    expect(chunks).toEqual(['One sentence here. Another one here.', 'And a third.']);
+  });
+
+  it('splits at the danda when a Hindi paragraph is too long', () => {
+    const sentence = '\u0928\u092E\u0938\u094D\u0924\u0947 \u0926\u094B\u0938\u094D\u0924\u094B\u0964';
+    expect(splitScript(`${sentence} ${sentence}`, sentence.length + 5)).toEqual([sentence, sentence]);
+  });
+
+  it('breaks an over-long sentence at the last space before the limit', () => {
+    const chunks = splitScript('alpha beta gamma delta epsilon zeta', 12);
+    expect(chunks).toEqual(['alpha beta', 'gamma delta', 'epsilon zeta']);
+    expect(chunks.every((chunk) => chunk.length <= 12)).toBe(true);
+  });
+
+  it('hard-splits a word longer than the limit', () => {
+    expect(splitScript('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('returns no chunks for a blank script', () => {
+    expect(splitScript(' \n\n \n', 10)).toEqual([]);
+  });
+});
+
+describe('chunkSpeechPlan', () => {
+  it('numbers the chunks, keeps the slow flag and puts a pause after the last chunk of its part', () => {
+    const chunks = chunkSpeechPlan({
+      leadingPauseMs: 0,
+      parts: [
+        { text: 'First part. Still the first part.', slow: true, pauseAfterMs: 500 },
+        { text: 'Second.', slow: false, pauseAfterMs: 0 },
+      ],
+    }, 20);
+
+    expect(chunks).toEqual([
+      { index: 0, text: 'First part.', slow: true, pauseAfterMs: undefined, status: 'pending' },
+      { index: 1, text: 'Still the first', slow: true, pauseAfterMs: undefined, status: 'pending' },
+      { index: 2, text: 'part.', slow: true, pauseAfterMs: 500, status: 'pending' },
+      { index: 3, text: 'Second.', slow: false, pauseAfterMs: undefined, status: 'pending' },
+    ]);
+  });
+});
+
+describe('planScriptChunks', () => {
+  const lexicon: LexiconEntry[] = [
+    { id: '1', term: 'GIF', replacement: 'jif', language: null, caseSensitive: true, wholeWord: true },
+  ];
+
+  it('applies the lexicon and splits the script at pauses and rate changes', () => {
+    expect(planScriptChunks('[pause 200ms]Say GIF. [pause 1s] <slow>Slowly now.</slow>', lexicon, 'english', 1500)).toEqual({
+      leadingPauseMs: 200,
+      chunks: [
+        { index: 0, text: 'Say jif.', slow: false, pauseAfterMs: 1000, status: 'pending' },
+        { index: 1, text: 'Slowly now.', slow: true, pauseAfterMs: undefined, status: 'pending' },
+      ],
+    });
+  });
+
+  it('rejects a script with nothing to speak', () => {
+    expect(() => planScriptChunks('[pause 1s]', [], 'english', 1500)).toThrow('no text to speak');
+  });
+});
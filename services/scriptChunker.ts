@@ -0,0 +1,146 @@
+import { SpeechPlan, parseMarkup, buildSpeechPlan } from './scriptMarkup';
+import { applyLexicon } from './lexicon';
+import { Language, LexiconEntry, ScriptChunk } from '../types';
+
+// Sentence terminators for English and the Indic scripts we support. Hindi uses the
+// danda (।) and double danda (॥); Telugu and Tamil text uses either the danda or
+// Latin punctuation.
+const SENTENCE_TERMINATORS = new Set(['.', '!', '?', '…', '।', '॥']);
+const CLOSING_PUNCTUATION = new Set(['"', "'", '”', '’', ')', ']', '»']);
+
+/**
+ * Splits a paragraph into sentences. A terminator only ends a sentence when it is
+ * followed by whitespace or the end of the text, so decimals like "3.5" stay intact.
+ */
+export function splitSentences(text: string): string[] {
+  const chars = Array.from(text);
+  const sentences: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    current += chars[i];
+    if (!SENTENCE_TERMINATORS.has(chars[i])) {
+      continue;
+    }
+
+    // Keep runs like "?!" or "।।" and any closing quotes with the sentence.
+    while (i + 1 < chars.length && (SENTENCE_TERMINATORS.has(chars[i + 1]) || CLOSING_PUNCTUATION.has(chars[i + 1]))) {
+      current += chars[++i];
+    }
+
+    if (i + 1 === chars.length || /\s/.test(chars[i + 1])) {
+      sentences.push(current.trim());
+      current = '';
+    }
+  }
+
+  if (current.trim()) {
+    sentences.push(current.trim());
+  }
+  return sentences.filter((sentence) => sentence.length > 0);
+}
+
+/**
+ * Splits a script into chunks of at most `maxChars` characters for separate TTS
+ * requests. Whole paragraphs are kept together when they fit, then whole sentences;
+ * a single sentence longer than the limit is broken at the last whitespace.
+ */
+export function splitScript(script: string, maxChars: number): string[] {
+  const paragraphs = script
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+    .filter((paragraph) => paragraph.length > 0);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current) {
+      chunks.push(current);
+      current = '';
+    }
+  };
+
+  const append = (piece: string, separator: string) => {
+    if (!current) {
+      current = piece;
+    } else if (current.length + separator.length + piece.length <= maxChars) {
+      current += separator + piece;
+    } else {
+      flush();
+      current = piece;
+    }
+  };
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length <= maxChars) {
+      append(paragraph, '\n\n');
+      continue;
+    }
+
+    flush();
+    for (const sentence of splitSentences(paragraph)) {
+      for (const piece of breakLongText(sentence, maxChars)) {
+        append(piece, ' ');
+      }
+    }
+    flush();
+  }
+
+  flush();
+  return chunks;
+}
+
+function breakLongText(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let remaining = text;
+
+  while (remaining.length > maxChars) {
+    let breakAt = remaining.lastIndexOf(' ', maxChars);
+    if (breakAt <= 0) {
+      breakAt = maxChars;
+    }
+    pieces.push(remaining.slice(0, breakAt).trim());
+    remaining = remaining.slice(breakAt).trim();
+  }
+
+  if (remaining) {
+    pieces.push(remaining);
+  }
+  return pieces;
+}
+
+/**
+ * Splits each part of a speech plan into request-sized chunks. A part's pause
+ * follows its last chunk; its slow flag applies to all of them.
+ */
+export function chunkSpeechPlan(plan: SpeechPlan, maxChars: number): ScriptChunk[] {
+  return plan.parts
+    .flatMap((part) => {
+      const pieces = splitScript(part.text, maxChars);
+      return pieces.map((text, pieceIndex) => ({
+        text,
+        slow: part.slow,
+        pauseAfterMs: pieceIndex === pieces.length - 1 && part.pauseAfterMs > 0 ? part.pauseAfterMs : undefined,
+      }));
+    })
+    .map((chunk, index) => ({ ...chunk, index, status: 'pending' }));
+}
+
+export interface ScriptPlan {
+  chunks: ScriptChunk[];
+  leadingPauseMs: number;
+}
+
+/**
+ * Plans the requests for a marked-up script: lexicon entries become
+ * pronunciation overrides, so only the spoken text changes, then pauses and
+ * rate changes split it into request-sized chunks.
+ */
+export function planScriptChunks(script: string, lexicon: LexiconEntry[], language: Language, maxChars: number): ScriptPlan {
+  const plan = buildSpeechPlan(parseMarkup(applyLexicon(script, lexicon, language)).segments);
+  if (plan.parts.length === 0) {
+    throw new Error('The script has no text to speak.');
+  }
+  return { chunks: chunkSpeechPlan(plan, maxChars), leadingPauseMs: plan.leadingPauseMs };
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_PAUSE_MS, blankOutMarkup, buildSpeechPlan, parseMarkup, renderMarkupAsText } from './scriptMarkup';
+
+const plan = (source: string) => buildSpeechPlan(parseMarkup(source).segments);
+const messages = (source: string) => parseMarkup(source).errors.map((error) => error.message);
+
+describe('parseMarkup', () => {
+  it('reads pauses in milliseconds and seconds', () => {
+    expect(parseMarkup('Hi [pause 500ms] there [PAUSE 1.5 s]').segments).toEqual([
+      { type: 'text', text: 'Hi ', emphasis: false, slow: false },
+      { type: 'pause', durationMs: 500 },
+      { type: 'text', text: ' there ', emphasis: false, slow: false },
+      { type: 'pause', durationMs: 1500 },
+    ]);
+  });
+
+  it('marks emphasis and slow spans on the text', () => {
+    expect(parseMarkup('a *b* <slow>c</SLOW>').segments).toEqual([
+      { type: 'text', text: 'a ', emphasis: false, slow: false },
+      { type: 'text', text: 'b', emphasis: true, slow: false },
+      { type: 'text', text: ' ', emphasis: false, slow: false },
+      { type: 'text', text: 'c', emphasis: false, slow: true },
+    ]);
+  });
+
+  it('speaks the spelling of a pronunciation override', () => {
+    expect(renderMarkupAsText('Visit {Pujiverse| poo-jee-verse }.')).toBe('Visit poo-jee-verse.');
+  });
+
+  it('treats escaped characters as text', () => {
+    const parsed = parseMarkup(String.raw`5 \* 3 \[pause 1s\] \{a\|b\} \<slow\> \\ \q`);
+    expect(parsed.errors).toEqual([]);
+    expect(renderMarkupAsText(String.raw`5 \* 3 \[pause 1s\] \{a\|b\} \<slow\> \\ \q`)).toBe(String.raw`5 * 3 [pause 1s] {a|b} <slow> \ \q`);
+  });
+
+  it('keeps angle brackets that are not slow tags', () => {
+    expect(renderMarkupAsText('1 < 2 and <b>bold</b>')).toBe('1 < 2 and <b>bold</b>');
+  });
+
+  it('reports malformed pauses with their position', () => {
+    const { errors, segments } = parseMarkup('One\ntwo [pause soon] three');
+    expect(errors).toEqual([{
+      message: 'Invalid pause. Use [pause 500ms] or [pause 1.5s].',
+      offset: 8,
+      length: 12,
+      line: 2,
+      column: 5,
+    }]);
+    expect(segments).toEqual([{ type: 'text', text: 'One\ntwo  three', emphasis: false, slow: false }]);
+  });
+
+  it('stops an unterminated pause at the end of the line', () => {
+    expect(parseMarkup('[pause 5\nnext').errors[0]).toMatchObject({ offset: 0, length: 8 });
+  });
+
+  it('rejects pauses over the maximum', () => {
+    expect(messages(`[pause ${MAX_PAUSE_MS + 1}ms]`)).toEqual(['Pause is too long; the maximum is 10s.']);
+    expect(messages(`[pause ${MAX_PAUSE_MS / 1000}s]`)).toEqual([]);
+  });
+
+  it('reports unclosed, nested and unmatched spans', () => {
+    expect(messages('*loud')).toEqual(['Unclosed emphasis. Add a closing *.']);
+    expect(messages('<slow>a <slow>b</slow>')).toEqual(['<slow> spans cannot be nested.']);
+    expect(messages('a</slow>')).toEqual(['</slow> has no matching <slow>.']);
+    expect(parseMarkup('x <slow>never closed').errors).toEqual([
+      expect.objectContaining({ message: 'Unclosed <slow> span. Add </slow>.', offset: 2, length: 6 }),
+    ]);
+  });
+
+  it('reports malformed pronunciation overrides', () => {
+    expect(messages('{word\n|spelling}')).toEqual(['Unclosed pronunciation override. Use {word|phonetic spelling}.']);
+    expect(messages('{word}')).toEqual(['Pronunciation override needs a word and a spelling: {word|phonetic spelling}.']);
+    expect(messages('{a|b|c} { |b}')).toHaveLength(2);
+  });
+
+  it('sorts errors by position', () => {
+    const offsets = parseMarkup('*a [pause x] {b}').errors.map((error) => error.offset);
+    expect(offsets).toEqual([0, 3, 13]);
+  });
+});
+
+describe('buildSpeechPlan', () => {
+  it('splits parts at pauses and rate changes', () => {
+    expect(plan('[pause 1s]Hello. [pause 300ms][pause 200ms] <slow>Take it easy.</slow> Bye.')).toEqual({
+      leadingPauseMs: 1000,
+      parts: [
+        { text: 'Hello.', slow: false, pauseAfterMs: 500 },
+        { text: 'Take it easy.', slow: true, pauseAfterMs: 0 },
+        { text: 'Bye.', slow: false, pauseAfterMs: 0 },
+      ],
+    });
+  });
+
+  it('keeps emphasis markers inside the part and whitespace outside them', () => {
+    expect(plan('This is * really * good').parts).toEqual([{ text: 'This is  *really*  good', slow: false, pauseAfterMs: 0 }]);
+  });
+
+  it('drops whitespace-only parts and merges their pauses', () => {
+    expect(plan('A [pause 100ms]  [pause 100ms] B')).toEqual({
+      leadingPauseMs: 0,
+      parts: [{ text: 'A', slow: false, pauseAfterMs: 200 }, { text: 'B', slow: false, pauseAfterMs: 0 }],
+    });
+  });
+});
+
+describe('renderMarkupAsText', () => {
+  it('drops pauses and rate spans but keeps emphasis', () => {
+    expect(renderMarkupAsText('Wait [pause 2s] for  <slow>*it*</slow>.')).toBe('Wait for *it*.');
+  });
+});
+
+describe('blankOutMarkup', () => {
+  it('replaces markup with spaces without moving the words', () => {
+    const source = 'Say [pause 1s]*hi* to {Puji|poo-jee} <slow>now</slow>';
+    const blanked = blankOutMarkup(source);
+    expect(blanked).toHaveLength(source.length);
+    expect(blanked.indexOf('Puji')).toBe(source.indexOf('Puji'));
+    expect(blanked.split(/\s+/).filter(Boolean)).toEqual(['Say', 'hi', 'to', 'Puji', 'now']);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * SSML-lite script markup:
+ *   [pause 500ms] / [pause 1.5s]  inserted silence
+ *   *emphasis*                    stressed words
+ *   {word|phonetic spelling}      pronunciation override (the phonetic text is spoken)
+ *   <slow>...</slow>              slower speaking rate
+ * A backslash escapes the next character, e.g. \* for a literal asterisk.
+ */
+
+export const MAX_PAUSE_MS = 10000;
+
+export interface MarkupError {
+  message: string;
+  offset: number; // UTF-16 offset into the source, for textarea selection
+  length: number;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export type MarkupSegment =
+  | { type: 'text', text: string, emphasis: boolean, slow: boolean }
+  | { type: 'pause', durationMs: number };
+
+export interface ParsedMarkup {
+  segments: MarkupSegment[];
+  errors: MarkupError[];
+}
+
+export interface SpeechPart {
+  text: string;
+  slow: boolean;
+  pauseAfterMs: number;
+}
+
+export interface SpeechPlan {
+  leadingPauseMs: number;
+  parts: SpeechPart[];
+}
+
+const PAUSE_PATTERN = /^\[pause\s+(\d+(?:\.\d+)?)\s*(ms|s)\s*\]/i;
+const ESCAPABLE = new Set(['\\', '*', '[', ']', '{', '}', '<', '>', '|']);
+
+function positionOf(source: string, offset: number): { line: number, column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset; i++) {
+    if (source[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Parses marked-up script text into text and pause segments. Parsing always
+ * completes; problems are collected as errors with their source positions so the
+ * editor can highlight all of them at once.
+ */
+export function parseMarkup(source: string): ParsedMarkup {
+  const segments: MarkupSegment[] = [];
+  const errors: MarkupError[] = [];
+  let emphasisStart: number | null = null;
+  let slowStart: number | null = null;
+  let i = 0;
+
+  const addError = (message: string, offset: number, length: number) => {
+    errors.push({ message, offset, length: Math.max(1, length), ...positionOf(source, offset) });
+  };
+
+  const pushText = (text: string) => {
+    const emphasis = emphasisStart !== null;
+    const slow = slowStart !== null;
+    const last = segments[segments.length - 1];
+    if (last && last.type === 'text' && last.emphasis === emphasis && last.slow === slow) {
+      last.text += text;
+    } else {
+      segments.push({ type: 'text', text, emphasis, slow });
+    }
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.slice(i);
+
+    if (char === '\\' && i + 1 < source.length && ESCAPABLE.has(source[i + 1])) {
+      pushText(source[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (char === '*') {
+      emphasisStart = emphasisStart === null ? i : null;
+      i++;
+      continue;
+    }
+
+    if (char === '[' && /^\[pause\b/i.test(rest)) {
+      const match = PAUSE_PATTERN.exec(rest);
+      if (!match) {
+        const close = rest.search(/[\]\n]/);
+        const length = close === -1 ? rest.length : rest[close] === ']' ? close + 1 : close;
+        addError('Invalid pause. Use [pause 500ms] or [pause 1.5s].', i, length);
+        i += length;
+        continue;
+      }
+      const durationMs = Math.round(parseFloat(match[1]) * (match[2].toLowerCase() === 's' ? 1000 : 1));
+      if (durationMs > MAX_PAUSE_MS) {
+        addError(`Pause is too long; the maximum is ${MAX_PAUSE_MS / 1000}s.`, i, match[0].length);
+      } else {
+        segments.push({ type: 'pause', durationMs });
+      }
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '{') {
+      const lineEnd = rest.indexOf('\n');
+      const close = rest.indexOf('}');
+      if (close === -1 || (lineEnd !== -1 && close > lineEnd)) {
+        addError('Unclosed pronunciation override. Use {word|phonetic spelling}.', i, 1);
+        i++;
+        continue;
+      }
+      const body = rest.slice(1, close);
+      const parts = body.split('|');
+      if (parts.length !== 2 || !parts[0].trim() || !parts[1].trim()) {
+        addError('Pronunciation override needs a word and a spelling: {word|phonetic spelling}.', i, close + 1);
+      } else {
+        pushText(parts[1].trim());
+      }
+      i += close + 1;
+      continue;
+    }
+
+    if (char === '<') {
+      if (/^<slow>/i.test(rest)) {
+        if (slowStart !== null) {
+          addError('<slow> spans cannot be nested.', i, 6);
+        } else {
+          slowStart = i;
+        }
+        i += 6;
+        continue;
+      }
+      if (/^<\/slow>/i.test(rest)) {
+        if (slowStart === null) {
+          addError('</slow> has no matching <slow>.', i, 7);
+        }
+        slowStart = null;
+        i += 7;
+        continue;
+      }
+    }
+
+    pushText(char);
+    i++;
+  }
+
+  if (emphasisStart !== null) {
+    addError('Unclosed emphasis. Add a closing *.', emphasisStart, 1);
+  }
+  if (slowStart !== null) {
+    addError('Unclosed <slow> span. Add </slow>.', slowStart, 6);
+  }
+
+  errors.sort((a, b) => a.offset - b.offset);
+  return { segments, errors };
+}
+
+function renderText(segment: Extract<MarkupSegment, { type: 'text' }>): string {
+  // Emphasis is passed to the model as markdown-style stress, which it voices
+  // rather than reads aloud. Surrounding whitespace stays outside the markers.
+  if (!segment.emphasis || !segment.text.trim()) {
+    return segment.text;
+  }
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(segment.text)!;
+  return `${match[1]}*${match[2]}*${match[3]}`;
+}
+
+/**
+ * Turns parsed segments into the requests the app must make: consecutive text
+ * with the same rate becomes one part, and pauses become silence after a part.
+ * Parts that are only whitespace are dropped and their pauses merged.
+ */
+export function buildSpeechPlan(segments: MarkupSegment[]): SpeechPlan {
+  const plan: SpeechPlan = { leadingPauseMs: 0, parts: [] };
+  let current: SpeechPart | null = null;
+
+  const commit = (part: SpeechPart | null) => {
+    if (part && part.text.trim()) {
+      plan.parts.push({ ...part, text: part.text.trim() });
+    }
+  };
+
+  for (const segment of segments) {
+    if (segment.type === 'pause') {
+      commit(current);
+      current = null;
+      const previous = plan.parts[plan.parts.length - 1];
+      if (previous) {
+        previous.pauseAfterMs += segment.durationMs;
+      } else {
+        plan.leadingPauseMs += segment.durationMs;
+      }
+      continue;
+    }
+
+    if (current && current.slow !== segment.slow) {
+      commit(current);
+      current = null;
+    }
+    current ??= { text: '', slow: segment.slow, pauseAfterMs: 0 };
+    current.text += renderText(segment);
+  }
+  commit(current);
+
+  return plan;
+}
+
+/**
+ * Renders marked-up text as a single plain string, for paths that cannot insert
+ * silence or change rate (e.g. dialogue lines). Pauses and rate spans are dropped;
+ * pronunciations and emphasis are kept.
+ */
+export function renderMarkupAsText(source: string): string {
+  return parseMarkup(source).segments
+    .map((segment) => (segment.type === 'text' ? renderText(segment) : ' '))
+    .join('')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * Replaces markup syntax (pause tags, <slow> tags and the phonetic half of a
+ * pronunciation) with spaces, so the visible words keep their source offsets.
+ */
+export function blankOutMarkup(source: string): string {
+  const blank = (match: string) => ' '.repeat(match.length);
+  return source
+    .replace(/\[pause[^\]\n]*\]/gi, blank)
+    .replace(/<\/?slow>/gi, blank)
+    .replace(/\|[^}\n]*\}/g, blank)
+    .replace(/[{*\\]/g, ' ');
+}
@@ -0,0 +1,49 @@
+import { KeyboardShortcut, ShortcutAction } from '../types';
+import { KEYBOARD_SHORTCUTS } from '../constants';
+
+export const isMacPlatform = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+function matches(shortcut: KeyboardShortcut, event: KeyboardEvent, mac: boolean): boolean {
+  const primary = mac ? event.metaKey : event.ctrlKey;
+  const other = mac ? event.ctrlKey : event.metaKey;
+  return event.code === shortcut.code
+    && primary === !!shortcut.primary
+    && !other
+    && event.altKey === !!shortcut.alt
+    && event.shiftKey === !!shortcut.shift;
+}
+
+/**
+ * The studio action a key press triggers, if any. Auto-repeated presses are
+ * ignored so holding a combination does not queue up generations.
+ */
+export function matchShortcut(event: KeyboardEvent, mac: boolean = isMacPlatform()): ShortcutAction | null {
+  if (event.repeat || event.isComposing) {
+    return null;
+  }
+  const entry = (Object.entries(KEYBOARD_SHORTCUTS) as [ShortcutAction, KeyboardShortcut][])
+    .find(([, shortcut]) => matches(shortcut, event, mac));
+  return entry ? entry[0] : null;
+}
+
+const keyName = (code: string) => code.replace(/^Key|^Digit/, '');
+
+// Human-readable combination, e.g. "Ctrl+Enter" or "Cmd+Enter"
+export function shortcutLabel(shortcut: KeyboardShortcut, mac: boolean = isMacPlatform()): string {
+  return [
+    shortcut.primary && (mac ? 'Cmd' : 'Ctrl'),
+    shortcut.alt && (mac ? 'Option' : 'Alt'),
+    shortcut.shift && 'Shift',
+    keyName(shortcut.code),
+  ].filter(Boolean).join('+');
+}
+
+// Value for the aria-keyshortcuts attribute, which uses fixed modifier names
+export function ariaKeyShortcuts(shortcut: KeyboardShortcut, mac: boolean = isMacPlatform()): string {
+  return [
+    shortcut.primary && (mac ? 'Meta' : 'Control'),
+    shortcut.alt && 'Alt',
+    shortcut.shift && 'Shift',
+    keyName(shortcut.code),
+  ].filter(Boolean).join('+');
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createMemorySpeechCacheBackend,
+  createSpeechCache,
+  dialogueCacheKey,
+  normalizeCacheScript,
+  speechCacheKey,
+  withSpeechCache,
+} from './speechCache';
+import { TtsProvider } from './providers/ttsProvider';
+import { mockProvider } from './providers/mockProvider';
+import { BudgetStatus, withBudgetLimit } from './usage';
+import { BudgetExceededError } from './speechErrors';
+import { GenerateDialogueSpeechParams, GenerateSpeechParams } from '../types';
+
+const [low, high] = mockProvider.voices;
+
+const speech: GenerateSpeechParams = { script: 'Hello there.', voiceOption: low, emotion: 'neutral', language: 'english' };
+
+const dialogue: GenerateDialogueSpeechParams = {
+  lines: [{ speaker: 'A', text: 'Hi.', lineNumber: 1 }, { speaker: 'B', text: 'Hello.', lineNumber: 2 }],
+  speakerVoices: { A: low, B: high },
+  emotion: 'neutral',
+  language: 'english',
+};
+
+// Clock that moves one tick per call, so every access has its own time
+const ticking = () => {
+  let time = 0;
+  return () => ++time;
+};
+
+// Provider that counts the requests reaching it
+function counting(): TtsProvider & { requests: () => number } {
+  let requests = 0;
+  return {
+    ...mockProvider,
+    streamSpeech: undefined,
+    requests: () => requests,
+    generateSpeech: async (params) => `speech:${++requests}:${params.script}`,
+    generateDialogueSpeech: async (params) => params.lines.map((line) => `line:${++requests}:${line.text}`),
+  };
+}
+
+describe('createSpeechCache', () => {
+  it('misses, then hits once a clip is stored', async () => {
+    const cache = createSpeechCache(createMemorySpeechCacheBackend());
+    expect(await cache.get('a')).toBeNull();
+    await cache.put('a', 'AAAA');
+    expect(await cache.get('a')).toBe('AAAA');
+    expect(await cache.stats()).toEqual({ entries: 1, bytes: 4 });
+  });
+
+  it('evicts the least recently used clips to stay within the size limit', async () => {
+    const cache = createSpeechCache(createMemorySpeechCacheBackend(), 10, ticking());
+    await cache.put('a', 'aaaa');
+    await cache.put('b', 'bbbb');
+    await cache.get('a'); // b is now the oldest
+
+    expect(await cache.put('c', 'cccc')).toEqual(['b']);
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('a')).toBe('aaaa');
+    expect(await cache.stats()).toEqual({ entries: 2, bytes: 8 });
+  });
+
+  it('does not store a clip larger than the whole limit', async () => {
+    const cache = createSpeechCache(createMemorySpeechCacheBackend(), 10);
+    await cache.put('a', 'aaaa');
+    expect(await cache.put('big', 'x'.repeat(11))).toEqual([]);
+    expect(await cache.stats()).toEqual({ entries: 1, bytes: 4 });
+  });
+});
+
+describe('cache keys', () => {
+  it('ignore whitespace and Unicode form but not the words or voice', async () => {
+    expect(normalizeCacheScript(' Hello  there.\r\n\tBye ')).toBe('Hello there.\nBye');
+    const key = await speechCacheKey(mockProvider, speech);
+    expect(await speechCacheKey(mockProvider, { ...speech, script: 'Hello   there. ' })).toBe(key);
+    expect(await speechCacheKey(mockProvider, { ...speech, script: 'Hello there!' })).not.toBe(key);
+    expect(await speechCacheKey(mockProvider, { ...speech, voiceOption: high })).not.toBe(key);
+    expect(await speechCacheKey(mockProvider, { ...speech, slow: true })).not.toBe(key);
+  });
+
+  it('cover every dialogue line and speaker voice', async () => {
+    const key = await dialogueCacheKey(mockProvider, dialogue);
+    expect(await dialogueCacheKey(mockProvider, { ...dialogue, speakerVoices: { A: high, B: low } })).not.toBe(key);
+    expect(await dialogueCacheKey(mockProvider, { ...dialogue, lines: dialogue.lines.slice(0, 1) })).not.toBe(key);
+  });
+});
+
+describe('withSpeechCache', () => {
+  it('answers repeat requests from the cache and reports the hit', async () => {
+    const provider = counting();
+    const cached = withSpeechCache(provider, createSpeechCache(createMemorySpeechCacheBackend()));
+    const onCacheHit = vi.fn();
+
+    const first = await cached.generateSpeech(speech);
+    expect(await cached.generateSpeech({ ...speech, onCacheHit })).toBe(first);
+    expect(provider.requests()).toBe(1);
+    expect(onCacheHit).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches dialogue takes as a whole', async () => {
+    const provider = counting();
+    const cached = withSpeechCache(provider, createSpeechCache(createMemorySpeechCacheBackend()));
+    const onCacheHit = vi.fn();
+
+    const clips = await cached.generateDialogueSpeech(dialogue);
+    expect(await cached.generateDialogueSpeech({ ...dialogue, onCacheHit })).toEqual(clips);
+    expect(provider.requests()).toBe(2);
+    expect(onCacheHit).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips the cache on force regenerate and keeps the new audio', async () => {
+    const provider = counting();
+    const cached = withSpeechCache(provider, createSpeechCache(createMemorySpeechCacheBackend()));
+
+    await cached.generateSpeech(speech);
+    const regenerated = await cached.generateSpeech({ ...speech, forceRegenerate: true });
+    expect(regenerated).toBe('speech:2:Hello there.');
+    expect(await cached.generateSpeech(speech)).toBe(regenerated);
+
+    await cached.generateDialogueSpeech(dialogue);
+    await cached.generateDialogueSpeech({ ...dialogue, forceRegenerate: true });
+    expect(provider.requests()).toBe(6);
+  });
+
+  it('serves cached clips after the budget layer below it starts refusing requests', async () => {
+    const budget: BudgetStatus = { level: 'ok', message: null, todayCost: 0, monthCost: 0 };
+    const cached = withSpeechCache(withBudgetLimit(counting(), () => budget), createSpeechCache(createMemorySpeechCacheBackend()));
+
+    const first = await cached.generateSpeech(speech);
+    budget.level = 'block';
+    expect(await cached.generateSpeech(speech)).toBe(first);
+    await expect(cached.generateSpeech({ ...speech, script: 'Something new.' })).rejects.toBeInstanceOf(BudgetExceededError);
+  });
+
+  it('still generates when the cache fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken = { ...createSpeechCache(createMemorySpeechCacheBackend()), get: () => Promise.reject(new Error('Blocked.')) };
+    const provider = counting();
+
+    await expect(withSpeechCache(provider, broken).generateSpeech(speech)).resolves.toBe('speech:1:Hello there.');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
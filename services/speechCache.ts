@@ -0,0 +1,310 @@
+import { GenerateSpeechParams, GenerateDialogueSpeechParams, SpeechCacheEntry } from '../types';
+import { TtsProvider } from './providers/ttsProvider';
+import { requestToPromise } from './historyStore';
+import { SPEECH_CACHE_DB_NAME, SPEECH_CACHE_MAX_BYTES, decode, encode, concatPCM } from '../constants';
+
+const ENTRIES_STORE = 'entries';
+const AUDIO_STORE = 'audio';
+// Bump when the key inputs change so stale entries are never matched
+const KEY_VERSION = 1;
+
+/**
+ * Persistence for cached clips. The app uses IndexedDB; environments without
+ * it use the in-memory backend.
+ */
+export interface SpeechCacheBackend {
+  entries(): Promise<SpeechCacheEntry[]>;
+  getAudio(key: string): Promise<string | undefined>;
+  put(entry: SpeechCacheEntry, audio?: string): Promise<void>; // Without audio only the entry is updated
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface SpeechCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+export interface SpeechCache {
+  get(key: string): Promise<string | null>; // Marks the clip as recently used
+  put(key: string, audio: string): Promise<string[]>; // Resolves with the keys evicted to stay within the size limit
+  stats(): Promise<SpeechCacheStats>;
+  clear(): Promise<void>;
+}
+
+export function createMemorySpeechCacheBackend(): SpeechCacheBackend {
+  const entries = new Map<string, SpeechCacheEntry>();
+  const audio = new Map<string, string>();
+  return {
+    entries: async () => Array.from(entries.values()),
+    getAudio: async (key) => audio.get(key),
+    put: async (entry, data) => {
+      entries.set(entry.key, entry);
+      if (data !== undefined) {
+        audio.set(entry.key, data);
+      }
+    },
+    delete: async (key) => {
+      entries.delete(key);
+      audio.delete(key);
+    },
+    clear: async () => {
+      entries.clear();
+      audio.clear();
+    },
+  };
+}
+
+export function createIndexedDbSpeechCacheBackend(factory: IDBFactory = indexedDB): SpeechCacheBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = factory.open(SPEECH_CACHE_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+        request.result.createObjectStore(AUDIO_STORE);
+      };
+      dbPromise = requestToPromise(request);
+    }
+    return dbPromise;
+  };
+
+  // Entry and audio are always written together so neither outlives the other
+  const write = async (run: (entries: IDBObjectStore, audio: IDBObjectStore) => void) => {
+    const transaction = (await openDb()).transaction([ENTRIES_STORE, AUDIO_STORE], 'readwrite');
+    run(transaction.objectStore(ENTRIES_STORE), transaction.objectStore(AUDIO_STORE));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  const read = async <T>(storeName: string, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return requestToPromise(run(db.transaction(storeName, 'readonly').objectStore(storeName)));
+  };
+
+  return {
+    entries: () => read<SpeechCacheEntry[]>(ENTRIES_STORE, (store) => store.getAll()),
+    getAudio: (key) => read<string | undefined>(AUDIO_STORE, (store) => store.get(key)),
+    put: (entry, audio) => write((entries, audioStore) => {
+      entries.put(entry);
+      if (audio !== undefined) {
+        audioStore.put(audio, entry.key);
+      }
+    }),
+    delete: (key) => write((entries, audio) => {
+      entries.delete(key);
+      audio.delete(key);
+    }),
+    clear: () => write((entries, audio) => {
+      entries.clear();
+      audio.clear();
+    }),
+  };
+}
+
+export function createDefaultSpeechCacheBackend(): SpeechCacheBackend {
+  return typeof indexedDB !== 'undefined' ? createIndexedDbSpeechCacheBackend() : createMemorySpeechCacheBackend();
+}
+
+/**
+ * Least-recently-used cache of generated clips, bounded by the total size of
+ * the stored audio. A clip larger than the whole limit is not stored.
+ */
+export function createSpeechCache(
+  backend: SpeechCacheBackend,
+  maxBytes: number = SPEECH_CACHE_MAX_BYTES,
+  now: () => number = Date.now,
+): SpeechCache {
+  return {
+    async get(key) {
+      const entry = (await backend.entries()).find((item) => item.key === key);
+      const audio = entry && await backend.getAudio(key);
+      if (!entry || audio === undefined) {
+        return null;
+      }
+      await backend.put({ ...entry, lastUsedAt: now() });
+      return audio;
+    },
+
+    async put(key, audio) {
+      if (audio.length > maxBytes) {
+        return [];
+      }
+      const time = now();
+      const existing = (await backend.entries()).find((item) => item.key === key);
+      await backend.put({ key, bytes: audio.length, createdAt: existing?.createdAt ?? time, lastUsedAt: time }, audio);
+
+      const entries = (await backend.entries()).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+      let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+      const evicted: string[] = [];
+      for (const entry of entries) {
+        if (total <= maxBytes) {
+          break;
+        }
+        if (entry.key !== key) {
+          await backend.delete(entry.key);
+          total -= entry.bytes;
+          evicted.push(entry.key);
+        }
+      }
+      return evicted;
+    },
+
+    async stats() {
+      const entries = await backend.entries();
+      return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0) };
+    },
+
+    clear: () => backend.clear(),
+  };
+}
+
+/**
+ * Script as far as the cache is concerned: Unicode and line endings
+ * normalized, runs of spaces collapsed and each line trimmed, so edits that
+ * cannot change the speech still hit the cache.
+ */
+export function normalizeCacheScript(script: string): string {
+  return script
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00A0]+/g, ' ').trim())
+    .join('\n')
+    .trim();
+}
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const digestFields = async (fields: unknown[]) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify([KEY_VERSION, ...fields]))));
+
+/**
+ * SHA-256 of everything that shapes the audio: provider and model, voice and
+ * its style prompt, emotion, language, rate and the normalized script.
+ */
+export async function speechCacheKey(provider: Pick<TtsProvider, 'id' | 'model'>, params: GenerateSpeechParams): Promise<string> {
+  const { voiceOption, emotion, language, slow, script } = params;
+  return digestFields([
+    provider.id,
+    provider.model,
+    voiceOption.voiceName,
+    voiceOption.stylePrompt ?? '',
+    emotion,
+    language,
+    !!slow,
+    normalizeCacheScript(script),
+  ]);
+}
+
+/**
+ * SHA-256 of a dialogue request: provider and model, emotion, language, and
+ * each line with its speaker's voice and the normalized text.
+ */
+export async function dialogueCacheKey(provider: Pick<TtsProvider, 'id' | 'model'>, params: GenerateDialogueSpeechParams): Promise<string> {
+  const { lines, speakerVoices, emotion, language } = params;
+  return digestFields([
+    'dialogue',
+    provider.id,
+    provider.model,
+    emotion,
+    language,
+    lines.map((line) => {
+      const voice = speakerVoices[line.speaker];
+      return [line.speaker, voice?.voiceName ?? '', voice?.stylePrompt ?? '', normalizeCacheScript(line.text)];
+    }),
+  ]);
+}
+
+// Cached dialogue clips, or null when the stored value is not a list of clips
+function parseClips(stored: string): string[] | null {
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) && parsed.every((clip) => typeof clip === 'string') ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Answers speech and dialogue requests from the cache when it can and stores
+ * what the provider generates. Wrap outside usage tracking so hits are not
+ * logged as paid requests. A failing cache never fails the request.
+ */
+export function withSpeechCache(provider: TtsProvider, cache: SpeechCache): TtsProvider {
+  const lookup = async (key: string, params: Pick<GenerateSpeechParams, 'forceRegenerate'>) => {
+    if (params.forceRegenerate) {
+      return null;
+    }
+    try {
+      return await cache.get(key);
+    } catch (err) {
+      console.warn('Speech cache lookup failed:', err);
+      return null;
+    }
+  };
+
+  const store = async (key: string, audio: string) => {
+    try {
+      await cache.put(key, audio);
+    } catch (err) {
+      console.warn('Could not cache generated speech:', err);
+    }
+  };
+
+  const cached: TtsProvider = {
+    ...provider,
+
+    async generateSpeech(params) {
+      const key = await speechCacheKey(provider, params);
+      const hit = await lookup(key, params);
+      if (hit !== null) {
+        params.onCacheHit?.();
+        return hit;
+      }
+      const audio = await provider.generateSpeech(params);
+      await store(key, audio);
+      return audio;
+    },
+
+    // The clips of a dialogue are stored together as a JSON array
+    async generateDialogueSpeech(params) {
+      const key = await dialogueCacheKey(provider, params);
+      const hit = await lookup(key, params);
+      const clips = hit === null ? null : parseClips(hit);
+      if (clips) {
+        params.onCacheHit?.();
+        return clips;
+      }
+      const generated = await provider.generateDialogueSpeech(params);
+      await store(key, JSON.stringify(generated));
+      return generated;
+    },
+  };
+
+  if (provider.streamSpeech) {
+    const stream = provider.streamSpeech.bind(provider);
+    // A hit is yielded as a single chunk; a stream is only cached once it has been read to the end
+    cached.streamSpeech = async function* (params) {
+      const key = await speechCacheKey(provider, params);
+      const hit = await lookup(key, params);
+      if (hit !== null) {
+        params.onCacheHit?.();
+        yield hit;
+        return;
+      }
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of stream(params)) {
+        chunks.push(decode(chunk));
+        yield chunk;
+      }
+      await store(key, encode(concatPCM(chunks)));
+    };
+  }
+
+  return cached;
+}
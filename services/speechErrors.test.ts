@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { AuthError, BudgetExceededError, QuotaError, SpeechError, describeError } from './speechErrors';
+import { SPEECH_ERROR_MESSAGES } from '../constants';
+
+describe('describeError', () => {
+  it('uses the friendly message and recovery for typed errors', () => {
+    expect(describeError(new AuthError('401'))).toEqual(SPEECH_ERROR_MESSAGES.auth);
+  });
+
+  it('adds the delay the service asked for to quota errors', () => {
+    expect(describeError(new QuotaError('429', 12500))).toEqual({
+      message: `${SPEECH_ERROR_MESSAGES.quota.message} The service suggests waiting 13 s.`,
+      action: 'retry',
+    });
+  });
+
+  it('keeps the specific message of budget and untyped speech errors', () => {
+    expect(describeError(new BudgetExceededError('The daily limit of $1.00 was reached.')).message)
+      .toBe('The daily limit of $1.00 was reached.');
+    expect(describeError(new SpeechError('Failed to generate speech: Unknown voice'))).toEqual({
+      message: 'Failed to generate speech: Unknown voice',
+      action: SPEECH_ERROR_MESSAGES.unknown.action,
+    });
+  });
+
+  it('shows other errors as they are, without a recovery', () => {
+    expect(describeError(new Error('No dialogue lines found.'))).toEqual({ message: 'No dialogue lines found.', action: null });
+    expect(describeError('Offline')).toEqual({ message: 'Offline', action: null });
+    expect(describeError(42).message).toBe('An unexpected error occurred during speech generation.');
+  });
+});
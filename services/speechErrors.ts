@@ -0,0 +1,154 @@
+import { ErrorRecoveryAction, SpeechErrorKind } from '../types';
+import { SPEECH_ERROR_MESSAGES } from '../constants';
+
+/**
+ * Base class for failures while generating speech. `retryable` marks transient
+ * failures that are worth repeating unchanged.
+ */
+export class SpeechError extends Error {
+  readonly kind: SpeechErrorKind = 'unknown';
+  readonly retryable: boolean = false;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+// Missing, invalid or unauthorized API key
+export class AuthError extends SpeechError {
+  readonly kind = 'auth';
+}
+
+// Rate limit or quota exhausted; `retryAfterMs` is set when the service says how long to wait
+export class QuotaError extends SpeechError {
+  readonly kind = 'quota';
+  readonly retryable = true;
+
+  constructor(message: string, readonly retryAfterMs?: number, options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+// A hard limit of the usage budget was reached, so no request was sent
+export class BudgetExceededError extends SpeechError {
+  readonly kind = 'budget';
+}
+
+// The prompt or the generated content was blocked by safety filters
+export class SafetyBlockedError extends SpeechError {
+  readonly kind = 'safety';
+
+  constructor(message: string, readonly reason?: string, options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+// The request succeeded but returned no audio
+export class EmptyAudioError extends SpeechError {
+  readonly kind = 'empty-audio';
+  readonly retryable = true;
+}
+
+// The service could not be reached
+export class NetworkError extends SpeechError {
+  readonly kind = 'network';
+  readonly retryable = true;
+}
+
+// The service answered with a 5xx status
+export class ServerError extends SpeechError {
+  readonly kind = 'server';
+  readonly retryable = true;
+
+  constructor(message: string, readonly status?: number, options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+// The caller aborted the request
+export class CancelledError extends SpeechError {
+  readonly kind = 'cancelled';
+
+  constructor(message = 'Speech generation was cancelled.', options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+// Finish and block reasons the Gemini API reports for filtered content
+const SAFETY_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY']);
+
+export const isSafetyReason = (reason: string | undefined) => !!reason && SAFETY_REASONS.has(reason);
+
+export const isRetryableError = (error: unknown) => error instanceof SpeechError && error.retryable;
+
+export const isAbortError = (error: unknown) =>
+  error instanceof CancelledError || (error instanceof Error && error.name === 'AbortError');
+
+/**
+ * Reads a server-suggested retry delay from an error message, e.g. the
+ * `"retryDelay": "37s"` detail of a Google API 429 response.
+ */
+export function parseRetryDelayMs(message: string): number | undefined {
+  const match = message.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Maps an HTTP status (from the SDK's ApiError or a fetch response) and its
+ * message to a typed error.
+ */
+export function errorFromStatus(status: number, message: string, cause?: unknown): SpeechError {
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|Requested entity was not found/i.test(message)) {
+    return new AuthError('The API key is missing, invalid or lacks access to this model.', { cause });
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new QuotaError('The rate limit or quota for this API key has been reached.', parseRetryDelayMs(message), { cause });
+  }
+  if (status >= 500) {
+    return new ServerError(`The speech service failed (HTTP ${status}).`, status, { cause });
+  }
+  return new SpeechError(`Failed to generate speech: ${message || `HTTP ${status}`}`, { cause });
+}
+
+/**
+ * Converts anything thrown while generating speech into a SpeechError. Errors
+ * that are already typed pass through unchanged.
+ */
+export function toSpeechError(error: unknown): SpeechError {
+  if (error instanceof SpeechError) {
+    return error;
+  }
+  if (isAbortError(error)) {
+    return new CancelledError(undefined, { cause: error });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+  if (status !== undefined) {
+    return errorFromStatus(status, message, error);
+  }
+  // fetch rejects with a TypeError like "Failed to fetch" when the request never reaches the server
+  if (/Failed to fetch|NetworkError|Load failed|network|ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT/i.test(message)) {
+    return new NetworkError('Could not reach the speech service. Check your connection.', { cause: error });
+  }
+  return errorFromStatus(0, message, error);
+}
+
+/**
+ * The message to show for a failed request and the recovery the error alert
+ * offers. Cancellation is not a failure; callers report it separately.
+ */
+export function describeError(error: unknown): { message: string, action: ErrorRecoveryAction | null } {
+  if (error instanceof SpeechError) {
+    const { message, action } = SPEECH_ERROR_MESSAGES[error.kind];
+    const wait = error instanceof QuotaError && error.retryAfterMs ? ` The service suggests waiting ${Math.ceil(error.retryAfterMs / 1000)} s.` : '';
+    return { message: error.kind === 'unknown' || error.kind === 'budget' ? error.message : `${message}${wait}`, action };
+  }
+  if (error instanceof Error) {
+    return { message: error.message, action: null };
+  }
+  if (typeof error === 'string') {
+    return { message: error, action: null };
+  }
+  return { message: 'An unexpected error occurred during speech generation.', action: null };
+}
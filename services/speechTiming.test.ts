@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { alignScriptTiming, countWords, detectSilences, segmentScript, syllableWeight, wordIndexAt } from './speechTiming';
+
+const SAMPLE_RATE = 8000;
+
+// Tone where `pattern` says 1 and silence where it says 0, one entry per 100 ms
+function signal(pattern: string): Float32Array {
+  const step = SAMPLE_RATE / 10;
+  return Float32Array.from({ length: pattern.length * step }, (_, i) =>
+    (pattern[Math.floor(i / step)] === '1' ? 0.5 * Math.sin(2 * Math.PI * 220 * i / SAMPLE_RATE) : 0));
+}
+
+const times = (ranges: { start: number, end: number }[]) => ranges.map(({ start, end }) => [+start.toFixed(3), +end.toFixed(3)]);
+
+describe('segmentScript', () => {
+  it('splits sentences at punctuation and line breaks and keeps source offsets', () => {
+    const text = 'Hi there. How are you?\nFine';
+    const sentences = segmentScript(text);
+
+    expect(sentences.map((sentence) => sentence.text)).toEqual(['Hi there.', 'How are you?', 'Fine']);
+    expect(sentences.map((sentence) => sentence.offset)).toEqual([0, 10, 23]);
+    for (const word of sentences.flatMap((sentence) => sentence.words)) {
+      expect(text.slice(word.offset, word.offset + word.length)).toBe(word.text);
+    }
+    expect(sentences[0].words.map((word) => word.text)).toEqual(['Hi', 'there']);
+  });
+
+  it('keeps contractions and combining marks inside words and drops sentences without words', () => {
+    const sentences = segmentScript("Don't stop.\n...\n\u0C28\u0C2E\u0C38\u0C4D\u0C15\u0C3E\u0C30\u0C02!");
+    expect(sentences.map((sentence) => sentence.words.map((word) => word.text))).toEqual([
+      ["Don't", 'stop'],
+      ['\u0C28\u0C2E\u0C38\u0C4D\u0C15\u0C3E\u0C30\u0C02'],
+    ]);
+  });
+});
+
+describe('syllableWeight', () => {
+  it('counts vowel groups in Latin words, skipping a silent final e', () => {
+    expect(syllableWeight('hello')).toBe(2);
+    expect(syllableWeight('make')).toBe(1);
+    expect(syllableWeight('the')).toBe(1);
+    expect(syllableWeight('rhythm')).toBe(1);
+  });
+
+  it('counts a consonant cluster joined by a virama once', () => {
+    expect(syllableWeight('\u0C28\u0C2E\u0C38\u0C4D\u0C15\u0C3E\u0C30\u0C02')).toBe(4); // na-mas-kaa-ram
+  });
+
+  it('weighs digits more than letters', () => {
+    expect(syllableWeight('42')).toBe(3);
+  });
+});
+
+describe('detectSilences', () => {
+  it('finds pauses longer than the minimum', () => {
+    // The final 100 ms gap is shorter than the default 150 ms minimum
+    expect(times(detectSilences(signal('0011100111110'), SAMPLE_RATE))).toEqual([[0, 0.2], [0.5, 0.7]]);
+  });
+
+  it('treats a short dip as speech', () => {
+    expect(times(detectSilences(signal('1110111'), SAMPLE_RATE, -35, 150))).toEqual([]);
+    expect(times(detectSilences(signal('1110111'), SAMPLE_RATE, -35, 100))).toEqual([[0.3, 0.4]]);
+  });
+
+  it('reports all-silent audio as one silence and empty audio as none', () => {
+    expect(times(detectSilences(new Float32Array(SAMPLE_RATE), SAMPLE_RATE))).toEqual([[0, 1]]);
+    expect(detectSilences(new Float32Array(0), SAMPLE_RATE)).toEqual([]);
+  });
+});
+
+describe('alignScriptTiming', () => {
+  it('places sentence boundaries at pauses and skips leading and trailing silence', () => {
+    const track = alignScriptTiming('One two. Three four.', signal('0011111111000001111111100'), SAMPLE_RATE);
+
+    expect(times(track.sentences)).toEqual([[0.2, 1], [1.5, 2.3]]);
+    expect(times(track.words)).toEqual([[0.2, 0.6], [0.6, 1], [1.5, 1.9], [1.9, 2.3]]);
+    expect(track.words.map((word) => word.sentenceIndex)).toEqual([0, 0, 1, 1]);
+  });
+
+  it('shares time by syllables when there are too few pauses', () => {
+    const track = alignScriptTiming('Hello. Yes.', signal('111111111111'), SAMPLE_RATE);
+    expect(times(track.sentences)).toEqual([[0, 0.8], [0.8, 1.2]]);
+  });
+
+  it('aligns each segment on its own', () => {
+    const audio = signal('1111111111');
+    const track = alignScriptTiming('Hello. Yes.', audio, SAMPLE_RATE, {
+      segments: [{ start: 0, end: 0.3, wordCount: 1 }, { start: 0.3, end: 1, wordCount: 1 }],
+    });
+    expect(times(track.sentences)).toEqual([[0, 0.3], [0.3, 1]]);
+
+    const ignored = alignScriptTiming('Hello. Yes.', audio, SAMPLE_RATE, { segments: [{ start: 0, end: 0.3, wordCount: 5 }] });
+    expect(times(ignored.sentences)).toEqual([[0, 0.667], [0.667, 1]]);
+  });
+});
+
+describe('wordIndexAt', () => {
+  it('finds the word being spoken and -1 between words', () => {
+    const track = alignScriptTiming('One two. Three four.', signal('0011111111000001111111100'), SAMPLE_RATE);
+    expect(wordIndexAt(track, 0.1)).toBe(-1);
+    expect(wordIndexAt(track, 0.2)).toBe(0);
+    expect(wordIndexAt(track, 0.7)).toBe(1);
+    expect(wordIndexAt(track, 1.2)).toBe(-1);
+    expect(wordIndexAt(track, 2.2)).toBe(3);
+    expect(wordIndexAt(track, 2.4)).toBe(-1);
+  });
+});
+
+describe('countWords', () => {
+  it('counts words the way the aligner does', () => {
+    expect(countWords("It's 5 o'clock, isn't it?")).toBe(5);
+  });
+});
@@ -0,0 +1,312 @@
+import { splitSentences } from './scriptChunker';
+import { dbToGain } from './audioProcessing';
+
+export interface TextSpan {
+  text: string;
+  offset: number; // UTF-16 offset into the script, for highlighting
+  length: number;
+}
+
+export interface ScriptSentence extends TextSpan {
+  words: TextSpan[];
+}
+
+export interface TimeRange {
+  start: number; // Seconds
+  end: number;
+}
+
+export interface TimedWord extends TextSpan, TimeRange {
+  sentenceIndex: number;
+}
+
+export interface TimedSentence extends TextSpan, TimeRange {}
+
+export interface TimingTrack {
+  sentences: TimedSentence[];
+  words: TimedWord[];
+}
+
+// A stretch of audio known to hold the next `wordCount` words, e.g. one generated chunk
+export interface TimingSegment extends TimeRange {
+  wordCount: number;
+}
+
+export interface AlignmentOptions {
+  silenceThresholdDb?: number; // Relative to the loudest analysis window
+  minSilenceMs?: number; // Shorter dips are treated as part of speech
+  segments?: TimingSegment[];
+}
+
+const ANALYSIS_WINDOW_MS = 10;
+const DEFAULT_SILENCE_THRESHOLD_DB = -35;
+const DEFAULT_MIN_SILENCE_MS = 150;
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['\u2019.-][\p{L}\p{M}\p{N}]+)*/gu;
+// Viramas join consonants into one syllable in Devanagari, Bengali, Gurmukhi, Gujarati, Odia, Tamil, Telugu, Kannada and Malayalam
+const VIRAMA_PATTERN = /[\u094D\u09CD\u0A4D\u0ACD\u0B4D\u0BCD\u0C4D\u0CCD\u0D4D]/gu;
+
+/**
+ * Splits a script into sentences and words with their source offsets. Line
+ * breaks always end a sentence (dialogue turns, headings); sentences without
+ * any words are dropped.
+ */
+export function segmentScript(text: string): ScriptSentence[] {
+  const sentences: ScriptSentence[] = [];
+  let lineOffset = 0;
+
+  for (const line of text.split('\n')) {
+    let cursor = 0;
+    for (const sentence of splitSentences(line)) {
+      const start = line.indexOf(sentence, cursor);
+      cursor = start + sentence.length;
+      const words = Array.from(sentence.matchAll(WORD_PATTERN), (match) => ({
+        text: match[0],
+        offset: lineOffset + start + match.index!,
+        length: match[0].length,
+      }));
+      if (words.length > 0) {
+        sentences.push({ text: sentence, offset: lineOffset + start, length: sentence.length, words });
+      }
+    }
+    lineOffset += line.length + 1;
+  }
+  return sentences;
+}
+
+/**
+ * Rough spoken length of a word in syllables. Latin words count vowel groups;
+ * Indic words count letters, with consonant clusters joined by a virama
+ * counted once. Digits are read out as several syllables each.
+ */
+export function syllableWeight(word: string): number {
+  const digits = (word.match(/\p{N}/gu) ?? []).length;
+  const letters = word.replace(/\p{N}/gu, '');
+  let syllables = 0;
+  if (/^[\p{Script=Latin}'\u2019.-]*$/u.test(letters)) {
+    syllables = (letters.match(/[aeiouy\u00E0\u00E2\u00E4\u00E9\u00E8\u00EA\u00EB\u00EE\u00EF\u00F4\u00F6\u00FB\u00FC\u0153\u00E6]+/giu) ?? []).length;
+    if (syllables > 1 && /[^aeiouy]e$/i.test(letters)) {
+      syllables--; // Silent final "e"
+    }
+  } else {
+    syllables = (letters.match(/\p{L}/gu) ?? []).length - (letters.match(VIRAMA_PATTERN) ?? []).length;
+  }
+  return Math.max(1, syllables + digits * 1.5);
+}
+
+/**
+ * Finds stretches quieter than `thresholdDb` below the loudest 10 ms window
+ * that last at least `minSilenceMs`. Returned ranges are in seconds.
+ */
+export function detectSilences(
+  samples: Float32Array,
+  sampleRate: number,
+  thresholdDb: number = DEFAULT_SILENCE_THRESHOLD_DB,
+  minSilenceMs: number = DEFAULT_MIN_SILENCE_MS,
+): TimeRange[] {
+  const window = Math.max(1, Math.round((ANALYSIS_WINDOW_MS / 1000) * sampleRate));
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += window) {
+    const end = Math.min(samples.length, start + window);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    levels.push(Math.sqrt(sum / (end - start)));
+  }
+
+  const loudest = levels.reduce((max, level) => Math.max(max, level), 0);
+  if (loudest === 0) {
+    return samples.length > 0 ? [{ start: 0, end: samples.length / sampleRate }] : [];
+  }
+  const threshold = loudest * dbToGain(thresholdDb);
+  const minWindows = Math.max(1, Math.ceil(minSilenceMs / ANALYSIS_WINDOW_MS));
+  const silences: TimeRange[] = [];
+  let runStart = -1;
+
+  for (let i = 0; i <= levels.length; i++) {
+    const quiet = i < levels.length && levels[i] < threshold;
+    if (quiet && runStart === -1) {
+      runStart = i;
+    } else if (!quiet && runStart !== -1) {
+      if (i - runStart >= minWindows) {
+        silences.push({
+          start: (runStart * window) / sampleRate,
+          end: Math.min(samples.length, i * window) / sampleRate,
+        });
+      }
+      runStart = -1;
+    }
+  }
+  return silences;
+}
+
+/**
+ * Maps a fraction of the speaking time in `range` to a clock time, skipping
+ * the silences inside it.
+ */
+function voicedTimeline(range: TimeRange, silences: TimeRange[]): (fraction: number) => number {
+  const voiced: TimeRange[] = [];
+  let cursor = range.start;
+  for (const silence of silences) {
+    if (silence.end <= range.start || silence.start >= range.end) {
+      continue;
+    }
+    if (silence.start > cursor) {
+      voiced.push({ start: cursor, end: silence.start });
+    }
+    cursor = Math.max(cursor, silence.end);
+  }
+  if (cursor < range.end) {
+    voiced.push({ start: cursor, end: range.end });
+  }
+
+  const total = voiced.reduce((sum, interval) => sum + interval.end - interval.start, 0);
+  if (total <= 0) {
+    return (fraction) => range.start + fraction * (range.end - range.start);
+  }
+  return (fraction) => {
+    let remaining = Math.max(0, Math.min(1, fraction)) * total;
+    for (const interval of voiced) {
+      const length = interval.end - interval.start;
+      if (remaining <= length) {
+        return interval.start + remaining;
+      }
+      remaining -= length;
+    }
+    return range.end;
+  };
+}
+
+interface WordGroup {
+  sentenceIndex: number;
+  words: TextSpan[];
+}
+
+/**
+ * Aligns consecutive sentence groups inside one span of audio. Leading and
+ * trailing silence is skipped; sentence boundaries go at the longest pauses
+ * when there are enough of them, otherwise at positions proportional to the
+ * syllable count. Words then share their sentence's speaking time by syllables.
+ */
+function alignSpan(groups: WordGroup[], span: TimeRange, silences: TimeRange[]): TimedWord[] {
+  const inside = silences
+    .map((silence) => ({ start: Math.max(span.start, silence.start), end: Math.min(span.end, silence.end) }))
+    .filter((silence) => silence.end > silence.start);
+
+  const epsilon = 0.001;
+  let speechStart = span.start;
+  let speechEnd = span.end;
+  const leading = inside.find((silence) => silence.start <= span.start + epsilon);
+  if (leading && leading.end < span.end) {
+    speechStart = leading.end;
+  }
+  const trailing = inside.find((silence) => silence.end >= span.end - epsilon && silence.start > speechStart);
+  if (trailing) {
+    speechEnd = trailing.start;
+  }
+  const interior = inside.filter((silence) => silence.start > speechStart && silence.end < speechEnd);
+
+  const weights = groups.map((group) => group.words.reduce((sum, word) => sum + syllableWeight(word.text), 0));
+  let boundaries: TimeRange[];
+  if (interior.length >= groups.length - 1) {
+    boundaries = [...interior]
+      .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+      .slice(0, groups.length - 1)
+      .sort((a, b) => a.start - b.start);
+  } else {
+    const timeAt = voicedTimeline({ start: speechStart, end: speechEnd }, interior);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let cumulative = 0;
+    boundaries = weights.slice(0, -1).map((weight) => {
+      cumulative += weight;
+      const time = timeAt(cumulative / total);
+      return { start: time, end: time };
+    });
+  }
+
+  const timed: TimedWord[] = [];
+  groups.forEach((group, index) => {
+    const range = {
+      start: index === 0 ? speechStart : boundaries[index - 1].end,
+      end: index === groups.length - 1 ? speechEnd : boundaries[index].start,
+    };
+    const timeAt = voicedTimeline(range, interior);
+    let cumulative = 0;
+    for (const word of group.words) {
+      const start = timeAt(cumulative / weights[index]);
+      cumulative += syllableWeight(word.text);
+      timed.push({ ...word, sentenceIndex: group.sentenceIndex, start, end: Math.max(start, timeAt(cumulative / weights[index])) });
+    }
+  });
+  return timed;
+}
+
+/**
+ * Estimates when each sentence and word of `text` is spoken in `samples`.
+ * With `segments` (e.g. the placement of each generated chunk in the stitched
+ * take) every segment is aligned on its own, which pins those boundaries
+ * exactly; segments are ignored if their word counts do not add up.
+ */
+export function alignScriptTiming(text: string, samples: Float32Array, sampleRate: number, options: AlignmentOptions = {}): TimingTrack {
+  const sentences = segmentScript(text);
+  const silences = detectSilences(samples, sampleRate, options.silenceThresholdDb, options.minSilenceMs);
+  const allWords = sentences.flatMap((sentence, sentenceIndex) => sentence.words.map((word) => ({ word, sentenceIndex })));
+  const duration = samples.length / sampleRate;
+
+  const segments = options.segments?.reduce((sum, segment) => sum + segment.wordCount, 0) === allWords.length
+    ? options.segments!
+    : [{ start: 0, end: duration, wordCount: allWords.length }];
+
+  const words: TimedWord[] = [];
+  let next = 0;
+  for (const segment of segments) {
+    const groups: WordGroup[] = [];
+    for (const { word, sentenceIndex } of allWords.slice(next, next + segment.wordCount)) {
+      const last = groups[groups.length - 1];
+      if (last && last.sentenceIndex === sentenceIndex) {
+        last.words.push(word);
+      } else {
+        groups.push({ sentenceIndex, words: [word] });
+      }
+    }
+    next += segment.wordCount;
+    if (groups.length > 0) {
+      words.push(...alignSpan(groups, segment, silences));
+    }
+  }
+
+  const timedSentences = sentences.map((sentence, index) => {
+    const sentenceWords = words.filter((word) => word.sentenceIndex === index);
+    return {
+      text: sentence.text,
+      offset: sentence.offset,
+      length: sentence.length,
+      start: sentenceWords[0].start,
+      end: sentenceWords[sentenceWords.length - 1].end,
+    };
+  });
+  return { sentences: timedSentences, words };
+}
+
+/**
+ * Index of the word being spoken at `time`, or -1 between words and outside the take.
+ */
+export function wordIndexAt(track: TimingTrack, time: number): number {
+  let low = 0;
+  let high = track.words.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const word = track.words[middle];
+    if (time < word.start) {
+      high = middle - 1;
+    } else if (time >= word.end) {
+      low = middle + 1;
+    } else {
+      return middle;
+    }
+  }
+  return -1;
+}
+
+export const countWords = (text: string) => Array.from(text.matchAll(WORD_PATTERN)).length;
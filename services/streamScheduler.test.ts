@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createAudioContextSink, createPcmStreamScheduler, playPcmStream } from './streamScheduler';
+import { EmptyAudioError } from './speechErrors';
+import { encode } from '../constants';
+
+const SAMPLE_RATE = 1000;
+
+const pcm = (...values: number[]) => new Uint8Array(new Int16Array(values).buffer);
+
+function setup(startLatencySeconds = 0.05) {
+  const clock = { currentTime: 0 };
+  const scheduled: { samples: number[], when: number }[] = [];
+  const scheduler = createPcmStreamScheduler({
+    clock,
+    sampleRate: SAMPLE_RATE,
+    schedule: (samples, when) => scheduled.push({ samples: Array.from(samples), when }),
+    startLatencySeconds,
+  });
+  return { clock, scheduled, scheduler };
+}
+
+describe('createPcmStreamScheduler', () => {
+  it('schedules chunks back to back after the start latency', () => {
+    const { clock, scheduled, scheduler } = setup();
+    clock.currentTime = 2;
+    scheduler.push(pcm(...new Array(100).fill(0)));
+    clock.currentTime = 2.04;
+    scheduler.push(pcm(...new Array(50).fill(0)));
+
+    expect(scheduled.map((chunk) => chunk.when)).toEqual([2.05, 2.15]);
+    expect(scheduler.endTime).toBeCloseTo(2.2, 9);
+    expect(scheduler.underruns).toBe(0);
+  });
+
+  it('counts an underrun and restarts after the latency when the queue has drained', () => {
+    const { clock, scheduled, scheduler } = setup(0.1);
+    scheduler.push(pcm(...new Array(100).fill(0))); // Plays 0.1 to 0.2
+    clock.currentTime = 0.5;
+    scheduler.push(pcm(...new Array(100).fill(0)));
+
+    expect(scheduled[1].when).toBeCloseTo(0.6, 9);
+    expect(scheduler.underruns).toBe(1);
+  });
+
+  it('carries a byte split across chunks over to the next one', () => {
+    const { scheduled, scheduler } = setup();
+    const bytes = pcm(16384, -16384, 8192);
+    scheduler.push(bytes.subarray(0, 3));
+    scheduler.push(bytes.subarray(3, 4));
+    scheduler.push(bytes.subarray(4));
+
+    expect(scheduled.map((chunk) => chunk.samples)).toEqual([[0.5], [-0.5], [0.25]]);
+    expect(Array.from(scheduler.finish())).toEqual([0.5, -0.5, 0.25]);
+  });
+
+  it('reports the clock time as the end before anything is scheduled', () => {
+    const { clock, scheduler } = setup();
+    clock.currentTime = 3;
+    scheduler.push(new Uint8Array(1));
+    expect(scheduler.endTime).toBe(3);
+    expect(scheduler.finish()).toEqual(new Float32Array(0));
+  });
+});
+
+describe('playPcmStream', () => {
+  it('schedules each chunk as it arrives and resolves with the whole clip', async () => {
+    const { clock, scheduled, scheduler } = setup();
+    async function* stream() {
+      yield encode(pcm(16384));
+      clock.currentTime = 1; // The first chunk has finished before the second arrives
+      yield encode(pcm(-16384, 8192));
+    }
+
+    const samples = await playPcmStream(stream(), scheduler);
+
+    expect(Array.from(samples)).toEqual([0.5, -0.5, 0.25]);
+    expect(scheduled.map((chunk) => chunk.when)).toEqual([0.05, 1.05]);
+    expect(scheduler.underruns).toBe(1);
+  });
+
+  it('fails when the stream carries no audio', async () => {
+    async function* stream() {
+      yield '';
+    }
+    await expect(playPcmStream(stream(), setup().scheduler)).rejects.toBeInstanceOf(EmptyAudioError);
+  });
+
+  it('passes on a stream error', async () => {
+    async function* stream(): AsyncGenerator<string> {
+      yield encode(pcm(1));
+      throw new Error('Connection reset');
+    }
+    await expect(playPcmStream(stream(), setup().scheduler)).rejects.toThrow('Connection reset');
+  });
+});
+
+describe('createAudioContextSink', () => {
+  it('starts a buffer source per chunk and stops the ones still playing', () => {
+    const sources: any[] = [];
+    const ctx = {
+      destination: {},
+      createBuffer: vi.fn(() => ({ copyToChannel: vi.fn() })),
+      createBufferSource: vi.fn(() => {
+        const source = { connect: vi.fn(), disconnect: vi.fn(), start: vi.fn(), stop: vi.fn(), onended: null as (() => void) | null };
+        sources.push(source);
+        return source;
+      }),
+    };
+    const sink = createAudioContextSink(ctx as unknown as AudioContext, SAMPLE_RATE);
+
+    sink.schedule(new Float32Array(10), 1);
+    sink.schedule(new Float32Array(10), 1.01);
+    expect(ctx.createBuffer).toHaveBeenCalledWith(1, 10, SAMPLE_RATE);
+    expect(sources.map((source) => source.start.mock.calls[0][0])).toEqual([1, 1.01]);
+
+    sources[0].onended();
+    sink.stop();
+    expect(sources[0].stop).not.toHaveBeenCalled();
+    expect(sources[1].stop).toHaveBeenCalled();
+    expect(sources[1].onended).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import { decode } from '../constants';
+import { pcm16ToFloat32 } from './encoders/wav';
+import { EmptyAudioError } from './speechErrors';
+
+export interface AudioClock {
+  readonly currentTime: number; // Seconds
+}
+
+export interface PcmStreamSchedulerOptions {
+  clock: AudioClock;
+  sampleRate: number;
+  // Starts playing `samples` at clock time `when`
+  schedule: (samples: Float32Array, when: number) => void;
+  // Head start given to the first chunk (and after an underrun) so it is not scheduled in the past
+  startLatencySeconds?: number;
+}
+
+export interface PcmStreamScheduler {
+  push(bytes: Uint8Array): void;
+  // Returns every sample received so far, in order
+  finish(): Float32Array;
+  readonly underruns: number;
+  readonly endTime: number; // Clock time at which the last scheduled chunk finishes
+}
+
+const DEFAULT_START_LATENCY_SECONDS = 0.05;
+
+/**
+ * Queues 16-bit PCM chunks back to back on a clock. Each chunk starts exactly
+ * where the previous one ends, so playback is gap-free as long as chunks arrive
+ * faster than they play. When a chunk arrives after the queue has drained (an
+ * underrun), playback resumes after `startLatencySeconds` and the underrun is
+ * counted. A byte split across two chunks is carried over.
+ */
+export function createPcmStreamScheduler(options: PcmStreamSchedulerOptions): PcmStreamScheduler {
+  const { clock, sampleRate, schedule } = options;
+  const startLatency = options.startLatencySeconds ?? DEFAULT_START_LATENCY_SECONDS;
+  const received: Float32Array[] = [];
+  let carry: Uint8Array | null = null;
+  let nextStartTime: number | null = null;
+  let underruns = 0;
+
+  return {
+    push(bytes) {
+      let data = bytes;
+      if (carry) {
+        data = new Uint8Array(carry.length + bytes.length);
+        data.set(carry);
+        data.set(bytes, carry.length);
+        carry = null;
+      }
+      if (data.length % 2 === 1) {
+        carry = data.slice(data.length - 1);
+        data = data.subarray(0, data.length - 1);
+      }
+      if (data.length === 0) {
+        return;
+      }
+
+      const samples = pcm16ToFloat32(data);
+      received.push(samples);
+
+      const earliest = clock.currentTime + startLatency;
+      if (nextStartTime === null) {
+        nextStartTime = earliest;
+      } else if (nextStartTime < clock.currentTime) {
+        underruns++;
+        nextStartTime = earliest;
+      }
+      schedule(samples, nextStartTime);
+      nextStartTime += samples.length / sampleRate;
+    },
+
+    finish() {
+      const total = received.reduce((sum, chunk) => sum + chunk.length, 0);
+      const output = new Float32Array(total);
+      let offset = 0;
+      for (const chunk of received) {
+        output.set(chunk, offset);
+        offset += chunk.length;
+      }
+      return output;
+    },
+
+    get underruns() {
+      return underruns;
+    },
+
+    get endTime() {
+      return nextStartTime ?? clock.currentTime;
+    },
+  };
+}
+
+/**
+ * Feeds a stream of base64 PCM chunks into the scheduler as they arrive and
+ * resolves with the complete clip once the stream ends.
+ */
+export async function playPcmStream(chunks: AsyncIterable<string>, scheduler: PcmStreamScheduler): Promise<Float32Array> {
+  for await (const chunk of chunks) {
+    scheduler.push(decode(chunk));
+  }
+  const samples = scheduler.finish();
+  if (samples.length === 0) {
+    throw new EmptyAudioError("No audio data received from the API.");
+  }
+  return samples;
+}
+
+export interface AudioContextSink {
+  schedule: (samples: Float32Array, when: number) => void;
+  stop: () => void;
+}
+
+/**
+ * Plays scheduled chunks through buffer sources on the given context.
+ */
+export function createAudioContextSink(ctx: AudioContext, sampleRate: number): AudioContextSink {
+  const sources = new Set<AudioBufferSourceNode>();
+  return {
+    schedule(samples, when) {
+      const buffer = ctx.createBuffer(1, samples.length, sampleRate);
+      buffer.copyToChannel(samples, 0);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => {
+        sources.delete(source);
+        source.disconnect();
+      };
+      source.start(when);
+      sources.add(source);
+    },
+    stop() {
+      for (const source of sources) {
+        source.onended = null;
+        source.stop();
+        source.disconnect();
+      }
+      sources.clear();
+    },
+  };
+}
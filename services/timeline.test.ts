@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addClip,
+  createTimeline,
+  duckingEnvelope,
+  envelopeGainAt,
+  moveClip,
+  speechIntervals,
+  timelineDuration,
+  trimClipEnd,
+  trimClipStart,
+} from './timeline';
+import { dbToGain } from './audioProcessing';
+import { Timeline, TimelineTrack } from '../types';
+import { DEFAULT_DUCKING, TIMELINE_MIN_CLIP_SECONDS } from '../constants';
+
+// Timeline with one clip per [track, start, duration], given ids "c0", "c1", ...
+function timelineOf(...clips: [TimelineTrack, number, number][]): Timeline {
+  return clips.reduce((timeline, [track, start, duration], index) =>
+    addClip(timeline, track, { id: `s${index}`, duration }, start, `c${index}`), createTimeline());
+}
+
+const round = (points: { time: number, gain: number }[]) => points.map(({ time, gain }) => [+time.toFixed(3), +gain.toFixed(3)]);
+
+describe('addClip', () => {
+  it('appends to the end of the same track by default', () => {
+    let timeline = addClip(createTimeline(), 'voice', { id: 'a', duration: 2 });
+    timeline = addClip(timeline, 'music', { id: 'm', duration: 10 });
+    timeline = addClip(timeline, 'voice', { id: 'b', duration: 3 });
+
+    expect(timeline.clips.map(({ sourceId, start, offset, duration }) => [sourceId, start, offset, duration])).toEqual([
+      ['a', 0, 0, 2],
+      ['m', 0, 0, 10],
+      ['b', 2, 0, 3],
+    ]);
+    expect(timelineDuration(timeline)).toBe(10);
+  });
+
+  it('keeps clips from starting before zero', () => {
+    expect(addClip(createTimeline(), 'voice', { id: 'a', duration: 1 }, -3).clips[0].start).toBe(0);
+    expect(moveClip(timelineOf(['voice', 2, 1]), 'c0', -1).clips[0].start).toBe(0);
+  });
+});
+
+describe('trimming', () => {
+  it('moves the start edge and keeps the end in place', () => {
+    const [clip] = trimClipStart(timelineOf(['voice', 1, 4]), 'c0', 2.5).clips;
+    expect(clip).toMatchObject({ start: 2.5, offset: 1.5, duration: 2.5 });
+  });
+
+  it('stops the start edge at the start of the source and the minimum length', () => {
+    const trimmed = trimClipStart(timelineOf(['voice', 1, 4]), 'c0', 2);
+    expect(trimClipStart(trimmed, 'c0', 0).clips[0]).toMatchObject({ start: 1, offset: 0, duration: 4 });
+    const shortest = trimClipStart(trimmed, 'c0', 9).clips[0];
+    expect(shortest.start).toBeCloseTo(5 - TIMELINE_MIN_CLIP_SECONDS);
+    expect(shortest.duration).toBeCloseTo(TIMELINE_MIN_CLIP_SECONDS);
+  });
+
+  it('stops the end edge at the end of the source and the minimum length', () => {
+    const trimmed = trimClipStart(timelineOf(['voice', 0, 4]), 'c0', 1);
+    expect(trimClipEnd(trimmed, 'c0', 2).clips[0]).toMatchObject({ start: 1, duration: 1 });
+    expect(trimClipEnd(trimmed, 'c0', 10).clips[0].duration).toBe(3);
+    expect(trimClipEnd(trimmed, 'c0', 0).clips[0].duration).toBe(TIMELINE_MIN_CLIP_SECONDS);
+  });
+
+  it('leaves other clips alone', () => {
+    const timeline = timelineOf(['voice', 0, 2], ['voice', 2, 2]);
+    expect(trimClipEnd(timeline, 'c0', 1).clips[1]).toBe(timeline.clips[1]);
+  });
+});
+
+describe('speechIntervals', () => {
+  it('merges voice clips that overlap or sit closer than the gap and ignores music', () => {
+    const timeline = timelineOf(['voice', 5, 1], ['music', 0, 20], ['voice', 0, 2], ['voice', 1, 2], ['voice', 6.5, 1]);
+    expect(speechIntervals(timeline)).toEqual([{ start: 0, end: 3 }, { start: 5, end: 6 }, { start: 6.5, end: 7.5 }]);
+    expect(speechIntervals(timeline, 0.5)).toEqual([{ start: 0, end: 3 }, { start: 5, end: 7.5 }]);
+  });
+});
+
+describe('duckingEnvelope', () => {
+  const ducked = +dbToGain(-DEFAULT_DUCKING.amountDb).toFixed(3);
+
+  it('stays at full level when ducking is off or there is no speech', () => {
+    const timeline = timelineOf(['voice', 1, 1]);
+    expect(duckingEnvelope({ ...timeline, ducking: { ...DEFAULT_DUCKING, enabled: false } })).toEqual([{ time: 0, gain: 1 }]);
+    expect(duckingEnvelope({ ...timeline, ducking: { ...DEFAULT_DUCKING, amountDb: 0 } })).toEqual([{ time: 0, gain: 1 }]);
+    expect(duckingEnvelope(timelineOf(['music', 0, 10]))).toEqual([{ time: 0, gain: 1 }]);
+  });
+
+  it('ramps down over the attack before speech and back up over the release after it', () => {
+    expect(round(duckingEnvelope(timelineOf(['voice', 2, 2])))).toEqual([[0, 1], [1.8, 1], [2, ducked], [4, ducked], [4.5, 1]]);
+  });
+
+  it('stays ducked across short gaps between lines', () => {
+    expect(round(duckingEnvelope(timelineOf(['voice', 1, 1], ['voice', 2.5, 1])))).toEqual([[0, 1], [0.8, 1], [1, ducked], [3.5, ducked], [4, 1]]);
+  });
+
+  it('starts partly ducked when speech begins within the attack time', () => {
+    const [first, ...rest] = duckingEnvelope(timelineOf(['voice', 0.1, 1]));
+    expect(first.time).toBe(0);
+    expect(first.gain).toBeCloseTo((1 + dbToGain(-DEFAULT_DUCKING.amountDb)) / 2);
+    expect(round(rest)).toEqual([[0.1, ducked], [1.1, ducked], [1.6, 1]]);
+  });
+});
+
+describe('envelopeGainAt', () => {
+  it('interpolates between points and holds the ends', () => {
+    const points = [{ time: 0, gain: 1 }, { time: 1, gain: 1 }, { time: 2, gain: 0.5 }];
+    expect(envelopeGainAt(points, -1)).toBe(1);
+    expect(envelopeGainAt(points, 1.5)).toBe(0.75);
+    expect(envelopeGainAt(points, 5)).toBe(0.5);
+  });
+});
@@ -0,0 +1,192 @@
+import { Timeline, TimelineClip, TimelineTrack, EnvelopePoint } from '../types';
+import { dbToGain } from './audioProcessing';
+import { DEFAULT_DUCKING, TIMELINE_MIN_CLIP_SECONDS, TIMELINE_SAMPLE_RATE, TIMELINE_CHANNELS } from '../constants';
+
+/**
+ * Multi-track timeline of voice takes over a music bed. Everything except
+ * `renderTimeline` works on plain data and returns new objects, so the editor
+ * can keep the timeline in React state and undo by keeping old values.
+ */
+
+// Decoded audio that clips refer to by id
+export interface TimelineSource {
+  id: string;
+  label: string;
+  buffer: AudioBuffer;
+}
+
+export const createTimeline = (): Timeline => ({ clips: [], ducking: DEFAULT_DUCKING });
+
+export const clipEnd = (clip: TimelineClip) => clip.start + clip.duration;
+
+export function trackEnd(timeline: Timeline, track: TimelineTrack): number {
+  return timeline.clips.filter((clip) => clip.track === track).reduce((end, clip) => Math.max(end, clipEnd(clip)), 0);
+}
+
+export function timelineDuration(timeline: Timeline): number {
+  return timeline.clips.reduce((end, clip) => Math.max(end, clipEnd(clip)), 0);
+}
+
+/**
+ * Places the whole of a source on a track, by default after the last clip
+ * already on it.
+ */
+export function addClip(
+  timeline: Timeline,
+  track: TimelineTrack,
+  source: { id: string, duration: number },
+  start: number = trackEnd(timeline, track),
+  id: string = crypto.randomUUID(),
+): Timeline {
+  const clip: TimelineClip = {
+    id,
+    track,
+    sourceId: source.id,
+    sourceDuration: source.duration,
+    start: Math.max(0, start),
+    offset: 0,
+    duration: source.duration,
+    gainDb: 0,
+  };
+  return { ...timeline, clips: [...timeline.clips, clip] };
+}
+
+const updateClip = (timeline: Timeline, id: string, update: (clip: TimelineClip) => TimelineClip): Timeline => ({
+  ...timeline,
+  clips: timeline.clips.map((clip) => (clip.id === id ? update(clip) : clip)),
+});
+
+export const removeClip = (timeline: Timeline, id: string): Timeline => ({
+  ...timeline,
+  clips: timeline.clips.filter((clip) => clip.id !== id),
+});
+
+export const moveClip = (timeline: Timeline, id: string, start: number): Timeline =>
+  updateClip(timeline, id, (clip) => ({ ...clip, start: Math.max(0, start) }));
+
+export const setClipGain = (timeline: Timeline, id: string, gainDb: number): Timeline =>
+  updateClip(timeline, id, (clip) => ({ ...clip, gainDb }));
+
+/**
+ * Moves the start edge of a clip to `start` on the timeline, keeping its end
+ * in place. The edge stops at the start of the source and the minimum length.
+ */
+export const trimClipStart = (timeline: Timeline, id: string, start: number): Timeline =>
+  updateClip(timeline, id, (clip) => {
+    const end = clipEnd(clip);
+    const earliest = Math.max(0, clip.start - clip.offset);
+    const clamped = Math.min(Math.max(start, earliest), end - TIMELINE_MIN_CLIP_SECONDS);
+    return { ...clip, start: clamped, offset: clip.offset + (clamped - clip.start), duration: end - clamped };
+  });
+
+/**
+ * Moves the end edge of a clip to `end` on the timeline. The edge stops at the
+ * end of the source and the minimum length.
+ */
+export const trimClipEnd = (timeline: Timeline, id: string, end: number): Timeline =>
+  updateClip(timeline, id, (clip) => {
+    const duration = Math.min(Math.max(end - clip.start, TIMELINE_MIN_CLIP_SECONDS), clip.sourceDuration - clip.offset);
+    return { ...clip, duration };
+  });
+
+/**
+ * Spans where any voice clip plays, sorted and merged. Spans closer together
+ * than `mergeGap` seconds are joined so the music does not pump between lines.
+ */
+export function speechIntervals(timeline: Timeline, mergeGap = 0): { start: number, end: number }[] {
+  const spans = timeline.clips
+    .filter((clip) => clip.track === 'voice')
+    .map((clip) => ({ start: clip.start, end: clipEnd(clip) }))
+    .sort((a, b) => a.start - b.start);
+  const merged: { start: number, end: number }[] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span.start - last.end <= mergeGap) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Gain curve of the music track: full level, ramping down to the ducked level
+ * over the attack time before each stretch of speech and back up over the
+ * release time after it. Starts at time 0; constant after the last point.
+ */
+export function duckingEnvelope(timeline: Timeline): EnvelopePoint[] {
+  const { enabled, amountDb, attackMs, releaseMs } = timeline.ducking;
+  if (!enabled || amountDb <= 0) {
+    return [{ time: 0, gain: 1 }];
+  }
+  const attack = attackMs / 1000;
+  const release = releaseMs / 1000;
+  const ducked = dbToGain(-amountDb);
+  const points: EnvelopePoint[] = [{ time: 0, gain: 1 }];
+  for (const { start, end } of speechIntervals(timeline, attack + release)) {
+    const fadeStart = Math.max(0, start - attack);
+    if (fadeStart > 0) {
+      points.push({ time: fadeStart, gain: 1 });
+    } else {
+      // Speech within the attack time of the start: begin partly ducked
+      points[0] = { time: 0, gain: attack > 0 ? 1 - (1 - ducked) * (1 - start / attack) : ducked };
+    }
+    points.push({ time: start, gain: ducked }, { time: end, gain: ducked }, { time: end + release, gain: 1 });
+  }
+  return points.filter((point, index) => index === 0 || point.time > points[index - 1].time || point.gain !== points[index - 1].gain);
+}
+
+/**
+ * Reads the envelope at `time` by linear interpolation.
+ */
+export function envelopeGainAt(points: EnvelopePoint[], time: number): number {
+  const next = points.findIndex((point) => point.time > time);
+  if (next === -1) {
+    return points[points.length - 1].gain;
+  }
+  if (next === 0) {
+    return points[0].gain;
+  }
+  const a = points[next - 1];
+  const b = points[next];
+  return a.gain + (b.gain - a.gain) * ((time - a.time) / (b.time - a.time));
+}
+
+/**
+ * Mixes the timeline into one buffer. Each clip plays through its own gain;
+ * music clips share a bus that follows the ducking envelope. Clips whose
+ * source is missing are skipped.
+ */
+export async function renderTimeline(
+  timeline: Timeline,
+  sources: Map<string, AudioBuffer>,
+  sampleRate: number = TIMELINE_SAMPLE_RATE,
+  channels: number = TIMELINE_CHANNELS,
+): Promise<AudioBuffer> {
+  const duration = timelineDuration(timeline);
+  if (duration <= 0) {
+    throw new Error('The timeline is empty.');
+  }
+  const ctx = new OfflineAudioContext(channels, Math.ceil(duration * sampleRate), sampleRate);
+
+  const musicBus = ctx.createGain();
+  musicBus.connect(ctx.destination);
+  const [first, ...rest] = duckingEnvelope(timeline);
+  musicBus.gain.setValueAtTime(first.gain, 0);
+  rest.forEach((point) => musicBus.gain.linearRampToValueAtTime(point.gain, point.time));
+
+  for (const clip of timeline.clips) {
+    const buffer = sources.get(clip.sourceId);
+    if (!buffer) {
+      continue;
+    }
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    const gain = ctx.createGain();
+    gain.gain.value = dbToGain(clip.gainDb);
+    source.connect(gain).connect(clip.track === 'music' ? musicBus : ctx.destination);
+    source.start(clip.start, clip.offset, clip.duration);
+  }
+  return ctx.startRendering();
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { SCRIPT_RULES, tokenizeRoman, transliterateScript, transliterateWord } from './transliteration';
+import { Language } from '../types';
+
+type Script = Exclude<Language, 'english'>;
+
+describe('transliterateWord', () => {
+  it.each<[Script, string, string]>([
+    // Common words whose casual spelling hides long vowels or retroflex letters
+    ['telugu', 'namaskaram', '\u0C28\u0C2E\u0C38\u0C4D\u0C15\u0C3E\u0C30\u0C02'],
+    ['telugu', 'Namaskaram', '\u0C28\u0C2E\u0C38\u0C4D\u0C15\u0C3E\u0C30\u0C02'],
+    ['telugu', 'bagunnara', '\u0C2C\u0C3E\u0C17\u0C41\u0C28\u0C4D\u0C28\u0C3E\u0C30\u0C3E'],
+    ['tamil', 'vanakkam', '\u0BB5\u0BA3\u0B95\u0BCD\u0B95\u0BAE\u0BCD'],
+    ['tamil', 'nanri', '\u0BA8\u0BA9\u0BCD\u0BB1\u0BBF'],
+    ['tamil', 'nanbargale', '\u0BA8\u0BA3\u0BCD\u0BAA\u0BB0\u0BCD\u0B95\u0BB3\u0BC7'],
+    ['hindi', 'dhanyavad', '\u0927\u0928\u094D\u092F\u0935\u093E\u0926'],
+  ])('%s %s', (language, word, expected) => {
+    expect(transliterateWord(word, language)).toBe(expected);
+  });
+
+  it.each<[Script, string, string]>([
+    // Doubled vowels and ITRANS capitals are long
+    ['telugu', 'namaskAram', '\u0C28\u0C2E\u0C38\u0C4D\u0C15\u0C3E\u0C30\u0C02'],
+    ['telugu', 'baagunnaaraa', '\u0C2C\u0C3E\u0C17\u0C41\u0C28\u0C4D\u0C28\u0C3E\u0C30\u0C3E'],
+    ['telugu', 'nee', '\u0C28\u0C40'],
+    ['telugu', 'kOTi', '\u0C15\u0C4B\u0C1F\u0C3F'],
+    ['hindi', 'dhanyavaad', '\u0927\u0928\u094D\u092F\u0935\u093E\u0926'],
+    // Capital T, D, N, L are retroflex; Tamil casual "t" is too
+    ['telugu', 'maNi', '\u0C2E\u0C23\u0C3F'],
+    ['tamil', 'paattu', '\u0BAA\u0BBE\u0B9F\u0BCD\u0B9F\u0BC1'],
+    ['tamil', 'vaNakkam', '\u0BB5\u0BA3\u0B95\u0BCD\u0B95\u0BAE\u0BCD'],
+    // "th" is the dental t in Telugu and Tamil, zh the Tamil retroflex approximant
+    ['telugu', 'thelugu', '\u0C24\u0C46\u0C32\u0C41\u0C17\u0C41'],
+    ['tamil', 'thamizh', '\u0BA4\u0BAE\u0BBF\u0BB4\u0BCD'],
+    // Vocalic r and the x cluster
+    ['hindi', 'kRShNa', '\u0915\u0943\u0937\u094D\u0923'],
+    ['telugu', 'kRShNa', '\u0C15\u0C43\u0C37\u0C4D\u0C23'],
+    ['hindi', 'x', '\u0915\u094D\u0937'],
+  ])('%s %s by rule', (language, word, expected) => {
+    expect(transliterateWord(word, language)).toBe(expected);
+  });
+
+  it.each<[Script, string, string]>([
+    // Telugu writes a nasal before a stop or at the end of a word as an anusvara
+    ['telugu', 'manchi', '\u0C2E\u0C02\u0C1A\u0C3F'],
+    ['telugu', 'amma', '\u0C05\u0C2E\u0C4D\u0C2E'],
+    // Hindi drops the final inherent vowel and nasalizes "ai" before a final n
+    ['hindi', 'kaam', '\u0915\u093E\u092E'],
+    ['hindi', 'hain', '\u0939\u0948\u0902'],
+    ['hindi', 'namaste', '\u0928\u092E\u0938\u094D\u0924\u0947'],
+    // Tamil writes the dental n only at the start of a word
+    ['tamil', 'nanRi', '\u0BA8\u0BA9\u0BCD\u0BB1\u0BBF'],
+  ])('%s %s: nasals and final consonants', (language, word, expected) => {
+    expect(transliterateWord(word, language)).toBe(expected);
+  });
+
+  it('only looks up words the table defines', () => {
+    expect(transliterateWord('constructor', 'telugu')).toBe(
+      '\u0C1A\u0C4A\u0C02\u0C38\u0C4D\u0C24\u0C4D\u0C30\u0C41\u0C1A\u0C4D\u0C24\u0C4A\u0C30\u0C4D',
+    );
+  });
+});
+
+describe('tokenizeRoman', () => {
+  it('matches the longest spelling first', () => {
+    expect(tokenizeRoman('chhaa', SCRIPT_RULES.hindi)).toEqual([
+      { kind: 'consonant', offsets: [0x1b] },
+      { kind: 'vowel', vowel: 'aa' },
+    ]);
+  });
+
+  it('folds consonants Tamil lacks onto the nearest letter', () => {
+    expect(tokenizeRoman('gb', SCRIPT_RULES.tamil)).toEqual([
+      { kind: 'consonant', offsets: [0x15] },
+      { kind: 'consonant', offsets: [0x2a] },
+    ]);
+  });
+});
+
+describe('transliterateScript', () => {
+  it('keeps markup, escapes, speaker labels, digits and punctuation', () => {
+    expect(transliterateScript('Ravi: namaskaram [pause 500ms] <slow>baagunnaaraa</slow> \\*, 123!', 'telugu', { keepSpeakerLabels: true })).toBe(
+      'Ravi: \u0C28\u0C2E\u0C38\u0C4D\u0C15\u0C3E\u0C30\u0C02 [pause 500ms] <slow>\u0C2C\u0C3E\u0C17\u0C41\u0C28\u0C4D\u0C28\u0C3E\u0C30\u0C3E</slow> \\*, 123!',
+    );
+  });
+
+  it('keeps pronunciation overrides and escaped braces as written', () => {
+    expect(transliterateScript('{Hyderabad|hai-der-aa-baad} \\{namaskaram\\}', 'telugu')).toBe(
+      '{Hyderabad|hai-der-aa-baad} \\{\u0C28\u0C2E\u0C38\u0C4D\u0C15\u0C3E\u0C30\u0C02\\}',
+    );
+  });
+
+  it('converts each word of a sentence and leaves native text alone', () => {
+    expect(transliterateScript('vanakkam \u0BA4\u0BAE\u0BBF\u0BB4\u0BCD nanbargale', 'tamil')).toBe(
+      '\u0BB5\u0BA3\u0B95\u0BCD\u0B95\u0BAE\u0BCD \u0BA4\u0BAE\u0BBF\u0BB4\u0BCD \u0BA8\u0BA3\u0BCD\u0BAA\u0BB0\u0BCD\u0B95\u0BB3\u0BC7',
+    );
+  });
+
+  it('returns English scripts unchanged', () => {
+    expect(transliterateScript('namaskaram', 'english')).toBe('namaskaram');
+  });
+});
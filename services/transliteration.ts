@@ -0,0 +1,273 @@
+import { Language } from '../types';
+import { speakerLabel } from './dialogue';
+
+/**
+ * Rule-based transliteration of romanized Hindi, Telugu and Tamil into their
+ * native scripts. Accepts casual spellings ("namaskaram", "dhanyavaad") as well
+ * as ITRANS-style capitals for long vowels and retroflex consonants ("A", "T",
+ * "N"). The Unicode blocks of these scripts share one layout, so every table
+ * below stores offsets into the block rather than characters.
+ */
+
+type Offset = number;
+
+interface ScriptRules {
+  base: number; // First code point of the script's Unicode block
+  shortEO: boolean; // Distinguishes short and long e/o; Devanagari only writes the long ones
+  finalConsonant: 'bare' | 'virama'; // Hindi drops the inherent vowel of a final consonant without a virama
+  nasalAnusvara: boolean; // Writes m/n before another consonant or at the end of a word as an anusvara
+  nasalizingVowels?: string[]; // Vowels after which a final n only nasalizes the vowel (Hindi "hain", "main")
+  tokens?: Record<string, Offset>; // Consonant spellings that differ from the shared table
+  fold?: Record<Offset, Offset>; // Consonants the script lacks, mapped to the nearest letter it has
+  words?: Record<string, string>; // Casual spellings of common words, respelled in ITRANS
+}
+
+const VIRAMA = 0x4d;
+const ANUSVARA = 0x02;
+const VISARGA = 0x03;
+
+// Independent vowel letter and dependent vowel sign offsets
+const VOWELS: Record<string, { letter: Offset, sign: Offset | null }> = {
+  a: { letter: 0x05, sign: null },
+  aa: { letter: 0x06, sign: 0x3e },
+  i: { letter: 0x07, sign: 0x3f },
+  ii: { letter: 0x08, sign: 0x40 },
+  u: { letter: 0x09, sign: 0x41 },
+  uu: { letter: 0x0a, sign: 0x42 },
+  e: { letter: 0x0e, sign: 0x46 },
+  ee: { letter: 0x0f, sign: 0x47 },
+  ai: { letter: 0x10, sign: 0x48 },
+  o: { letter: 0x12, sign: 0x4a },
+  oo: { letter: 0x13, sign: 0x4b },
+  au: { letter: 0x14, sign: 0x4c },
+  ri: { letter: 0x0b, sign: 0x43 }, // Vocalic r, as in kRShNa
+};
+
+// Roman spellings of each vowel; casual "ee"/"oo" mean long i/u, capitals are ITRANS
+const VOWEL_SPELLINGS: Record<string, string> = {
+  aa: 'aa', A: 'aa', R: 'ri',
+  ai: 'ai', au: 'au',
+  ii: 'ii', ee: 'ii', I: 'ii',
+  uu: 'uu', oo: 'uu', U: 'uu',
+  E: 'ee', O: 'oo',
+  a: 'a', i: 'i', u: 'u', e: 'e', o: 'o',
+};
+
+// Consonant spellings; a spelling may stand for a cluster (x = k + sh)
+const CONSONANTS: Record<string, Offset[]> = {
+  k: [0x15], q: [0x15], kh: [0x16], g: [0x17], gh: [0x18],
+  ch: [0x1a], c: [0x1a], chh: [0x1b], j: [0x1c], z: [0x1c], jh: [0x1d],
+  T: [0x1f], Th: [0x20], D: [0x21], Dh: [0x22], N: [0x23],
+  t: [0x24], th: [0x25], d: [0x26], dh: [0x27], n: [0x28],
+  p: [0x2a], ph: [0x2b], f: [0x2b], b: [0x2c], bh: [0x2d], m: [0x2e],
+  y: [0x2f], r: [0x30], rr: [0x31], l: [0x32], L: [0x33], zh: [0x34],
+  v: [0x35], w: [0x35], sh: [0x36], Sh: [0x37], shh: [0x37], s: [0x38], h: [0x39],
+  x: [0x15, 0x37],
+};
+
+const NASALS: Offset[] = [0x28, 0x2e];
+const DENTAL_N: Offset = 0x28;
+const ALVEOLAR_N: Offset = 0x29;
+
+export const SCRIPT_RULES: Record<Exclude<Language, 'english'>, ScriptRules> = {
+  hindi: {
+    base: 0x0900,
+    shortEO: false,
+    finalConsonant: 'bare',
+    nasalAnusvara: false,
+    nasalizingVowels: ['ai'],
+    words: {
+      dhanyavad: 'dhanyavAd',
+      kya: 'kyA',
+      namaskar: 'namaskAr',
+      shukriya: 'shukriyA',
+    },
+  },
+  telugu: {
+    base: 0x0c00,
+    shortEO: true,
+    finalConsonant: 'virama',
+    nasalAnusvara: true,
+    tokens: { th: 0x24 }, // Casual Telugu spelling writes the plain dental t as "th" (thelugu)
+    words: {
+      bagunnara: 'bAgunnArA',
+      bagunnaru: 'bAgunnAru',
+      dhanyavadalu: 'dhanyavAdAlu',
+      ela: 'elA',
+      namaskaram: 'namaskAram',
+      unnaru: 'unnAru',
+    },
+  },
+  tamil: {
+    base: 0x0b80,
+    shortEO: true,
+    finalConsonant: 'virama',
+    nasalAnusvara: false,
+    // Casual Tamil "t" is retroflex (paattu), "th" dental (thamizh); "R" is the alveolar r (nanRi)
+    tokens: { t: 0x1f, th: 0x24, R: 0x31 },
+    fold: {
+      0x16: 0x15, 0x17: 0x15, 0x18: 0x15,
+      0x1b: 0x1a, 0x1d: 0x1c,
+      0x20: 0x1f, 0x21: 0x1f, 0x22: 0x1f,
+      0x25: 0x24, 0x26: 0x24, 0x27: 0x24,
+      0x2b: 0x2a, 0x2c: 0x2a, 0x2d: 0x2a,
+      0x36: 0x37,
+    },
+    words: {
+      eppadi: 'eppaDi',
+      nanbargale: 'naNbargaLE',
+      nandri: 'nanRi',
+      nanri: 'nanRi',
+      vanakkam: 'vaNakkam',
+    },
+  },
+};
+
+type Token =
+  | { kind: 'vowel', vowel: string }
+  | { kind: 'consonant', offsets: Offset[] }
+  | { kind: 'sign', offset: Offset } // Anusvara or visarga written explicitly as "M" or "H"
+  | { kind: 'other', text: string }; // A letter without a mapping, copied as is
+
+const SIGN_SPELLINGS: Record<string, Offset> = { M: ANUSVARA, H: VISARGA };
+
+// Longest spellings first so "chh" wins over "ch" and "c"
+const SPELLINGS = [...Object.keys(VOWEL_SPELLINGS), ...Object.keys(CONSONANTS), ...Object.keys(SIGN_SPELLINGS)]
+  .sort((a, b) => b.length - a.length);
+
+/**
+ * Splits one romanized word into vowel, consonant and sign tokens by longest match.
+ */
+export function tokenizeRoman(word: string, rules: ScriptRules): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < word.length) {
+    const spelling = SPELLINGS.find((candidate) => word.startsWith(candidate, index));
+    if (!spelling) {
+      tokens.push({ kind: 'other', text: word[index] });
+      index++;
+      continue;
+    }
+    index += spelling.length;
+    const override = rules.tokens?.[spelling];
+    if (override !== undefined) {
+      tokens.push({ kind: 'consonant', offsets: [override] });
+    } else if (spelling in VOWEL_SPELLINGS) {
+      tokens.push({ kind: 'vowel', vowel: VOWEL_SPELLINGS[spelling] });
+    } else if (spelling in SIGN_SPELLINGS) {
+      tokens.push({ kind: 'sign', offset: SIGN_SPELLINGS[spelling] });
+    } else {
+      tokens.push({ kind: 'consonant', offsets: CONSONANTS[spelling].map((offset) => rules.fold?.[offset] ?? offset) });
+    }
+  }
+  return tokens;
+}
+
+// Casual writing capitalizes the first letter of a sentence or whole words; only mixed-case words are ITRANS
+function normalizeCase(word: string): string {
+  const rest = word.slice(1);
+  return rest === rest.toLowerCase() || word === word.toUpperCase() ? word.toLowerCase() : word;
+}
+
+function vowelOffset(vowel: string, rules: ScriptRules, kind: 'letter' | 'sign'): Offset | null {
+  // Without short e/o the plain spellings map to the long vowels
+  const resolved = !rules.shortEO && (vowel === 'e' || vowel === 'o') ? vowel + vowel : vowel;
+  return VOWELS[resolved][kind];
+}
+
+// Stops and sibilants; a nasal before them becomes an anusvara where the script prefers it
+const isStopOrSibilant = (offset: Offset) => (offset >= 0x15 && offset <= 0x2d) || (offset >= 0x36 && offset <= 0x38);
+
+/**
+ * Transliterates a single romanized word (ASCII letters only). Casual spelling
+ * marks neither vowel length nor retroflex consonants, so common words are
+ * looked up in the script's word table first ("namaskaram" is namaskAram).
+ */
+export function transliterateWord(word: string, language: Exclude<Language, 'english'>): string {
+  const rules = SCRIPT_RULES[language];
+  const normalized = normalizeCase(word);
+  const respelled = rules.words && Object.hasOwn(rules.words, normalized) ? rules.words[normalized] : normalized;
+  const tokens = tokenizeRoman(respelled, rules);
+  let output = '';
+  const emit = (offset: Offset) => {
+    output += String.fromCodePoint(rules.base + offset);
+  };
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+    if (token.kind === 'other') {
+      output += token.text;
+    } else if (token.kind === 'sign') {
+      emit(token.offset);
+    } else if (token.kind === 'vowel') {
+      // After a consonant the vowel is written as a sign on it
+      if (previous?.kind !== 'consonant') {
+        emit(vowelOffset(token.vowel, rules, 'letter')!);
+      }
+    } else {
+      // Every consonant of a cluster but the last is joined with a virama
+      token.offsets.slice(0, -1).forEach((offset) => {
+        emit(offset);
+        emit(VIRAMA);
+      });
+      const offset = token.offsets[token.offsets.length - 1];
+      const atEnd = next === undefined || next.kind === 'other';
+      const nextConsonant = next?.kind === 'consonant' ? next.offsets[0] : null;
+
+      if (rules.nasalAnusvara && NASALS.includes(offset) && index > 0
+        && (atEnd || (nextConsonant !== null && nextConsonant !== offset && isStopOrSibilant(nextConsonant)))) {
+        emit(ANUSVARA);
+        return;
+      }
+      if (atEnd && offset === DENTAL_N && previous?.kind === 'vowel' && rules.nasalizingVowels?.includes(previous.vowel)) {
+        emit(ANUSVARA);
+        return;
+      }
+      // Tamil writes the dental n only at the start of a word and before t
+      const tamilN = language === 'tamil' && offset === DENTAL_N && index > 0 && nextConsonant !== 0x24;
+      emit(tamilN ? ALVEOLAR_N : offset);
+
+      if (next?.kind === 'vowel') {
+        const sign = vowelOffset(next.vowel, rules, 'sign');
+        if (sign !== null) {
+          emit(sign);
+        }
+      } else if (!atEnd || rules.finalConsonant === 'virama') {
+        emit(VIRAMA);
+      }
+    }
+  });
+  return output;
+}
+
+// Script markup, pronunciation overrides and backslash escapes are copied unchanged
+const PROTECTED_PATTERN = /(\[[^\]\n]*\]|\{[^}\n]*\}|<\/?[a-z]+>|\\.)/i;
+
+export interface TransliterateOptions {
+  keepSpeakerLabels?: boolean; // Leave "Name:" at the start of dialogue lines untouched
+}
+
+/**
+ * Transliterates every romanized word in a script into the native script of
+ * `language`. Text already in another script, digits, punctuation and markup
+ * are preserved. English returns the script unchanged.
+ */
+export function transliterateScript(script: string, language: Language, options: TransliterateOptions = {}): string {
+  if (language === 'english') {
+    return script;
+  }
+  const convertText = (text: string) =>
+    text
+      .split(PROTECTED_PATTERN)
+      .map((part, index) => (index % 2 === 1 ? part : part.replace(/[A-Za-z]+/g, (word) => transliterateWord(word, language))))
+      .join('');
+
+  return script
+    .split('\n')
+    .map((line) => {
+      const label = options.keepSpeakerLabels ? speakerLabel(line) : undefined;
+      return label ? label + convertText(line.slice(label.length)) : convertText(line);
+    })
+    .join('\n');
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import { checkBudget, createUsageStore, summarizeUsage, withBudgetLimit, withUsageTracking } from './usage';
+import { TtsProvider } from './providers/ttsProvider';
+import { mockProvider } from './providers/mockProvider';
+import { BudgetExceededError, NetworkError, ServerError } from './speechErrors';
+import { GenerateSpeechParams, UsageEntry } from '../types';
+import { DEFAULT_PRICE_TABLE, USAGE_LOG_STORAGE_KEY } from '../constants';
+
+const speech: GenerateSpeechParams = {
+  script: 'Hello there.',
+  voiceOption: mockProvider.voices[0],
+  emotion: 'neutral',
+  language: 'english',
+};
+
+// Half a second of silent 16-bit PCM at 24 kHz
+const AUDIO = btoa('\0'.repeat(24000));
+
+// Provider whose generateSpeech reports the given attempts before returning or failing
+function reporting(attempts: { characters: number, latencyMs: number, error?: unknown }[], fails = false): TtsProvider {
+  return {
+    ...mockProvider,
+    async generateSpeech(params) {
+      attempts.forEach((attempt) => params.onAttempt?.(attempt));
+      if (fails) {
+        throw attempts[attempts.length - 1]?.error ?? new NetworkError('Offline.');
+      }
+      return AUDIO;
+    },
+  };
+}
+
+function tracked(provider: TtsProvider) {
+  const entries: Omit<UsageEntry, 'id'>[] = [];
+  return { provider: withUsageTracking(provider, (entry) => entries.push(entry)), entries };
+}
+
+describe('createUsageStore', () => {
+  it('skips log entries that are not usage entries so summaries still work', () => {
+    const items = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    } as unknown as Storage;
+    const entry: UsageEntry = {
+      id: '1', timestamp: 0, providerId: 'mock', model: 'mock', operation: 'speech',
+      characters: 12, outputCharacters: 0, audioSeconds: 1, latencyMs: 5, outcome: 'success',
+    };
+    storage.setItem(USAGE_LOG_STORAGE_KEY, JSON.stringify([null, entry, 'text', { ...entry, id: '2', characters: '12' }]));
+
+    const store = createUsageStore(storage);
+    expect(store.list()).toEqual([entry]);
+    expect(summarizeUsage(store.list(), DEFAULT_PRICE_TABLE, 'day')).toMatchObject([{ requests: 1, characters: 12 }]);
+  });
+});
+
+describe('withUsageTracking', () => {
+  it('records each failed attempt and the successful one with the characters sent', async () => {
+    const { provider, entries } = tracked(reporting([
+      { characters: 40, latencyMs: 100, error: new ServerError('Busy.') },
+      { characters: 40, latencyMs: 200, error: new NetworkError('Offline.') },
+      { characters: 40, latencyMs: 300 },
+    ]));
+    const onAttempt = vi.fn();
+
+    await provider.generateSpeech({ ...speech, onAttempt });
+
+    expect(entries.map(({ characters, latencyMs, outcome, errorKind }) => ({ characters, latencyMs, outcome, errorKind }))).toEqual([
+      { characters: 40, latencyMs: 100, outcome: 'error', errorKind: 'server' },
+      { characters: 40, latencyMs: 200, outcome: 'error', errorKind: 'network' },
+      { characters: 40, latencyMs: 300, outcome: 'success', errorKind: undefined },
+    ]);
+    expect(entries[2].audioSeconds).toBeCloseTo(0.5);
+    expect(onAttempt).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not record a call twice when its only attempts failed', async () => {
+    const { provider, entries } = tracked(reporting([{ characters: 40, latencyMs: 100, error: new ServerError('Busy.') }], true));
+
+    await expect(provider.generateSpeech(speech)).rejects.toBeInstanceOf(ServerError);
+    expect(entries.map((entry) => entry.outcome)).toEqual(['error']);
+  });
+
+  it('records work that succeeded before a later attempt failed', async () => {
+    const { provider, entries } = tracked(reporting([
+      { characters: 10, latencyMs: 100 },
+      { characters: 20, latencyMs: 100, error: new NetworkError('Offline.') },
+    ], true));
+
+    await expect(provider.generateSpeech(speech)).rejects.toBeInstanceOf(NetworkError);
+    expect(entries.map(({ characters, outcome }) => [characters, outcome])).toEqual([[20, 'error'], [10, 'error']]);
+  });
+
+  it('records one entry with the script length when the provider reports no attempts', async () => {
+    const { provider, entries } = tracked(mockProvider);
+
+    await provider.generateSpeech(speech);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ characters: speech.script.length, outcome: 'success', providerId: 'mock' });
+  });
+});
+
+describe('withBudgetLimit', () => {
+  const now = Date.now();
+  const spent: UsageEntry = {
+    id: '1', timestamp: now, providerId: 'gemini', model: Object.keys(DEFAULT_PRICE_TABLE)[0], operation: 'speech',
+    characters: 1000000, outputCharacters: 0, audioSeconds: 6000, latencyMs: 1, outcome: 'success',
+  };
+  const status = (dailyHard: number | null) => () =>
+    checkBudget([spent], DEFAULT_PRICE_TABLE, { dailySoft: null, dailyHard, monthlySoft: null, monthlyHard: null }, now);
+
+  it('refuses every request without calling the provider once a hard limit is reached', async () => {
+    const generateSpeech = vi.spyOn(mockProvider, 'generateSpeech');
+    const limited = withBudgetLimit(mockProvider, status(0.01));
+
+    await expect(limited.generateSpeech(speech)).rejects.toBeInstanceOf(BudgetExceededError);
+    await expect(limited.generateDialogueSpeech({ lines: [], speakerVoices: {}, emotion: 'neutral', language: 'english' }))
+      .rejects.toBeInstanceOf(BudgetExceededError);
+    await expect(limited.streamSpeech!(speech)[Symbol.asyncIterator]().next()).rejects.toThrow(/daily limit/);
+    expect(generateSpeech).not.toHaveBeenCalled();
+    generateSpeech.mockRestore();
+  });
+
+  it('passes requests through below the limit', async () => {
+    await expect(withBudgetLimit(mockProvider, status(null)).generateSpeech(speech)).resolves.toEqual(expect.any(String));
+  });
+});
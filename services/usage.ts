@@ -0,0 +1,416 @@
+import { UsageEntry, UsageOperation, PriceTable, ModelPrice, UsageBudget, ProviderAttempt } from '../types';
+import { TtsProvider } from './providers/ttsProvider';
+import { toSpeechError, CancelledError, BudgetExceededError } from './speechErrors';
+import { isRecord, readStoredJson, createStoredList } from './jsonStorage';
+import {
+  USAGE_LOG_STORAGE_KEY,
+  USAGE_SETTINGS_STORAGE_KEY,
+  USAGE_LOG_MAX_ENTRIES,
+  DEFAULT_PRICE_TABLE,
+  DEFAULT_USAGE_BUDGET,
+  TTS_SAMPLE_RATE,
+} from '../constants';
+
+export interface UsageSettings {
+  prices: PriceTable;
+  budget: UsageBudget;
+}
+
+/**
+ * Local log of provider requests plus the price table and budget used to
+ * estimate their cost. Nothing here is sent anywhere.
+ */
+export interface UsageStore {
+  list(): UsageEntry[];
+  record(entry: Omit<UsageEntry, 'id'>): UsageEntry;
+  clear(): void;
+  settings(): UsageSettings;
+  saveSettings(settings: UsageSettings): void;
+}
+
+const toLimit = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+
+const toPrice = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : 0;
+
+// The fields the summaries and budget checks read; a log entry missing one is dropped
+const isUsageEntry = (value: unknown): value is UsageEntry =>
+  isRecord(value)
+  && typeof value.id === 'string'
+  && typeof value.providerId === 'string'
+  && typeof value.model === 'string'
+  && typeof value.operation === 'string'
+  && typeof value.outcome === 'string'
+  && ['timestamp', 'characters', 'outputCharacters', 'audioSeconds', 'latencyMs'].every((field) => Number.isFinite(value[field]));
+
+export function createUsageStore(storage: Storage = localStorage): UsageStore {
+  const { read, write } = createStoredList(storage, USAGE_LOG_STORAGE_KEY, isUsageEntry);
+
+  return {
+    list: read,
+
+    record(draft) {
+      const entry: UsageEntry = { ...draft, id: crypto.randomUUID() };
+      write([...read(), entry].slice(-USAGE_LOG_MAX_ENTRIES));
+      return entry;
+    },
+
+    clear() {
+      write([]);
+    },
+
+    settings() {
+      const parsed = readStoredJson(storage, USAGE_SETTINGS_STORAGE_KEY);
+      const stored = isRecord(parsed) ? parsed : {};
+      // Stored prices override the defaults model by model, so new default models still appear
+      const prices: PriceTable = { ...DEFAULT_PRICE_TABLE };
+      if (isRecord(stored.prices)) {
+        Object.entries(stored.prices).forEach(([model, price]) => {
+          if (isRecord(price)) {
+            prices[model] = {
+              inputPer1kChars: toPrice(price.inputPer1kChars),
+              outputPer1kChars: toPrice(price.outputPer1kChars),
+              audioPerMinute: toPrice(price.audioPerMinute),
+            };
+          }
+        });
+      }
+      const budget = isRecord(stored.budget) ? stored.budget : {};
+      return {
+        prices,
+        budget: {
+          dailySoft: toLimit(budget.dailySoft ?? DEFAULT_USAGE_BUDGET.dailySoft),
+          dailyHard: toLimit(budget.dailyHard ?? DEFAULT_USAGE_BUDGET.dailyHard),
+          monthlySoft: toLimit(budget.monthlySoft ?? DEFAULT_USAGE_BUDGET.monthlySoft),
+          monthlyHard: toLimit(budget.monthlyHard ?? DEFAULT_USAGE_BUDGET.monthlyHard),
+        },
+      };
+    },
+
+    saveSettings(settings) {
+      storage.setItem(USAGE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    },
+  };
+}
+
+/**
+ * Seconds of 16-bit mono PCM at TTS_SAMPLE_RATE in a base64 string.
+ */
+export function base64AudioSeconds(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  const bytes = Math.floor((base64.length * 3) / 4) - padding;
+  return Math.max(0, bytes) / 2 / TTS_SAMPLE_RATE;
+}
+
+/**
+ * Wraps a provider so every request is passed to `onRecord` with its size,
+ * latency and outcome. Providers that report their attempts are billed per
+ * attempt: each failed retry is its own entry, and the successful ones are
+ * recorded with the prompt characters actually sent. Other providers are
+ * recorded once per call with the script length.
+ */
+export function withUsageTracking(provider: TtsProvider, onRecord: (entry: Omit<UsageEntry, 'id'>) => void): TtsProvider {
+  const failure = (err: unknown) => {
+    const kind = toSpeechError(err).kind;
+    return { outcome: kind === 'cancelled' ? 'cancelled' as const : 'error' as const, errorKind: kind };
+  };
+
+  // Collects the attempts reported during one call, recording failed ones as they happen
+  const begin = (operation: UsageOperation, characters: number, onAttempt?: (attempt: ProviderAttempt) => void) => {
+    const timestamp = Date.now();
+    const started = performance.now();
+    const base = {
+      providerId: provider.id,
+      model: operation === 'translation' ? provider.textModel ?? provider.model : provider.model,
+      operation,
+    };
+    const succeeded = { count: 0, characters: 0, latencyMs: 0 };
+    let reported = false;
+
+    // Succeeded attempts, or the whole call when the provider reported none
+    const total = () => (reported
+      ? { characters: succeeded.characters, latencyMs: succeeded.latencyMs }
+      : { characters, latencyMs: Math.round(performance.now() - started) });
+
+    return {
+      onAttempt(attempt: ProviderAttempt, recordFailure = true) {
+        reported = true;
+        if (attempt.error === undefined || !recordFailure) {
+          succeeded.count++;
+          succeeded.characters += attempt.characters;
+          succeeded.latencyMs += attempt.latencyMs;
+        } else {
+          onRecord({
+            ...base,
+            timestamp: Date.now() - attempt.latencyMs,
+            characters: attempt.characters,
+            outputCharacters: 0,
+            audioSeconds: 0,
+            latencyMs: attempt.latencyMs,
+            ...failure(attempt.error),
+          });
+        }
+        onAttempt?.(attempt);
+      },
+      succeed(audioSeconds: number, outputCharacters = 0) {
+        onRecord({ ...base, timestamp, ...total(), outputCharacters, audioSeconds, outcome: 'success' });
+      },
+      fail(err: unknown, audioSeconds = 0) {
+        // Failed attempts are already recorded; only unreported or succeeded work is left
+        if (!reported || succeeded.count > 0) {
+          onRecord({ ...base, timestamp, ...total(), outputCharacters: 0, audioSeconds, ...failure(err) });
+        }
+      },
+    };
+  };
+
+  const track = async <P extends { onAttempt?: (attempt: ProviderAttempt) => void }, T>(
+    operation: UsageOperation,
+    characters: number,
+    params: P,
+    run: (params: P) => Promise<T>,
+    measure: (result: T) => { audioSeconds?: number, outputCharacters?: number },
+  ): Promise<T> => {
+    const request = begin(operation, characters, params.onAttempt);
+    try {
+      const result = await run({ ...params, onAttempt: (attempt: ProviderAttempt) => request.onAttempt(attempt) });
+      const { audioSeconds = 0, outputCharacters = 0 } = measure(result);
+      request.succeed(audioSeconds, outputCharacters);
+      return result;
+    } catch (err) {
+      request.fail(err);
+      throw err;
+    }
+  };
+
+  const tracked: TtsProvider = {
+    ...provider,
+
+    generateSpeech(params) {
+      return track('speech', params.script.length, params, (params) => provider.generateSpeech(params), (audio) => ({
+        audioSeconds: base64AudioSeconds(audio),
+      }));
+    },
+
+    generateDialogueSpeech(params) {
+      const characters = params.lines.reduce((sum, line) => sum + line.text.length, 0);
+      return track('dialogue', characters, params, (params) => provider.generateDialogueSpeech(params), (clips) => ({
+        audioSeconds: clips.reduce((sum, clip) => sum + base64AudioSeconds(clip), 0),
+      }));
+    },
+  };
+
+  if (provider.streamSpeech) {
+    const stream = provider.streamSpeech.bind(provider);
+    tracked.streamSpeech = async function* (params) {
+      const request = begin('speech', params.script.length, params.onAttempt);
+      let audioSeconds = 0;
+      let recorded = false;
+      try {
+        // A stream is a single attempt, recorded with the audio it delivered
+        for await (const chunk of stream({ ...params, onAttempt: (attempt) => request.onAttempt(attempt, false) })) {
+          audioSeconds += base64AudioSeconds(chunk);
+          yield chunk;
+        }
+        recorded = true;
+        request.succeed(audioSeconds);
+      } catch (err) {
+        recorded = true;
+        request.fail(err, audioSeconds);
+        throw err;
+      } finally {
+        // The consumer stopped reading early
+        if (!recorded) {
+          request.fail(new CancelledError(), audioSeconds);
+        }
+      }
+    };
+  }
+
+  if (provider.translateScript) {
+    const translate = provider.translateScript.bind(provider);
+    tracked.translateScript = (params) =>
+      track('translation', params.script.length, params, translate, (text) => ({ outputCharacters: text.length }));
+  }
+
+  return tracked;
+}
+
+/**
+ * Estimated cost of one entry in US dollars. Failed requests are counted too,
+ * since the characters were still sent.
+ */
+export function estimateCost(entry: UsageEntry, prices: PriceTable): number {
+  const price: ModelPrice | undefined = prices[entry.model];
+  if (!price) {
+    return 0;
+  }
+  return (entry.characters / 1000) * price.inputPer1kChars
+    + (entry.outputCharacters / 1000) * price.outputPer1kChars
+    + (entry.audioSeconds / 60) * price.audioPerMinute;
+}
+
+export type UsagePeriod = 'day' | 'month';
+
+export interface UsageTotals {
+  period: string; // Local date, "2024-05-31" for days or "2024-05" for months
+  requests: number;
+  failures: number; // Errors and cancellations
+  characters: number;
+  audioSeconds: number;
+  averageLatencyMs: number;
+  cost: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export function usagePeriodKey(timestamp: number, period: UsagePeriod): string {
+  const date = new Date(timestamp);
+  const month = `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+  return period === 'month' ? month : `${month}-${pad(date.getDate())}`;
+}
+
+/**
+ * Totals per local day or month, newest first.
+ */
+export function summarizeUsage(entries: UsageEntry[], prices: PriceTable, period: UsagePeriod): UsageTotals[] {
+  const totals = new Map<string, UsageTotals & { latencySum: number }>();
+  entries.forEach((entry) => {
+    const key = usagePeriodKey(entry.timestamp, period);
+    const total = totals.get(key) ?? {
+      period: key, requests: 0, failures: 0, characters: 0, audioSeconds: 0, averageLatencyMs: 0, cost: 0, latencySum: 0,
+    };
+    total.requests++;
+    total.failures += entry.outcome === 'success' ? 0 : 1;
+    total.characters += entry.characters;
+    total.audioSeconds += entry.audioSeconds;
+    total.latencySum += entry.latencyMs;
+    total.cost += estimateCost(entry, prices);
+    totals.set(key, total);
+  });
+  return [...totals.values()]
+    .sort((a, b) => b.period.localeCompare(a.period))
+    .map(({ latencySum, ...total }) => ({ ...total, averageLatencyMs: Math.round(latencySum / total.requests) }));
+}
+
+export interface BudgetStatus {
+  level: 'ok' | 'warn' | 'block';
+  message: string | null;
+  todayCost: number;
+  monthCost: number;
+}
+
+export const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+/**
+ * Compares today's and this month's estimated spend against the budget. Hard
+ * limits block further generation; soft limits only warn.
+ */
+export function checkBudget(entries: UsageEntry[], prices: PriceTable, budget: UsageBudget, now: number = Date.now()): BudgetStatus {
+  const today = usagePeriodKey(now, 'day');
+  const month = usagePeriodKey(now, 'month');
+  let todayCost = 0;
+  let monthCost = 0;
+  entries.forEach((entry) => {
+    if (usagePeriodKey(entry.timestamp, 'month') === month) {
+      const cost = estimateCost(entry, prices);
+      monthCost += cost;
+      if (usagePeriodKey(entry.timestamp, 'day') === today) {
+        todayCost += cost;
+      }
+    }
+  });
+
+  const limits: { level: 'warn' | 'block', spent: number, limit: number | null, label: string }[] = [
+    { level: 'block', spent: todayCost, limit: budget.dailyHard, label: 'daily limit' },
+    { level: 'block', spent: monthCost, limit: budget.monthlyHard, label: 'monthly limit' },
+    { level: 'warn', spent: todayCost, limit: budget.dailySoft, label: 'daily budget' },
+    { level: 'warn', spent: monthCost, limit: budget.monthlySoft, label: 'monthly budget' },
+  ];
+  const reached = limits.find(({ spent, limit }) => limit !== null && spent >= limit);
+  if (!reached) {
+    return { level: 'ok', message: null, todayCost, monthCost };
+  }
+  const spent = `${formatCost(reached.spent)} of your ${formatCost(reached.limit!)} ${reached.label}`;
+  return {
+    level: reached.level,
+    message: reached.level === 'block'
+      ? `Generation is blocked: estimated spend has reached ${spent}. Raise the limit in Usage & cost to continue.`
+      : `Estimated spend has reached ${spent}.`,
+    todayCost,
+    monthCost,
+  };
+}
+
+/**
+ * Wraps a provider so no request is sent while a hard budget limit is
+ * reached. `currentBudget` is asked again before every request.
+ */
+export function withBudgetLimit(provider: TtsProvider, currentBudget: () => BudgetStatus): TtsProvider {
+  const ensureAllowed = () => {
+    const status = currentBudget();
+    if (status.level === 'block') {
+      throw new BudgetExceededError(status.message ?? 'A hard spending limit was reached.');
+    }
+  };
+
+  const limited: TtsProvider = {
+    ...provider,
+
+    async generateSpeech(params) {
+      ensureAllowed();
+      return provider.generateSpeech(params);
+    },
+
+    async generateDialogueSpeech(params) {
+      ensureAllowed();
+      return provider.generateDialogueSpeech(params);
+    },
+  };
+
+  if (provider.streamSpeech) {
+    const stream = provider.streamSpeech.bind(provider);
+    limited.streamSpeech = async function* (params) {
+      ensureAllowed();
+      yield* stream(params);
+    };
+  }
+
+  if (provider.translateScript) {
+    const translate = provider.translateScript.bind(provider);
+    limited.translateScript = async (params) => {
+      ensureAllowed();
+      return translate(params);
+    };
+  }
+
+  return limited;
+}
+
+const CSV_COLUMNS: (keyof UsageEntry)[] = [
+  'timestamp', 'providerId', 'model', 'operation', 'characters', 'outputCharacters', 'audioSeconds', 'latencyMs', 'outcome', 'errorKind',
+];
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * One CSV row per entry with an ISO timestamp and the estimated cost.
+ */
+export function usageToCsv(entries: UsageEntry[], prices: PriceTable): string {
+  const header = [...CSV_COLUMNS, 'estimatedCostUsd'].join(',');
+  const rows = entries.map((entry) => [
+    ...CSV_COLUMNS.map((column) => {
+      const value = entry[column];
+      if (column === 'timestamp') {
+        return new Date(entry.timestamp).toISOString();
+      }
+      if (column === 'audioSeconds') {
+        return entry.audioSeconds.toFixed(3);
+      }
+      return csvField(value === undefined ? '' : String(value));
+    }),
+    estimateCost(entry, prices).toFixed(6),
+  ].join(','));
+  return [header, ...rows].join('\r\n') + '\r\n';
+}
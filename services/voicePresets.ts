@@ -0,0 +1,147 @@
+import { VoicePreset, VoiceOption } from '../types';
+import { TtsProvider } from './providers/ttsProvider';
+import { normalizeProcessingSettings } from './processingPresets';
+import { isRecord, createStoredList } from './jsonStorage';
+import { VOICE_PRESETS_STORAGE_KEY, GEMINI_PREBUILT_VOICES, EMOTION_OPTIONS, LANGUAGE_OPTIONS } from '../constants';
+
+const EXPORT_FORMAT = 'pujiverse-voice-studio-voice-presets';
+const EXPORT_VERSION = 1;
+
+export type VoicePresetDraft = Omit<VoicePreset, 'id'>;
+
+export interface VoicePresetImportResult {
+  imported: VoicePreset[];
+  errors: string[]; // One message per preset that was skipped
+}
+
+/**
+ * Voice presets saved by the user. Saving under an existing name replaces
+ * that preset, which is also how imported presets are merged.
+ */
+export interface VoicePresetStore {
+  list(): VoicePreset[];
+  save(draft: VoicePresetDraft, id?: string): VoicePreset;
+  remove(id: string): void;
+  exportJson(): string;
+  importJson(text: string): VoicePresetImportResult;
+}
+
+/**
+ * Checks a preset read from an import file. Returns an error message, or the
+ * cleaned-up draft.
+ */
+export function validateVoicePreset(value: unknown): VoicePresetDraft | string {
+  if (!isRecord(value)) {
+    return 'Preset is not an object.';
+  }
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (!name) {
+    return 'Preset has no name.';
+  }
+  const voice = GEMINI_PREBUILT_VOICES.find((option) => option.name === value.voiceName);
+  if (!voice) {
+    return `"${name}": unknown base voice "${value.voiceName}".`;
+  }
+  const emotion = EMOTION_OPTIONS.find((option) => option.id === value.emotion);
+  if (!emotion) {
+    return `"${name}": unknown emotion "${value.emotion}".`;
+  }
+  const language = LANGUAGE_OPTIONS.find((option) => option.id === value.language);
+  if (!language) {
+    return `"${name}": unknown language "${value.language}".`;
+  }
+  return {
+    name,
+    voiceName: voice.name,
+    emotion: emotion.id,
+    language: language.id,
+    stylePrompt: typeof value.stylePrompt === 'string' ? value.stylePrompt.trim() : '',
+    ...(value.processing !== undefined ? { processing: normalizeProcessingSettings(value.processing) } : {}),
+  };
+}
+
+const isStoredPreset = (value: unknown): value is VoicePreset =>
+  isRecord(value) && typeof value.id === 'string' && typeof validateVoicePreset(value) !== 'string';
+
+export function createVoicePresetStore(storage: Storage = localStorage): VoicePresetStore {
+  const { read, write } = createStoredList(storage, VOICE_PRESETS_STORAGE_KEY, isStoredPreset);
+
+  const save = (draft: VoicePresetDraft, id?: string): VoicePreset => {
+    const name = draft.name.trim();
+    if (!name) {
+      throw new Error('Preset name cannot be empty.');
+    }
+    const existing = read();
+    const clash = existing.find((preset) => preset.name === name && preset.id !== id);
+    if (clash && id) {
+      throw new Error(`A preset named "${name}" already exists.`);
+    }
+    const preset: VoicePreset = { ...draft, name, id: id ?? clash?.id ?? crypto.randomUUID() };
+    const index = existing.findIndex((p) => p.id === preset.id);
+    write(index === -1 ? [...existing, preset] : existing.map((p, i) => (i === index ? preset : p)));
+    return preset;
+  };
+
+  return {
+    list: read,
+    save,
+
+    remove(id) {
+      write(read().filter((preset) => preset.id !== id));
+    },
+
+    exportJson() {
+      const presets = read().map(({ id, ...draft }) => draft);
+      return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, presets }, null, 2);
+    },
+
+    importJson(text) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        throw new Error('The preset file is not valid JSON.');
+      }
+      // A bare array of presets is accepted too, for hand-written files
+      const entries = Array.isArray(parsed) ? parsed : isRecord(parsed) && parsed.format === EXPORT_FORMAT ? parsed.presets : null;
+      if (!Array.isArray(entries)) {
+        throw new Error('This is not a voice preset file.');
+      }
+      const result: VoicePresetImportResult = { imported: [], errors: [] };
+      entries.forEach((entry, index) => {
+        const draft = validateVoicePreset(entry);
+        if (typeof draft === 'string') {
+          result.errors.push(`Preset ${index + 1}: ${draft}`);
+        } else {
+          result.imported.push(save(draft));
+        }
+      });
+      return result;
+    },
+  };
+}
+
+export const voicePresetOptionId = (presetId: string) => `preset-${presetId}`;
+
+export function voicePresetOption(preset: VoicePreset): VoiceOption {
+  const style = GEMINI_PREBUILT_VOICES.find((voice) => voice.name === preset.voiceName)?.style;
+  return {
+    id: voicePresetOptionId(preset.id),
+    label: `${preset.name} (Custom: ${preset.voiceName})`,
+    voiceName: preset.voiceName,
+    description: preset.stylePrompt || `Custom preset based on ${preset.voiceName}${style ? ` (${style})` : ''}.`,
+    stylePrompt: preset.stylePrompt || undefined,
+    presetId: preset.id,
+  };
+}
+
+/**
+ * Adds the user's presets to the voice list of providers that accept any
+ * Gemini prebuilt voice; other providers are returned unchanged.
+ */
+export function withVoicePresets(provider: TtsProvider, presets: VoicePreset[]): TtsProvider {
+  if (!provider.supportsVoicePresets || presets.length === 0) {
+    return provider;
+  }
+  return { ...provider, voices: [...provider.voices, ...presets.map(voicePresetOption)] };
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { computePeaks } from './waveform';
+
+const peaks = (samples: number[], buckets: number) => {
+  const { min, max } = computePeaks(Float32Array.from(samples), buckets);
+  return { min: Array.from(min), max: Array.from(max) };
+};
+
+describe('computePeaks', () => {
+  it('takes the min and max of each equal share of the samples', () => {
+    expect(peaks([0.5, -0.5, 0.25, 0, -1, 1, 0.75, 0.5], 4)).toEqual({
+      min: [-0.5, 0, -1, 0.5],
+      max: [0.5, 0.25, 1, 0.75],
+    });
+  });
+
+  it('spreads leftover samples across buckets without dropping any', () => {
+    const result = peaks([1, 0, 0, 0, 0, 0, 0, -1, 0, 0.5], 3);
+    expect(result.max).toEqual([1, 0, 0.5]);
+    expect(result.min).toEqual([0, 0, -1]);
+  });
+
+  it('repeats samples when there are more buckets than samples', () => {
+    expect(peaks([0.5, -0.5], 4)).toEqual({ min: [0.5, 0.5, -0.5, -0.5], max: [0.5, 0.5, -0.5, -0.5] });
+  });
+
+  it('returns zeroed buckets for empty input and no buckets for a zero or negative count', () => {
+    expect(peaks([], 3)).toEqual({ min: [0, 0, 0], max: [0, 0, 0] });
+    expect(peaks([1], 0)).toEqual({ min: [], max: [] });
+    expect(peaks([1], -2)).toEqual({ min: [], max: [] });
+  });
+
+  it('rounds a fractional bucket count down', () => {
+    expect(peaks([1, 2, 3, 4], 2.9).max).toEqual([2, 4]);
+  });
+
+  it('keeps peaks of a long signal within the sample range', () => {
+    const samples = Float32Array.from({ length: 48000 }, (_, i) => 0.9 * Math.sin(i / 10));
+    const { min, max } = computePeaks(samples, 500);
+    expect(Math.max(...max)).toBeCloseTo(0.9, 2);
+    expect(Math.min(...min)).toBeCloseTo(-0.9, 2);
+    expect(min.every((value, i) => value <= max[i])).toBe(true);
+  });
+});
@@ -0,0 +1,38 @@
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+/**
+ * Reduces samples to `bucketCount` min/max pairs for drawing a waveform. Each
+ * bucket covers an equal share of the samples; buckets past the end of a short
+ * signal are left at zero.
+ */
+export function computePeaks(samples: Float32Array, bucketCount: number): WaveformPeaks {
+  const count = Math.max(0, Math.floor(bucketCount));
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+  if (count === 0 || samples.length === 0) {
+    return { min, max };
+  }
+
+  const samplesPerBucket = samples.length / count;
+  for (let bucket = 0; bucket < count; bucket++) {
+    const start = Math.floor(bucket * samplesPerBucket);
+    const end = Math.min(samples.length, Math.max(start + 1, Math.floor((bucket + 1) * samplesPerBucket)));
+    if (start >= samples.length) {
+      break;
+    }
+    let low = Infinity;
+    let high = -Infinity;
+    for (let i = start; i < end; i++) {
+      const value = samples[i];
+      if (value < low) low = value;
+      if (value > high) high = value;
+    }
+    min[bucket] = low;
+    max[bucket] = high;
+  }
+
+  return { min, max };
+}
@@ -0,0 +1,98 @@
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number, date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Builds a ZIP archive with every entry stored uncompressed. Audio compresses
+ * poorly with deflate anyway, and storing keeps this dependency-free.
+ * File names are written as UTF-8.
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const names = entries.map((entry) => encoder.encode(entry.name));
+
+  const localSize = entries.reduce((sum, entry, i) => sum + 30 + names[i].length + entry.data.length, 0);
+  const centralSize = names.reduce((sum, name) => sum + 46 + name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+
+  const localOffsets: number[] = [];
+  const checksums: number[] = [];
+  let offset = 0;
+
+  entries.forEach((entry, i) => {
+    const crc = crc32(entry.data);
+    localOffsets.push(offset);
+    checksums.push(crc);
+
+    view.setUint32(offset, 0x04034B50, true); // Local file header signature
+    view.setUint16(offset + 4, 20, true); // Version needed (2.0)
+    view.setUint16(offset + 6, 0x0800, true); // Flags: UTF-8 names
+    view.setUint16(offset + 8, 0, true); // Method: stored
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, crc, true);
+    view.setUint32(offset + 18, entry.data.length, true); // Compressed size
+    view.setUint32(offset + 22, entry.data.length, true); // Uncompressed size
+    view.setUint16(offset + 26, names[i].length, true);
+    view.setUint16(offset + 28, 0, true); // Extra field length
+    bytes.set(names[i], offset + 30);
+    bytes.set(entry.data, offset + 30 + names[i].length);
+    offset += 30 + names[i].length + entry.data.length;
+  });
+
+  const centralStart = offset;
+  entries.forEach((entry, i) => {
+    view.setUint32(offset, 0x02014B50, true); // Central directory header signature
+    view.setUint16(offset + 4, 20, true); // Version made by
+    view.setUint16(offset + 6, 20, true); // Version needed
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, checksums[i], true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, names[i].length, true);
+    // Extra, comment, disk number, internal and external attributes stay zero
+    view.setUint32(offset + 42, localOffsets[i], true);
+    bytes.set(names[i], offset + 46);
+    offset += 46 + names[i].length;
+  });
+
+  view.setUint32(offset, 0x06054B50, true); // End of central directory signature
+  view.setUint16(offset + 8, entries.length, true); // Entries on this disk
+  view.setUint16(offset + 10, entries.length, true); // Total entries
+  view.setUint32(offset + 12, offset - centralStart, true); // Central directory size
+  view.setUint32(offset + 16, centralStart, true); // Central directory offset
+  return bytes;
+}
@@ -5,7 +5,285 @@ export interface VoiceOption {
   label: string;
   voiceName: string;
   description: string;
+  stylePrompt?: string; // Extra delivery instruction added to the prompt (custom presets)
+  presetId?: string; // Set on options built from a VoicePreset
 }
 
 export type Emotion = 'neutral' | 'happy' | 'sad' | 'angry' | 'cheerful' | 'calm' | 'excited';
-export type Language = 'english' | 'telugu' | 'hindi' | 'tamil';
\ No newline at end of file
+export type Language = 'english' | 'telugu' | 'hindi' | 'tamil';
+export type GenerationMode = 'single' | 'dialogue';
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+  lineNumber: number; // 1-based line in the original script where this turn starts
+}
+
+// Maps a speaker name from the script to a VoiceOption id.
+export type SpeakerVoiceMap = Record<string, string>;
+
+export type ChunkStatus = 'pending' | 'generating' | 'done' | 'error';
+
+export interface ScriptChunk {
+  index: number;
+  text: string;
+  status: ChunkStatus;
+  error?: string;
+  slow?: boolean;
+  pauseAfterMs?: number; // Silence from [pause] markup; replaces the default gap after this chunk
+  cached?: boolean; // Audio came from the local cache, no request was made
+}
+
+// A generated take kept in the local history library. The audio is stored
+// separately and loaded with HistoryStore.getAudio.
+export interface HistoryTake {
+  id: string;
+  providerId?: TtsProviderId; // Missing on takes saved before providers were selectable (Gemini)
+  name: string;
+  script: string;
+  mode: GenerationMode;
+  voiceId: string;
+  speakerVoices?: SpeakerVoiceMap; // Only set for dialogue takes
+  emotion: Emotion;
+  language: Language;
+  createdAt: number; // Epoch milliseconds
+  sampleRate: number;
+  bytes: number; // Size of the mono 16-bit little-endian PCM
+}
+
+export type ExportFormat = 'wav' | 'flac' | 'mp3' | 'ogg-opus';
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface ExportSettings {
+  format: ExportFormat;
+  wavBitDepth: WavBitDepth;
+  mp3Bitrate: number; // kbps
+  opusBitrate: number; // kbps
+  sampleRate: number | null; // Target sample rate, or null to keep the native rate
+}
+
+export interface GenerateSpeechParams {
+  script: string;
+  voiceOption: VoiceOption;
+  emotion: Emotion;
+  language: Language;
+  slow?: boolean; // From <slow> markup spans
+  signal?: AbortSignal; // Aborting rejects with CancelledError
+  forceRegenerate?: boolean; // Skip the audio cache; the new audio replaces the cached copy
+  onCacheHit?: () => void; // Called when the audio came from the cache instead of the provider
+  maxAttempts?: number; // Provider-level attempts (default SPEECH_RETRY_ATTEMPTS); 1 when the caller retries itself
+  onAttempt?: (attempt: ProviderAttempt) => void; // Called after every request the provider sends, retries included
+}
+
+// One billed request, as reported by a provider through `onAttempt`
+export interface ProviderAttempt {
+  characters: number; // Prompt characters sent, style directives included
+  latencyMs: number;
+  error?: unknown; // Why the request failed; absent when it succeeded
+}
+
+export interface GenerateDialogueSpeechParams {
+  lines: DialogueLine[];
+  speakerVoices: Record<string, VoiceOption>; // Speaker name -> voice, for every speaker in `lines`
+  emotion: Emotion;
+  language: Language;
+  signal?: AbortSignal;
+  forceRegenerate?: boolean; // Skip the audio cache; the new audio replaces the cached copy
+  onCacheHit?: () => void; // Called when the clips came from the cache instead of the provider
+  onAttempt?: (attempt: ProviderAttempt) => void;
+}
+
+export type TtsProviderId = 'gemini' | 'mock' | 'http';
+
+export type NormalizationMode = 'none' | 'peak' | 'loudness';
+
+export interface ProcessingSettings {
+  enabled: boolean;
+  highPass: { enabled: boolean, cutoffHz: number };
+  eq: { enabled: boolean, lowGainDb: number, midGainDb: number, highGainDb: number };
+  trimSilence: { enabled: boolean, thresholdDb: number, paddingMs: number };
+  normalization: { mode: NormalizationMode, peakDb: number, targetLufs: number };
+  fades: { fadeInMs: number, fadeOutMs: number };
+}
+
+export interface ProcessingPreset {
+  id: string;
+  name: string;
+  settings: ProcessingSettings;
+  builtIn?: boolean;
+}
+
+export interface BatchRow {
+  id: string;
+  script: string;
+  voiceId: string;
+  emotion: Emotion;
+  language: Language;
+}
+
+export interface BatchRowError {
+  row: number; // 1-based data row (CSV header and JSON array index excluded)
+  id?: string;
+  message: string;
+}
+
+export type BatchRowStatus = 'queued' | 'generating' | 'success' | 'failed' | 'cancelled';
+
+export interface BatchRowResult {
+  id: string;
+  status: BatchRowStatus;
+  attempts: number;
+  fileName?: string;
+  error?: string;
+}
+
+export type SpeechErrorKind = 'auth' | 'quota' | 'budget' | 'safety' | 'empty-audio' | 'network' | 'server' | 'cancelled' | 'unknown';
+
+// What the UI offers next to an error message
+export type ErrorRecoveryAction = 'select-key' | 'retry' | 'edit-script';
+
+// Editable session state, as saved in project files and the autosave slot
+export interface ProjectState {
+  providerId: TtsProviderId;
+  mode: GenerationMode;
+  script: string;
+  voiceId: string;
+  speakerVoices: SpeakerVoiceMap; // Only used in dialogue mode
+  emotion: Emotion;
+  language: Language;
+  chunkSilenceMs: number;
+  processing: ProcessingSettings;
+}
+
+export interface ProjectAudio {
+  sampleRate: number;
+  pcm: string; // Base64 mono 16-bit little-endian PCM, before post-processing
+}
+
+export interface ProjectFile extends ProjectState {
+  format: 'pujiverse-voice-studio-project';
+  version: number;
+  name: string;
+  savedAt: string; // ISO 8601
+  audio?: ProjectAudio;
+}
+
+// A user-defined voice: a Gemini prebuilt voice plus delivery defaults
+export interface VoicePreset {
+  id: string;
+  name: string;
+  voiceName: string;
+  emotion: Emotion;
+  language: Language;
+  stylePrompt: string; // e.g. "like a late-night radio host"; empty for none
+  processing?: ProcessingSettings; // Applied when the preset is selected
+}
+
+// Optional step that rewrites the script before synthesis
+export type ScriptConversionMode = 'none' | 'transliterate' | 'translate';
+
+export interface TranslateScriptParams {
+  script: string;
+  language: Language; // Target language
+  signal?: AbortSignal;
+  onAttempt?: (attempt: ProviderAttempt) => void;
+}
+
+export type UsageOperation = 'speech' | 'dialogue' | 'translation';
+export type UsageOutcome = 'success' | 'error' | 'cancelled';
+
+// One provider request, as recorded in the local usage log
+export interface UsageEntry {
+  id: string;
+  timestamp: number; // Epoch milliseconds when the request started
+  providerId: TtsProviderId;
+  model: string;
+  operation: UsageOperation;
+  characters: number; // Script characters sent
+  outputCharacters: number; // Translated characters returned
+  audioSeconds: number; // Audio returned
+  latencyMs: number;
+  outcome: UsageOutcome;
+  errorKind?: SpeechErrorKind;
+}
+
+// Estimated prices in US dollars; models without an entry are counted as free
+export interface ModelPrice {
+  inputPer1kChars: number;
+  outputPer1kChars: number;
+  audioPerMinute: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Spending limits in US dollars; null means no limit
+export interface UsageBudget {
+  dailySoft: number | null;
+  dailyHard: number | null;
+  monthlySoft: number | null;
+  monthlyHard: number | null;
+}
+
+export type TimelineTrack = 'voice' | 'music';
+
+// A stretch of one source placed on a timeline track. Times are in seconds.
+export interface TimelineClip {
+  id: string;
+  track: TimelineTrack;
+  sourceId: string;
+  sourceDuration: number; // Length of the whole source, the limit for trimming
+  start: number; // Position on the timeline
+  offset: number; // Amount trimmed from the start of the source
+  duration: number; // Amount played from `offset`
+  gainDb: number;
+}
+
+// Lowers the music track while any voice clip is playing
+export interface DuckingSettings {
+  enabled: boolean;
+  amountDb: number; // Reduction under speech
+  attackMs: number; // Fade down before speech starts
+  releaseMs: number; // Fade back up after speech ends
+}
+
+export interface Timeline {
+  clips: TimelineClip[];
+  ducking: DuckingSettings;
+}
+
+// Gain of the music track at a point in time; linear between points
+export interface EnvelopePoint {
+  time: number;
+  gain: number;
+}
+
+// A pronunciation fix: `term` in the script is spoken as `replacement`
+export interface LexiconEntry {
+  id: string;
+  term: string;
+  replacement: string;
+  language: Language | null; // null applies to every language
+  caseSensitive: boolean;
+  wholeWord: boolean; // Only match where the term is not part of a longer word
+}
+
+export type ShortcutAction = 'generate' | 'playPause' | 'download' | 'cancel';
+
+// A studio-wide key combination. `code` is KeyboardEvent.code, so Alt+letter
+// still matches on macOS where Option changes the typed character.
+export interface KeyboardShortcut {
+  code: string;
+  primary?: boolean; // Ctrl, or Cmd on macOS
+  alt?: boolean;
+  shift?: boolean;
+  description: string;
+}
+
+// Bookkeeping for one cached clip; the audio itself is stored separately so
+// eviction can scan entries without loading any audio
+export interface SpeechCacheEntry {
+  key: string; // SHA-256 of the request, see speechCacheKey
+  bytes: number; // Size of the stored base64 audio
+  createdAt: number;
+  lastUsedAt: number;
+}